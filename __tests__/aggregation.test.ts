@@ -0,0 +1,228 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { aggregate, runPipeline } from "../src";
+
+interface Order {
+  id: number;
+  status: "paid" | "refunded";
+  amount: number;
+  discount?: number;
+  customer: { name: string; country: string };
+  items: string[];
+  placedAt: Date;
+}
+
+const orders: Order[] = [
+  {
+    id: 1,
+    status: "paid",
+    amount: 100,
+    discount: 10,
+    customer: { name: "Alice", country: "DE" },
+    items: ["book", "pen"],
+    placedAt: new Date("2024-01-05"),
+  },
+  {
+    id: 2,
+    status: "paid",
+    amount: 250,
+    customer: { name: "Bob", country: "US" },
+    items: ["laptop"],
+    placedAt: new Date("2024-01-02"),
+  },
+  {
+    id: 3,
+    status: "refunded",
+    amount: 40,
+    customer: { name: "Alice", country: "DE" },
+    items: [],
+    placedAt: new Date("2024-02-01"),
+  },
+  {
+    id: 4,
+    status: "paid",
+    amount: 60,
+    customer: { name: "Carol", country: "DE" },
+    items: ["pen"],
+    placedAt: new Date("2024-03-10"),
+  },
+];
+
+describe("aggregate", () => {
+  it("matches, groups, sorts and limits", () => {
+    const result = aggregate<Order>()
+      .match({ status: "paid" })
+      .group({
+        _id: "$customer.country",
+        total: { $sum: "$amount" },
+        orders: { $sum: 1 },
+      })
+      .sort({ total: -1 })
+      .limit(1)
+      .run(orders);
+
+    expect(result).toEqual([{ _id: "US", total: 250, orders: 1 }]);
+  });
+
+  it("computes every accumulator", () => {
+    const [de] = aggregate<Order>()
+      .match({ "customer.country": "DE" })
+      .group({
+        _id: null,
+        avg: { $avg: "$amount" },
+        min: { $min: "$placedAt" },
+        max: { $max: "$amount" },
+        names: { $push: "$customer.name" },
+        unique: { $addToSet: "$customer.name" },
+        first: { $first: "$id" },
+        last: { $last: "$id" },
+        discounts: { $push: "$discount" },
+        maxDiscount: { $max: "$discount" },
+      })
+      .run(orders);
+
+    expect(de).toEqual({
+      _id: null,
+      avg: 200 / 3,
+      min: new Date("2024-01-05"),
+      max: 100,
+      names: ["Alice", "Alice", "Carol"],
+      unique: ["Alice", "Carol"],
+      first: 1,
+      last: 4,
+      discounts: [10],
+      maxDiscount: 10,
+    });
+  });
+
+  it("groups by compound keys", () => {
+    const result = aggregate<Order>()
+      .group({
+        _id: { country: "$customer.country", status: "$status" },
+        n: { $sum: 1 },
+      })
+      .run(orders);
+
+    expect(result).toEqual([
+      { _id: { country: "DE", status: "paid" }, n: 2 },
+      { _id: { country: "US", status: "paid" }, n: 1 },
+      { _id: { country: "DE", status: "refunded" }, n: 1 },
+    ]);
+  });
+
+  it("unwinds arrays, optionally preserving empty ones", () => {
+    const sold = aggregate<Order>()
+      .unwind("$items")
+      .group({ _id: "$items", sold: { $sum: 1 } })
+      .sort({ sold: -1, _id: 1 })
+      .run(orders);
+    expect(sold).toEqual([
+      { _id: "pen", sold: 2 },
+      { _id: "book", sold: 1 },
+      { _id: "laptop", sold: 1 },
+    ]);
+
+    const preserved = aggregate<Order>()
+      .unwind("$items", { preserveNullAndEmptyArrays: true })
+      .run(orders);
+    expect(preserved).toHaveLength(5);
+    expect(preserved[3]).not.toHaveProperty("items");
+  });
+
+  it("projects, skips and exposes raw stages", () => {
+    const pipeline = aggregate<Order>()
+      .sort({ placedAt: 1 })
+      .skip(1)
+      .project({ id: 1, "customer.name": 1 });
+
+    expect(pipeline.run(orders)).toEqual([
+      { id: 1, customer: { name: "Alice" } },
+      { id: 3, customer: { name: "Alice" } },
+      { id: 4, customer: { name: "Carol" } },
+    ]);
+    expect(pipeline.toStages()).toEqual([
+      { $sort: { placedAt: 1 } },
+      { $skip: 1 },
+      { $project: { id: 1, "customer.name": 1 } },
+    ]);
+  });
+
+  it("does not mutate a shared base pipeline", () => {
+    const paid = aggregate<Order>().match({ status: "paid" });
+    paid.limit(1);
+    expect(paid.run(orders)).toHaveLength(3);
+  });
+
+  it("does not mutate input documents", () => {
+    const before = structuredClone(orders);
+    aggregate<Order>().unwind("$items").project({ items: 0 }).run(orders);
+    expect(orders).toEqual(before);
+  });
+});
+
+describe("runPipeline", () => {
+  it("runs raw stages", () => {
+    const result = runPipeline(orders, [
+      { $match: { amount: { $gt: 50 } } },
+      { $group: { _id: "$status", total: { $sum: "$amount" } } },
+    ]);
+    expect(result).toEqual([{ _id: "paid", total: 410 }]);
+  });
+
+  it("rejects unsupported stages and accumulators", () => {
+    expect(() =>
+      // @ts-expect-error - not a supported stage
+      runPipeline(orders, [{ $lookup: {} }])
+    ).toThrow("Unsupported pipeline stage");
+    expect(() =>
+      runPipeline(orders, [{ $group: { _id: null, x: { $median: "$a" } } }])
+    ).toThrow("Unsupported $group accumulator");
+  });
+});
+
+describe("aggregation types", () => {
+  it("carries each stage's output type forward", () => {
+    const rows = aggregate<Order>()
+      .group({
+        _id: "$customer.country",
+        total: { $sum: "$amount" },
+        biggest: { $max: "$amount" },
+        names: { $addToSet: "$customer.name" },
+        discount: { $first: "$discount" },
+      })
+      .run(orders);
+
+    expectTypeOf(rows).toEqualTypeOf<
+      {
+        _id: string;
+        total: number;
+        biggest: number;
+        names: string[];
+        discount: number | null;
+      }[]
+    >();
+  });
+
+  it("types unwound arrays as their elements", () => {
+    const rows = aggregate<Order>().unwind("$items").run(orders);
+    expectTypeOf(rows[0]!.items).toEqualTypeOf<string>();
+  });
+
+  it("checks field names against the current stage", () => {
+    const grouped = aggregate<Order>().group({
+      _id: "$status",
+      total: { $sum: "$amount" },
+    });
+
+    grouped.sort({ total: -1 });
+    // @ts-expect-error - `amount` no longer exists after $group
+    grouped.sort({ amount: -1 });
+    // @ts-expect-error - unknown field reference
+    aggregate<Order>().group({ _id: "$nope" });
+    // @ts-expect-error - $sum needs a numeric field
+    aggregate<Order>().group({ _id: null, s: { $sum: "$status" } });
+    // @ts-expect-error - fields besides _id must be accumulators
+    aggregate<Order>().group({ _id: null, total: "$amount" });
+    // @ts-expect-error - only array fields can be unwound
+    aggregate<Order>().unwind("$status");
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import {
+  QueryBuilder,
+  listConditions,
+  query,
+  queryFromConditions,
+} from "../src";
+import type { QueryCondition, SafeSiftQuery } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  role: "admin" | "user" | "guest";
+  tags: string[];
+  spent: number;
+  budget: number;
+  posts: { title: string; likes: number }[];
+  profile: { city: string; verified: boolean };
+}
+
+const stored: SafeSiftQuery<User> = {
+  age: { $gte: 18, $lt: 65 },
+  "profile.city": "Berlin",
+  $or: [
+    { role: "admin" },
+    { tags: { $all: ["staff"] }, name: { $regex: /^a/i } },
+    { $not: { "profile.verified": false } },
+  ],
+  $nor: [{ posts: { $elemMatch: { likes: { $gt: 100 } } } }],
+  $expr: { $gt: ["$spent", "$budget"] },
+};
+
+describe("QueryBuilder.from", () => {
+  it("reconstructs an equivalent builder", () => {
+    const builder = QueryBuilder.from(stored);
+    expect(builder.build()).toEqual(stored);
+    expect(Object.keys(builder.build())).toEqual(Object.keys(stored));
+    expect(builder.and("name").equals("Ann").build()).toEqual({
+      ...stored,
+      $and: [{ name: "Ann" }],
+    });
+  });
+
+  it("round-trips builder output, including negation", () => {
+    const built = query<User>()
+      .where("age")
+      .between(20, 30)
+      .or("role")
+      .equals("admin")
+      .andGroup((q) => q.where("tags").contains("x").or("name").regex(/b/))
+      .nor((q) => q.where("profile.verified").equals(false))
+      .not()
+      .build();
+
+    const builder = QueryBuilder.from(built);
+    expect(builder.build()).toEqual(built);
+    expect(builder.removeNot().build()).toEqual(built.$not);
+
+    const double: SafeSiftQuery<User> = { $not: { $not: { age: 1 } } };
+    expect(QueryBuilder.from(double).build()).toEqual(double);
+  });
+
+  it("copies the query instead of sharing it", () => {
+    const source: SafeSiftQuery<User> = { $and: [{ age: 30 }] };
+    const builder = QueryBuilder.from(source);
+    source.$and!.push({ name: "Ann" });
+    expect(builder.build()).toEqual({ $and: [{ age: 30 }] });
+    expect(Object.isFrozen(builder.build().$and)).toBe(true);
+  });
+});
+
+describe("conditions", () => {
+  it("lists every clause with its pointer", () => {
+    expect(QueryBuilder.from(stored).conditions()).toEqual([
+      { pointer: "/age/$gte", field: "age", operator: "$gte", value: 18 },
+      { pointer: "/age/$lt", field: "age", operator: "$lt", value: 65 },
+      {
+        pointer: "/profile.city",
+        field: "profile.city",
+        operator: "$eq",
+        value: "Berlin",
+      },
+      {
+        pointer: "/$or/0/role",
+        field: "role",
+        operator: "$eq",
+        value: "admin",
+      },
+      {
+        pointer: "/$or/1/tags/$all",
+        field: "tags",
+        operator: "$all",
+        value: ["staff"],
+      },
+      {
+        pointer: "/$or/1/name/$regex",
+        field: "name",
+        operator: "$regex",
+        value: /^a/i,
+      },
+      {
+        pointer: "/$or/2/$not/profile.verified",
+        field: "profile.verified",
+        operator: "$eq",
+        value: false,
+      },
+      {
+        pointer: "/$nor/0/posts/$elemMatch",
+        field: "posts",
+        operator: "$elemMatch",
+        value: { likes: { $gt: 100 } },
+      },
+      {
+        pointer: "/$expr",
+        field: null,
+        operator: "$expr",
+        value: { $gt: ["$spent", "$budget"] },
+      },
+    ]);
+  });
+
+  it("folds $options into the $regex clause and escapes pointers", () => {
+    const raw: SafeSiftQuery<User> = JSON.parse(
+      '{ "name": { "$regex": "^a", "$options": "i" }, "a/b~c": 1 }'
+    );
+    const conditions = listConditions(raw);
+    expect(conditions.map((c) => [c.pointer, c.operator, c.value])).toEqual([
+      ["/name/$regex", "$regex", /^a/i],
+      ["/a~1b~0c", "$eq", 1],
+    ]);
+    expect(queryFromConditions(conditions)).toEqual({
+      name: { $regex: /^a/i },
+      "a/b~c": 1,
+    });
+  });
+
+  it("removes single clauses and empty groups", () => {
+    const builder = QueryBuilder.from(stored);
+    expect(builder.removeCondition("/age/$lt").build().age).toEqual({
+      $gte: 18,
+    });
+
+    const withoutAdmin = builder.removeCondition("/$or/0/role");
+    expect(withoutAdmin.build().$or).toEqual([
+      { tags: { $all: ["staff"] }, name: { $regex: /^a/i } },
+      { $not: { "profile.verified": false } },
+    ]);
+    expect(
+      builder.removeCondition("/$nor/0/posts/$elemMatch").build()
+    ).not.toHaveProperty("$nor");
+    expect(builder.removeCondition("/nope").build()).toEqual(stored);
+  });
+
+  it("reorders and edits clauses", () => {
+    const builder = query<User>()
+      .where("age")
+      .gte(18)
+      .or("role")
+      .equals("admin")
+      .or("name")
+      .equals("Ann");
+    const [age, role, name] = builder.conditions() as [
+      QueryCondition<User>,
+      QueryCondition<User>,
+      QueryCondition<User>
+    ];
+
+    expect(builder.withConditions([name, age, role]).build()).toEqual({
+      $or: [{ name: "Ann" }, { age: { $gte: 18 } }, { role: "admin" }],
+    });
+    expect(
+      builder.withConditions([{ ...age, value: 21 }, role]).build()
+    ).toEqual({ $or: [{ age: { $gte: 21 } }, { role: "admin" }] });
+  });
+
+  it("keeps the negation and settings of the builder", () => {
+    const builder = query<User>().where("age").gte(18).not().limit(1);
+    const edited = builder.withConditions([]);
+    expect(edited.build()).toEqual({ $not: {} });
+    expect(builder.build()).toEqual({ $not: { age: { $gte: 18 } } });
+  });
+
+  it("rejects overlapping clauses", () => {
+    const eq: QueryCondition<User> = {
+      pointer: "/age",
+      field: "age",
+      operator: "$eq",
+      value: 1,
+    };
+    const gt: QueryCondition<User> = {
+      pointer: "/age/$gt",
+      field: "age",
+      operator: "$gt",
+      value: 1,
+    };
+    expect(() => queryFromConditions([eq, gt])).toThrow(
+      "Conditions overlap at /age/$gt"
+    );
+    expect(() => queryFromConditions([gt, eq])).toThrow(
+      "Conditions overlap at /age"
+    );
+    expect(() => queryFromConditions([eq, eq])).toThrow(
+      "Conditions overlap at /age"
+    );
+    expect(() => listConditions(JSON.parse('{ "$or": { "age": 1 } }'))).toThrow(
+      TypeError
+    );
+  });
+});
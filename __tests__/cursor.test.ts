@@ -0,0 +1,247 @@
+import { describe, it, expect } from "vitest";
+import {
+  SafeSift,
+  safeSift,
+  query,
+  sortDocuments,
+  compareValues,
+  getPathValues,
+} from "../src";
+import type { SortSpec } from "../src";
+
+interface User {
+  name: string;
+  age: number | null;
+  active: boolean;
+  tags: string[];
+  profile: { age: number; joined: Date };
+}
+
+const users: User[] = [
+  {
+    name: "Carol",
+    age: 41,
+    active: true,
+    tags: ["b"],
+    profile: { age: 41, joined: new Date("2021-05-01") },
+  },
+  {
+    name: "Alice",
+    age: null,
+    active: true,
+    tags: [],
+    profile: { age: 30, joined: new Date("2020-01-01") },
+  },
+  {
+    name: "Bob",
+    age: 30,
+    active: false,
+    tags: ["a", "z"],
+    profile: { age: 30, joined: new Date("2022-03-15") },
+  },
+  {
+    name: "Dave",
+    age: 25,
+    active: true,
+    tags: ["c"],
+    profile: { age: 25, joined: new Date("2019-07-04") },
+  },
+];
+
+const names = (result: User[]) => result.map((u) => u.name);
+
+describe("compareValues", () => {
+  it("orders mixed types the way MongoDB does", () => {
+    const mixed = [
+      true,
+      "b",
+      new Date(5),
+      [1],
+      { a: 1 },
+      2,
+      null,
+      /x/,
+      "a",
+    ];
+    expect([...mixed].sort(compareValues)).toEqual([
+      null,
+      2,
+      "a",
+      "b",
+      { a: 1 },
+      [1],
+      true,
+      new Date(5),
+      /x/,
+    ]);
+  });
+
+  it("treats undefined like null", () => {
+    expect(compareValues(undefined, null)).toBe(0);
+    expect(compareValues(undefined, 0)).toBe(-1);
+  });
+
+  it("compares Dates by time and NaN below other numbers", () => {
+    expect(compareValues(new Date(1), new Date(2))).toBe(-1);
+    expect(compareValues(new Date(2), new Date(2))).toBe(0);
+    expect(compareValues(NaN, -Infinity)).toBe(-1);
+    expect(compareValues(NaN, NaN)).toBe(0);
+  });
+});
+
+describe("getPathValues", () => {
+  it("resolves nested paths and fans out over arrays", () => {
+    expect(getPathValues({ a: { b: 1 } }, "a.b")).toEqual([1]);
+    expect(getPathValues({ a: [{ b: 1 }, { b: 2 }, {}] }, "a.b")).toEqual([
+      1, 2,
+    ]);
+    expect(getPathValues({ a: [10, 20] }, "a.1")).toEqual([20]);
+    expect(getPathValues({ a: 1 }, "b")).toEqual([]);
+  });
+});
+
+describe("sortDocuments", () => {
+  it("sorts nulls first ascending and last descending", () => {
+    expect(names(sortDocuments(users, { age: 1 }))).toEqual([
+      "Alice",
+      "Dave",
+      "Bob",
+      "Carol",
+    ]);
+    expect(names(sortDocuments(users, { age: -1 }))).toEqual([
+      "Carol",
+      "Bob",
+      "Dave",
+      "Alice",
+    ]);
+  });
+
+  it("applies keys in order and keeps ties stable", () => {
+    expect(
+      names(sortDocuments(users, { "profile.age": -1, name: 1 }))
+    ).toEqual(["Carol", "Alice", "Bob", "Dave"]);
+    expect(names(sortDocuments(users, { active: 1 }))).toEqual([
+      "Bob",
+      "Carol",
+      "Alice",
+      "Dave",
+    ]);
+  });
+
+  it("sorts Dates chronologically", () => {
+    expect(names(sortDocuments(users, { "profile.joined": 1 }))).toEqual([
+      "Dave",
+      "Alice",
+      "Carol",
+      "Bob",
+    ]);
+  });
+
+  it("sorts arrays by min element ascending and max element descending", () => {
+    expect(names(sortDocuments(users, { tags: 1 }))).toEqual([
+      "Alice",
+      "Bob",
+      "Carol",
+      "Dave",
+    ]);
+    expect(names(sortDocuments(users, { tags: -1 }))).toEqual([
+      "Bob",
+      "Dave",
+      "Carol",
+      "Alice",
+    ]);
+  });
+
+  it("does not mutate the input array", () => {
+    const copy = [...users];
+    sortDocuments(users, { name: 1 });
+    expect(users).toEqual(copy);
+  });
+});
+
+describe("SafeSiftCursor", () => {
+  it("sorts, skips and limits matching documents", () => {
+    const result = new SafeSift<User>({ active: true })
+      .cursor(users)
+      .sort({ "profile.age": 1 })
+      .skip(1)
+      .limit(1)
+      .toArray();
+    expect(names(result)).toEqual(["Alice"]);
+  });
+
+  it("treats limit 0 as no limit", () => {
+    const result = new SafeSift<User>({}).cursor(users).limit(0).toArray();
+    expect(result).toHaveLength(4);
+  });
+
+  it("rejects negative or fractional skip and limit", () => {
+    const cursor = new SafeSift<User>({}).cursor(users);
+    expect(() => cursor.skip(-1)).toThrow(RangeError);
+    expect(() => cursor.limit(1.5)).toThrow(RangeError);
+  });
+
+  it("applies constructor options to filter and cursor", () => {
+    const safe = new SafeSift<User>(
+      { active: true },
+      { sort: { name: -1 }, limit: 2 }
+    );
+    expect(names(safe.filter(users))).toEqual(["Dave", "Carol"]);
+    expect(names(safe.cursor(users).limit(0).toArray())).toEqual([
+      "Dave",
+      "Carol",
+      "Alice",
+    ]);
+    expect(safe.count(users)).toBe(3);
+  });
+
+  it("is available from the safeSift function", () => {
+    const { filter, cursor } = safeSift<User>(
+      { active: true },
+      { sort: { name: 1 } }
+    );
+    expect(names(filter(users))).toEqual(["Alice", "Carol", "Dave"]);
+    expect(names(cursor(users).sort({ name: -1 }).toArray())).toEqual([
+      "Dave",
+      "Carol",
+      "Alice",
+    ]);
+  });
+
+  it("restricts sort keys to paths of the document type", () => {
+    const valid: SortSpec<User> = { "profile.joined": -1, name: 1 };
+    expect(valid).toBeDefined();
+
+    // @ts-expect-error - unknown field
+    const unknownField: SortSpec<User> = { email: 1 };
+    // @ts-expect-error - direction must be 1 or -1
+    const badDirection: SortSpec<User> = { name: 2 };
+    expect([unknownField, badDirection]).toHaveLength(2);
+  });
+});
+
+describe("QueryBuilder sorting", () => {
+  it("chains sortBy, skip and limit before execute", () => {
+    const result = query<User>()
+      .where("active")
+      .equals(true)
+      .sortBy("profile.age", "desc")
+      .sortBy("name")
+      .limit(2)
+      .execute()
+      .filter(users);
+    expect(names(result)).toEqual(["Carol", "Alice"]);
+  });
+
+  it("does not leak later sortBy calls into an executed SafeSift", () => {
+    const builder = query<User>().sortBy("name");
+    const safe = builder.execute();
+    builder.sortBy("age", "desc");
+    expect(names(safe.filter(users))).toEqual([
+      "Alice",
+      "Bob",
+      "Carol",
+      "Dave",
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect } from "vitest";
+import {
+  SafeSift,
+  defineOperators,
+  normalizeQuery,
+  query,
+  validateQuery,
+} from "../src";
+import type { QuerySchema, RegisteredOperators, SafeSiftQuery } from "../src";
+import type { MqlOperator } from "../src/types";
+
+const operators = defineOperators({
+  $startsWith: {
+    appliesTo: "string",
+    fn: (value, prefix: string) => value.startsWith(prefix),
+  },
+  $inBounds: {
+    appliesTo: "number",
+    fn: (value, [min, max]: [number, number]) => value >= min && value <= max,
+  },
+  $dateWithin: {
+    appliesTo: "date",
+    fn: (value, { from, days }: { from: Date; days: number }) =>
+      Math.abs(value.getTime() - from.getTime()) <= days * 86_400_000,
+  },
+  $longerThan: {
+    appliesTo: "array",
+    fn: (value, length: number) => value.length > length,
+  },
+});
+
+declare module "../src" {
+  interface CustomOperators extends RegisteredOperators<typeof operators> {}
+}
+
+interface User {
+  name: string;
+  age: number;
+  nickname?: string;
+  tags: string[];
+  joined: Date;
+  address: { city: string };
+}
+
+const users: User[] = [
+  {
+    name: "Alice",
+    age: 30,
+    nickname: "Al",
+    tags: ["admin", "dev"],
+    joined: new Date("2024-01-10"),
+    address: { city: "Berlin" },
+  },
+  {
+    name: "Bob",
+    age: 17,
+    tags: [],
+    joined: new Date("2024-03-01"),
+    address: { city: "Bonn" },
+  },
+  {
+    name: "Albert",
+    age: 70,
+    tags: ["dev"],
+    joined: new Date("2023-12-31"),
+    address: { city: "Paris" },
+  },
+];
+
+const names = (q: SafeSiftQuery<User>): string[] =>
+  new SafeSift(q).filter(users).map((u) => u.name);
+
+describe("defineOperators", () => {
+  it("registers operators with the matcher", () => {
+    expect(names({ name: { $startsWith: "Al" } })).toEqual(["Alice", "Albert"]);
+    expect(names({ age: { $inBounds: [18, 65] } })).toEqual(["Alice"]);
+    expect(
+      names({
+        joined: {
+          $dateWithin: { from: new Date("2024-01-01"), days: 10 },
+        },
+      })
+    ).toEqual(["Alice", "Albert"]);
+    expect(names({ "address.city": { $startsWith: "B" } })).toEqual([
+      "Alice",
+      "Bob",
+    ]);
+  });
+
+  it("combines with built-in and logical operators", () => {
+    expect(
+      names({ name: { $startsWith: "Al", $ne: "Albert" }, age: { $lt: 50 } })
+    ).toEqual(["Alice"]);
+    expect(
+      names({
+        $or: [
+          { age: { $inBounds: [0, 18] } },
+          { name: { $startsWith: "Alb" } },
+        ],
+      })
+    ).toEqual(["Bob", "Albert"]);
+    expect(
+      names(JSON.parse('{ "name": { "$not": { "$startsWith": "Al" } } }'))
+    ).toEqual(["Bob"]);
+  });
+
+  it("tests array elements, or whole arrays for array operators", () => {
+    expect(names({ tags: { $startsWith: "ad" } })).toEqual(["Alice"]);
+    expect(names({ tags: { $longerThan: 0 } })).toEqual(["Alice", "Albert"]);
+  });
+
+  it("never matches values of another kind or missing fields", () => {
+    expect(names({ nickname: { $startsWith: "A" } })).toEqual(["Alice"]);
+    expect(names(JSON.parse('{ "age": { "$startsWith": "3" } }'))).toEqual([]);
+  });
+
+  it("types operands by field", () => {
+    const ok: SafeSiftQuery<User> = {
+      name: { $startsWith: "A" },
+      age: { $inBounds: [1, 2] },
+    };
+    expect(ok).toBeDefined();
+
+    // @ts-expect-error - $startsWith does not apply to numbers
+    const wrongField: SafeSiftQuery<User> = { age: { $startsWith: "1" } };
+    // @ts-expect-error - $inBounds expects a [min, max] tuple
+    const wrongOperand: SafeSiftQuery<User> = { age: { $inBounds: 5 } };
+    expect([wrongField, wrongOperand]).toHaveLength(2);
+
+    const op: MqlOperator = "$dateWithin";
+    expect(op).toBe("$dateWithin");
+  });
+
+  it("adds FieldBuilder methods", () => {
+    const built = query<User>()
+      .where("name")
+      .startsWith("Al")
+      .and("age")
+      .inBounds([18, 65])
+      .build();
+    expect(built).toEqual({
+      name: { $startsWith: "Al" },
+      $and: [{ age: { $inBounds: [18, 65] } }],
+    });
+    expect(new SafeSift(built).filter(users)).toEqual([users[0]]);
+
+    // @ts-expect-error - startsWith does not apply to numbers
+    expect(() => query<User>().where("age").startsWith("1")).not.toThrow();
+  });
+
+  it("is recognized by normalizeQuery and validateQuery", () => {
+    expect(normalizeQuery({ name: { $startsWith: "A" } }).and).toEqual([
+      { path: "name", op: "$startsWith", value: "A" },
+    ]);
+
+    const schema: QuerySchema<User> = {
+      name: "string",
+      age: "number",
+      nickname: "string",
+      tags: ["string"],
+      joined: "date",
+      address: { city: "string" },
+    };
+    expect(
+      validateQuery<User>(
+        { name: { $startsWith: "A" }, tags: { $longerThan: 1 } },
+        schema
+      ).valid
+    ).toBe(true);
+    const result = validateQuery<User>(
+      JSON.parse('{ "age": { "$startsWith": "1" }, "name": { "$nope": 1 } }'),
+      schema
+    );
+    expect(result.errors.map((e) => e.code)).toEqual([
+      "invalid-operator",
+      "unknown-operator",
+    ]);
+  });
+
+  it("replaces a custom operator when it is redefined", () => {
+    defineOperators({
+      $startsWith: {
+        appliesTo: "string",
+        fn: (value, prefix: string) =>
+          value.toLowerCase().startsWith(prefix.toLowerCase()),
+      },
+    });
+    expect(names({ name: { $startsWith: "al" } })).toEqual(["Alice", "Albert"]);
+    defineOperators({ $startsWith: operators.$startsWith });
+    expect(names({ name: { $startsWith: "al" } })).toEqual([]);
+  });
+
+  it("rejects invalid definitions", () => {
+    const fn = (): boolean => true;
+    expect(() => defineOperators({ $gt: { appliesTo: "number", fn } })).toThrow(
+      "Cannot redefine the built-in operator $gt"
+    );
+    expect(() =>
+      defineOperators({ $between: { appliesTo: "number", fn } })
+    ).toThrow("FieldBuilder already has a between() method");
+    expect(() =>
+      defineOperators(JSON.parse('{ "near": { "appliesTo": "any" } }'))
+    ).toThrow(TypeError);
+    expect(() =>
+      defineOperators(JSON.parse('{ "$near": { "appliesTo": "point" } }'))
+    ).toThrow(TypeError);
+    expect(() =>
+      defineOperators(JSON.parse('{ "$near": { "appliesTo": "any" } }'))
+    ).toThrow(TypeError);
+  });
+});
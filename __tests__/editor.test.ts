@@ -0,0 +1,387 @@
+import { describe, it, expect } from "vitest";
+import {
+  SafeSift,
+  defineOperators,
+  fieldsFromSchema,
+  query,
+  queryToRuleGroup,
+  ruleGroupToQuery,
+  validOperators,
+  validateQuery,
+} from "../src";
+import type { QuerySchema, RuleGroup, SafeSiftQuery } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  role: "admin" | "user" | "guest";
+  tags: string[];
+  spent: number;
+  budget: number;
+  joined: Date;
+  nickname?: string | null;
+  deletedAt?: Date | null;
+  posts: { title: string; likes: number }[];
+  profile: { city: string; verified: boolean };
+}
+
+const schema: QuerySchema<User> = {
+  name: "string",
+  age: "number",
+  role: "string",
+  tags: ["string"],
+  spent: "number",
+  budget: "number",
+  joined: "date",
+  nickname: "string",
+  deletedAt: "date",
+  posts: [{ title: "string", likes: "number" }],
+  profile: { city: "string", verified: "boolean" },
+};
+
+const roundTrip = (q: SafeSiftQuery<User>): SafeSiftQuery<User> =>
+  ruleGroupToQuery(queryToRuleGroup(q));
+
+describe("queryToRuleGroup", () => {
+  it("uses react-querybuilder's operator names", () => {
+    expect(
+      queryToRuleGroup<User>({
+        name: { $regex: "^A\\.B" },
+        age: { $gte: 18, $lte: 65 },
+        role: { $nin: ["guest"] },
+        nickname: null,
+        "profile.city": { $not: { $regex: "x$" } },
+        deletedAt: { $ne: null },
+        $or: [
+          { spent: { $gt: 10 } },
+          { budget: { $not: { $gte: 1, $lte: 2 } } },
+        ],
+      })
+    ).toEqual({
+      combinator: "and",
+      rules: [
+        { field: "name", operator: "beginsWith", value: "A.B" },
+        { field: "age", operator: "between", value: [18, 65] },
+        { field: "role", operator: "notIn", value: ["guest"] },
+        { field: "nickname", operator: "null", value: null },
+        { field: "profile.city", operator: "doesNotEndWith", value: "x" },
+        { field: "deletedAt", operator: "notNull", value: null },
+        {
+          combinator: "or",
+          rules: [
+            { field: "spent", operator: ">", value: 10 },
+            { field: "budget", operator: "notBetween", value: [1, 2] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("keeps other operators and patterns as written", () => {
+    expect(
+      queryToRuleGroup<User>({
+        name: { $regex: "a.b", $options: "i" },
+        tags: { $size: 2 },
+        age: { $gte: 18 },
+        spent: { $lte: 5, $gte: 1 },
+      }).rules
+    ).toEqual([
+      { field: "name", operator: "$regex", value: "a.b" },
+      { field: "name", operator: "$options", value: "i" },
+      { field: "tags", operator: "$size", value: 2 },
+      { field: "age", operator: ">=", value: 18 },
+      { field: "spent", operator: "<=", value: 5 },
+      { field: "spent", operator: ">=", value: 1 },
+    ]);
+  });
+
+  it("turns $nor, $not and $expr comparisons into groups and rules", () => {
+    expect(
+      queryToRuleGroup<User>({
+        $not: { age: 1 },
+        $nor: [{ role: "guest" }],
+        $expr: { $gt: ["$spent", "$budget"] },
+      }).rules
+    ).toEqual([
+      {
+        combinator: "and",
+        not: true,
+        rules: [{ field: "age", operator: "=", value: 1 }],
+      },
+      {
+        combinator: "or",
+        not: true,
+        rules: [{ field: "role", operator: "=", value: "guest" }],
+      },
+      { field: "spent", operator: ">", value: "budget", valueSource: "field" },
+    ]);
+    expect(queryToRuleGroup<User>({ $or: [{ age: 1 }] })).toEqual({
+      combinator: "or",
+      rules: [{ field: "age", operator: "=", value: 1 }],
+    });
+  });
+
+  it("rejects what rules cannot represent", () => {
+    expect(() =>
+      queryToRuleGroup<User>({ $expr: { $gt: ["$spent", 10] } })
+    ).toThrow(
+      "Only $expr comparisons of two fields can be represented as rules"
+    );
+    expect(() => queryToRuleGroup(JSON.parse('{ "$where": "x" }'))).toThrow(
+      "Cannot represent $where as a rule"
+    );
+    expect(() => queryToRuleGroup(JSON.parse('{ "$or": {} }'))).toThrow(
+      TypeError
+    );
+  });
+});
+
+describe("ruleGroupToQuery", () => {
+  it("round-trips queries without loss", () => {
+    const queries: SafeSiftQuery<User>[] = [
+      {},
+      { age: 30, name: { $regex: "a+" }, tags: "x" },
+      { age: { $gt: 1, $lt: 5, $ne: 3 }, role: { $in: ["admin"] } },
+      { name: { $regex: /^a/i }, "profile.verified": { $exists: true } },
+      {
+        "profile.city": "Berlin",
+        $and: [{ age: { $gte: 18 } }, { age: { $lt: 65 } }],
+        $or: [
+          { role: "admin" },
+          { tags: { $all: ["staff"] }, name: { $not: { $regex: "^b" } } },
+          { $not: { "profile.verified": false } },
+          { $and: [{ age: 1 }, { $or: [{ age: 2 }, { age: 3 }] }] },
+        ],
+        $nor: [{ posts: { $elemMatch: { likes: { $gt: 100 } } } }],
+        $expr: { $gte: ["$spent", "$budget"] },
+      },
+      { $not: { $not: { age: 1 } } },
+      { $or: [{ age: 1 }, { $or: [{ age: 2 }] }] },
+    ];
+    for (const q of queries) {
+      expect(roundTrip(q)).toEqual(q);
+      expect(Object.keys(roundTrip(q))).toEqual(Object.keys(q));
+    }
+  });
+
+  it("round-trips builder output", () => {
+    const built = query<User>()
+      .where("age")
+      .between(20, 30)
+      .or("role")
+      .equals("admin")
+      .andGroup((q) => q.where("tags").contains("x").or("name").regex(/b/))
+      .where("spent")
+      .greaterThanField("budget")
+      .where("spent")
+      .lessThanField("age")
+      .not()
+      .build();
+    expect(roundTrip(built)).toEqual(built);
+  });
+
+  it("reads react-querybuilder trees", () => {
+    const group: RuleGroup<User> = {
+      id: "root",
+      combinator: "and",
+      rules: [
+        { id: "r1", field: "name", operator: "contains", value: "a.b" },
+        { id: "r2", field: "age", operator: "between", value: "18, 65" },
+        { id: "r3", field: "role", operator: "in", value: "admin,user" },
+        { field: "age", operator: "!=", value: 40 },
+        { field: "name", operator: "doesNotBeginWith", value: "Z" },
+        {
+          combinator: "or",
+          not: true,
+          rules: [
+            { field: "tags", operator: "$size", value: 0 },
+            {
+              field: "spent",
+              operator: "<=",
+              value: "budget",
+              valueSource: "field",
+            },
+          ],
+        },
+        { combinator: "or", rules: [] },
+      ],
+    };
+    const q = ruleGroupToQuery(group);
+    expect(q).toEqual({
+      name: { $regex: "a\\.b", $not: { $regex: "^Z" } },
+      age: { $gte: "18", $lte: "65", $ne: 40 },
+      role: { $in: ["admin", "user"] },
+      $nor: [
+        { tags: { $size: 0 } },
+        { $expr: { $lte: ["$spent", "$budget"] } },
+      ],
+    });
+  });
+
+  it("moves clauses that cannot be merged into $and", () => {
+    expect(
+      ruleGroupToQuery<User>({
+        combinator: "and",
+        rules: [
+          { field: "age", operator: ">", value: 1 },
+          { field: "age", operator: ">", value: 2 },
+          { field: "role", operator: "=", value: "admin" },
+          { field: "role", operator: "!=", value: "user" },
+          { combinator: "and", not: true, rules: [] },
+          { combinator: "and", not: true, rules: [] },
+        ],
+      })
+    ).toEqual({
+      age: { $gt: 1 },
+      $and: [{ age: { $gt: 2 } }, { role: { $ne: "user" } }, { $not: {} }],
+      role: "admin",
+      $not: {},
+    });
+  });
+
+  it("builds queries that filter as the rules say", () => {
+    const users = [
+      { name: "Ann", age: 30, role: "admin", tags: ["a"] },
+      { name: "Bob", age: 17, role: "user", tags: [] },
+      { name: "Cid", age: 45, role: "guest", tags: ["a", "b"] },
+    ];
+    const q = ruleGroupToQuery<User>({
+      combinator: "or",
+      rules: [
+        { field: "name", operator: "endsWith", value: "b" },
+        {
+          combinator: "and",
+          rules: [
+            { field: "age", operator: "between", value: [18, 40] },
+            { field: "role", operator: "notIn", value: ["user"] },
+          ],
+        },
+      ],
+    });
+    expect(
+      new SafeSift(q).filter(users as unknown as User[]).map((u) => u.name)
+    ).toEqual(["Ann", "Bob"]);
+  });
+
+  it("rejects unknown operators and malformed values", () => {
+    const rule = (operator: string, value: unknown): RuleGroup<User> =>
+      JSON.parse(
+        JSON.stringify({
+          combinator: "and",
+          rules: [{ field: "age", operator, value }],
+        })
+      );
+    expect(() => ruleGroupToQuery(rule("near", 1))).toThrow(
+      "Unknown rule operator near"
+    );
+    expect(() => ruleGroupToQuery(rule("between", [1]))).toThrow(
+      "between expects two values"
+    );
+    expect(() => ruleGroupToQuery(rule("in", 1))).toThrow(TypeError);
+    expect(() =>
+      ruleGroupToQuery<User>({
+        combinator: "and",
+        rules: [
+          {
+            field: "age",
+            operator: "in",
+            value: "spent",
+            valueSource: "field",
+          },
+        ],
+      })
+    ).toThrow("Cannot compare age with a field using in");
+  });
+});
+
+describe("validOperators", () => {
+  it("offers the operators each field type accepts", () => {
+    expect(validOperators("boolean")).toEqual([
+      "=",
+      "!=",
+      "null",
+      "notNull",
+      "in",
+      "notIn",
+      "$exists",
+      "$type",
+    ]);
+    expect(validOperators("string")).toContain("beginsWith");
+    expect(validOperators("number")).not.toContain("contains");
+    expect(validOperators(["string"])).toContain("$size");
+    expect(validOperators(["string"])).not.toContain("<");
+    expect(validOperators("any")).toContain("$elemMatch");
+  });
+
+  it("only offers operators that validateQuery accepts", () => {
+    for (const field of fieldsFromSchema(schema)) {
+      for (const { name: operator } of field.operators) {
+        const q = ruleGroupToQuery<User>({
+          combinator: "and",
+          rules: [{ field: field.name, operator, value: [1, 2] }],
+        });
+        const misused = validateQuery(q, schema)
+          .errors.filter((e) => e.code !== "invalid-value")
+          .map((e) => e.message);
+        expect(misused).toEqual([]);
+      }
+    }
+    const q = ruleGroupToQuery<User>({
+      combinator: "and",
+      rules: [{ field: "tags", operator: "<", value: 1 }],
+    });
+    expect(validateQuery(q, schema).errors[0]?.code).toBe("invalid-operator");
+  });
+
+  it("includes custom operators that apply to the field", () => {
+    defineOperators({
+      $startsWith: {
+        appliesTo: "string",
+        fn: (value, prefix: string) => value.startsWith(prefix),
+      },
+      $longerThan: {
+        appliesTo: "array",
+        fn: (value, length: number) => value.length > length,
+      },
+    });
+    expect(validOperators("string").slice(-2)).toEqual([
+      "$regex",
+      "$startsWith",
+    ]);
+    expect(validOperators(["string"])).toContain("$startsWith");
+    expect(validOperators(["number"]).slice(-1)).toEqual(["$longerThan"]);
+    expect(validOperators("number")).not.toContain("$startsWith");
+  });
+});
+
+describe("fieldsFromSchema", () => {
+  it("lists scalar and array fields with labelled operators", () => {
+    const fields = fieldsFromSchema(schema);
+    expect(fields.map((f) => f.name)).toEqual([
+      "name",
+      "age",
+      "role",
+      "tags",
+      "spent",
+      "budget",
+      "joined",
+      "nickname",
+      "deletedAt",
+      "posts",
+      "posts.title",
+      "posts.likes",
+      "profile.city",
+      "profile.verified",
+    ]);
+    expect(fields[1]).toMatchObject({
+      name: "age",
+      label: "age",
+      type: "number",
+    });
+    expect(fields[0]!.operators).toContainEqual({
+      name: "beginsWith",
+      label: "begins with",
+    });
+    expect(fields[0]!.operators).toContainEqual({ name: "<=", label: "<=" });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import { SafeSift, safeSift, explainQuery, formatExplanation } from "../src";
+import type { ExplainNode, ExplainPredicate, SafeSiftQuery } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  role: "admin" | "user";
+  verified: boolean;
+  tags: string[];
+  profile: { country: string };
+  orders: { total: number; status: string }[];
+}
+
+const jane: User = {
+  name: "Jane",
+  age: 16,
+  role: "user",
+  verified: true,
+  tags: ["beta", "mobile"],
+  profile: { country: "DE" },
+  orders: [
+    { total: 20, status: "paid" },
+    { total: 120, status: "refunded" },
+  ],
+};
+
+const predicates = (node: ExplainNode): ExplainPredicate[] =>
+  node.kind === "predicate" ? [node] : node.children.flatMap(predicates);
+
+describe("explain", () => {
+  it("reports each predicate with expected and actual values", () => {
+    const explanation = new SafeSift<User>({
+      age: { $gte: 18, $lt: 65 },
+      "profile.country": "DE",
+    }).explain(jane);
+
+    expect(explanation.pass).toBe(false);
+    expect(predicates(explanation)).toEqual([
+      {
+        kind: "predicate",
+        path: "age",
+        op: "$gte",
+        value: 18,
+        actual: 16,
+        pass: false,
+      },
+      {
+        kind: "predicate",
+        path: "age",
+        op: "$lt",
+        value: 65,
+        actual: 16,
+        pass: true,
+      },
+      {
+        kind: "predicate",
+        path: "profile.country",
+        op: "$eq",
+        value: "DE",
+        actual: "DE",
+        pass: true,
+      },
+    ]);
+  });
+
+  it("explains $or, $nor and $not branches", () => {
+    const explanation = explainQuery<User>(
+      {
+        $or: [{ role: "admin" }, { verified: true }],
+        $nor: [{ tags: "beta" }],
+        $not: { name: "Bob" },
+      },
+      jane
+    );
+
+    const [or, nor, not] = explanation.children;
+    expect(or).toMatchObject({ kind: "group", op: "$or", pass: true });
+    expect(nor).toMatchObject({ kind: "group", op: "$nor", pass: false });
+    expect(not).toMatchObject({ kind: "group", op: "$not", pass: true });
+    expect(predicates(nor!)[0]).toMatchObject({
+      path: "tags",
+      actual: ["beta", "mobile"],
+      pass: true,
+    });
+    expect(explanation.pass).toBe(false);
+  });
+
+  it("explains field-level $not and regex options", () => {
+    const query = JSON.parse(
+      '{ "age": { "$not": { "$lt": 18 } }, "name": { "$regex": "^j", "$options": "i" } }'
+    );
+    const explanation = explainQuery<User>(query, jane);
+
+    expect(explanation.children[0]).toMatchObject({
+      kind: "group",
+      op: "$not",
+      path: "age",
+      pass: false,
+      children: [{ op: "$lt", pass: true }],
+    });
+    expect(explanation.children[1]).toMatchObject({
+      op: "$regex",
+      value: /^j/i,
+      pass: true,
+    });
+  });
+
+  it("explains $elemMatch against every element", () => {
+    const [node] = explainQuery<User>(
+      { orders: { $elemMatch: { total: { $gt: 100 }, status: "paid" } } },
+      jane
+    ).children;
+
+    expect(node).toMatchObject({ op: "$elemMatch", pass: false });
+    const elements = node?.kind === "predicate" ? node.elements : undefined;
+    expect(elements?.map((e) => predicates(e).map((p) => p.pass))).toEqual([
+      [false, true],
+      [true, false],
+    ]);
+  });
+
+  it("agrees with test()", () => {
+    const queries: SafeSiftQuery<User>[] = [
+      {},
+      { tags: "mobile" },
+      { tags: { $size: 2 }, orders: { $elemMatch: { total: { $gt: 100 } } } },
+      { $and: [{ age: { $in: [16, 17] } }, { role: { $ne: "admin" } }] },
+    ];
+    for (const q of queries) {
+      const safe = new SafeSift<User>(q);
+      expect(safe.explain(jane).pass).toBe(safe.test(jane));
+    }
+  });
+
+  it("is available from the safeSift function", () => {
+    const { explain } = safeSift<User>({ verified: false });
+    expect(explain(jane).pass).toBe(false);
+  });
+});
+
+describe("formatExplanation", () => {
+  it("renders an indented tree", () => {
+    const explanation = explainQuery<User>(
+      { age: { $gte: 18 }, $or: [{ role: "admin" }, { tags: "beta" }] },
+      jane
+    );
+    expect(formatExplanation(explanation)).toBe(
+      [
+        "FAIL $and",
+        "  FAIL age $gte 18 (actual: 16)",
+        "  PASS $or",
+        "    FAIL $and",
+        '      FAIL role $eq "admin" (actual: "user")',
+        "    PASS $and",
+        '      PASS tags $eq "beta" (actual: ["beta","mobile"])',
+      ].join("\n")
+    );
+  });
+
+  it("lists $elemMatch elements", () => {
+    const explanation = explainQuery<User>(
+      { orders: { $elemMatch: { status: "refunded" } } },
+      jane
+    );
+    expect(formatExplanation(explanation).split("\n")).toEqual([
+      "PASS $and",
+      '  PASS orders $elemMatch (actual: [{"total":20,"status":"paid"},{"total":120,"status":"refunded"}])',
+      "    [0]",
+      "      FAIL $and",
+      '        FAIL status $eq "refunded" (actual: "paid")',
+      "    [1]",
+      "      PASS $and",
+      '        PASS status $eq "refunded" (actual: "refunded")',
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect } from "vitest";
+import {
+  SafeSift,
+  evaluateExpr,
+  normalizeQuery,
+  query,
+  validateQuery,
+} from "../src";
+import type { QuerySchema, SafeSiftQuery } from "../src";
+
+interface Project {
+  name: string;
+  owner: { first: string; last: string };
+  spent: number;
+  budget: number;
+  bonus?: number | null;
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const day = 86_400_000;
+const start = new Date("2024-01-01");
+
+const projects: Project[] = [
+  {
+    name: "apollo",
+    owner: { first: "Ada", last: "Lovelace" },
+    spent: 120,
+    budget: 100,
+    bonus: 10,
+    tags: ["space", "moon"],
+    createdAt: start,
+    updatedAt: new Date(start.getTime() + 10 * day),
+  },
+  {
+    name: "gemini",
+    owner: { first: "Alan", last: "Turing" },
+    spent: 80,
+    budget: 100,
+    tags: ["space"],
+    createdAt: start,
+    updatedAt: start,
+  },
+  {
+    name: "mercury",
+    owner: { first: "Grace", last: "Hopper" },
+    spent: 100,
+    budget: 100,
+    bonus: null,
+    tags: [],
+    createdAt: new Date(start.getTime() + day),
+    updatedAt: new Date(start.getTime() + 2 * day),
+  },
+];
+
+const names = (q: SafeSiftQuery<Project>): string[] =>
+  new SafeSift(q).filter(projects).map((p) => p.name);
+
+describe("$expr", () => {
+  it("compares fields of the same document", () => {
+    expect(names({ $expr: { $gt: ["$spent", "$budget"] } })).toEqual([
+      "apollo",
+    ]);
+    expect(names({ $expr: { $gte: ["$spent", "$budget"] } })).toEqual([
+      "apollo",
+      "mercury",
+    ]);
+    expect(names({ $expr: { $gt: ["$updatedAt", "$createdAt"] } })).toEqual([
+      "apollo",
+      "mercury",
+    ]);
+    expect(names({ $expr: { $eq: ["$bonus", null] } })).toEqual(["mercury"]);
+  });
+
+  it("evaluates arithmetic, strings, array sizes and conditions", () => {
+    expect(
+      names({
+        $expr: { $lte: ["$spent", { $add: ["$budget", "$bonus", 10] }] },
+      })
+    ).toEqual(["apollo"]);
+    expect(
+      names({
+        $expr: { $gt: [{ $subtract: ["$updatedAt", "$createdAt"] }, 5 * day] },
+      })
+    ).toEqual(["apollo"]);
+    expect(
+      names({
+        $expr: {
+          $lt: ["$updatedAt", { $add: ["$createdAt", 2 * day] }],
+        },
+      })
+    ).toEqual(["gemini", "mercury"]);
+    expect(
+      names({
+        $expr: {
+          $eq: [
+            { $concat: ["$owner.first", { $literal: " " }, "$owner.last"] },
+            { $literal: "Alan Turing" },
+          ],
+        },
+      })
+    ).toEqual(["gemini"]);
+    expect(names({ $expr: { $gte: [{ $size: "$tags" }, 1] } })).toEqual([
+      "apollo",
+      "gemini",
+    ]);
+    expect(
+      names({
+        $expr: {
+          $cond: {
+            if: { $gt: [{ $size: "$tags" }, 1] },
+            then: { $gt: ["$spent", { $multiply: ["$budget", 1.1] }] },
+            else: { $lt: ["$spent", "$budget"] },
+          },
+        },
+      })
+    ).toEqual(["apollo", "gemini"]);
+  });
+
+  it("combines with field conditions and logical operators", () => {
+    expect(
+      names({
+        tags: "space",
+        $expr: { $lte: ["$spent", "$budget"] },
+      })
+    ).toEqual(["gemini"]);
+    expect(
+      names({
+        $or: [
+          { $expr: { $gt: ["$spent", "$budget"] } },
+          { tags: { $size: 0 } },
+        ],
+      })
+    ).toEqual(["apollo", "mercury"]);
+    expect(normalizeQuery({ $expr: { $gt: ["$spent", "$budget"] } })).toEqual({
+      and: [],
+      or: [],
+    });
+  });
+
+  it("rejects malformed expressions", () => {
+    const raw = (json: string): SafeSiftQuery<Project> => JSON.parse(json);
+    expect(() => names(raw('{ "$expr": { "$pow": [2, 3] } }'))).toThrow(
+      "Unknown expression operator $pow"
+    );
+    expect(() => names(raw('{ "$expr": { "$gt": ["$spent"] } }'))).toThrow(
+      "$gt expects an array of 2 expressions"
+    );
+    expect(() =>
+      names(raw('{ "$expr": { "$add": ["$spent", "$name"] } }'))
+    ).toThrow(TypeError);
+  });
+
+  it("type-checks field references and operand kinds", () => {
+    // @ts-expect-error - unknown field path
+    const typo: SafeSiftQuery<Project> = { $expr: { $gt: ["$spnt", 1] } };
+    const mixed: SafeSiftQuery<Project> = {
+      // @ts-expect-error - a number cannot be compared with a string
+      $expr: { $gt: ["$spent", "$name"] },
+    };
+    // @ts-expect-error - $add only takes numbers and dates
+    const sum: SafeSiftQuery<Project> = { $expr: { $add: ["$name", 1] } };
+    // @ts-expect-error - $size requires an array
+    const size: SafeSiftQuery<Project> = { $expr: { $size: "$spent" } };
+    expect([typo, mixed, sum, size]).toHaveLength(4);
+  });
+});
+
+describe("evaluateExpr", () => {
+  it("evaluates expressions against a document", () => {
+    const doc = { price: 4, qty: 3, missing: null };
+    expect(evaluateExpr(doc, { $multiply: ["$price", "$qty"] })).toBe(12);
+    expect(evaluateExpr(doc, { $add: ["$price", "$missing"] })).toBeNull();
+    expect(evaluateExpr(doc, { $literal: "$price" })).toBe("$price");
+    expect(evaluateExpr(doc, { $lt: ["$nope", null] })).toBe(true);
+  });
+});
+
+describe("validateQuery with $expr", () => {
+  const schema: QuerySchema<Project> = {
+    name: "string",
+    owner: { first: "string", last: "string" },
+    spent: "number",
+    budget: "number",
+    bonus: "number",
+    tags: ["string"],
+    createdAt: "date",
+    updatedAt: "date",
+  };
+
+  it("checks field references and operators", () => {
+    expect(
+      validateQuery<Project>(
+        {
+          $expr: {
+            $eq: [{ $concat: ["$owner.first", { $literal: "$x" }] }, "$name"],
+          },
+        },
+        schema
+      ).valid
+    ).toBe(true);
+
+    const result = validateQuery<Project>(
+      JSON.parse(
+        '{ "$expr": { "$gt": ["$spnt", { "$pow": ["$budget", 2] }] } }'
+      ),
+      schema
+    );
+    expect(result.errors.map((e) => [e.pointer, e.code])).toEqual([
+      ["/$expr/$gt/0", "unknown-path"],
+      ["/$expr/$gt/1/$pow", "unknown-operator"],
+    ]);
+  });
+});
+
+describe("QueryBuilder field comparisons", () => {
+  it("builds $expr conditions", () => {
+    expect(
+      query<Project>().where("spent").greaterThanField("budget").build()
+    ).toEqual({ $expr: { $gt: ["$spent", "$budget"] } });
+    expect(
+      query<Project>()
+        .where("updatedAt")
+        .lessThanOrEqualField("createdAt")
+        .build()
+    ).toEqual({ $expr: { $lte: ["$updatedAt", "$createdAt"] } });
+  });
+
+  it("keeps every comparison when several are chained", () => {
+    const built = query<Project>()
+      .where("spent")
+      .lessThanField("budget")
+      .where("updatedAt")
+      .equalsField("createdAt")
+      .build();
+    expect(built).toEqual({
+      $expr: { $lt: ["$spent", "$budget"] },
+      $and: [{ $expr: { $eq: ["$updatedAt", "$createdAt"] } }],
+    });
+    expect(names(built)).toEqual(["gemini"]);
+    expect(
+      names(
+        query<Project>()
+          .where("spent")
+          .greaterThanOrEqualField("budget")
+          .or("owner.first")
+          .notEqualsField("owner.last")
+          .build()
+      )
+    ).toEqual(["apollo", "gemini", "mercury"]);
+  });
+
+  it("only accepts fields of the same type", () => {
+    // @ts-expect-error - name is a string, spent is a number
+    query<Project>().where("spent").greaterThanField("name");
+    // @ts-expect-error - arrays cannot be ordered
+    query<Project>().where("tags").greaterThanField("tags");
+    expect(
+      query<Project>().where("bonus").lessThanField("spent").build()
+    ).toEqual({ $expr: { $lt: ["$bonus", "$spent"] } });
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect } from "vitest";
+import {
+  SafeSift,
+  query,
+  parseFilter,
+  stringifyFilter,
+  FilterSyntaxError,
+} from "../src";
+import type { SafeSiftQuery } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  tags: string[];
+  email?: string;
+  profile: { active: boolean; country: string | null };
+}
+
+const users: User[] = [
+  {
+    name: "Alice",
+    age: 30,
+    tags: ["admin"],
+    email: "alice@example.com",
+    profile: { active: true, country: "DE" },
+  },
+  {
+    name: "Bob",
+    age: 16,
+    tags: ["mod", "dev"],
+    profile: { active: false, country: null },
+  },
+  {
+    name: "Carol O'Neil",
+    age: 45,
+    tags: [],
+    profile: { active: false, country: "US" },
+  },
+  {
+    name: "Dave",
+    age: 17,
+    tags: ["dev"],
+    email: "dave@example.org",
+    profile: { active: true, country: "US" },
+  },
+];
+
+const names = (q: SafeSiftQuery<User>) =>
+  new SafeSift(q).filter(users).map((u) => u.name);
+
+function syntaxError(run: () => unknown): FilterSyntaxError {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) return error;
+    throw error;
+  }
+  throw new Error("Expected a FilterSyntaxError");
+}
+
+describe("parseFilter", () => {
+  it("parses and/or with and binding tighter", () => {
+    const q = parseFilter<User>(
+      "age>=18 and profile.active=true or tags in (admin,mod)"
+    );
+    expect(q).toEqual({
+      $or: [
+        { age: { $gte: 18 }, "profile.active": true },
+        { tags: { $in: ["admin", "mod"] } },
+      ],
+    });
+    expect(names(q)).toEqual(["Alice", "Bob"]);
+  });
+
+  it("parses every comparison and value kind", () => {
+    expect(
+      parseFilter<User>(
+        `name != "Carol O'Neil" and age > 16 and age <= 40 and profile.country = null and profile.active == false`
+      )
+    ).toEqual({
+      name: { $ne: "Carol O'Neil" },
+      age: { $gt: 16, $lte: 40 },
+      "profile.country": null,
+      "profile.active": false,
+    });
+    expect(parseFilter<User>("age <> -1.5 and age < 2e3")).toEqual({
+      age: { $ne: -1.5, $lt: 2000 },
+    });
+    expect(parseFilter<User>(`name = 'it\\'s'`)).toEqual({ name: "it's" });
+  });
+
+  it("parses list, existence, size and regex conditions", () => {
+    expect(
+      parseFilter<User>(
+        "tags all (dev, mod) and tags size 2 and email not exists and name not in (Eve)"
+      )
+    ).toEqual({
+      tags: { $all: ["dev", "mod"], $size: 2 },
+      email: { $exists: false },
+      name: { $nin: ["Eve"] },
+    });
+    expect(names(parseFilter<User>("email ~ /@example\\.org$/i"))).toEqual([
+      "Dave",
+    ]);
+    expect(names(parseFilter<User>("tags nin (dev) and email exists"))).toEqual(
+      ["Alice"]
+    );
+  });
+
+  it("falls back to $and when conditions on a field clash", () => {
+    expect(parseFilter<User>("age > 10 and age > 20")).toEqual({
+      $and: [{ age: { $gt: 10 } }, { age: { $gt: 20 } }],
+    });
+  });
+
+  it("parses not and parentheses", () => {
+    const q = parseFilter<User>(
+      "NOT (profile.active = true) AND (age < 18 OR profile.country = US)"
+    );
+    expect(q).toEqual({
+      $and: [
+        { $not: { "profile.active": true } },
+        { $or: [{ age: { $lt: 18 } }, { "profile.country": "US" }] },
+      ],
+    });
+    expect(names(q)).toEqual(["Bob", "Carol O'Neil"]);
+  });
+
+  it("parses an empty filter as an empty query", () => {
+    expect(parseFilter<User>("  ")).toEqual({});
+  });
+
+  it("reports the position of syntax errors", () => {
+    const cases: [string, number, string][] = [
+      ["age >", 5, "Expected a value but found end of input"],
+      ["age >= 18 and", 13, "Expected a field name"],
+      ["(age > 1", 8, 'Expected ")"'],
+      ["age 18", 4, 'Expected an operator after "age"'],
+      ["tags in (a b)", 11, 'Expected "," or ")"'],
+      ["tags size 1.5", 10, "Expected a non-negative integer"],
+      ['name = "open', 7, "Unterminated string"],
+      ["age > 1 )", 8, 'Unexpected ")"'],
+    ];
+    for (const [input, position, message] of cases) {
+      const error = syntaxError(() => parseFilter<User>(input));
+      expect(error.position, input).toBe(position);
+      expect(error.message, input).toContain(message);
+    }
+  });
+
+  it("rejects field names that start with $", () => {
+    for (const input of [
+      '$where = "globalThis.pwned = 1, true"',
+      "$or = 2",
+      "age > 1 and profile.$where = x",
+    ]) {
+      const error = syntaxError(() => parseFilter<User>(input));
+      expect(error.message, input).toContain("Expected a field name");
+    }
+  });
+
+  it("rejects fields outside the allowed list", () => {
+    const fields = ["name", "age", "profile.active"] as const;
+    expect(parseFilter<User>("age > 1", { fields })).toEqual({
+      age: { $gt: 1 },
+    });
+
+    const error = syntaxError(() =>
+      parseFilter<User>("age > 1 or email = x", { fields })
+    );
+    expect(error.position).toBe(11);
+    expect(error.message).toBe('Unknown field "email" at position 11');
+  });
+});
+
+describe("stringifyFilter", () => {
+  it("formats queries with minimal parentheses", () => {
+    expect(
+      stringifyFilter<User>({
+        $or: [
+          { age: { $gte: 18 }, "profile.active": true },
+          { tags: { $in: ["admin", "mod"] } },
+        ],
+      })
+    ).toBe("age >= 18 and profile.active = true or tags in (admin, mod)");
+    expect(
+      stringifyFilter<User>({
+        name: { $ne: "x" },
+        $or: [{ age: 1 }, { age: 2 }],
+        $nor: [{ email: { $exists: true } }],
+      })
+    ).toBe("name != x and (age = 1 or age = 2) and not email exists");
+  });
+
+  it("quotes strings that are not plain words", () => {
+    expect(
+      stringifyFilter<User>({
+        $and: [
+          { name: "Carol O'Neil" },
+          { name: "and" },
+          { name: "42" },
+          { name: 'say "hi"' },
+        ],
+      })
+    ).toBe(
+      `name = "Carol O'Neil" and name = "and" and name = "42" and name = "say \\"hi\\""`
+    );
+  });
+
+  it("formats regex, list and existence conditions", () => {
+    expect(
+      stringifyFilter<User>({
+        email: { $regex: "^a", $options: "i" },
+        tags: { $all: ["a"], $size: 1 },
+        name: { $nin: [] },
+      })
+    ).toBe("email ~ /^a/i and tags all (a) and tags size 1 and name not in ()");
+  });
+
+  it("formats field-level $not as a negated condition", () => {
+    const negated = JSON.parse('{ "age": { "$not": { "$gt": 5, "$lt": 9 } } }');
+    expect(stringifyFilter<User>(negated)).toBe("not (age > 5 and age < 9)");
+  });
+
+  it("returns an empty string for an empty query", () => {
+    expect(stringifyFilter<User>({})).toBe("");
+  });
+
+  it("rejects queries the syntax cannot express", () => {
+    expect(() => stringifyFilter<User>({ age: { $type: "number" } })).toThrow(
+      'Cannot stringify $type on "age"'
+    );
+    expect(() =>
+      stringifyFilter<User>({ profile: { active: true, country: null } })
+    ).toThrow("document equality");
+    expect(() => stringifyFilter<User>({ age: Infinity })).toThrow(TypeError);
+    expect(() => stringifyFilter(JSON.parse('{ "$where": "1" }'))).toThrow(
+      TypeError
+    );
+  });
+
+  it("round-trips QueryBuilder queries", () => {
+    const built = query<User>()
+      .where("age")
+      .gte(17)
+      .and("profile.country")
+      .in(["US", "DE"])
+      .or("tags")
+      .size(2)
+      .or("name")
+      .regex(/^car/i)
+      .build();
+
+    const filter = stringifyFilter(built);
+    const parsed = parseFilter<User>(
+      decodeURIComponent(encodeURIComponent(filter))
+    );
+
+    expect(names(parsed)).toEqual(names(built));
+    expect(stringifyFilter(parsed)).toBe(filter);
+  });
+});
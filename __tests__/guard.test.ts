@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  createSafeQuery,
+  guardQuery,
+  isUnsafeRegex,
+  QueryGuardError,
+  SafeSift,
+} from "../src";
+import type { QueryGuardCode } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  tags: string[];
+}
+
+const users: User[] = [
+  { name: "Alice", age: 30, tags: ["a"] },
+  { name: "Bob", age: 17, tags: [] },
+];
+
+function violation(input: unknown, limits = {}) {
+  try {
+    guardQuery(input, limits);
+  } catch (error) {
+    if (error instanceof QueryGuardError) {
+      return { code: error.code, pointer: error.pointer };
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+describe("createSafeQuery", () => {
+  it("returns a working SafeSift for safe queries", () => {
+    const safe = createSafeQuery<User>(
+      JSON.parse('{ "age": { "$gte": 18 }, "name": { "$regex": "^A" } }')
+    );
+    expect(safe).toBeInstanceOf(SafeSift);
+    expect(safe.filter(users)).toEqual([users[0]]);
+  });
+
+  it("throws a typed QueryGuardError", () => {
+    expect(() => createSafeQuery<User>({ $where: "this.age > 1" })).toThrow(
+      QueryGuardError
+    );
+    expect(() => createSafeQuery<User>({ $where: "1" })).toThrow(
+      "$where is not allowed in queries"
+    );
+  });
+});
+
+describe("guardQuery", () => {
+  it("rejects code execution", () => {
+    const cases: [unknown, QueryGuardCode, string][] = [
+      [{ $where: "sleep(1e9)" }, "forbidden-operator", "/$where"],
+      [{ $or: [{ $where: "1" }] }, "forbidden-operator", "/$or/0/$where"],
+      [
+        { name: { nested: { $function: {} } } },
+        "forbidden-operator",
+        "/name/nested/$function",
+      ],
+      [{ name: () => true }, "function-value", "/name"],
+      [{ age: { $in: [1, () => 2] } }, "function-value", "/age/$in/1"],
+    ];
+    for (const [input, code, pointer] of cases) {
+      expect(violation(input)).toEqual({ code, pointer });
+    }
+  });
+
+  it("caps nesting depth", () => {
+    const deep = { $and: [{ $and: [{ $and: [{ name: "x" }] }] }] };
+    expect(violation(deep, { maxDepth: 6 })).toEqual({
+      code: "max-depth",
+      pointer: "/$and/0/$and/0/$and/0",
+    });
+    expect(violation(deep, { maxDepth: 7 })).toBeUndefined();
+    expect(
+      violation({ name: { a: { b: { c: 1 } } } }, { maxDepth: 3 })
+    ).toEqual({
+      code: "max-depth",
+      pointer: "/name/a/b",
+    });
+  });
+
+  it("caps $in, $nin and $all lengths", () => {
+    expect(violation({ age: { $in: [1, 2, 3] } }, { maxInLength: 2 })).toEqual({
+      code: "max-in-length",
+      pointer: "/age/$in",
+    });
+    expect(
+      violation({ tags: { $all: ["a", "b"] } }, { maxInLength: 2 })
+    ).toBeUndefined();
+  });
+
+  it("caps the number of conditions", () => {
+    const query = {
+      name: "a",
+      age: { $gte: 1, $lte: 5 },
+      $or: [{ tags: "x" }, { tags: { $elemMatch: { $eq: "y" } } }],
+    };
+    expect(violation(query, { maxPredicates: 5 })).toBeUndefined();
+    expect(violation(query, { maxPredicates: 4 })).toEqual({
+      code: "max-predicates",
+      pointer: "/$or/1/tags/$elemMatch/$eq",
+    });
+  });
+
+  it("rejects unsafe and overlong regular expressions", () => {
+    expect(violation({ name: { $regex: "^(a+)+$" } })).toEqual({
+      code: "unsafe-regex",
+      pointer: "/name/$regex",
+    });
+    expect(violation({ name: /(\w|\w)*x/ })).toEqual({
+      code: "unsafe-regex",
+      pointer: "/name",
+    });
+    expect(violation({ name: { $not: /(x*)*/ } })).toEqual({
+      code: "unsafe-regex",
+      pointer: "/name/$not",
+    });
+    expect(
+      violation({ name: { $regex: "a".repeat(11) } }, { maxRegexLength: 10 })
+    ).toEqual({
+      code: "regex-too-long",
+      pointer: "/name/$regex",
+    });
+  });
+
+  it("rejects input that is not an object", () => {
+    for (const input of [null, "{}", [{ name: "a" }]]) {
+      expect(() => guardQuery(input)).toThrow(TypeError);
+    }
+  });
+});
+
+describe("isUnsafeRegex", () => {
+  it("flags nested repetition and duplicate alternatives", () => {
+    for (const source of [
+      "(a+)+",
+      "(a*)*b",
+      "(?:\\d+\\s?)+$",
+      "(.*,){2,}",
+      "((ab)*c)+",
+      "(a|a)+",
+      "(x+){1,10}",
+    ]) {
+      expect(isUnsafeRegex(source)).toBe(true);
+    }
+  });
+
+  it("accepts common patterns", () => {
+    for (const source of [
+      "^[a-z]+$",
+      "^\\d{3}-\\d{4}$",
+      "(ab)+",
+      "(a+)?",
+      "(a|b)*",
+      "[(+]+",
+      "\\(a+\\)+",
+      "^(?:https?://)?[\\w.-]+$",
+    ]) {
+      expect(isUnsafeRegex(source)).toBe(false);
+    }
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { areQueriesEqual } from "../src/are-queries-equal";
+import { areQueriesEqual, areQueriesEquivalent } from "../src/are-queries-equal";
+import { canonicalizeQuery } from "../src/canonicalize-query";
+import { SafeSift } from "../src";
 import type { SafeSiftQuery } from "../src/types";
 
 interface User {
@@ -324,4 +326,166 @@ describe("areQueriesEqual", () => {
       expect(areQueriesEqual(query, query)).toBe(true);
     });
   });
-});
\ No newline at end of file
+});
+
+describe("areQueriesEquivalent", () => {
+  const users: User[] = [
+    {
+      id: 1,
+      name: "Alice",
+      age: 30,
+      email: "alice@example.com",
+      profile: {
+        active: true,
+        department: "eng",
+        settings: { theme: "dark", notifications: true },
+      },
+      tags: ["admin", "dev"],
+    },
+    {
+      id: 2,
+      name: "bob",
+      age: 17,
+      email: "bob@example.com",
+      profile: {
+        active: false,
+        department: "sales",
+        settings: { theme: "light", notifications: false },
+      },
+      tags: [],
+    },
+    {
+      id: 3,
+      name: "Carol",
+      age: 45,
+      email: "carol@example.org",
+      profile: {
+        active: true,
+        department: "sales",
+        settings: { theme: "dark", notifications: false },
+      },
+      tags: ["dev"],
+    },
+  ];
+
+  const equivalent: [string, SafeSiftQuery<User>, SafeSiftQuery<User>][] = [
+    ["implicit and explicit $eq", { age: 18 }, { age: { $eq: 18 } }],
+    [
+      "$and and sibling fields",
+      { $and: [{ name: "Alice" }, { $and: [{ age: { $gt: 18 } }] }] },
+      { age: { $gt: 18 }, name: "Alice" },
+    ],
+    [
+      "reordered and duplicate $or branches",
+      { $or: [{ name: "Alice" }, { age: { $lt: 18 } }, { name: "Alice" }] },
+      { $or: [{ age: { $lt: 18 } }, { name: { $eq: "Alice" } }] },
+    ],
+    [
+      "nested $or",
+      { $or: [{ name: "a" }, { $or: [{ name: "b" }, { name: "c" }] }] },
+      { $or: [{ name: "c" }, { name: "b" }, { name: "a" }] },
+    ],
+    [
+      "regexes with the same source",
+      { name: { $regex: /^a/i } },
+      { name: { $regex: "^a", $options: "i" } },
+    ],
+    [
+      "reordered and duplicate $in values",
+      { tags: { $in: ["dev", "admin", "dev"] } },
+      { tags: { $in: ["admin", "dev"] } },
+    ],
+    ["a single $in value", { name: { $in: ["Alice"] } }, { name: "Alice" }],
+    [
+      "$not and $nor",
+      { $not: { profile: { $exists: true } } },
+      { $nor: [{ profile: { $exists: true } }] },
+    ],
+    [
+      "$nor of $or",
+      { $nor: [{ $or: [{ name: "a" }, { name: "b" }] }] },
+      { $nor: [{ name: "b" }, { name: "a" }] },
+    ],
+    [
+      "reordered keys in operator objects",
+      { age: { $gte: 18, $lt: 65 }, "profile.active": true },
+      { "profile.active": true, age: { $lt: 65, $gte: 18 } },
+    ],
+  ];
+
+  it.each(equivalent)("treats %s as equivalent", (_, query1, query2) => {
+    expect(areQueriesEquivalent(query1, query2)).toBe(true);
+    expect(new SafeSift(query1).filter(users)).toEqual(
+      new SafeSift(query2).filter(users)
+    );
+  });
+
+  it("still tells different queries apart", () => {
+    expect(areQueriesEquivalent<User>({ age: 18 }, { age: 19 })).toBe(false);
+    expect(
+      areQueriesEquivalent<User>(
+        { name: { $regex: /^a/ } },
+        { name: { $regex: /^a/i } }
+      )
+    ).toBe(false);
+    expect(
+      areQueriesEquivalent<User>(
+        { $or: [{ name: "a" }, { age: 1 }] },
+        { name: "a", age: 1 }
+      )
+    ).toBe(false);
+    expect(
+      areQueriesEquivalent<User>(
+        { tags: { $in: ["a", "b"] } },
+        { tags: { $all: ["a", "b"] } }
+      )
+    ).toBe(false);
+  });
+
+  it("keeps single-value $nin and $in [null] apart from $ne and $eq", () => {
+    const docs = [
+      { o: [{ x: 1 }, { x: 2 }] },
+      { o: [{ x: 1 }, {}] },
+      { o: [{ y: 1 }] },
+      { o: [] },
+    ];
+    const pairs: [string, string][] = [
+      ['{ "o.x": { "$nin": [1] } }', '{ "o.x": { "$ne": 1 } }'],
+      ['{ "o.x": { "$in": [null] } }', '{ "o.x": { "$eq": null } }'],
+    ];
+    for (const [json1, json2] of pairs) {
+      const query1: SafeSiftQuery<(typeof docs)[number]> = JSON.parse(json1);
+      const query2: SafeSiftQuery<(typeof docs)[number]> = JSON.parse(json2);
+      expect(new SafeSift(query1).filter(docs)).not.toEqual(
+        new SafeSift(query2).filter(docs)
+      );
+      expect(areQueriesEquivalent(query1, query2)).toBe(false);
+    }
+  });
+
+  it("keeps conflicting conditions on one field", () => {
+    const query: SafeSiftQuery<User> = {
+      $and: [{ age: { $gt: 18 } }, { age: { $gt: 21 } }, { age: { $gt: 18 } }],
+    };
+    expect(canonicalizeQuery(query)).toEqual({
+      age: { $gt: 18 },
+      $and: [{ age: { $gt: 21 } }],
+    });
+    expect(new SafeSift(canonicalizeQuery(query)).filter(users)).toEqual(
+      new SafeSift(query).filter(users)
+    );
+  });
+
+  it("drops $or groups with an empty branch", () => {
+    expect(
+      canonicalizeQuery<User>({ name: "Alice", $or: [{}, { age: 1 }] })
+    ).toEqual({ name: { $eq: "Alice" } });
+  });
+
+  it("is idempotent", () => {
+    for (const [, query] of equivalent) {
+      const canonical = canonicalizeQuery(query);
+      expect(canonicalizeQuery(canonical)).toEqual(canonical);
+    }
+  });
+});
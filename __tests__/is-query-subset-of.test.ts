@@ -0,0 +1,239 @@
+import { describe, it, expect } from "vitest";
+import { SafeSift, isQuerySubsetOf } from "../src";
+import type { SafeSiftQuery } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  role: "admin" | "user" | "guest";
+  nickname?: string | null;
+  tags: string[];
+  address: { city: string };
+  joined: Date;
+}
+
+const users: User[] = [
+  {
+    name: "Alice",
+    age: 30,
+    role: "admin",
+    nickname: "Al",
+    tags: ["x", "y"],
+    address: { city: "Berlin" },
+    joined: new Date("2020-01-01"),
+  },
+  {
+    name: "Bob",
+    age: 17,
+    role: "user",
+    tags: [],
+    address: { city: "Paris" },
+    joined: new Date("2022-06-01"),
+  },
+  {
+    name: "Carol",
+    age: 45,
+    role: "guest",
+    nickname: "Caz",
+    tags: ["y", "z"],
+    address: { city: "Berlin" },
+    joined: new Date("2021-03-01"),
+  },
+  {
+    name: "Dave",
+    age: 21,
+    role: "user",
+    tags: ["x"],
+    address: { city: "Rome" },
+    joined: new Date("2019-11-15"),
+  },
+];
+
+const options = {
+  scalarPaths: ["name", "age", "role", "nickname", "address.city", "joined"],
+} as const;
+
+/** Parse a query the types reject, such as `$gt` on an array of strings. */
+const raw = (json: string): SafeSiftQuery<User> => JSON.parse(json);
+
+/** Assert the answer and check it against the fixture users. */
+function expectSubset(
+  narrow: SafeSiftQuery<User>,
+  broad: SafeSiftQuery<User>,
+  expected: boolean | "unknown"
+): void {
+  expect(isQuerySubsetOf<User>(narrow, broad, options)).toBe(expected);
+  if (expected === true) {
+    const matchesBroad = new SafeSift(broad).filter(users);
+    expect(matchesBroad).toEqual(
+      expect.arrayContaining(new SafeSift(narrow).filter(users))
+    );
+  }
+}
+
+describe("isQuerySubsetOf", () => {
+  it("proves containment between ranges", () => {
+    expectSubset({ age: { $gte: 21 } }, { age: { $gt: 18 } }, true);
+    expectSubset({ age: { $gt: 20, $lt: 30 } }, { age: { $lte: 30 } }, true);
+    expectSubset(
+      { joined: { $gte: new Date("2021-01-01") } },
+      { joined: { $gt: new Date("2020-06-01") } },
+      true
+    );
+    expectSubset({ age: { $gte: 18 } }, { age: { $gt: 18 } }, false);
+    expectSubset({ age: { $gt: 18 } }, { age: { $lt: 65 } }, false);
+  });
+
+  it("decides equality and $in against other conditions", () => {
+    expectSubset({ age: 30 }, { age: { $gt: 18, $ne: 21 } }, true);
+    expectSubset({ role: "admin" }, { role: { $in: ["admin", "user"] } }, true);
+    expectSubset(
+      { role: { $in: ["admin", "user"] } },
+      { role: { $ne: "guest" } },
+      true
+    );
+    expectSubset(
+      { role: { $in: ["admin", "user"] } },
+      { role: "admin" },
+      false
+    );
+  });
+
+  it("compares $nin and $ne by the values they exclude", () => {
+    expectSubset(
+      { role: { $nin: ["guest", "user"] } },
+      { role: { $ne: "guest" } },
+      true
+    );
+    expectSubset({ age: { $gt: 18 } }, { age: { $nin: [10, 17] } }, true);
+    expectSubset(
+      { role: { $ne: "guest" } },
+      { role: { $nin: ["guest", "user"] } },
+      false
+    );
+  });
+
+  it("reasons about $exists", () => {
+    expectSubset(
+      { nickname: { $regex: "^A" } },
+      { nickname: { $exists: true } },
+      true
+    );
+    expectSubset(
+      { "address.city": "Berlin" },
+      { address: { $exists: true } },
+      true
+    );
+    expectSubset(
+      { nickname: { $exists: false } },
+      { nickname: { $ne: "Al" } },
+      true
+    );
+    expectSubset(
+      { nickname: { $exists: false } },
+      { nickname: { $ne: null } },
+      false
+    );
+    expectSubset(
+      { name: "Alice" },
+      { name: "Alice", nickname: { $exists: true } },
+      false
+    );
+  });
+
+  it("handles $and and $or on both sides", () => {
+    expectSubset(
+      { $or: [{ role: "admin" }, { role: "user" }] },
+      { role: { $in: ["admin", "user", "guest"] } },
+      true
+    );
+    expectSubset(
+      { $and: [{ role: "admin" }, { age: { $gte: 30 } }] },
+      { $or: [{ role: "guest" }, { age: { $gt: 21 } }] },
+      true
+    );
+    expectSubset(
+      { role: { $in: ["admin", "user"] } },
+      { $or: [{ role: "admin" }, { age: { $gt: 65 } }] },
+      false
+    );
+  });
+
+  it("uses negated clauses of the broad query", () => {
+    expectSubset({ role: "admin" }, { $nor: [{ role: "guest" }] }, true);
+    expectSubset({ role: "admin" }, { $nor: [{ age: { $lt: 18 } }] }, false);
+  });
+
+  it("treats a query that never matches as a subset of anything", () => {
+    expectSubset({ age: { $gt: 65, $lt: 18 } }, { name: "Nobody" }, true);
+    expectSubset(
+      { $or: [{ age: 30 }, { age: 31 }], name: "Alice" },
+      { age: { $gte: 30 } },
+      true
+    );
+  });
+
+  it("only uses implications that hold for arrays on array paths", () => {
+    expectSubset({ tags: "x" }, { tags: { $in: ["x", "y"] } }, true);
+    expectSubset({ tags: { $all: ["x", "y"] } }, { tags: "y" }, true);
+    expectSubset(
+      { tags: { $nin: ["x", "z"] } },
+      { tags: { $nin: ["z"] } },
+      true
+    );
+    expectSubset({ tags: { $in: ["x", "y"] } }, { tags: "x" }, false);
+    // one element may be "z" and another "a"
+    expectSubset(
+      raw('{ "tags": { "$gt": "m" } }'),
+      raw('{ "tags": { "$ne": "a" } }'),
+      "unknown"
+    );
+    expectSubset({ name: { $gt: "m" } }, { name: { $ne: "a" } }, true);
+  });
+
+  it("treats undeclared paths as possibly holding arrays", () => {
+    const docs = [
+      { tags: ["a", "b"], n: [6, 2] },
+      { tags: "a", n: 4 },
+      { tags: ["b"], n: 1 },
+      { tags: [], n: [] },
+    ];
+    const cases: [string, string, boolean | "unknown"][] = [
+      [
+        '{ "tags": "a", "$and": [{ "tags": "b" }] }',
+        '{ "tags": "zzz" }',
+        "unknown",
+      ],
+      ['{ "n": { "$gt": 5, "$lt": 3 } }', '{ "n": 99 }', "unknown"],
+      ['{ "tags": { "$in": ["a", "b"] } }', '{ "tags": "a" }', false],
+      ['{ "n": { "$gt": 5 } }', '{ "n": { "$gte": 5 } }', true],
+    ];
+    for (const [json1, json2, expected] of cases) {
+      const narrow: SafeSiftQuery<(typeof docs)[number]> = JSON.parse(json1);
+      const broad: SafeSiftQuery<(typeof docs)[number]> = JSON.parse(json2);
+      expect(isQuerySubsetOf(narrow, broad)).toBe(expected);
+
+      // a document matching only the narrow query rules out `true`
+      const matchesBroad = new SafeSift(broad).filter(docs);
+      const counterexamples = new SafeSift(narrow)
+        .filter(docs)
+        .filter((doc) => !matchesBroad.includes(doc));
+      expect(counterexamples.length > 0).toBe(expected !== true);
+    }
+  });
+
+  it("answers unknown when it can neither prove nor refute", () => {
+    expectSubset(
+      { name: { $regex: /^A/ } },
+      { name: { $regex: /^[A-C]/ } },
+      "unknown"
+    );
+    const where = raw('{ "$where": "this.age > 0" }');
+    expectSubset({ ...where, age: 30 }, { age: 30 }, true);
+    expectSubset({ age: 30 }, where, "unknown");
+  });
+
+  it("throws on malformed queries", () => {
+    expect(() => isQuerySubsetOf<User>({ $or: [] }, {})).toThrow(TypeError);
+  });
+});
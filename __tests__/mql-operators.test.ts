@@ -0,0 +1,223 @@
+import { describe, it, expect } from "vitest";
+import { SafeSift, normalizeQuery, validateQuery } from "../src";
+import type { QuerySchema, SafeSiftQuery } from "../src";
+import type { BsonType } from "../src/types";
+
+interface Item {
+  name: string;
+  qty: number;
+  flags: number;
+  note?: string | null;
+  tags: string[];
+  meta: { size: number };
+}
+
+const items: Item[] = [
+  {
+    name: "bolt",
+    qty: 10,
+    flags: 0b0101,
+    note: "steel",
+    tags: ["a"],
+    meta: { size: 3 },
+  },
+  {
+    name: "nut",
+    qty: 7,
+    flags: 0b0011,
+    note: null,
+    tags: [],
+    meta: { size: 2 },
+  },
+  { name: "screw", qty: 25, flags: -1, tags: ["b", "c"], meta: { size: 5 } },
+  {
+    name: "washer",
+    qty: 2.5,
+    flags: 0,
+    note: "zinc",
+    tags: ["a"],
+    meta: { size: 1 },
+  },
+];
+
+const names = (q: SafeSiftQuery<Item>): string[] =>
+  new SafeSift(q).filter(items).map((i) => i.name);
+
+/** Parse a query the types reject. */
+const raw = (json: string): SafeSiftQuery<Item> => JSON.parse(json);
+
+describe("$mod", () => {
+  it("matches numbers by remainder", () => {
+    expect(names({ qty: { $mod: [5, 0] } })).toEqual(["bolt", "screw"]);
+    expect(names({ "meta.size": { $mod: [2, 1] } })).toEqual([
+      "bolt",
+      "screw",
+      "washer",
+    ]);
+  });
+
+  it("only applies to number fields", () => {
+    // @ts-expect-error - $mod requires a number field
+    const query: SafeSiftQuery<Item> = { name: { $mod: [2, 0] } };
+    expect(query).toBeDefined();
+  });
+});
+
+describe("bitwise operators", () => {
+  it("tests bitmasks and bit positions", () => {
+    expect(names({ flags: { $bitsAllSet: 0b0101 } })).toEqual([
+      "bolt",
+      "screw",
+    ]);
+    expect(names({ flags: { $bitsAllSet: [0, 1] } })).toEqual(["nut", "screw"]);
+    expect(names({ flags: { $bitsAnySet: [1, 2] } })).toEqual([
+      "bolt",
+      "nut",
+      "screw",
+    ]);
+    expect(names({ flags: { $bitsAllClear: 0b0110 } })).toEqual(["washer"]);
+    expect(names({ flags: { $bitsAnyClear: [0, 2] } })).toEqual([
+      "nut",
+      "washer",
+    ]);
+  });
+
+  it("sign-extends negative numbers and skips non-integers", () => {
+    expect(names({ flags: { $bitsAllSet: [63, 100] } })).toEqual(["screw"]);
+    expect(names({ qty: { $bitsAnySet: 0b1 } })).toEqual(["nut", "screw"]);
+  });
+
+  it("rejects invalid masks", () => {
+    expect(() => names(raw('{ "flags": { "$bitsAllSet": -1 } }'))).toThrow(
+      TypeError
+    );
+    expect(() =>
+      names(raw('{ "flags": { "$bitsAnySet": [1, 0.5] } }'))
+    ).toThrow("$bitsAnySet expects a non-negative integer bitmask");
+  });
+});
+
+describe("$type", () => {
+  it("accepts BSON aliases, numeric codes and arrays of them", () => {
+    expect(names({ note: { $type: "string" } })).toEqual(["bolt", "washer"]);
+    expect(names({ note: { $type: 2 } })).toEqual(["bolt", "washer"]);
+    expect(names({ note: { $type: ["null", "string"] } })).toEqual([
+      "bolt",
+      "nut",
+      "washer",
+    ]);
+    expect(names({ qty: { $type: "int" } })).toEqual(["bolt", "nut", "screw"]);
+    expect(names({ qty: { $type: "double" } })).toHaveLength(4);
+    expect(names({ meta: { $type: "object" } })).toHaveLength(4);
+    expect(names({ tags: { $type: "array" } })).toHaveLength(4);
+    expect(names({ tags: { $type: "string" } })).toEqual([
+      "bolt",
+      "screw",
+      "washer",
+    ]);
+  });
+
+  it("matches dates, regular expressions and bson objects", () => {
+    const docs = [
+      { v: new Date() },
+      { v: /x/ },
+      { v: { _bsontype: "ObjectId" } },
+      { v: { _bsontype: "Decimal128" } },
+      { v: 10n },
+      {},
+    ];
+    const types = (type: BsonType): number[] => {
+      const sifter = new SafeSift<{ v?: unknown }>({ v: { $type: type } });
+      return docs.flatMap((doc, i) => (sifter.test(doc) ? [i] : []));
+    };
+    expect(types("date")).toEqual([0]);
+    expect(types("regex")).toEqual([1]);
+    expect(types("objectId")).toEqual([2]);
+    expect(types("decimal")).toEqual([3]);
+    expect(types("long")).toEqual([4]);
+    expect(types("number")).toEqual([3, 4]);
+    expect(types("object")).toEqual([]);
+    expect(types("undefined")).toEqual([]);
+  });
+
+  it("rejects unknown types", () => {
+    // @ts-expect-error - not a BSON type
+    const query: SafeSiftQuery<Item> = { note: { $type: "text" } };
+    expect(() => names(query)).toThrow('Unknown $type "text"');
+    expect(() => names(raw('{ "note": { "$type": 99 } }'))).toThrow(
+      "Unknown $type 99"
+    );
+  });
+});
+
+describe("field-level $not", () => {
+  it("negates operator expressions and regular expressions", () => {
+    expect(names({ qty: { $not: { $gt: 5, $lt: 20 } } })).toEqual([
+      "screw",
+      "washer",
+    ]);
+    expect(names({ name: { $not: /^(bolt|nut)$/ } })).toEqual([
+      "screw",
+      "washer",
+    ]);
+    expect(names({ flags: { $not: { $bitsAnySet: 1 } } })).toEqual(["washer"]);
+    expect(names({ tags: { $not: { $size: 1 } } })).toEqual(["nut", "screw"]);
+    expect(names({ tags: { $not: { $all: ["a"] } } })).toEqual([
+      "nut",
+      "screw",
+    ]);
+  });
+
+  it("is typed like the operators it wraps", () => {
+    // @ts-expect-error - $gt on a number field expects a number
+    const query: SafeSiftQuery<Item> = { qty: { $not: { $gt: "5" } } };
+    // @ts-expect-error - regular expressions only apply to string fields
+    const regex: SafeSiftQuery<Item> = { qty: { $not: /5/ } };
+    expect([query, regex]).toHaveLength(2);
+  });
+});
+
+describe("runtime consistency", () => {
+  it("normalizes the operators into predicates", () => {
+    expect(
+      normalizeQuery({ qty: { $mod: [5, 0] }, flags: { $bitsAllSet: [1] } }).and
+    ).toEqual([
+      { path: "qty", op: "$mod", value: [5, 0] },
+      { path: "flags", op: "$bitsAllSet", value: [1] },
+    ]);
+  });
+
+  it("validates operands against a schema", () => {
+    const schema: QuerySchema<Item> = {
+      name: "string",
+      qty: "number",
+      flags: "number",
+      note: "string",
+      tags: ["string"],
+      meta: { size: "number" },
+    };
+    expect(
+      validateQuery<Item>(
+        {
+          qty: { $mod: [5, 0] },
+          flags: { $bitsAnyClear: [0, 3] },
+          note: { $type: ["string", 10] },
+        },
+        schema
+      ).valid
+    ).toBe(true);
+
+    const result = validateQuery<Item>(
+      JSON.parse(
+        '{ "name": { "$mod": [2, 0] }, "qty": { "$mod": [0, 1] }, "flags": { "$bitsAllSet": -2 }, "note": { "$type": "text" } }'
+      ),
+      schema
+    );
+    expect(result.errors.map((e) => [e.pointer, e.code])).toEqual([
+      ["/name/$mod", "invalid-operator"],
+      ["/qty/$mod", "invalid-value"],
+      ["/flags/$bitsAllSet", "invalid-value"],
+      ["/note/$type", "invalid-value"],
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import { SafeCollection, SafeSift, sortDocuments } from "../src";
+import type { ObserveOptions, SafeSiftQuery } from "../src";
+
+interface Player {
+  id: number;
+  name: string;
+  score: number;
+  online: boolean;
+}
+
+const players: Player[] = [
+  { id: 1, name: "Ann", score: 30, online: true },
+  { id: 2, name: "Ben", score: 10, online: false },
+  { id: 3, name: "Cat", score: 50, online: true },
+  { id: 4, name: "Dan", score: 20, online: true },
+];
+
+/** Mirrors the observed result by applying every callback to an array. */
+function mirror(
+  collection: SafeCollection<Player>,
+  query: SafeSiftQuery<Player>,
+  options: ObserveOptions<Player> = {}
+) {
+  const rows: Player[] = [];
+  const events: string[] = [];
+  const handle = collection.observe(
+    query,
+    {
+      onAdded: (doc, index) => {
+        rows.splice(index, 0, doc);
+        events.push(`added ${doc.name} at ${index}`);
+      },
+      onRemoved: (doc, index) => {
+        expect(rows[index]).toEqual(doc);
+        rows.splice(index, 1);
+        events.push(`removed ${doc.name} from ${index}`);
+      },
+      onChanged: (doc, previous, index) => {
+        expect(rows[index]).toEqual(previous);
+        rows[index] = doc;
+        events.push(`changed ${doc.name} at ${index}`);
+      },
+      onMoved: (doc, from, to) => {
+        rows.splice(to, 0, ...rows.splice(from, 1));
+        events.push(`moved ${doc.name} from ${from} to ${to}`);
+      },
+    },
+    options
+  );
+  return { rows, events, handle };
+}
+
+describe("SafeCollection.observe", () => {
+  it("reports the current result, then documents entering and leaving it", () => {
+    const collection = new SafeCollection<Player>(players);
+    const { rows, events } = mirror(collection, { online: true });
+    expect(events).toEqual([
+      "added Ann at 0",
+      "added Cat at 1",
+      "added Dan at 2",
+    ]);
+
+    events.length = 0;
+    collection.insert({ id: 5, name: "Eve", score: 40, online: true });
+    collection.insert({ id: 6, name: "Fay", score: 5, online: false });
+    collection.update({ id: 2 }, { $set: { online: true } });
+    collection.update({ id: 1 }, { $set: { online: false } });
+    collection.update({ id: 3 }, { $inc: { score: 1 } });
+    collection.remove({ id: 4 });
+
+    expect(events).toEqual([
+      "added Eve at 3",
+      "added Ben at 1",
+      "removed Ann from 0",
+      "changed Cat at 1",
+      "removed Dan from 2",
+    ]);
+    expect(rows.map((p) => p.name)).toEqual(["Ben", "Cat", "Eve"]);
+  });
+
+  it("keeps a sorted, limited window", () => {
+    const collection = new SafeCollection<Player>(players);
+    const { rows, events } = mirror(
+      collection,
+      { online: true },
+      { sort: { score: -1 }, limit: 2 }
+    );
+    expect(events).toEqual(["added Cat at 0", "added Ann at 1"]);
+
+    events.length = 0;
+    collection.insert({ id: 5, name: "Eve", score: 40, online: true });
+    expect(events).toEqual(["removed Ann from 1", "added Eve at 1"]);
+
+    events.length = 0;
+    collection.update({ id: 4 }, { $set: { score: 60 } });
+    expect(events).toEqual(["removed Eve from 1", "added Dan at 0"]);
+
+    events.length = 0;
+    collection.update({ id: 4 }, { $set: { score: 45 } });
+    expect(events).toEqual(["moved Dan from 0 to 1", "changed Dan at 1"]);
+
+    events.length = 0;
+    collection.remove({ id: 3 });
+    expect(events).toEqual(["removed Cat from 0", "added Eve at 1"]);
+
+    events.length = 0;
+    collection.update({ id: 2 }, { $set: { score: 1 } });
+    expect(events).toEqual([]);
+    expect(rows.map((p) => p.name)).toEqual(["Dan", "Eve"]);
+  });
+
+  it("matches a fresh query after any sequence of changes", () => {
+    let seed = 7;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+
+    const collection = new SafeCollection<Player>([], {
+      indexes: [{ path: "score", kind: "sorted" }],
+    });
+    const query: SafeSiftQuery<Player> = {
+      online: true,
+      score: { $gte: 20 },
+    };
+    const options: ObserveOptions<Player> = { sort: { score: -1 }, limit: 5 };
+    const observed = mirror(collection, query, options);
+    const unsorted = mirror(collection, query);
+
+    for (let step = 0; step < 300; step++) {
+      const id = random(30);
+      const action = random(3);
+      if (action === 0) {
+        collection.insert({
+          id,
+          name: `p${id}`,
+          score: random(100),
+          online: random(2) === 0,
+        });
+      } else if (action === 1) {
+        collection.update(
+          { id },
+          { $set: { score: random(100), online: random(3) > 0 } }
+        );
+      } else {
+        collection.remove({ id });
+      }
+
+      const matching = new SafeSift(query).filter(collection.toArray());
+      expect(observed.rows).toEqual(
+        sortDocuments(matching, options.sort!).slice(0, options.limit)
+      );
+      expect(unsorted.rows).toEqual(matching);
+    }
+  });
+
+  it("stops calling back once stopped", () => {
+    const collection = new SafeCollection<Player>(players);
+    const { events, handle } = mirror(collection, {});
+    events.length = 0;
+    handle.stop();
+    collection.insert({ id: 5, name: "Eve", score: 40, online: true });
+    expect(events).toEqual([]);
+  });
+});
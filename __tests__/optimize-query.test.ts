@@ -0,0 +1,257 @@
+import { describe, it, expect } from "vitest";
+import { SafeSift, optimizeQuery } from "../src";
+import type { SafeSiftQuery } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  role: "admin" | "user" | "guest";
+  status: string;
+  tags: string[];
+  joined: Date;
+}
+
+const users: User[] = [
+  {
+    name: "Alice",
+    age: 30,
+    role: "admin",
+    status: "a",
+    tags: ["x", "y"],
+    joined: new Date("2020-01-01"),
+  },
+  {
+    name: "Bob",
+    age: 17,
+    role: "user",
+    status: "b",
+    tags: [],
+    joined: new Date("2022-06-01"),
+  },
+  {
+    name: "Carol",
+    age: 45,
+    role: "guest",
+    status: "c",
+    tags: ["y", "z"],
+    joined: new Date("2021-03-01"),
+  },
+  {
+    name: "Dave",
+    age: 5,
+    role: "user",
+    status: "b",
+    tags: ["x"],
+    joined: new Date("2023-09-01"),
+  },
+];
+
+/** Optimize a query and check that it still matches the same users. */
+function optimized(query: SafeSiftQuery<User>) {
+  const result = optimizeQuery(query, {
+    scalarPaths: ["name", "age", "role", "status", "joined"],
+  });
+  expect(new SafeSift(result.query).filter(users)).toEqual(
+    new SafeSift(query).filter(users)
+  );
+  return result;
+}
+
+const codes = (result: { rewrites: { code: string }[] }) =>
+  result.rewrites.map((r) => r.code);
+
+describe("optimizeQuery", () => {
+  it("flattens $and and unwraps single-branch $or", () => {
+    const result = optimized({
+      $and: [{ name: "Alice" }, { $and: [{ age: { $gt: 18 } }] }],
+      $or: [{ role: "admin" }],
+    });
+    expect(result.query).toEqual({
+      name: "Alice",
+      age: { $gt: 18 },
+      role: "admin",
+    });
+    expect(codes(result)).toEqual(["flatten-and", "flatten-and", "unwrap-or"]);
+    expect(result.alwaysFalse).toBe(false);
+  });
+
+  it("keeps the tighter bound on each side", () => {
+    const result = optimized({
+      age: { $gte: 5, $gt: 3, $lt: 40 },
+      $and: [{ age: { $lte: 40 } }],
+      joined: { $gte: new Date("2021-01-01"), $gt: new Date("2021-01-01") },
+    });
+    expect(result.query).toEqual({
+      age: { $gte: 5, $lt: 40 },
+      joined: { $gt: new Date("2021-01-01") },
+    });
+    expect(result.rewrites).toContainEqual({
+      code: "merge-range",
+      path: "age",
+      message: "Dropped $gt: 3, implied by $gte: 5",
+    });
+  });
+
+  it("detects contradictory ranges and equalities", () => {
+    const ranges = optimized({ age: { $gt: 65, $lt: 18 } });
+    expect(ranges).toEqual({
+      query: { $nor: [{}] },
+      alwaysFalse: true,
+      rewrites: [
+        {
+          code: "always-false",
+          path: "age",
+          message: "$gt: 65 and $lt: 18 contradict",
+        },
+      ],
+    });
+    expect(optimized({ age: { $gte: 18, $lt: 18 } }).alwaysFalse).toBe(true);
+    expect(
+      optimized({ name: "Alice", $and: [{ name: "Bob" }] }).alwaysFalse
+    ).toBe(true);
+    expect(
+      optimized({ name: { $exists: false, $regex: "^A" } }).alwaysFalse
+    ).toBe(true);
+  });
+
+  it("drops conditions implied by an equality", () => {
+    const result = optimized({
+      age: { $eq: 30, $gt: 18, $nin: [17, 45] },
+    });
+    expect(result.query).toEqual({ age: 30 });
+    expect(codes(result)).toEqual(["implied-by-eq", "implied-by-eq"]);
+  });
+
+  it("folds $in intersections", () => {
+    const result = optimized({
+      status: { $in: ["a", "b", "c"], $ne: "c" },
+      $and: [{ status: { $in: ["b", "c", "d"] } }],
+    });
+    expect(result.query).toEqual({ status: { $in: ["b"] } });
+    expect(codes(result)).toContain("intersect-in");
+
+    expect(
+      optimized({
+        status: { $in: ["a"] },
+        $and: [{ status: { $in: ["b"] } }],
+      }).alwaysFalse
+    ).toBe(true);
+  });
+
+  it("hoists conditions shared by every $or branch", () => {
+    const result = optimized({
+      $or: [
+        { role: "user", age: { $lt: 18 } },
+        { role: "user", name: "Dave" },
+      ],
+    });
+    expect(result.query).toEqual({
+      role: "user",
+      $or: [{ age: { $lt: 18 } }, { name: "Dave" }],
+    });
+    expect(result.rewrites).toContainEqual({
+      code: "hoist-from-or",
+      path: "role",
+      message: 'Hoisted $eq: "user" out of $or',
+    });
+  });
+
+  it("removes $or branches that never match, duplicates and always-true $or", () => {
+    expect(
+      optimized({
+        $or: [{ age: { $gt: 5, $lt: 1 } }, { name: "Bob" }, { name: "Carol" }],
+      }).query
+    ).toEqual({ $or: [{ name: "Bob" }, { name: "Carol" }] });
+
+    const duplicate = optimized({
+      $or: [{ name: "Bob" }, { $or: [{ name: "Carol" }, { name: "Bob" }] }],
+    });
+    expect(duplicate.query).toEqual({
+      $or: [{ name: "Bob" }, { name: "Carol" }],
+    });
+    expect(codes(duplicate)).toEqual(["flatten-or", "remove-duplicate"]);
+
+    expect(
+      optimized({ role: "user", $or: [{ role: "user" }, { age: 5 }] }).query
+    ).toEqual({ role: "user" });
+    expect(
+      optimized({
+        $or: [
+          { age: { $gt: 5, $lt: 1 } },
+          { age: 1, name: "x", $and: [{ name: "y" }] },
+        ],
+      }).alwaysFalse
+    ).toBe(true);
+  });
+
+  it("optimizes inside $nor and $not", () => {
+    expect(
+      optimized({
+        $nor: [{ $and: [{ name: "Bob" }] }, { age: { $gt: 9, $lt: 1 } }],
+      }).query
+    ).toEqual({ $nor: [{ name: "Bob" }] });
+    expect(optimized({ $nor: [{}] }).alwaysFalse).toBe(true);
+  });
+
+  it("merges $nin lists but does not combine other conditions on array paths", () => {
+    const result = optimized({
+      tags: { $nin: ["z"], $in: ["x"] },
+      $and: [{ tags: { $nin: ["q"], $in: ["y"] } }],
+    });
+    expect(result.query).toEqual({
+      tags: { $in: ["x"], $nin: ["z", "q"] },
+      $and: [{ tags: { $in: ["y"] } }],
+    });
+    expect(result.alwaysFalse).toBe(false);
+    expect(new SafeSift(result.query).filter(users)).toHaveLength(1);
+  });
+
+  it("keeps queries equivalent on array documents unless paths are declared scalar", () => {
+    const docs = [
+      { n: [6, 2], tags: ["a", "b"], o: [{ x: 1 }, { y: 1 }] },
+      { n: 4, tags: "a", o: { x: 1 } },
+      { n: [], tags: [], o: [] },
+    ];
+    const queries = [
+      '{ "n": { "$gt": 5, "$lt": 3 } }',
+      '{ "n": 6, "$and": [{ "n": { "$lt": 3 } }] }',
+      '{ "tags": "a", "$and": [{ "tags": "b" }] }',
+      '{ "tags": { "$in": ["a"] }, "$and": [{ "tags": { "$in": ["b"] } }] }',
+      '{ "o.x": { "$exists": true }, "$and": [{ "o.x": { "$exists": false } }] }',
+    ];
+    for (const json of queries) {
+      const query: SafeSiftQuery<(typeof docs)[number]> = JSON.parse(json);
+      const result = optimizeQuery(query);
+      expect(result.alwaysFalse).toBe(false);
+      expect(new SafeSift(result.query).filter(docs)).toEqual(
+        new SafeSift(query).filter(docs)
+      );
+      expect(new SafeSift(query).filter(docs)).toHaveLength(1);
+    }
+
+    expect(
+      optimizeQuery<User>(
+        { tags: "a", $and: [{ tags: "b" }] },
+        { scalarPaths: ["tags"] }
+      ).alwaysFalse
+    ).toBe(true);
+  });
+
+  it("leaves already minimal queries alone", () => {
+    const query: SafeSiftQuery<User> = {
+      name: { $regex: "^A", $options: "i" },
+      age: { $gte: 18 },
+    };
+    const result = optimized(query);
+    expect(result.query).toEqual({
+      name: { $regex: /^A/i },
+      age: { $gte: 18 },
+    });
+    expect(result.rewrites).toEqual([]);
+    expect(optimized({})).toEqual({
+      query: {},
+      rewrites: [],
+      alwaysFalse: false,
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { SafeSift, safeSift, applyProjection } from "../src";
+import type { Projection, Projected, SafeSiftQuery } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  nickname?: string;
+  profile: { age: number; bio: string; joined: Date };
+  posts: { title: string; views: number }[];
+}
+
+const users: User[] = [
+  {
+    name: "Alice",
+    age: 30,
+    nickname: "Al",
+    profile: { age: 30, bio: "Engineer", joined: new Date("2020-01-01") },
+    posts: [
+      { title: "Hello", views: 10 },
+      { title: "World", views: 5 },
+    ],
+  },
+  {
+    name: "Bob",
+    age: 17,
+    profile: { age: 17, bio: "Student", joined: new Date("2022-06-01") },
+    posts: [],
+  },
+];
+
+describe("applyProjection", () => {
+  it("keeps only included paths", () => {
+    expect(
+      applyProjection(users[0]!, { name: 1, "profile.age": 1 })
+    ).toEqual({ name: "Alice", profile: { age: 30 } });
+  });
+
+  it("projects paths through arrays element-wise", () => {
+    expect(applyProjection(users[0]!, { "posts.title": 1 })).toEqual({
+      posts: [{ title: "Hello" }, { title: "World" }],
+    });
+  });
+
+  it("removes excluded paths and copies the rest", () => {
+    const result = applyProjection(users[0]!, {
+      profile: 0,
+      "posts.views": 0,
+    });
+    expect(result).toEqual({
+      name: "Alice",
+      age: 30,
+      nickname: "Al",
+      posts: [{ title: "Hello" }, { title: "World" }],
+    });
+    expect(users[0]!.posts[0]!.views).toBe(10);
+  });
+
+  it("skips missing fields", () => {
+    expect(applyProjection(users[1]!, { nickname: 1, name: 1 })).toEqual({
+      name: "Bob",
+    });
+  });
+
+  it("returns the document unchanged without a projection", () => {
+    expect(applyProjection(users[0]!, undefined)).toBe(users[0]);
+  });
+
+  it("rejects mixed projections at runtime", () => {
+    const mixed = JSON.parse('{ "name": 1, "age": 0 }');
+    expect(() => applyProjection(users[0]!, mixed)).toThrow(TypeError);
+  });
+});
+
+describe("SafeSift projection", () => {
+  it("projects filter, find and cursor results", () => {
+    const adults = new SafeSift<User>({ age: { $gte: 18 } }).project({
+      name: 1,
+      "profile.bio": 1,
+    });
+
+    expect(adults.filter(users)).toEqual([
+      { name: "Alice", profile: { bio: "Engineer" } },
+    ]);
+    expect(adults.find(users)).toEqual({
+      name: "Alice",
+      profile: { bio: "Engineer" },
+    });
+    expect(adults.cursor(users).toArray()).toHaveLength(1);
+    expect(adults.count(users)).toBe(1);
+  });
+
+  it("sorts on fields that the projection drops", () => {
+    const names = new SafeSift<User>({}, { sort: { age: 1 } })
+      .project({ name: 1 })
+      .filter(users);
+    expect(names).toEqual([{ name: "Bob" }, { name: "Alice" }]);
+  });
+
+  it("accepts a project option on safeSift", () => {
+    const query: SafeSiftQuery<User> = { name: "Bob" };
+    const { filter } = safeSift(query, { project: { posts: 0, profile: 0 } });
+    expect(filter(users)).toEqual([{ name: "Bob", age: 17 }]);
+  });
+
+  it("projects from a cursor", () => {
+    const rows = new SafeSift<User>({})
+      .cursor(users)
+      .sort({ name: -1 })
+      .project({ name: 1 })
+      .limit(1)
+      .toArray();
+    expect(rows).toEqual([{ name: "Bob" }]);
+  });
+});
+
+describe("projection types", () => {
+  it("narrows inclusion results", () => {
+    const rows = new SafeSift<User>({})
+      .project({ name: 1, nickname: 1, "profile.age": 1, "posts.title": 1 })
+      .filter(users);
+    expectTypeOf(rows).toEqualTypeOf<
+      {
+        name: string;
+        nickname?: string;
+        profile: { age: number };
+        posts: { title: string }[];
+      }[]
+    >();
+  });
+
+  it("narrows exclusion results", () => {
+    expectTypeOf<
+      Projected<User, { profile: 0; "posts.views": 0 }>
+    >().toEqualTypeOf<{
+      name: string;
+      age: number;
+      nickname?: string;
+      posts: { title: string }[];
+    }>();
+  });
+
+  it("leaves the document type alone without a projection", () => {
+    expectTypeOf(new SafeSift<User>({}).filter(users)).toEqualTypeOf<User[]>();
+  });
+
+  it("rejects mixed and unknown keys at compile time", () => {
+    const ok: Projection<User> = { name: 1, "profile.joined": true };
+    expect(ok).toBeDefined();
+
+    // @ts-expect-error - inclusion and exclusion cannot be mixed
+    const mixed: Projection<User> = { name: 1, age: 0 };
+    // @ts-expect-error - unknown path
+    const unknown: Projection<User> = { email: 1 };
+    expect([mixed, unknown]).toHaveLength(2);
+
+    // @ts-expect-error - inclusion and exclusion cannot be mixed
+    new SafeSift<User>({}).project({ name: 1, posts: 0 });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { query } from '../src/query-builder';
+import { query, QueryBuilder } from '../src/query-builder';
 
 interface User {
   id: number;
@@ -303,6 +303,137 @@ describe('QueryBuilder', () => {
       
       expect(result).toHaveLength(2);
     });
+
+    const names = (users: { name: string }[]) => users.map(user => user.name);
+    const at = (iso: string) => () => new Date(iso);
+
+    test('should compare with dates before and after', () => {
+      expect(names(query<User>().where('createdAt').before(new Date('2023-01-15')).execute().filter(testUsers))).toEqual(['Bob Johnson']);
+      expect(query<User>().where('createdAt').after(new Date('2023-01-01')).build()).toEqual({
+        createdAt: { $gt: new Date('2023-01-01') },
+      });
+    });
+
+    test('should build relative date ranges from the injected clock', () => {
+      const builder = query<User>({ now: at('2023-02-25T00:00:00Z'), utc: true });
+
+      expect(builder.where('createdAt').withinLast({ days: 30 }).build()).toEqual({
+        createdAt: {
+          $gte: new Date('2023-01-26T00:00:00Z'),
+          $lte: new Date('2023-02-25T00:00:00Z'),
+        },
+      });
+      expect(names(builder.where('createdAt').withinLast({ weeks: 6 }).execute().filter(testUsers))).toEqual(['John Doe', 'Jane Smith']);
+      expect(names(builder.where('createdAt').olderThan({ months: 1, days: 9 }).execute().filter(testUsers))).toEqual(['John Doe', 'Bob Johnson']);
+      expect(builder.where('createdAt').olderThan({ hours: 1, minutes: 30 }).build()).toEqual({
+        createdAt: { $lt: new Date('2023-02-24T22:30:00Z') },
+      });
+    });
+
+    test('should read the clock when the condition is added', () => {
+      let calls = 0;
+      const builder = query<User>({ now: () => new Date(Date.UTC(2023, 0, 1 + calls++)), utc: true });
+      const first = builder.where('createdAt').olderThan({});
+      const second = builder.where('createdAt').olderThan({});
+
+      expect(first.build()).toEqual({ createdAt: { $lt: new Date('2023-01-01T00:00:00Z') } });
+      expect(second.build()).toEqual({ createdAt: { $lt: new Date('2023-01-02T00:00:00Z') } });
+      expect(calls).toBe(2);
+    });
+
+    test('should subtract calendar months and years', () => {
+      const builder = query<User>({ now: at('2024-03-31T10:00:00Z'), utc: true });
+      expect(builder.where('createdAt').olderThan({ months: 1 }).build().createdAt).toEqual({
+        $lt: new Date('2024-02-29T10:00:00Z'),
+      });
+      expect(builder.where('createdAt').olderThan({ years: 1, months: 1 }).build().createdAt).toEqual({
+        $lt: new Date('2023-02-28T10:00:00Z'),
+      });
+      expect(builder.where('createdAt').olderThan({ months: 15 }).build().createdAt).toEqual({
+        $lt: new Date('2022-12-31T10:00:00Z'),
+      });
+    });
+
+    test('should match calendar days, months and half-open ranges', () => {
+      const utc = query<User>({ utc: true });
+
+      expect(utc.where('createdAt').onDay(new Date('2023-01-15T18:00:00Z')).build()).toEqual({
+        createdAt: {
+          $gte: new Date('2023-01-15T00:00:00Z'),
+          $lt: new Date('2023-01-16T00:00:00Z'),
+        },
+      });
+      expect(names(utc.where('createdAt').onDay(new Date('2023-01-15T18:00:00Z')).execute().filter(testUsers))).toEqual(['John Doe']);
+      expect(names(utc.where('createdAt').inMonth(new Date('2023-02-03T00:00:00Z')).execute().filter(testUsers))).toEqual(['Jane Smith']);
+      expect(utc.where('createdAt').inMonth(new Date('2022-12-31T23:00:00Z')).build().createdAt).toEqual({
+        $gte: new Date('2022-12-01T00:00:00Z'),
+        $lt: new Date('2023-01-01T00:00:00Z'),
+      });
+      expect(names(query<User>().where('createdAt').inRange(new Date('2022-12-10'), new Date('2023-01-15')).execute().filter(testUsers))).toEqual(['Bob Johnson']);
+
+      const local = query<User>().where('createdAt').onDay(new Date(2023, 5, 1, 15)).build().createdAt;
+      expect(local).toEqual({ $gte: new Date(2023, 5, 1), $lt: new Date(2023, 5, 2) });
+    });
+
+    test('should coerce dates for ISO string fields', () => {
+      type StoredUser = Omit<User, 'createdAt'> & { createdAt: string };
+      const isoUsers: StoredUser[] = testUsers.map(user => ({ ...user, createdAt: user.createdAt.toISOString() }));
+      const builder = query<StoredUser>({
+        now: at('2023-02-25T00:00:00Z'),
+        coerceDate: date => date.toISOString(),
+        utc: true,
+      });
+
+      expect(builder.where('createdAt').inMonth(new Date('2023-02-01T00:00:00Z')).build()).toEqual({
+        createdAt: { $gte: '2023-02-01T00:00:00.000Z', $lt: '2023-03-01T00:00:00.000Z' },
+      });
+      expect(names(builder.where('createdAt').withinLast({ weeks: 6 }).execute().filter(isoUsers))).toEqual(['John Doe', 'Jane Smith']);
+      expect(names(builder.where('createdAt').before(new Date('2023-01-01')).execute().filter(isoUsers))).toEqual(['Bob Johnson']);
+
+      const stored = QueryBuilder.from<StoredUser>({ isActive: true }, { coerceDate: date => date.toISOString() });
+      expect(stored.and('createdAt').after(new Date('2023-02-01T00:00:00Z')).build()).toEqual({
+        isActive: true,
+        $and: [{ createdAt: { $gt: '2023-02-01T00:00:00.000Z' } }],
+      });
+      const epoch = new QueryBuilder<{ at: number }, number>({ coerceDate: date => date.getTime() });
+      expect(epoch.where('at').before(new Date(5)).build()).toEqual({ at: { $lt: 5 } });
+
+      // @ts-expect-error - coerced strings cannot be compared with a number field
+      builder.where('age').before(new Date());
+      // @ts-expect-error - without coerceDate, string fields do not take date conditions
+      query<StoredUser>().where('createdAt').before(new Date());
+      // @ts-expect-error - coerced strings cannot be compared with a Date field
+      query<User>({ coerceDate: date => date.toISOString() }).where('createdAt').before(new Date());
+    });
+
+    test('should pass the options on to groups and derived builders', () => {
+      const builder = query<User>({ now: at('2023-02-25T00:00:00Z'), utc: true }).where('isActive').equals(true);
+
+      expect(builder.orGroup(q => q.where('createdAt').withinLast({ days: 10 })).build()).toEqual({
+        $or: [
+          { isActive: true },
+          { createdAt: { $gte: new Date('2023-02-15T00:00:00Z'), $lte: new Date('2023-02-25T00:00:00Z') } },
+        ],
+      });
+      expect(builder.clear().clone().where('createdAt').olderThan({ days: 1 }).build()).toEqual({
+        createdAt: { $lt: new Date('2023-02-24T00:00:00Z') },
+      });
+    });
+
+    test('should only offer date conditions on date fields', () => {
+      // @ts-expect-error - age is not a date
+      query<User>().where('age').before(new Date());
+      // @ts-expect-error - name is not a date
+      query<User>().where('name').withinLast({ days: 1 });
+      // @ts-expect-error - durations are objects of units
+      query<User>().where('createdAt').withinLast(7);
+
+      expect(() => query<User>().where('createdAt').before(new Date('nope'))).toThrow(RangeError);
+      expect(() => query<User>().where('createdAt').olderThan({ days: -1 })).toThrow(
+        'Duration days must be a non-negative integer'
+      );
+      expect(() => query<User>().where('createdAt').withinLast({ months: 1.5 })).toThrow(RangeError);
+    });
   });
 
   describe('Method chaining and fluency', () => {
@@ -370,10 +501,10 @@ describe('QueryBuilder', () => {
       expect(builtQuery).toHaveProperty('age');
       expect(builtQuery.$and).toHaveLength(1);
       
-      builder.removeField('age');
-      builtQuery = builder.build();
+      builtQuery = builder.removeField('age').build();
       expect(builtQuery).not.toHaveProperty('age');
       expect(builtQuery.$and).toHaveLength(1);
+      expect(builder.build()).toHaveProperty('age');
     });
 
     test('should remove OR conditions', () => {
@@ -384,8 +515,7 @@ describe('QueryBuilder', () => {
       let builtQuery = builder.build();
       expect(builtQuery).toHaveProperty('$or');
       
-      builder.removeOr();
-      builtQuery = builder.build();
+      builtQuery = builder.removeOr().build();
       expect(builtQuery).not.toHaveProperty('$or');
     });
 
@@ -397,8 +527,7 @@ describe('QueryBuilder', () => {
       let builtQuery = builder.build();
       expect(builtQuery).toHaveProperty('$and');
       
-      builder.removeAnd();
-      builtQuery = builder.build();
+      builtQuery = builder.removeAnd().build();
       expect(builtQuery).not.toHaveProperty('$and');
     });
 
@@ -410,8 +539,7 @@ describe('QueryBuilder', () => {
       let builtQuery = builder.build();
       expect(builtQuery).toHaveProperty('$not');
       
-      builder.removeNot();
-      builtQuery = builder.build();
+      builtQuery = builder.removeNot().build();
       expect(builtQuery).not.toHaveProperty('$not');
     });
 
@@ -425,8 +553,7 @@ describe('QueryBuilder', () => {
       let builtQuery = builder.build();
       expect(builtQuery).toHaveProperty('$not');
       
-      builder.removeLogical();
-      builtQuery = builder.build();
+      builtQuery = builder.removeLogical().build();
       expect(builtQuery).not.toHaveProperty('$or');
       expect(builtQuery).not.toHaveProperty('$and');
       expect(builtQuery).not.toHaveProperty('$not');
@@ -442,9 +569,7 @@ describe('QueryBuilder', () => {
       expect(builtQuery).toHaveProperty('$or');
       
       // Remove OR and add new condition
-      builder.removeOr().and('isActive').equals(true);
-      
-      builtQuery = builder.build();
+      builtQuery = builder.removeOr().and('isActive').equals(true).build();
       expect(builtQuery).not.toHaveProperty('$or');
       expect(builtQuery).toHaveProperty('$and');
     });
@@ -461,4 +586,181 @@ describe('QueryBuilder', () => {
       expect(Object.keys(builtQuery)).toHaveLength(0);
     });
   });
+
+  describe('Nested logical groups', () => {
+    const names = (users: User[]) => users.map(user => user.name);
+
+    test('should build (a AND b) OR (c AND d)', () => {
+      const builder = query<User>()
+        .where('isActive').equals(true)
+        .and('age').greaterThanOrEqual(35)
+        .orGroup(q => q.where('tags').contains('manager').and('age').lessThan(30));
+
+      expect(builder.build()).toEqual({
+        $or: [
+          { isActive: true, $and: [{ age: { $gte: 35 } }] },
+          { tags: 'manager', $and: [{ age: { $lt: 30 } }] },
+        ],
+      });
+      expect(names(builder.execute().filter(testUsers))).toEqual(['Jane Smith', 'Bob Johnson']);
+    });
+
+    test('should build a AND (b OR c)', () => {
+      const builder = query<User>()
+        .where('isActive').equals(true)
+        .andGroup(q => q.where('age').lessThan(31).or('tags').contains('manager'));
+
+      expect(builder.build()).toEqual({
+        isActive: true,
+        $and: [{ $or: [{ age: { $lt: 31 } }, { tags: 'manager' }] }],
+      });
+      expect(names(builder.execute().filter(testUsers))).toEqual(['John Doe']);
+    });
+
+    test('should combine conditions from left to right', () => {
+      expect(
+        query<User>()
+          .where('isActive').equals(true)
+          .and('age').greaterThanOrEqual(35)
+          .or('name').equals('Jane Smith')
+          .build()
+      ).toEqual({
+        $or: [
+          { isActive: true, $and: [{ age: { $gte: 35 } }] },
+          { name: 'Jane Smith' },
+        ],
+      });
+
+      const builder = query<User>()
+        .where('age').equals(25)
+        .or('age').equals(35)
+        .and('isActive').equals(true)
+        .or('name').equals('John Doe');
+      expect(builder.build()).toEqual({
+        $or: [
+          {
+            $or: [{ age: 25 }, { age: 35 }],
+            $and: [{ isActive: true }],
+          },
+          { name: 'John Doe' },
+        ],
+      });
+      expect(names(builder.execute().filter(testUsers))).toEqual(['John Doe', 'Bob Johnson']);
+    });
+
+    test('should build NOR groups', () => {
+      const builder = query<User>()
+        .where('isActive').equals(true)
+        .nor(q => q.where('age').greaterThan(32), q => q.where('name').equals('Nobody'));
+
+      expect(builder.build()).toEqual({
+        isActive: true,
+        $nor: [{ age: { $gt: 32 } }, { name: 'Nobody' }],
+      });
+      expect(names(builder.execute().filter(testUsers))).toEqual(['John Doe']);
+      expect(builder.nor(q => q.where('tags').contains('admin')).build().$nor).toHaveLength(3);
+    });
+
+    test('should compose prebuilt builders', () => {
+      const developers = query<User>().where('tags').contains('developer');
+      const managers = query<User>().where('tags').contains('manager');
+      const builder = query<User>().andGroup(developers).orGroup(managers);
+
+      developers.and('age').greaterThan(100);
+
+      expect(builder.build()).toEqual({
+        $or: [{ $and: [{ tags: 'developer' }] }, { tags: 'manager' }],
+      });
+      expect(testUsers.filter(user => builder.execute().test(user))).toHaveLength(3);
+    });
+
+    test('should nest groups and keep negated groups', () => {
+      const built = query<User>()
+        .andGroup(q =>
+          q
+            .where('isActive').equals(true)
+            .orGroup(inner => inner.where('age').equals(25).not())
+        )
+        .build();
+
+      expect(built).toEqual({
+        $and: [{ $or: [{ isActive: true }, { $not: { age: 25 } }] }],
+      });
+    });
+
+    test('should ignore groups without conditions', () => {
+      expect(
+        query<User>()
+          .where('age').equals(30)
+          .andGroup(q => q)
+          .orGroup(query<User>())
+          .nor(q => q.clear())
+          .build()
+      ).toEqual({ age: 30 });
+    });
+  });
+
+  describe('Immutability and composition', () => {
+    const names = (users: User[]) => users.map(user => user.name);
+
+    test('should leave a shared base builder unchanged', () => {
+      const base = query<User>().where('isActive').equals(true);
+      const seniors = base.and('age').greaterThan(32);
+      const admins = base.or('tags').contains('manager').not();
+      const sorted = base.sortBy('age', 'desc').limit(1);
+
+      expect(base.build()).toEqual({ isActive: true });
+      expect(seniors.build()).toEqual({ isActive: true, $and: [{ age: { $gt: 32 } }] });
+      expect(admins.build()).toEqual({ $not: { $or: [{ isActive: true }, { tags: 'manager' }] } });
+      expect(names(base.execute().filter(testUsers))).toEqual(['John Doe', 'Bob Johnson']);
+      expect(names(sorted.execute().filter(testUsers))).toEqual(['Bob Johnson']);
+    });
+
+    test('should share unchanged parts and freeze built queries', () => {
+      const base = query<User>()
+        .where('age').greaterThan(20)
+        .andGroup(q => q.where('isActive').equals(true).or('tags').contains('manager'));
+      const extended = base.where('name').equals('John Doe');
+
+      expect(extended.build().$and![0]).toBe(base.build().$and![0]);
+      expect(base.clone().build()).toBe(base.build());
+      expect(Object.isFrozen(base.build())).toBe(true);
+      expect(Object.isFrozen(base.build().$and)).toBe(true);
+      expect(() => {
+        base.build().$and!.push({ name: 'Jane Smith' });
+      }).toThrow(TypeError);
+    });
+
+    test('should negate part of a query', () => {
+      const builder = query<User>()
+        .where('isActive').equals(true)
+        .negate(q => q.where('age').greaterThan(32).or('tags').contains('admin'));
+
+      expect(builder.build()).toEqual({
+        isActive: true,
+        $and: [{ $not: { $or: [{ age: { $gt: 32 } }, { tags: 'admin' }] } }],
+      });
+      expect(builder.execute().filter(testUsers)).toHaveLength(0);
+      expect(names(query<User>().negate(query<User>().where('isActive').equals(true)).execute().filter(testUsers))).toEqual(['Jane Smith']);
+      expect(builder.negate(q => q).build()).toBe(builder.build());
+    });
+
+    test('should merge builders', () => {
+      const visible = query<User>().where('isActive').equals(true).sortBy('name').limit(5);
+      const experienced = query<User>().where('age').greaterThanOrEqual(30).sortBy('age', 'desc').sortBy('name', 'desc').skip(1);
+      const merged = visible.merge(experienced);
+
+      expect(merged.build()).toEqual({ isActive: true, $and: [{ age: { $gte: 30 } }] });
+      expect(names(merged.execute().filter(testUsers))).toEqual(['John Doe']);
+      expect(names(visible.merge(experienced.skip(0)).execute().filter(testUsers))).toEqual(['Bob Johnson', 'John Doe']);
+      expect(visible.build()).toEqual({ isActive: true });
+
+      expect(query<User>().merge(visible).build()).toBe(visible.build());
+      expect(visible.merge(query<User>()).build()).toBe(visible.build());
+      expect(visible.not().merge(experienced).build()).toEqual({
+        $not: { isActive: true },
+        $and: [{ age: { $gte: 30 } }],
+      });
+    });
+  });
 });
\ No newline at end of file
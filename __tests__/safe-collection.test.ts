@@ -0,0 +1,274 @@
+import { describe, it, expect } from "vitest";
+import { SafeCollection, SafeSift } from "../src";
+import type { SafeSiftQuery } from "../src";
+
+interface User {
+  id: number;
+  name: string;
+  age: number;
+  status: "active" | "inactive" | "pending";
+  tags: string[];
+  profile: { country: string; score?: number };
+  joined: Date;
+  posts: { title: string; views: number }[];
+}
+
+const COUNTRIES = ["DE", "US", "FR"];
+
+function makeUser(id: number): User {
+  return {
+    id,
+    name: `user${id}`,
+    age: (id * 7) % 80,
+    status: (["active", "inactive", "pending"] as const)[id % 3]!,
+    tags: id % 4 ? ["user"] : ["user", "admin"],
+    profile:
+      id % 5
+        ? { country: COUNTRIES[id % 3]!, score: id % 100 }
+        : { country: COUNTRIES[id % 3]! },
+    joined: new Date(Date.UTC(2020, 0, 1 + (id % 365))),
+    posts: [
+      { title: `post${id % 10}`, views: id % 50 },
+      { title: `post${(id + 1) % 10}`, views: (id * 3) % 50 },
+    ],
+  };
+}
+
+const users = Array.from({ length: 300 }, (_, i) => makeUser(i));
+
+function indexed(docs: readonly User[] = users): SafeCollection<User> {
+  return new SafeCollection<User>(docs, {
+    indexes: [
+      { path: "status", kind: "hash" },
+      { path: "tags", kind: "hash" },
+      { path: "profile.country", kind: "hash" },
+      { path: "posts.title", kind: "hash" },
+      { path: "age", kind: "sorted" },
+      { path: "joined", kind: "sorted" },
+      { path: "profile.score", kind: "sorted" },
+      { path: "posts.views", kind: "sorted" },
+    ],
+  });
+}
+
+const queries: SafeSiftQuery<User>[] = [
+  { status: "active" },
+  { status: { $in: ["active", "pending"] }, age: { $gte: 20, $lt: 40 } },
+  { tags: "admin", "profile.country": "DE" },
+  { age: { $gt: 70 } },
+  { age: 14 },
+  { age: { $in: [7, 14, 21] } },
+  { joined: { $gte: new Date("2020-06-01"), $lte: new Date("2020-07-01") } },
+  { "profile.score": { $lt: 10 } },
+  { "profile.score": { $exists: false } },
+  // paths through arrays of documents are not typed
+  JSON.parse('{ "posts.title": "post3", "posts.views": { "$gte": 40 } }'),
+  { $or: [{ status: "pending" }, { age: { $lt: 5 } }] },
+  { $or: [{ status: "pending" }, { name: "user1" }] },
+  { $and: [{ $or: [{ tags: "admin" }, { age: 3 }] }, { status: "active" }] },
+  { status: "active", name: { $regex: /7$/ } },
+  { $nor: [{ status: "active" }] },
+  { name: "user42" },
+];
+
+describe("SafeCollection", () => {
+  it("finds the same documents as a scan, in the same order", () => {
+    const collection = indexed();
+    for (const query of queries) {
+      expect(collection.find(query)).toEqual(new SafeSift(query).filter(users));
+      expect(collection.count(query)).toBe(new SafeSift(query).count(users));
+      expect(collection.findOne(query)).toBe(new SafeSift(query).find(users));
+    }
+  });
+
+  it("plans equality, $in and ranges through the indexes", () => {
+    const collection = indexed();
+
+    const plan = collection.plan({
+      status: "active",
+      age: { $gte: 20, $lt: 40 },
+    });
+    expect(plan.indexes).toEqual([
+      { path: "status", kind: "hash" },
+      { path: "age", kind: "sorted" },
+    ]);
+    expect(plan.total).toBe(300);
+    expect(plan.candidates).toBe(
+      users.filter((u) => u.status === "active" && u.age >= 20 && u.age < 40)
+        .length
+    );
+
+    expect(collection.plan({ age: { $in: [7, 14] } }).indexes).toEqual([
+      { path: "age", kind: "sorted" },
+    ]);
+    expect(
+      collection.plan({ joined: { $lt: new Date("2020-01-03") } }).candidates
+    ).toBe(users.filter((u) => u.joined < new Date("2020-01-03")).length);
+  });
+
+  it("plans $or only when every branch is indexed", () => {
+    const collection = indexed();
+    expect(
+      collection.plan({ $or: [{ status: "pending" }, { age: { $lt: 5 } }] })
+        .indexes
+    ).toEqual([
+      { path: "status", kind: "hash" },
+      { path: "age", kind: "sorted" },
+    ]);
+
+    const partial = collection.plan({
+      $or: [{ status: "pending" }, { name: "user1" }],
+    });
+    expect(partial).toEqual({ indexes: [], candidates: 300, total: 300 });
+  });
+
+  it("scans for conditions no index can serve", () => {
+    const collection = indexed();
+    for (const query of [
+      { name: "user1" },
+      { "profile.score": null },
+      { status: { $ne: "active" } },
+      { $nor: [{ status: "active" }] },
+    ] as SafeSiftQuery<User>[]) {
+      expect(collection.plan(query).indexes).toEqual([]);
+    }
+  });
+
+  it("keeps indexes consistent across inserts, updates and removals", () => {
+    const collection = indexed(users.slice(0, 100));
+    const reference = users.slice(0, 100);
+
+    const extra = users.slice(100, 120);
+    collection.insertMany(extra);
+    reference.push(...extra);
+
+    expect(
+      collection.update(
+        { status: "pending", age: { $lt: 30 } },
+        {
+          $set: { status: "active", "profile.score": 99 },
+          $push: { tags: "moved" },
+        }
+      )
+    ).toBe(
+      reference.filter((u) => u.status === "pending" && u.age < 30).length
+    );
+    for (const [i, u] of reference.entries()) {
+      if (u.status === "pending" && u.age < 30) {
+        reference[i] = {
+          ...u,
+          status: "active",
+          tags: [...u.tags, "moved"],
+          profile: { ...u.profile, score: 99 },
+        };
+      }
+    }
+
+    const removed = collection.remove({ "profile.country": "FR" });
+    expect(removed).toBe(
+      reference.filter((u) => u.profile.country === "FR").length
+    );
+    const remaining = reference.filter((u) => u.profile.country !== "FR");
+
+    expect(collection.size).toBe(remaining.length);
+    expect(collection.toArray()).toEqual(remaining);
+    for (const query of [
+      ...queries,
+      { tags: "moved" },
+      { "profile.score": 99 },
+      { "profile.country": "FR" },
+    ] as SafeSiftQuery<User>[]) {
+      expect(collection.find(query)).toEqual(
+        new SafeSift(query).filter(remaining)
+      );
+    }
+  });
+
+  it("does not change the inserted documents on update", () => {
+    const doc = makeUser(1);
+    const collection = new SafeCollection<User>([doc]);
+    collection.update({ id: 1 }, { $inc: { age: 1 } });
+    expect(doc.age).toBe(makeUser(1).age);
+    expect(collection.findOne({ id: 1 })?.age).toBe(doc.age + 1);
+  });
+
+  it("creates and drops indexes on existing documents", () => {
+    const collection = new SafeCollection<User>(users);
+    expect(collection.plan({ status: "active" }).indexes).toEqual([]);
+
+    collection.createIndex("status").createIndex("age", "sorted");
+    expect(collection.indexes()).toEqual([
+      { path: "status", kind: "hash" },
+      { path: "age", kind: "sorted" },
+    ]);
+    expect(collection.find({ status: "active", age: { $gt: 50 } })).toEqual(
+      new SafeSift<User>({ status: "active", age: { $gt: 50 } }).filter(users)
+    );
+
+    expect(collection.dropIndex("status")).toBe(true);
+    expect(collection.dropIndex("status")).toBe(false);
+    expect(collection.plan({ status: "active" }).indexes).toEqual([]);
+  });
+
+  it("matches ranges only against values of the bound's type, as sift does", () => {
+    type Row = { v?: unknown };
+    const rows: Row[] = [
+      { v: 5 },
+      { v: "5" },
+      { v: new Date(5) },
+      { v: [1, 9] },
+      { v: null },
+      {},
+      { v: true },
+    ];
+    const collection = new SafeCollection<Row>(rows, {
+      indexes: [
+        { path: "v", kind: "sorted" },
+        { path: "v", kind: "hash" },
+      ],
+    });
+    for (const query of [
+      { v: { $gte: 5 } },
+      { v: { $lt: "6" } },
+      { v: { $gt: new Date(4) } },
+      { v: { $lte: 1 } },
+      { v: 5 },
+      { v: new Date(5) },
+      { v: true },
+    ] as SafeSiftQuery<Row>[]) {
+      expect(collection.find(query)).toEqual(new SafeSift(query).filter(rows));
+    }
+  });
+
+  it("lets each bound of a range match a different array element", () => {
+    type Row = { tags: number[]; o: { x: number }[] };
+    const rows: Row[] = [
+      { tags: [0, 5], o: [{ x: 1 }, { x: 4 }] },
+      { tags: [2.5], o: [{ x: 2.5 }] },
+      { tags: [9], o: [{ x: 9 }] },
+    ];
+    const collection = new SafeCollection<Row>(rows, {
+      indexes: [
+        { path: "tags", kind: "sorted" },
+        { path: "o.x", kind: "sorted" },
+      ],
+    });
+    const unindexed = new SafeCollection<Row>(rows);
+    for (const query of [
+      { tags: { $gt: 2, $lt: 3 } },
+      { tags: { $gte: 5, $lte: 0 } },
+      { $and: [{ tags: { $gt: 2 } }, { tags: { $lt: 3 } }] },
+      JSON.parse('{ "o.x": { "$gt": 2, "$lt": 3 } }'),
+      JSON.parse(
+        '{ "$and": [{ "o.x": { "$gt": 2 } }, { "o.x": { "$lt": 3 } }] }'
+      ),
+    ] as SafeSiftQuery<Row>[]) {
+      const expected = new SafeSift(query).filter(rows);
+      expect(unindexed.find(query)).toEqual(expected);
+      expect(collection.find(query)).toEqual(expected);
+    }
+    // ranges on array fields are not typed
+    const between = JSON.parse('{ "tags": { "$gt": 2, "$lt": 3 } }');
+    expect(collection.find(between)).toHaveLength(2);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, test, expect } from "vitest";
 import { SafeSift, createQuery, safeSift, query } from "../";
-import { DeepKeyOf, PathValue } from "../src/types";
+import { DeepKeyOf, PathValue, SafeSiftQuery } from "../src/types";
 
 interface User {
   id: number;
@@ -234,6 +234,24 @@ describe("SafeSift", () => {
       expect(query.count(testUsers)).toBe(2);
     });
   });
+
+  describe("Compiled matcher", () => {
+    test("should keep using the compiled query until recompile is called", () => {
+      const raw: SafeSiftQuery<User> = { age: { $gt: 30 } };
+      const query = new SafeSift<User>(raw);
+      expect(query.count(testUsers)).toBe(1);
+
+      raw.age = { $gt: 20 };
+      expect(query.count(testUsers)).toBe(1);
+      expect(query.recompile().count(testUsers)).toBe(3);
+    });
+
+    test("should give the same results across repeated calls", () => {
+      const query = new SafeSift<User>({ isActive: true });
+      expect(query.filter(testUsers)).toEqual(query.filter(testUsers));
+      expect(testUsers.map((u) => query.test(u))).toEqual([true, false, true]);
+    });
+  });
 });
 
 describe("createQuery function", () => {
@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import { Readable, Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { SafeSift, safeSift } from "../src";
+import { createFilterStream } from "../src/node-stream";
+
+interface Entry {
+  id: number;
+  level: "info" | "warn" | "error";
+  status: number;
+}
+
+const entries: Entry[] = Array.from({ length: 20 }, (_, i) => ({
+  id: i,
+  level: i % 5 === 0 ? "error" : i % 2 ? "warn" : "info",
+  status: 200 + i * 10,
+}));
+
+/** A generator over `entries` recording how many it has handed out. */
+function counted(): { source: Generator<Entry>; read: () => number } {
+  let read = 0;
+  function* source(): Generator<Entry> {
+    for (const entry of entries) {
+      read++;
+      yield entry;
+    }
+  }
+  return { source: source(), read: () => read };
+}
+
+/** An async iterable over `entries` recording reads and whether it was closed. */
+function asyncSource(): {
+  source: AsyncIterable<Entry>;
+  read: () => number;
+  closed: () => boolean;
+} {
+  let read = 0;
+  let closed = false;
+  const source: AsyncIterable<Entry> = {
+    [Symbol.asyncIterator]() {
+      return {
+        async next() {
+          const value = entries[read];
+          if (value === undefined) return { done: true, value: undefined };
+          read++;
+          return { done: false, value };
+        },
+        async return() {
+          closed = true;
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  };
+  return { source, read: () => read, closed: () => closed };
+}
+
+async function collect<V>(iterable: AsyncIterable<V>): Promise<V[]> {
+  const out: V[] = [];
+  for await (const value of iterable) out.push(value);
+  return out;
+}
+
+describe("filterIterable", () => {
+  it("yields the same documents as filter", () => {
+    const sifter = new SafeSift<Entry>({ level: "error" });
+    expect([...sifter.filterIterable(entries)]).toEqual(sifter.filter(entries));
+  });
+
+  it("reads lazily and stops at the limit", () => {
+    const { source, read } = counted();
+    const iterator = new SafeSift<Entry>(
+      { level: "error" },
+      { limit: 2 }
+    ).filterIterable(source);
+    expect(read()).toBe(0);
+
+    expect([...iterator].map((e) => e.id)).toEqual([0, 5]);
+    expect(read()).toBe(6);
+  });
+
+  it("applies skip and projection", () => {
+    const ids = [
+      ...new SafeSift<Entry>(
+        { level: "error" },
+        { skip: 1, limit: 2, project: { id: 1 } }
+      ).filterIterable(entries),
+    ];
+    expect(ids).toEqual([{ id: 5 }, { id: 10 }]);
+  });
+
+  it("rejects a sort option", () => {
+    const sifter = new SafeSift<Entry>({}, { sort: { id: -1 } });
+    expect(() => sifter.filterIterable(entries)).toThrow(/Cannot sort/);
+  });
+});
+
+describe("filterAsync", () => {
+  it("filters an async iterable and closes it at the limit", async () => {
+    const { source, read, closed } = asyncSource();
+    const sifter = safeSift<Entry>(
+      { status: { $gte: 300 } },
+      { limit: 3, project: { id: 1, status: 1 } }
+    );
+
+    const result = await collect(sifter.filterAsync(source));
+    expect(result).toEqual([
+      { id: 10, status: 300 },
+      { id: 11, status: 310 },
+      { id: 12, status: 320 },
+    ]);
+    expect(read()).toBe(13);
+    expect(closed()).toBe(true);
+  });
+
+  it("accepts a sync iterable", async () => {
+    const sifter = new SafeSift<Entry>({ level: "warn" });
+    expect(await collect(sifter.filterAsync(entries))).toEqual(
+      sifter.filter(entries)
+    );
+  });
+});
+
+describe("async terminal operations", () => {
+  const errors = new SafeSift<Entry>({ level: "error" });
+
+  it("findAsync stops at the first match", async () => {
+    const { source, read, closed } = asyncSource();
+    expect(await errors.findAsync(source)).toEqual(entries[0]);
+    expect(read()).toBe(1);
+    expect(closed()).toBe(true);
+
+    const projected = safeSift<Entry>({ status: 250 }, { project: { id: 1 } });
+    expect(await projected.findAsync(entries)).toEqual({ id: 5 });
+    expect(await errors.findAsync([])).toBeUndefined();
+  });
+
+  it("countAsync counts every match", async () => {
+    expect(await errors.countAsync(asyncSource().source)).toBe(4);
+    const info = safeSift<Entry>({ level: "info" });
+    expect(await info.countAsync(entries)).toBe(info.count(entries));
+  });
+
+  it("someAsync and everyAsync stop early", async () => {
+    const some = asyncSource();
+    expect(await errors.someAsync(some.source)).toBe(true);
+    expect(some.read()).toBe(1);
+
+    const every = asyncSource();
+    expect(await errors.everyAsync(every.source)).toBe(false);
+    expect(every.read()).toBe(2);
+    expect(every.closed()).toBe(true);
+
+    expect(await errors.someAsync([])).toBe(false);
+    expect(await errors.everyAsync([])).toBe(true);
+    const ok = new SafeSift<Entry>({ status: { $gte: 200 } });
+    expect(await ok.everyAsync(asyncSource().source)).toBe(true);
+  });
+});
+
+describe("createFilterStream", () => {
+  async function run(
+    transform: NodeJS.ReadWriteStream,
+    input: readonly unknown[] = entries
+  ): Promise<unknown[]> {
+    const out: unknown[] = [];
+    await pipeline(
+      Readable.from(input),
+      transform,
+      new Writable({
+        objectMode: true,
+        write(chunk, _encoding, callback) {
+          out.push(chunk);
+          callback();
+        },
+      })
+    );
+    return out;
+  }
+
+  it("passes on only the matching documents", async () => {
+    const out = await run(
+      createFilterStream<Entry>({ level: "error", status: { $gt: 200 } })
+    );
+    expect(out).toEqual(
+      entries.filter((e) => e.level === "error" && e.status > 200)
+    );
+  });
+
+  it("applies skip, limit and projection", async () => {
+    const out = await run(
+      createFilterStream<Entry>(
+        { level: { $in: ["warn", "error"] } },
+        { skip: 2, limit: 2, project: { id: 1 } }
+      )
+    );
+    expect(out).toEqual([{ id: 3 }, { id: 5 }]);
+  });
+
+  it("fails the pipeline when matching throws", async () => {
+    const stream = createFilterStream<Entry>(
+      JSON.parse('{ "$where": "this.missing.field" }')
+    );
+    await expect(run(stream)).rejects.toThrow();
+  });
+
+  it("rejects a sort option", () => {
+    expect(() =>
+      createFilterStream<Entry>({}, { sort: { status: 1 } })
+    ).toThrow(/Cannot sort/);
+  });
+});
@@ -0,0 +1,115 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, it, expect } from "vitest";
+import { toElasticsearch } from "../src";
+import type { ElasticsearchQuery } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  role: "admin" | "user" | "guest";
+  verified: boolean;
+  tags: string[];
+  joined: Date;
+  nickname?: string | null;
+  deletedAt?: Date | null;
+  profile: { country: string | null; score: number };
+  orders: { sku: string; qty: number }[];
+}
+
+function fixture(name: string): ElasticsearchQuery {
+  return JSON.parse(
+    readFileSync(
+      join(__dirname, "fixtures", "elasticsearch", `${name}.json`),
+      "utf8"
+    )
+  );
+}
+
+describe("toElasticsearch", () => {
+  it("translates comparisons into term, terms and range clauses", () => {
+    expect(
+      toElasticsearch<User>({
+        age: { $gte: 18, $lt: 65 },
+        name: "Alice",
+        role: { $ne: "guest" },
+        joined: { $gt: new Date("2024-01-01T00:00:00Z") },
+        "profile.country": { $in: ["DE", "FR"] },
+        tags: { $nin: ["spam"], $all: ["a", "b"] },
+      })
+    ).toEqual(fixture("comparisons"));
+  });
+
+  it("treats null as a missing field", () => {
+    expect(
+      toElasticsearch<User>({
+        deletedAt: null,
+        verified: { $exists: true },
+        name: { $ne: "Bob" },
+        "profile.country": { $in: ["DE", null] },
+        nickname: { $nin: [null] },
+      })
+    ).toEqual(fixture("nulls"));
+  });
+
+  it("translates $or into should and $nor and $not into must_not", () => {
+    expect(
+      toElasticsearch<User>({
+        verified: true,
+        $or: [{ role: "admin" }, { age: { $gt: 21 }, tags: "vip" }],
+        $and: [{ $or: [{ name: "a" }, { name: "b" }] }],
+        $nor: [{ role: "guest" }, { tags: "banned" }],
+        $not: { age: { $lt: 18 } },
+      })
+    ).toEqual(fixture("logical"));
+  });
+
+  it("translates $elemMatch into nested queries and applies the field map", () => {
+    const negatedIn = JSON.parse('{ "$not": { "$in": ["x"] } }');
+    expect(
+      toElasticsearch<User>(
+        {
+          orders: { $elemMatch: { sku: "X1", qty: { $gte: 2 } } },
+          name: negatedIn,
+        },
+        { fieldMap: { orders: "order_lines", name: "name.keyword" } }
+      )
+    ).toEqual(fixture("nested"));
+  });
+
+  it("anchors regular expressions the way Lucene expects", () => {
+    expect(
+      toElasticsearch<User>({
+        name: { $regex: "^al", $options: "i" },
+        "profile.country": { $regex: "e$", $options: "i" },
+        nickname: { $regex: "^a|b$" },
+      })
+    ).toEqual(fixture("regex"));
+  });
+
+  it("translates empty queries and empty lists", () => {
+    expect(toElasticsearch<User>({})).toEqual({ match_all: {} });
+    expect(toElasticsearch<User>({ tags: { $in: [] } })).toEqual({
+      bool: { must: [{ match_none: {} }] },
+    });
+  });
+
+  it("rejects what Elasticsearch cannot express", () => {
+    expect(() => toElasticsearch<User>({ tags: { $size: 2 } })).toThrow(
+      'Cannot translate $size on "tags" to Elasticsearch'
+    );
+    expect(() => toElasticsearch<User>({ tags: ["a", "b"] })).toThrow(
+      "only scalar values can be compared"
+    );
+    const elementRange = JSON.parse(
+      '{ "tags": { "$elemMatch": { "$gt": "a" } } }'
+    );
+    expect(() => toElasticsearch<User>(elementRange)).toThrow(
+      "only documents can be matched as nested objects"
+    );
+    expect(() =>
+      toElasticsearch<User>({ name: { $regex: "a", $options: "g" } })
+    ).toThrow('Cannot translate regex flags "g"');
+    expect(() => toElasticsearch<User>({ $or: [] })).toThrow(TypeError);
+  });
+});
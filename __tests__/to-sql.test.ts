@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { toSql } from "../src";
+import type { ToSqlOptions } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  role: "admin" | "user";
+  verified: boolean;
+  tags: string[];
+  joined: Date;
+  deletedAt?: Date | null;
+  profile: { country: string; score: number; links: { site: string } };
+}
+
+describe("toSql", () => {
+  it("translates comparisons with postgres placeholders", () => {
+    expect(
+      toSql<User>({
+        age: { $gte: 18, $lt: 65 },
+        name: "Alice",
+        role: { $ne: "admin" },
+      })
+    ).toEqual({
+      sql: '("age" >= $1 AND "age" < $2) AND "name" = $3 AND ("role" <> $4 OR "role" IS NULL)',
+      params: [18, 65, "Alice", "admin"],
+    });
+  });
+
+  it("translates null, $exists, $in and $nin", () => {
+    expect(
+      toSql<User>({
+        name: { $in: ["a", "b"] },
+        role: { $nin: ["admin"] },
+        verified: { $exists: false },
+        deletedAt: { $in: [null] },
+      })
+    ).toEqual({
+      sql: '"name" IN ($1, $2) AND ("role" NOT IN ($3) OR "role" IS NULL) AND "verified" IS NULL AND "deletedAt" IS NULL',
+      params: ["a", "b", "admin"],
+    });
+    expect(toSql<User>({ name: { $in: [] }, age: { $nin: [] } }).sql).toBe(
+      "1 = 0 AND 1 = 1"
+    );
+  });
+
+  it("translates logical operators", () => {
+    expect(
+      toSql<User>({
+        $or: [{ role: "admin" }, { verified: true, age: { $gt: 21 } }],
+        $nor: [{ name: "Bob" }],
+        $not: { age: { $lt: 18 } },
+      })
+    ).toEqual({
+      sql: '("role" = $1 OR ("verified" = $2 AND "age" > $3)) AND NOT COALESCE(("name" = $4), FALSE) AND NOT COALESCE("age" < $5, FALSE)',
+      params: ["admin", true, 21, "Bob", 18],
+    });
+  });
+
+  it("translates $regex with options and field-level $not", () => {
+    expect(toSql<User>({ name: { $regex: "^a", $options: "i" } })).toEqual({
+      sql: '"name" ~* $1',
+      params: ["^a"],
+    });
+    expect(
+      toSql<User>(JSON.parse('{ "name": { "$not": { "$regex": "x" } } }'))
+    ).toEqual({ sql: 'NOT COALESCE("name" ~ $1, FALSE)', params: ["x"] });
+  });
+
+  it("maps dotted paths to JSON access and mapped columns", () => {
+    const options: ToSqlOptions<User> = {
+      columnMap: { name: "u.full_name", "profile.links": "links_json" },
+    };
+    expect(
+      toSql<User>(
+        {
+          name: "A",
+          "profile.score": { $gt: 5 },
+          "profile.links.site": "x.com",
+          "profile.country": "DE",
+        },
+        options
+      )
+    ).toEqual({
+      sql: `u.full_name = $1 AND ("profile"->>'score')::numeric > $2 AND links_json->>'site' = $3 AND "profile"->>'country' = $4`,
+      params: ["A", 5, "x.com", "DE"],
+    });
+  });
+
+  it("emits sqlite placeholders, json_extract and bindable values", () => {
+    const joined = new Date("2024-01-01T00:00:00.000Z");
+    expect(
+      toSql<User>(
+        {
+          verified: true,
+          joined: { $gte: joined },
+          "profile.links.site": { $regex: "\\.com$" },
+        },
+        { dialect: "sqlite" }
+      )
+    ).toEqual({
+      sql: `"verified" = ? AND "joined" >= ? AND json_extract("profile", '$.links.site') REGEXP ?`,
+      params: [1, "2024-01-01T00:00:00.000Z", "\\.com$"],
+    });
+    expect(toSql<User>({}, { dialect: "sqlite" })).toEqual({
+      sql: "1 = 1",
+      params: [],
+    });
+  });
+
+  it("raises errors for untranslatable conditions", () => {
+    expect(() => toSql<User>({ tags: { $size: 2 } })).toThrow(
+      'Cannot translate $size on "tags" to SQL'
+    );
+    expect(() => toSql<User>({ tags: { $all: ["a"] } })).toThrow(
+      "Cannot translate $all"
+    );
+    expect(() =>
+      toSql<User>({ profile: { country: "DE", score: 1, links: { site: "" } } })
+    ).toThrow("arrays and documents cannot be compared");
+    expect(() => toSql(JSON.parse('{ "$where": "1" }'))).toThrow(
+      "Cannot translate $where to SQL"
+    );
+    expect(() =>
+      toSql<User>(
+        { name: { $regex: "a", $options: "i" } },
+        { dialect: "sqlite" }
+      )
+    ).toThrow('Cannot translate regex flags "i"');
+  });
+
+  it("rejects conditions on declared array paths", () => {
+    const options: ToSqlOptions<User> = {
+      arrayPaths: ["tags", "profile.links"],
+    };
+    expect(() => toSql<User>({ tags: "admin" }, options)).toThrow(
+      'Cannot translate $eq on "tags" to SQL: "tags" holds an array'
+    );
+    expect(() => toSql<User>({ tags: { $in: ["a", "b"] } }, options)).toThrow(
+      "holds an array"
+    );
+    expect(() =>
+      toSql<User>({ tags: { $not: { $size: 1 } } }, options)
+    ).toThrow("holds an array");
+    expect(() =>
+      toSql<User>({ $or: [{ "profile.links.site": "x" }, { age: 1 }] }, options)
+    ).toThrow('"profile.links" holds an array');
+    expect(toSql<User>({ tags: { $exists: true }, age: 1 }, options)).toEqual({
+      sql: '"tags" IS NOT NULL AND "age" = $1',
+      params: [1],
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { SafeSift, applyUpdate } from "../src";
+import type { SafeUpdate, UpdatePathValue } from "../src";
+
+interface User {
+  name: string;
+  age: number;
+  nickname?: string;
+  loginCount?: number;
+  tags: string[];
+  scores: number[];
+  profile: { bio: string; joined: Date };
+  posts: { title: string; views: number }[];
+}
+
+const makeUsers = (): User[] => [
+  {
+    name: "Alice",
+    age: 30,
+    nickname: "Al",
+    tags: ["a", "b"],
+    scores: [3, 8, 5],
+    profile: { bio: "Engineer", joined: new Date("2020-01-01") },
+    posts: [
+      { title: "Hello", views: 10 },
+      { title: "World", views: 5 },
+    ],
+  },
+  {
+    name: "Bob",
+    age: 17,
+    tags: [],
+    scores: [],
+    profile: { bio: "Student", joined: new Date("2022-06-01") },
+    posts: [],
+  },
+];
+
+describe("applyUpdate", () => {
+  it("sets and unsets nested fields without touching the input", () => {
+    const [alice] = makeUsers();
+    const updated = applyUpdate(alice!, {
+      $set: { "profile.bio": "Manager", age: 31 },
+      $unset: { nickname: "" },
+    });
+
+    expect(updated.profile.bio).toBe("Manager");
+    expect(updated.age).toBe(31);
+    expect(updated).not.toHaveProperty("nickname");
+    expect(alice!.profile.bio).toBe("Engineer");
+    expect(alice!.nickname).toBe("Al");
+    expect(updated.posts).not.toBe(alice!.posts);
+  });
+
+  it("mutates in place when asked", () => {
+    const [alice] = makeUsers();
+    const result = applyUpdate(alice!, { $inc: { age: 1 } }, { mutate: true });
+    expect(result).toBe(alice);
+    expect(alice!.age).toBe(31);
+  });
+
+  it("applies arithmetic and comparison operators", () => {
+    const [alice] = makeUsers();
+    const updated = applyUpdate(alice!, {
+      $inc: { loginCount: 2, age: -1 },
+      $mul: { "posts.0.views": 3 },
+      $min: { "profile.joined": new Date("2019-01-01") },
+      $max: { "posts.1.views": 1 },
+    });
+
+    expect(updated.loginCount).toBe(2);
+    expect(updated.age).toBe(29);
+    expect(updated.posts[0]!.views).toBe(30);
+    expect(updated.profile.joined).toEqual(new Date("2019-01-01"));
+    expect(updated.posts[1]!.views).toBe(5);
+  });
+
+  it("pushes with $each and $slice", () => {
+    const [alice] = makeUsers();
+    expect(applyUpdate(alice!, { $push: { tags: "c" } }).tags).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(
+      applyUpdate(alice!, {
+        $push: { tags: { $each: ["c", "d"], $slice: -3 } },
+      }).tags
+    ).toEqual(["b", "c", "d"]);
+    expect(
+      applyUpdate(alice!, { $push: { scores: { $each: [1], $slice: 2 } } })
+        .scores
+    ).toEqual([3, 8]);
+  });
+
+  it("adds to sets and pulls by value or condition", () => {
+    const [alice] = makeUsers();
+    const updated = applyUpdate(alice!, {
+      $addToSet: { tags: { $each: ["b", "c", "c"] } },
+      $pull: { scores: { $gte: 5 } },
+    });
+    expect(updated.tags).toEqual(["a", "b", "c"]);
+    expect(updated.scores).toEqual([3]);
+
+    expect(
+      applyUpdate(alice!, { $pull: { posts: { title: "Hello" } } }).posts
+    ).toEqual([{ title: "World", views: 5 }]);
+    expect(applyUpdate(alice!, { $pull: { tags: "a" } }).tags).toEqual(["b"]);
+  });
+
+  it("renames fields", () => {
+    const [alice] = makeUsers();
+    const updated = applyUpdate(alice!, { $rename: { nickname: "name" } });
+    expect(updated.name).toBe("Al");
+    expect(updated).not.toHaveProperty("nickname");
+  });
+
+  it("resolves the positional operator from the query", () => {
+    const [alice] = makeUsers();
+    const updated = applyUpdate(
+      alice!,
+      { $inc: { "posts.$.views": 1 }, $set: { "tags.$": "B" } },
+      { query: { posts: { $elemMatch: { title: "World" } }, tags: "b" } }
+    );
+    expect(updated.posts.map((p) => p.views)).toEqual([10, 6]);
+    expect(updated.tags).toEqual(["a", "B"]);
+
+    expect(() =>
+      applyUpdate(alice!, { $set: { "posts.$.title": "x" } })
+    ).toThrow("positional operator");
+  });
+
+  it("rejects wrong field types and unknown operators", () => {
+    const [alice] = makeUsers();
+    const untyped = JSON.parse('{ "$inc": { "name": 1 } }');
+    expect(() => applyUpdate(alice!, untyped)).toThrow(TypeError);
+    expect(() =>
+      applyUpdate(alice!, JSON.parse('{ "$currentDate": { "x": true } }'))
+    ).toThrow("Unsupported update operator");
+    expect(() => applyUpdate(alice!, JSON.parse('{ "name": "Eve" }'))).toThrow(
+      TypeError
+    );
+  });
+
+  it("rejects non-numeric $inc and $mul arguments", () => {
+    const [alice] = makeUsers();
+    for (const json of [
+      '{ "$inc": { "age": "x" } }',
+      '{ "$mul": { "age": null } }',
+    ]) {
+      expect(() => applyUpdate(alice!, JSON.parse(json))).toThrow(
+        "non-numeric argument"
+      );
+    }
+    expect(alice!.age).toBe(30);
+  });
+
+  it("rejects paths that reach a prototype", () => {
+    const [alice] = makeUsers();
+    const updates = [
+      '{ "$set": { "__proto__.polluted": "yes" } }',
+      '{ "$set": { "profile.constructor.prototype.polluted": "yes" } }',
+      '{ "$unset": { "__proto__.toString": "" } }',
+      '{ "$push": { "tags.__proto__": "yes" } }',
+      '{ "$rename": { "name": "__proto__.polluted" } }',
+    ];
+    for (const json of updates) {
+      expect(() => applyUpdate(alice!, JSON.parse(json))).toThrow(TypeError);
+    }
+    const empty: Record<string, unknown> = {};
+    expect(empty.polluted).toBeUndefined();
+    expect(Object.prototype.toString).toBeDefined();
+  });
+});
+
+describe("SafeSift.updateMany", () => {
+  it("returns a new array with matching objects updated", () => {
+    const users = makeUsers();
+    const result = new SafeSift<User>({ age: { $gte: 18 } }).updateMany(users, {
+      $set: { nickname: "adult" },
+    });
+
+    expect(result).not.toBe(users);
+    expect(result.map((u) => u.nickname)).toEqual(["adult", undefined]);
+    expect(result[1]).toBe(users[1]);
+    expect(users[0]!.nickname).toBe("Al");
+  });
+
+  it("updates matching objects in place when mutate is set", () => {
+    const users = makeUsers();
+    const result = new SafeSift<User>({
+      posts: { $elemMatch: { title: "Hello" } },
+    }).updateMany(users, { $inc: { "posts.$.views": 5 } }, { mutate: true });
+
+    expect(result).toBe(users);
+    expect(users[0]!.posts[0]!.views).toBe(15);
+  });
+});
+
+describe("update types", () => {
+  it("resolves values at positional paths", () => {
+    expectTypeOf<
+      UpdatePathValue<User, "posts.$.views">
+    >().toEqualTypeOf<number>();
+    expectTypeOf<
+      UpdatePathValue<User, "posts.0.views">
+    >().toEqualTypeOf<number>();
+    expectTypeOf<UpdatePathValue<User, "posts.$">>().toEqualTypeOf<{
+      title: string;
+      views: number;
+    }>();
+  });
+
+  it("checks paths and values against the document type", () => {
+    const ok: SafeUpdate<User> = {
+      $set: { "profile.bio": "x", "posts.$.title": "y" },
+      $inc: { "posts.$.views": 1 },
+      $push: { tags: { $each: ["x"] } },
+    };
+    expect(ok).toBeDefined();
+
+    // @ts-expect-error - unknown path
+    const unknownPath: SafeUpdate<User> = { $set: { email: "x" } };
+    // @ts-expect-error - wrong value type
+    const wrongValue: SafeUpdate<User> = { $set: { age: "old" } };
+    // @ts-expect-error - fields inside array elements need an index or `$`
+    const throughArray: SafeUpdate<User> = { $set: { "posts.title": "x" } };
+    // @ts-expect-error - $inc needs a numeric field
+    const nonNumeric: SafeUpdate<User> = { $inc: { name: 1 } };
+    // @ts-expect-error - $push needs an array field
+    const nonArray: SafeUpdate<User> = { $push: { name: "x" } };
+    // @ts-expect-error - pushed elements must match the array type
+    const wrongElement: SafeUpdate<User> = { $push: { scores: "x" } };
+    expect([
+      unknownPath,
+      wrongValue,
+      throughArray,
+      nonNumeric,
+      nonArray,
+      wrongElement,
+    ]).toHaveLength(6);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { SafeSift, validateQuery } from "../src";
+import type { QuerySchema, SafeSiftQuery } from "../src";
+
+interface User {
+  name: string;
+  age?: number;
+  active: boolean;
+  tags: string[];
+  profile: { joined: Date; bio: string };
+  posts: { title: string; views: number }[];
+  meta: Record<string, unknown>;
+}
+
+const userSchema: QuerySchema<User> = {
+  name: "string",
+  age: "number",
+  active: "boolean",
+  tags: ["string"],
+  profile: { joined: "date", bio: "string" },
+  posts: [{ title: "string", views: "number" }],
+  meta: "any",
+};
+
+const errorsOf = (query: unknown) => {
+  const result = validateQuery(query, userSchema);
+  return result.valid ? [] : result.errors;
+};
+
+describe("validateQuery", () => {
+  it("accepts valid queries and types them", () => {
+    const input: unknown = JSON.parse(
+      JSON.stringify({
+        name: { $regex: "^a", $options: "i" },
+        age: { $gte: 18, $in: [18, 21] },
+        tags: "admin",
+        "posts.views": { $gt: 10 },
+        "meta.anything.goes": { $exists: true },
+        $or: [{ active: true }, { tags: { $size: 0 } }],
+        posts: { $elemMatch: { title: "Hello", views: { $lt: 5 } } },
+      })
+    );
+    const result = validateQuery(input, userSchema);
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expectTypeOf(result.query).toEqualTypeOf<SafeSiftQuery<User>>();
+      expect(new SafeSift(result.query).count([])).toBe(0);
+    }
+  });
+
+  it("accepts Dates and RegExps", () => {
+    expect(
+      errorsOf({
+        "profile.joined": { $lt: new Date() },
+        name: /^a/,
+        "profile.bio": { $not: /spam/ },
+      })
+    ).toEqual([]);
+  });
+
+  it("flags unknown paths and operators", () => {
+    expect(
+      errorsOf({
+        email: "a@b.c",
+        "profile.age": 3,
+        $where: "1",
+        name: { $like: "a" },
+      })
+    ).toEqual([
+      {
+        pointer: "/email",
+        code: "unknown-path",
+        message: "Unknown field path email",
+      },
+      {
+        pointer: "/profile.age",
+        code: "unknown-path",
+        message: "Unknown field path profile.age",
+      },
+      {
+        pointer: "/$where",
+        code: "unknown-operator",
+        message: "Unknown top-level operator $where",
+      },
+      {
+        pointer: "/name/$like",
+        code: "unknown-operator",
+        message: "Unknown operator $like",
+      },
+    ]);
+  });
+
+  it("flags operators that do not fit the field type", () => {
+    expect(
+      errorsOf({
+        age: { $regex: "^1" },
+        name: { $size: 2 },
+        active: { $gt: false },
+        tags: { $elemMatch: { $regex: "x" } },
+        "posts.title": { $all: ["a"] },
+      })
+    ).toEqual([
+      {
+        pointer: "/age/$regex",
+        code: "invalid-operator",
+        message: "$regex requires a string field, but age is number",
+      },
+      {
+        pointer: "/name/$size",
+        code: "invalid-operator",
+        message: "$size requires an array field, but name is string",
+      },
+      {
+        pointer: "/active/$gt",
+        code: "invalid-operator",
+        message:
+          "$gt requires a string, number or date field, but active is boolean",
+      },
+      {
+        pointer: "/posts.title/$all",
+        code: "invalid-operator",
+        message: "$all requires an array field, but posts.title is string",
+      },
+    ]);
+  });
+
+  it("flags values of the wrong type", () => {
+    expect(
+      errorsOf({
+        age: "30",
+        name: { $in: ["a", 1] },
+        tags: { $size: -1 },
+        "profile.joined": { $gte: "2020-01-01" },
+        active: { $exists: "yes" },
+      }).map((e) => [e.pointer, e.code])
+    ).toEqual([
+      ["/age", "invalid-value"],
+      ["/name/$in/1", "invalid-value"],
+      ["/tags/$size", "invalid-value"],
+      ["/profile.joined/$gte", "invalid-value"],
+      ["/active/$exists", "invalid-value"],
+    ]);
+  });
+
+  it("flags malformed logical and $in arrays", () => {
+    expect(
+      errorsOf({
+        $and: [],
+        $or: { name: "a" },
+        $nor: [{ name: "a" }, "oops", { $and: [{ nope: 1 }] }],
+        age: { $nin: 5 },
+      }).map((e) => e.pointer)
+    ).toEqual(["/$and", "/$or", "/$nor/1", "/$nor/2/$and/0/nope", "/age/$nin"]);
+  });
+
+  it("escapes JSON pointer tokens and rejects non-object queries", () => {
+    expect(errorsOf({ "a/b~c": 1 })[0]?.pointer).toBe("/a~1b~0c");
+    expect(errorsOf([])).toEqual([
+      {
+        pointer: "",
+        code: "invalid-query",
+        message: "A query must be an object",
+      },
+    ]);
+  });
+
+  it("rejects invalid regular expressions", () => {
+    expect(errorsOf({ name: { $regex: "(" } })).toEqual([
+      {
+        pointer: "/name/$regex",
+        code: "invalid-value",
+        message: "$regex expects a valid regular expression",
+      },
+    ]);
+  });
+});
+
+describe("QuerySchema types", () => {
+  it("requires every field with a matching descriptor", () => {
+    // @ts-expect-error - missing fields
+    const missing: QuerySchema<User> = { name: "string" };
+    const wrong: QuerySchema<User> = {
+      ...userSchema,
+      // @ts-expect-error - age is a number
+      age: "string",
+    };
+    expect([missing, wrong]).toHaveLength(2);
+  });
+});
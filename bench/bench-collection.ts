@@ -0,0 +1,108 @@
+import { performance } from "node:perf_hooks";
+import { SafeCollection, SafeSift } from "../src";
+import type { SafeSiftQuery } from "../src";
+
+type User = {
+  name: string;
+  age: number;
+  status: "active" | "inactive";
+  tags: string[];
+  profile: { score: number; country: string };
+};
+
+const RECORDS = 200_000;
+const QUERIES = 200;
+const COUNTRIES = ["US", "DE", "FR", "JP", "BR", "IN", "GB", "CA"];
+
+function randInt(a: number, b: number) {
+  return (Math.random() * (b - a + 1) + a) | 0;
+}
+
+function makeUser(i: number): User {
+  return {
+    name: `user${i}`,
+    age: randInt(10, 90),
+    status: i % 3 ? "active" : "inactive",
+    tags: i % 5 ? ["user"] : ["user", "admin"],
+    profile: {
+      score: randInt(0, 100_000),
+      country: COUNTRIES[i % COUNTRIES.length]!,
+    },
+  };
+}
+
+const users = Array.from({ length: RECORDS }, (_, i) => makeUser(i));
+
+/** A mix of selective queries, each different from the last. */
+const queries: SafeSiftQuery<User>[] = Array.from(
+  { length: QUERIES },
+  (_, i) => {
+    const score = randInt(0, 99_000);
+    switch (i % 4) {
+      case 0:
+        return { name: `user${randInt(0, RECORDS - 1)}` };
+      case 1:
+        return {
+          "profile.score": { $gte: score, $lt: score + 500 },
+          status: "active",
+        };
+      case 2:
+        return {
+          "profile.country": COUNTRIES[i % COUNTRIES.length]!,
+          age: { $in: [randInt(10, 90), randInt(10, 90)] },
+        };
+      default:
+        return {
+          $or: [
+            { name: `user${randInt(0, RECORDS - 1)}` },
+            { "profile.score": { $lt: score % 200 } },
+          ],
+        };
+    }
+  }
+);
+
+function time(label: string, fn: () => unknown) {
+  const t0 = performance.now();
+  fn();
+  const ms = performance.now() - t0;
+  console.log(`${label}: ${ms.toFixed(2)} ms`);
+  return ms;
+}
+
+console.log(`Records: ${RECORDS}, queries: ${QUERIES}\n`);
+
+let collection!: SafeCollection<User>;
+time("build collection with 5 indexes", () => {
+  collection = new SafeCollection<User>(users, {
+    indexes: [
+      { path: "name", kind: "hash" },
+      { path: "status", kind: "hash" },
+      { path: "profile.country", kind: "hash" },
+      { path: "age", kind: "hash" },
+      { path: "profile.score", kind: "sorted" },
+    ],
+  });
+});
+
+let scanned = 0;
+const scan = time(`SafeSift.filter, linear scans (x${QUERIES})`, () => {
+  for (const query of queries) scanned += new SafeSift(query).count(users);
+});
+
+let found = 0;
+const indexed = time(`SafeCollection.find, indexed (x${QUERIES})`, () => {
+  for (const query of queries) found += collection.count(query);
+});
+
+if (found !== scanned) {
+  throw new Error(`Result mismatch: ${found} indexed vs ${scanned} scanned`);
+}
+console.log(`  speedup: ${(scan / indexed).toFixed(1)}x\n`);
+
+time("update 1000 documents, reindexing them", () => {
+  collection.update(
+    { "profile.score": { $lt: 500 } },
+    { $inc: { "profile.score": 100_000 } }
+  );
+});
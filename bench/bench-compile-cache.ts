@@ -0,0 +1,92 @@
+import { performance } from "node:perf_hooks";
+import { SafeSift } from "../src";
+import { createSiftFunction } from "../src/create-sift-function";
+import type { SafeSiftQuery } from "../src";
+
+type User = {
+  name: string;
+  age: number;
+  status: "active" | "inactive";
+  tags: string[];
+  profile: { score: number; country: string };
+};
+
+const RECORDS = 100_000;
+const BATCH_SIZE = 10;
+
+function randInt(a: number, b: number) {
+  return (Math.random() * (b - a + 1) + a) | 0;
+}
+
+function makeUser(i: number): User {
+  return {
+    name: `user${i}`,
+    age: randInt(10, 90),
+    status: i % 3 ? "active" : "inactive",
+    tags: i % 5 ? ["user"] : ["user", "admin"],
+    profile: { score: randInt(0, 1000), country: i % 2 ? "US" : "DE" },
+  };
+}
+
+const users = Array.from({ length: RECORDS }, (_, i) => makeUser(i));
+
+const query: SafeSiftQuery<User> = {
+  age: { $gte: 18, $lte: 65 },
+  status: "active",
+  $or: [{ tags: "admin" }, { "profile.score": { $gt: 500 } }],
+  "profile.country": { $in: ["US", "DE"] },
+};
+
+/**
+ * Reproduces the pre-cache behavior of `SafeSift`, which compiled the query on
+ * every method call.
+ */
+const uncached = {
+  test: (obj: User) => createSiftFunction(query)(obj),
+  filter: (array: User[]) => array.filter(createSiftFunction(query)),
+};
+
+const cached = new SafeSift<User>(query);
+
+function time(label: string, runs: number, fn: () => unknown) {
+  // warmup
+  for (let i = 0; i < Math.min(5, runs); i++) fn();
+  const t0 = performance.now();
+  for (let i = 0; i < runs; i++) fn();
+  const t1 = performance.now();
+  const ms = t1 - t0;
+  console.log(
+    `${label}: ${ms.toFixed(2)} ms  |  ${(ms / runs).toFixed(4)} ms/run`
+  );
+  return ms;
+}
+
+console.log(`Records: ${RECORDS}`);
+
+const testUncached = time(`test() per record, uncached (x${RECORDS})`, 1, () => {
+  for (const u of users) uncached.test(u);
+});
+const testCached = time(`test() per record, cached (x${RECORDS})`, 1, () => {
+  for (const u of users) cached.test(u);
+});
+console.log(`  speedup: ${(testUncached / testCached).toFixed(1)}x\n`);
+
+const batches = Array.from({ length: RECORDS / BATCH_SIZE }, (_, i) =>
+  users.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE)
+);
+
+const filterUncached = time(
+  `filter() per ${BATCH_SIZE}-record batch, uncached (x${batches.length})`,
+  1,
+  () => {
+    for (const b of batches) uncached.filter(b);
+  }
+);
+const filterCached = time(
+  `filter() per ${BATCH_SIZE}-record batch, cached (x${batches.length})`,
+  1,
+  () => {
+    for (const b of batches) cached.filter(b);
+  }
+);
+console.log(`  speedup: ${(filterUncached / filterCached).toFixed(1)}x`);
@@ -0,0 +1,65 @@
+import { compareValues, valueKey } from "../values";
+import { evaluateExpression } from "./evaluate-expression";
+
+function isNumber(v: unknown): v is number {
+  return typeof v === "number";
+}
+
+function present(values: unknown[]): unknown[] {
+  return values.filter((v) => v !== null && v !== undefined);
+}
+
+function extreme(values: unknown[], direction: 1 | -1): unknown {
+  const candidates = present(values);
+  if (!candidates.length) return null;
+  return candidates.reduce((best, v) =>
+    compareValues(v, best) * direction > 0 ? v : best
+  );
+}
+
+/**
+ * Apply one `$group` accumulator to the documents of a group.
+ * Non-numeric values are ignored by `$sum`/`$avg`, and null or missing
+ * values by `$min`/`$max`, matching MongoDB.
+ *
+ * @throws {Error} If the accumulator operator is not supported
+ *
+ * @example
+ * ```ts
+ * accumulate("$sum", "$amount", orders); // 420
+ * accumulate("$sum", 1, orders);         // orders.length
+ * accumulate("$addToSet", "$country", orders); // ["DE", "US"]
+ * ```
+ */
+export function accumulate(op: string, arg: unknown, docs: unknown[]): unknown {
+  const values = docs.map((doc) => evaluateExpression(doc, arg));
+
+  switch (op) {
+    case "$sum":
+      return values.filter(isNumber).reduce((sum, v) => sum + v, 0);
+    case "$avg": {
+      const numbers = values.filter(isNumber);
+      if (!numbers.length) return null;
+      return numbers.reduce((sum, v) => sum + v, 0) / numbers.length;
+    }
+    case "$min":
+      return extreme(values, -1);
+    case "$max":
+      return extreme(values, 1);
+    case "$push":
+      return values.filter((v) => v !== undefined);
+    case "$addToSet": {
+      const seen = new Map<string, unknown>();
+      for (const v of values) {
+        if (v !== undefined && !seen.has(valueKey(v))) seen.set(valueKey(v), v);
+      }
+      return [...seen.values()];
+    }
+    case "$first":
+      return values[0] ?? null;
+    case "$last":
+      return values[values.length - 1] ?? null;
+    default:
+      throw new Error(`Unsupported $group accumulator: ${op}`);
+  }
+}
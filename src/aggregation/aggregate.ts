@@ -0,0 +1,22 @@
+import { AggregationPipeline } from "./aggregation-pipeline";
+
+/**
+ * Starts a type-checked aggregation pipeline over documents of type `T`.
+ * Supports `$match`, `$group`, `$project`, `$sort`, `$skip`, `$limit` and `$unwind`.
+ *
+ * @template T - The type of documents to aggregate
+ * @returns An empty AggregationPipeline for `T`
+ *
+ * @example
+ * ```typescript
+ * const topCountries = aggregate<Order>()
+ *   .match({ status: 'paid' })
+ *   .group({ _id: '$customer.country', total: { $sum: '$amount' } })
+ *   .sort({ total: -1 })
+ *   .limit(3)
+ *   .run(orders);
+ * ```
+ */
+export function aggregate<T>(): AggregationPipeline<T, T> {
+  return new AggregationPipeline<T, T>();
+}
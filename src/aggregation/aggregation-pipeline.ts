@@ -0,0 +1,179 @@
+import type {
+  ArrayPath,
+  GroupResult,
+  GroupSpec,
+  PipelineStage,
+  Projected,
+  Projection,
+  SafeSiftQuery,
+  SortSpec,
+  Unwound,
+} from "../types";
+import { runPipeline } from "./run-pipeline";
+
+/**
+ * An immutable, type-checked aggregation pipeline. Every stage method returns a
+ * new pipeline whose output type is the shape the stage produces, so the field
+ * names of the next stage are checked against it.
+ *
+ * @template TIn - The type of documents the pipeline runs over
+ * @template TOut - The type of documents the pipeline currently produces
+ *
+ * @example
+ * ```typescript
+ * interface Order {
+ *   status: 'paid' | 'refunded';
+ *   amount: number;
+ *   customer: { country: string };
+ *   items: string[];
+ * }
+ *
+ * const revenueByCountry = aggregate<Order>()
+ *   .match({ status: 'paid' })
+ *   .group({ _id: '$customer.country', total: { $sum: '$amount' }, orders: { $sum: 1 } })
+ *   .sort({ total: -1 })
+ *   .limit(5)
+ *   .run(orders);
+ * // revenueByCountry: { _id: string; total: number; orders: number }[]
+ * ```
+ */
+export class AggregationPipeline<TIn, TOut> {
+  /**
+   * Creates a pipeline from raw stages. Usually obtained from `aggregate<T>()` instead.
+   *
+   * @param stages - The stages run so far, in order
+   */
+  constructor(private readonly stages: readonly PipelineStage[] = []) {}
+
+  /**
+   * Appends a stage. The output type is asserted by the typed stage methods.
+   *
+   * @internal
+   */
+  private pipe<TNext>(stage: PipelineStage): AggregationPipeline<TIn, TNext> {
+    return new AggregationPipeline<TIn, TNext>([...this.stages, stage]);
+  }
+
+  /**
+   * Keeps only documents matching a query, like `SafeSift.filter`.
+   *
+   * @param query - A SafeSiftQuery over the current document type
+   * @returns A new pipeline with the `$match` stage appended
+   *
+   * @example
+   * ```typescript
+   * aggregate<Order>().match({ amount: { $gte: 100 } });
+   * ```
+   */
+  match(query: SafeSiftQuery<TOut>): AggregationPipeline<TIn, TOut> {
+    return this.pipe({ $match: query });
+  }
+
+  /**
+   * Groups documents by `_id` and computes accumulators
+   * (`$sum`, `$avg`, `$min`, `$max`, `$push`, `$addToSet`, `$first`, `$last`) per group.
+   *
+   * @param spec - Group key and accumulators; field references must be paths of the current type
+   * @returns A new pipeline producing one document per group
+   *
+   * @example
+   * ```typescript
+   * aggregate<Order>().group({
+   *   _id: { country: '$customer.country', status: '$status' },
+   *   avgAmount: { $avg: '$amount' },
+   * });
+   * // produces { _id: { country: string; status: 'paid' | 'refunded' }; avgAmount: number }
+   * ```
+   */
+  group<S extends GroupSpec<TOut, S>>(
+    spec: S
+  ): AggregationPipeline<TIn, GroupResult<TOut, S>> {
+    return this.pipe({ $group: spec });
+  }
+
+  /**
+   * Narrows documents with an inclusion or exclusion projection.
+   *
+   * @param projection - Inclusion (`1`) or exclusion (`0`) map of field paths
+   * @returns A new pipeline producing the projected shape
+   */
+  project<P extends Projection<TOut>>(
+    projection: P
+  ): AggregationPipeline<TIn, Projected<TOut, P>> {
+    return this.pipe({ $project: projection });
+  }
+
+  /**
+   * Sorts documents with MongoDB ordering semantics.
+   *
+   * @param spec - Map of field paths to `1` (ascending) or `-1` (descending)
+   * @returns A new pipeline with the `$sort` stage appended
+   */
+  sort(spec: SortSpec<TOut>): AggregationPipeline<TIn, TOut> {
+    return this.pipe({ $sort: spec });
+  }
+
+  /**
+   * Skips the first `n` documents.
+   *
+   * @param n - Number of documents to skip
+   * @returns A new pipeline with the `$skip` stage appended
+   */
+  skip(n: number): AggregationPipeline<TIn, TOut> {
+    return this.pipe({ $skip: n });
+  }
+
+  /**
+   * Keeps at most `n` documents. A limit of 0 means no limit.
+   *
+   * @param n - Maximum number of documents
+   * @returns A new pipeline with the `$limit` stage appended
+   */
+  limit(n: number): AggregationPipeline<TIn, TOut> {
+    return this.pipe({ $limit: n });
+  }
+
+  /**
+   * Outputs one document per element of an array field, with the array replaced by the element.
+   *
+   * @param path - `$`-prefixed path of an array field
+   * @param options - Set `preserveNullAndEmptyArrays` to keep documents without elements
+   * @returns A new pipeline producing the unwound shape
+   *
+   * @example
+   * ```typescript
+   * aggregate<Order>()
+   *   .unwind('$items')
+   *   .group({ _id: '$items', sold: { $sum: 1 } });
+   * ```
+   */
+  unwind<K extends ArrayPath<TOut>, Preserve extends boolean = false>(
+    path: `$${K}`,
+    options?: { preserveNullAndEmptyArrays?: Preserve }
+  ): AggregationPipeline<TIn, Unwound<TOut, K, Preserve>> {
+    const preserve = options?.preserveNullAndEmptyArrays;
+    return this.pipe({
+      $unwind: preserve ? { path, preserveNullAndEmptyArrays: true } : path,
+    });
+  }
+
+  /**
+   * Returns the raw, MongoDB-compatible stages of this pipeline.
+   *
+   * @returns A copy of the stage array
+   */
+  toStages(): PipelineStage[] {
+    return [...this.stages];
+  }
+
+  /**
+   * Runs the pipeline over an array of documents.
+   *
+   * @param docs - The documents to aggregate
+   * @returns The documents produced by the last stage
+   */
+  run(docs: readonly TIn[]): TOut[] {
+    // eslint-disable-next-line no-restricted-syntax, @typescript-eslint/consistent-type-assertions
+    return runPipeline(docs, this.stages) as TOut[];
+  }
+}
@@ -0,0 +1,28 @@
+import { isPlainObject } from "../values";
+import { evaluateFieldRef } from "./evaluate-field-ref";
+
+/**
+ * Evaluate a `$group` key or accumulator argument against a document:
+ * `"$path"` strings are field references, objects are evaluated field by field,
+ * and anything else is a constant.
+ *
+ * @example
+ * ```ts
+ * evaluateExpression(order, "$customer.country"); // "DE"
+ * evaluateExpression(order, { y: "$year", m: "$month" }); // { y: 2024, m: 5 }
+ * evaluateExpression(order, 1); // 1
+ * ```
+ */
+export function evaluateExpression(doc: unknown, expr: unknown): unknown {
+  if (typeof expr === "string" && expr.startsWith("$")) {
+    return evaluateFieldRef(doc, expr);
+  }
+  if (isPlainObject(expr)) {
+    const out: Record<string, unknown> = {};
+    for (const [key, sub] of Object.entries(expr)) {
+      out[key] = evaluateExpression(doc, sub) ?? null;
+    }
+    return out;
+  }
+  return expr;
+}
@@ -0,0 +1,29 @@
+import { isPlainObject } from "../values";
+
+function walk(value: unknown, segments: string[]): unknown {
+  if (!segments.length) return value;
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => walk(item, segments))
+      .filter((item) => item !== undefined);
+  }
+  if (!isPlainObject(value)) return undefined;
+  const [head, ...rest] = segments;
+  if (head === undefined || !(head in value)) return undefined;
+  return walk(value[head], rest);
+}
+
+/**
+ * Evaluate an aggregation field reference (`"$path"`) against a document.
+ * Paths through arrays yield the array of values found in its elements;
+ * missing fields yield `undefined`.
+ *
+ * @example
+ * ```ts
+ * evaluateFieldRef({ profile: { age: 30 } }, "$profile.age"); // 30
+ * evaluateFieldRef({ posts: [{ v: 1 }, { v: 2 }] }, "$posts.v"); // [1, 2]
+ * ```
+ */
+export function evaluateFieldRef(doc: unknown, ref: string): unknown {
+  return walk(doc, ref.slice(1).split("."));
+}
@@ -0,0 +1,47 @@
+import { isPlainObject, valueKey } from "../values";
+import { evaluateExpression } from "./evaluate-expression";
+import { accumulate } from "./accumulate";
+
+/**
+ * Run a `$group` stage: bucket documents by the evaluated `_id` and compute
+ * each accumulator per bucket. Groups come out in order of first appearance.
+ *
+ * @throws {Error} If a field other than `_id` is not a single-operator accumulator
+ *
+ * @example
+ * ```ts
+ * groupDocuments(orders, { _id: "$country", total: { $sum: "$amount" } });
+ * // => [{ _id: "DE", total: 300 }, { _id: "US", total: 120 }]
+ * ```
+ */
+export function groupDocuments(
+  docs: unknown[],
+  spec: { _id: unknown; [field: string]: unknown }
+): Record<string, unknown>[] {
+  const { _id: idExpr, ...fields } = spec;
+  const accumulators = Object.entries(fields).map(([field, acc]) => {
+    const entries = isPlainObject(acc) ? Object.entries(acc) : [];
+    const [entry] = entries;
+    if (!entry || entries.length !== 1) {
+      throw new Error(`$group field "${field}" must be an accumulator object`);
+    }
+    return { field, op: entry[0], arg: entry[1] };
+  });
+
+  const groups = new Map<string, { id: unknown; docs: unknown[] }>();
+  for (const doc of docs) {
+    const id = evaluateExpression(doc, idExpr) ?? null;
+    const key = valueKey(id);
+    const group = groups.get(key);
+    if (group) group.docs.push(doc);
+    else groups.set(key, { id, docs: [doc] });
+  }
+
+  return [...groups.values()].map(({ id, docs: members }) => {
+    const out: Record<string, unknown> = { _id: id };
+    for (const { field, op, arg } of accumulators) {
+      out[field] = accumulate(op, arg, members);
+    }
+    return out;
+  });
+}
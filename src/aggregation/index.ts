@@ -0,0 +1,8 @@
+export { evaluateFieldRef } from "./evaluate-field-ref";
+export { evaluateExpression } from "./evaluate-expression";
+export { accumulate } from "./accumulate";
+export { groupDocuments } from "./group-documents";
+export { unwindDocuments } from "./unwind-documents";
+export { runPipeline } from "./run-pipeline";
+export { AggregationPipeline } from "./aggregation-pipeline";
+export { aggregate } from "./aggregate";
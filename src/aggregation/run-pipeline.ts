@@ -0,0 +1,64 @@
+import type { PipelineStage, SortSpec } from "../types";
+import { createSiftFunction } from "../create-sift-function";
+import { sortDocuments } from "../sort-documents";
+import { applyProjection } from "../apply-projection";
+import { groupDocuments } from "./group-documents";
+import { unwindDocuments } from "./unwind-documents";
+
+function runStage(docs: unknown[], stage: PipelineStage): unknown[] {
+  if ("$match" in stage) {
+    return docs.filter(createSiftFunction(stage.$match));
+  }
+  if ("$group" in stage) {
+    return groupDocuments(docs, stage.$group);
+  }
+  if ("$project" in stage) {
+    return docs.map((doc) => applyProjection(doc, stage.$project));
+  }
+  if ("$sort" in stage) {
+    const spec: SortSpec<unknown> = stage.$sort;
+    return sortDocuments(docs, spec);
+  }
+  if ("$skip" in stage) {
+    return docs.slice(stage.$skip);
+  }
+  if ("$limit" in stage) {
+    return stage.$limit ? docs.slice(0, stage.$limit) : docs;
+  }
+  if ("$unwind" in stage) {
+    const { $unwind } = stage;
+    return typeof $unwind === "string"
+      ? unwindDocuments(docs, $unwind)
+      : unwindDocuments(
+          docs,
+          $unwind.path,
+          $unwind.preserveNullAndEmptyArrays
+        );
+  }
+  throw new Error(`Unsupported pipeline stage: ${Object.keys(stage).join()}`);
+}
+
+/**
+ * Run raw aggregation stages over an array, one stage after the other.
+ * Prefer `aggregate<T>()` for type-checked pipelines; this is the untyped
+ * runner it delegates to, useful for pipelines stored as JSON.
+ *
+ * @throws {Error} If a stage or accumulator is not supported
+ *
+ * @example
+ * ```ts
+ * runPipeline(orders, [
+ *   { $match: { status: "paid" } },
+ *   { $group: { _id: "$country", total: { $sum: "$amount" } } },
+ *   { $sort: { total: -1 } },
+ * ]);
+ * ```
+ */
+export function runPipeline(
+  docs: readonly unknown[],
+  stages: readonly PipelineStage[]
+): unknown[] {
+  return stages.reduce<unknown[]>((acc, stage) => runStage(acc, stage), [
+    ...docs,
+  ]);
+}
@@ -0,0 +1,62 @@
+import { isPlainObject } from "../values";
+
+function getAt(doc: unknown, segments: string[]): unknown {
+  let current = doc;
+  for (const segment of segments) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+function replaceAt(doc: unknown, segments: string[], value: unknown): unknown {
+  if (!isPlainObject(doc)) return doc;
+  const [head, ...rest] = segments;
+  if (head === undefined) return value;
+  const copy = { ...doc };
+  if (rest.length) {
+    copy[head] = replaceAt(doc[head], rest, value);
+  } else if (value === undefined) {
+    delete copy[head];
+  } else {
+    copy[head] = value;
+  }
+  return copy;
+}
+
+/**
+ * Run an `$unwind` stage: output one copy of each document per element of the
+ * array at `path`. Documents whose field is missing, null or an empty array are
+ * dropped unless `preserveNullAndEmptyArrays` is set; non-array values pass through.
+ *
+ * @example
+ * ```ts
+ * unwindDocuments([{ tags: ["a", "b"] }], "$tags");
+ * // => [{ tags: "a" }, { tags: "b" }]
+ * ```
+ */
+export function unwindDocuments(
+  docs: unknown[],
+  path: string,
+  preserveNullAndEmptyArrays = false
+): unknown[] {
+  const segments = path.replace(/^\$/, "").split(".");
+  const out: unknown[] = [];
+
+  for (const doc of docs) {
+    const value = getAt(doc, segments);
+    if (Array.isArray(value) && value.length) {
+      for (const item of value) out.push(replaceAt(doc, segments, item));
+    } else if (Array.isArray(value)) {
+      if (preserveNullAndEmptyArrays) {
+        out.push(replaceAt(doc, segments, undefined));
+      }
+    } else if (value === null || value === undefined) {
+      if (preserveNullAndEmptyArrays) out.push(doc);
+    } else {
+      out.push(doc);
+    }
+  }
+
+  return out;
+}
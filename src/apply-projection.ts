@@ -0,0 +1,100 @@
+import type { Projected, Projection } from "./types";
+import { isPlainObject } from "./values";
+
+/** Projection paths arranged as a tree; `true` marks a projected leaf. */
+type PathTree = { [segment: string]: PathTree | true };
+
+function buildPathTree(paths: string[]): PathTree {
+  const root: PathTree = {};
+  for (const path of paths) {
+    const segments = path.split(".");
+    const leaf = segments.pop()!;
+    let node: PathTree | undefined = root;
+    for (const segment of segments) {
+      const child: PathTree | true | undefined = node[segment];
+      if (child === true) {
+        // an ancestor is already projected as a whole
+        node = undefined;
+        break;
+      }
+      node = child ?? (node[segment] = {});
+    }
+    if (node) node[leaf] = true;
+  }
+  return root;
+}
+
+function pick(value: unknown, tree: PathTree): unknown {
+  if (Array.isArray(value)) {
+    return value
+      .filter((item) => isPlainObject(item) || Array.isArray(item))
+      .map((item) => pick(item, tree));
+  }
+  if (!isPlainObject(value)) return undefined;
+
+  const out: Record<string, unknown> = {};
+  for (const [key, node] of Object.entries(tree)) {
+    if (!(key in value)) continue;
+    if (node === true) {
+      out[key] = value[key];
+      continue;
+    }
+    const picked = pick(value[key], node);
+    if (picked !== undefined) out[key] = picked;
+  }
+  return out;
+}
+
+function omit(value: unknown, tree: PathTree): unknown {
+  if (Array.isArray(value)) return value.map((item) => omit(item, tree));
+  if (!isPlainObject(value)) return value;
+
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    const node = tree[key];
+    if (node === true) continue;
+    out[key] = node ? omit(v, node) : v;
+  }
+  return out;
+}
+
+/**
+ * Applies a MongoDB-style projection to a document, returning a new object.
+ * Inclusion projections keep only the listed paths; exclusion projections copy
+ * the document without them. Arrays along a path are projected element-wise.
+ * Without a projection the document is returned as is.
+ *
+ * @throws {TypeError} If the projection mixes inclusion and exclusion
+ *
+ * @example
+ * ```ts
+ * applyProjection(user, { name: 1, "profile.age": 1 });
+ * // => { name: "Alice", profile: { age: 30 } }
+ *
+ * applyProjection(user, { profile: 0 });
+ * // => user without `profile`
+ * ```
+ */
+export function applyProjection<T, P extends Projection<T>>(
+  doc: T,
+  projection: P | undefined
+): Projected<T, P> {
+  const entries = Object.entries(projection ?? {}).filter(
+    ([, v]) => v !== undefined
+  );
+  const included = entries.filter(([, v]) => v === 1 || v === true);
+  const excluded = entries.filter(([, v]) => v === 0 || v === false);
+
+  if (included.length && excluded.length) {
+    throw new TypeError("Projection cannot mix inclusion and exclusion");
+  }
+
+  const result = included.length
+    ? pick(doc, buildPathTree(included.map(([path]) => path)))
+    : excluded.length
+    ? omit(doc, buildPathTree(excluded.map(([path]) => path)))
+    : doc;
+
+  // eslint-disable-next-line no-restricted-syntax, @typescript-eslint/consistent-type-assertions
+  return result as Projected<T, P>;
+}
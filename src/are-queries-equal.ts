@@ -1,4 +1,6 @@
 import type { SafeSiftQuery } from "./types";
+import { canonicalizeQuery } from "./canonicalize-query";
+import { valueKey } from "./values";
 
 /**
  * Compares two SafeSiftQuery objects for deep equality.
@@ -32,6 +34,35 @@ export function areQueriesEqual<T>(
   return deepEqual(query1, query2);
 }
 
+/**
+ * Compares two queries after rewriting both with `canonicalizeQuery`, so that
+ * queries differing only in syntax compare equal: implicit vs. explicit `$eq`,
+ * `$and` vs. sibling fields, the order of `$or` branches and `$in` values,
+ * duplicate `$in` values, and RegExps or Dates that are equal by value.
+ *
+ * Queries reported as equivalent always match the same documents; the converse
+ * does not hold, e.g. `{ age: { $gt: 1, $gte: 2 } }` and `{ age: { $gte: 2 } }`
+ * are reported as different.
+ *
+ * @example
+ * ```typescript
+ * areQueriesEquivalent<User>({ age: 18 }, { age: { $eq: 18 } }); // true
+ * areQueriesEquivalent<User>(
+ *   { $or: [{ name: "Alice" }, { name: { $regex: /^b/i } }] },
+ *   { $or: [{ name: { $regex: "^b", $options: "i" } }, { name: "Alice" }] }
+ * ); // true
+ * areQueriesEquivalent<User>({ $and: [{ name: "Alice" }, { age: 18 }] }, { age: 18, name: "Alice" }); // true
+ * ```
+ */
+export function areQueriesEquivalent<T>(
+  query1: SafeSiftQuery<T>,
+  query2: SafeSiftQuery<T>
+): boolean {
+  return (
+    valueKey(canonicalizeQuery(query1)) === valueKey(canonicalizeQuery(query2))
+  );
+}
+
 /**
  * Performs deep equality comparison between two values.
  * Handles objects, arrays, primitives, and nested structures.
@@ -81,4 +112,4 @@ function deepEqual(a: unknown, b: unknown): boolean {
  */
 function isObject(value: unknown): value is Record<string, unknown> {
   return value !== null && typeof value === "object" && !Array.isArray(value);
-}
\ No newline at end of file
+}
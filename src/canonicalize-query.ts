@@ -0,0 +1,220 @@
+import type { SafeSiftQuery } from "./types";
+import { isPlainObject, valueKey } from "./values";
+import { typedQuery } from "./typed-query";
+
+type Query = Record<string, unknown>;
+
+/** The conditions of a conjunction, collected from `$and` and implicit ANDs. */
+type Conjunction = {
+  /** path -> operator -> operands, e.g. `age -> $gt -> [18]` */
+  fields: Map<string, Map<string, unknown[]>>;
+  /** `$or` groups, each a list of canonical branches */
+  or: Query[][];
+  /** canonical branches of `$nor` and `$not` */
+  nor: Query[];
+  /** other top-level operators such as `$where`, kept as they are */
+  operators: Map<string, unknown[]>;
+};
+
+const LOGICAL = new Set(["$and", "$or", "$nor", "$not"]);
+
+/** Deduplicate values and sort them by their `valueKey`. */
+function sortedSet<V>(values: readonly V[]): V[] {
+  const unique = new Map(values.map((v) => [valueKey(v), v] as const));
+  return [...unique.keys()].sort().map((key) => unique.get(key)!);
+}
+
+function add<V>(map: Map<string, V[]>, key: string, value: V): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+function isOnly(query: Query, key: string): boolean {
+  const keys = Object.keys(query);
+  return keys.length === 1 && keys[0] === key;
+}
+
+/** Canonical operator entries of a field condition, with implicit `$eq` expanded. */
+function canonicalOperators(condition: unknown): [string, unknown][] {
+  if (condition instanceof RegExp) return [["$regex", condition]];
+  if (
+    !isPlainObject(condition) ||
+    !Object.keys(condition).length ||
+    !Object.keys(condition).every((k) => k.startsWith("$"))
+  ) {
+    return [["$eq", condition]];
+  }
+
+  const entries: [string, unknown][] = [];
+  for (const [op, value] of Object.entries(condition)) {
+    if (value === undefined || op === "$options") continue;
+
+    if (op === "$regex") {
+      const source = value instanceof RegExp ? value.source : String(value);
+      const flags =
+        condition.$options === undefined
+          ? value instanceof RegExp
+            ? value.flags
+            : ""
+          : String(condition.$options);
+      entries.push([op, new RegExp(source, flags)]);
+    } else if (op === "$in" || op === "$nin" || op === "$all") {
+      const values = Array.isArray(value) ? sortedSet(value) : value;
+      const single =
+        Array.isArray(values) &&
+        values.length === 1 &&
+        !(values[0] instanceof RegExp);
+      // `$nin: [v]` and `$in: [null]` differ from `$ne` / `$eq` on paths
+      // through arrays of documents, so only other single `$in` values fold
+      if (single && op === "$in" && values[0] !== null)
+        entries.push(["$eq", values[0]]);
+      else entries.push([op, values]);
+    } else if (op === "$not") {
+      entries.push([
+        op,
+        value instanceof RegExp
+          ? value
+          : Object.fromEntries(canonicalOperators(value).sort(byKey)),
+      ]);
+    } else if (op === "$elemMatch" && isPlainObject(value)) {
+      const keys = Object.keys(value);
+      const documents =
+        !keys.length || keys.some((k) => !k.startsWith("$") || LOGICAL.has(k));
+      entries.push([
+        op,
+        documents
+          ? canonical(value)
+          : Object.fromEntries(canonicalOperators(value).sort(byKey)),
+      ]);
+    } else {
+      entries.push([op, value]);
+    }
+  }
+  return entries;
+}
+
+function byKey([a]: [string, unknown], [b]: [string, unknown]): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function collect(query: unknown, conjunction: Conjunction): void {
+  if (!isPlainObject(query)) {
+    throw new TypeError("A query must be an object");
+  }
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      if (!Array.isArray(value)) {
+        throw new TypeError(`${key} expects an array of queries`);
+      }
+      if (key === "$and") {
+        for (const sub of value) collect(sub, conjunction);
+      } else if (key === "$nor") {
+        for (const sub of value) negate(canonical(sub), conjunction);
+      } else {
+        const branches = value.flatMap((sub): Query[] => {
+          const branch = canonical(sub);
+          return isOnly(branch, "$or") && Array.isArray(branch.$or)
+            ? branch.$or
+            : [branch];
+        });
+        // a branch without conditions matches everything
+        if (branches.some((branch) => !Object.keys(branch).length)) continue;
+        const unique = sortedSet(branches);
+        if (unique.length === 1) collect(unique[0], conjunction);
+        else conjunction.or.push(unique);
+      }
+    } else if (key === "$not") {
+      negate(canonical(value), conjunction);
+    } else if (key.startsWith("$")) {
+      add(conjunction.operators, key, value);
+    } else {
+      const ops = conjunction.fields.get(key) ?? new Map<string, unknown[]>();
+      conjunction.fields.set(key, ops);
+      for (const [op, operand] of canonicalOperators(value)) {
+        add(ops, op, operand);
+      }
+    }
+  }
+}
+
+function negate(branch: Query, conjunction: Conjunction): void {
+  if (isOnly(branch, "$or") && Array.isArray(branch.$or)) {
+    // not (a or b) = not a and not b
+    conjunction.nor.push(...branch.$or);
+  } else if (
+    isOnly(branch, "$nor") &&
+    Array.isArray(branch.$nor) &&
+    branch.$nor.length === 1
+  ) {
+    // not not a = a
+    collect(branch.$nor[0], conjunction);
+  } else {
+    conjunction.nor.push(branch);
+  }
+}
+
+function render(conjunction: Conjunction): Query {
+  const out: Query = {};
+  const overflow: Query[] = [];
+
+  // conditions that cannot share a key with their first operand move to `$and`
+  for (const field of [...conjunction.fields.keys()].sort()) {
+    const condition: Query = {};
+    const ops = conjunction.fields.get(field)!;
+    for (const op of [...ops.keys()].sort()) {
+      const [first, ...rest] = sortedSet(ops.get(op)!);
+      condition[op] = first;
+      for (const operand of rest) overflow.push({ [field]: { [op]: operand } });
+    }
+    if (Object.keys(condition).length) out[field] = condition;
+  }
+  for (const key of [...conjunction.operators.keys()].sort()) {
+    const [first, ...rest] = sortedSet(conjunction.operators.get(key)!);
+    out[key] = first;
+    for (const operand of rest) overflow.push({ [key]: operand });
+  }
+
+  const [firstOr, ...restOr] = sortedSet(conjunction.or);
+  for (const branches of restOr) overflow.push({ $or: branches });
+  if (overflow.length) out.$and = sortedSet(overflow);
+  if (conjunction.nor.length) out.$nor = sortedSet(conjunction.nor);
+  if (firstOr) out.$or = firstOr;
+  return out;
+}
+
+function canonical(query: unknown): Query {
+  const conjunction: Conjunction = {
+    fields: new Map(),
+    or: [],
+    nor: [],
+    operators: new Map(),
+  };
+  collect(query, conjunction);
+  return render(conjunction);
+}
+
+/**
+ * Rewrites a query into a canonical form, so that queries matching the same
+ * documents for syntactic reasons compare equal. It flattens `$and`, expands
+ * implicit `$eq`, folds `$options` into `$regex`, turns `$not` into `$nor`,
+ * deduplicates and sorts `$in` / `$nin` / `$all` values and `$or` / `$nor`
+ * branches, and sorts field and operator keys. A single-value `$in` becomes
+ * `$eq`, except `$in: [null]`; single-value `$nin` is kept as is.
+ *
+ * @throws {TypeError} If the query or one of its `$and` / `$or` / `$nor` operands is malformed
+ *
+ * @example
+ * ```ts
+ * canonicalizeQuery<User>({ $and: [{ name: "Alice" }, { age: { $in: [18, 18] } }] });
+ * // => { age: { $eq: 18 }, name: { $eq: "Alice" } }
+ * ```
+ */
+export function canonicalizeQuery<T>(
+  query: SafeSiftQuery<T>
+): SafeSiftQuery<T> {
+  return typedQuery<T>(canonical(query));
+}
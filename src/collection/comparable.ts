@@ -0,0 +1,18 @@
+/**
+ * The form in which sift compares a value: Dates by their time, objects with a
+ * `toJSON` method by its result, anything else as it is.
+ *
+ * @example
+ * ```ts
+ * comparable(new Date(0)); // => 0
+ * comparable("a");         // => "a"
+ * ```
+ */
+export function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  const toJSON: unknown =
+    typeof value === "object" && value !== null
+      ? Reflect.get(value, "toJSON")
+      : undefined;
+  return typeof toJSON === "function" ? toJSON.call(value) : value;
+}
@@ -0,0 +1,34 @@
+/**
+ * The values sift compares a query condition against at `path`, following its
+ * traversal: arrays met along the way fan out, numeric segments index into them,
+ * and an array at the end of the path yields its elements, nested arrays
+ * included, as well as itself. Missing and `null` fields yield no value.
+ *
+ * @example
+ * ```ts
+ * fieldValues({ posts: [{ tags: ["a", "b"] }, { tags: "c" }] }, "posts.tags");
+ * // => ["a", "b", ["a", "b"], "c"]
+ * ```
+ */
+export function fieldValues(doc: unknown, path: string): unknown[] {
+  const keys = path.split(".");
+  const values: unknown[] = [];
+
+  const walk = (item: unknown, depth: number): void => {
+    const key = keys[depth];
+    const fansOut =
+      Array.isArray(item) &&
+      Number.isNaN(Number(key)) &&
+      !(key !== undefined && Object.prototype.hasOwnProperty.call(item, key));
+    if (fansOut) {
+      for (const element of item) walk(element, depth);
+    }
+
+    if (item === null || item === undefined) return;
+    if (key === undefined) values.push(item);
+    else walk(Reflect.get(Object(item), key), depth + 1);
+  };
+
+  walk(doc, 0);
+  return values;
+}
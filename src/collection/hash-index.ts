@@ -0,0 +1,52 @@
+import { valueKey } from "../values";
+import { comparable } from "./comparable";
+import { fieldValues } from "./field-values";
+
+/**
+ * Document ids by the values found at one path, for `$eq` and `$in` lookups.
+ * A document is listed under every value sift would compare an equality
+ * against, so a lookup returns a superset of the matching documents.
+ */
+export class HashIndex<P extends string = string> {
+  private readonly ids = new Map<string, Set<number>>();
+  private readonly keysById = new Map<number, string[]>();
+
+  constructor(readonly path: P) {}
+
+  add(id: number, doc: unknown): void {
+    const keys = [
+      ...new Set(
+        fieldValues(doc, this.path).map((v) => valueKey(comparable(v)))
+      ),
+    ];
+    this.keysById.set(id, keys);
+    for (const key of keys) {
+      const ids = this.ids.get(key);
+      if (ids) ids.add(id);
+      else this.ids.set(key, new Set([id]));
+    }
+  }
+
+  delete(id: number): void {
+    for (const key of this.keysById.get(id) ?? []) {
+      const ids = this.ids.get(key);
+      ids?.delete(id);
+      if (ids && !ids.size) this.ids.delete(key);
+    }
+    this.keysById.delete(id);
+  }
+
+  /** Ids of the documents holding one of `values` at the path. */
+  lookup(values: readonly unknown[]): ReadonlySet<number> {
+    if (values.length === 1) {
+      return this.ids.get(valueKey(comparable(values[0]))) ?? new Set();
+    }
+    const found = new Set<number>();
+    for (const value of values) {
+      for (const id of this.ids.get(valueKey(comparable(value))) ?? []) {
+        found.add(id);
+      }
+    }
+    return found;
+  }
+}
@@ -0,0 +1 @@
+export { SafeCollection } from "./safe-collection";
@@ -0,0 +1,96 @@
+import type { ObserveCallbacks, ObserveOptions, SafeSiftQuery } from "../types";
+import { SafeSift } from "../safe-sift-class";
+import { compareDocuments } from "../sort-documents";
+import { valueKey } from "../values";
+
+/**
+ * The result of one observed query: the ids of the matching documents in
+ * result order, kept up to date one changed document at a time.
+ */
+export class QueryObserver<T> {
+  private readonly sift: SafeSift<T>;
+  private readonly compare: (a: number, b: number) => number;
+  private readonly limit: number;
+  /** Ids of the matching documents, in result order. */
+  private readonly ids: number[] = [];
+  /** The matching documents by id, as they were last seen. */
+  private readonly docs = new Map<number, T>();
+
+  constructor(
+    query: SafeSiftQuery<T>,
+    private readonly callbacks: ObserveCallbacks<T>,
+    options: ObserveOptions<T>,
+    docs: Iterable<[number, T]>
+  ) {
+    this.sift = new SafeSift<T>(query);
+    const byDoc = options.sort ? compareDocuments(options.sort) : () => 0;
+    // ids follow insertion order, which breaks ties
+    this.compare = (a, b) =>
+      byDoc(this.docs.get(a)!, this.docs.get(b)!) || a - b;
+    this.limit = options.limit || Infinity;
+
+    for (const [id, doc] of docs) {
+      if (!this.sift.test(doc)) continue;
+      this.docs.set(id, doc);
+      this.ids.push(id);
+    }
+    this.ids.sort(this.compare);
+    for (const [index, id] of this.ids.slice(0, this.limit).entries()) {
+      callbacks.onAdded?.(this.docs.get(id)!, index);
+    }
+  }
+
+  /** Position of `id` in `ids`, where it is or would be inserted. */
+  private position(id: number): number {
+    let low = 0;
+    let high = this.ids.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.compare(this.ids[mid]!, id) < 0) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Re-evaluates one document after it was inserted or updated, or, with `doc`
+   * undefined, removed, and calls the callbacks for the changes to the result.
+   */
+  apply(id: number, doc: T | undefined): void {
+    const { onAdded, onRemoved, onChanged, onMoved } = this.callbacks;
+    const had = this.docs.has(id);
+    const previous = this.docs.get(id);
+    const from = had ? this.position(id) : -1;
+    if (had) {
+      this.ids.splice(from, 1);
+      this.docs.delete(id);
+    }
+
+    let to = -1;
+    if (doc !== undefined && this.sift.test(doc)) {
+      this.docs.set(id, doc);
+      to = this.position(id);
+      this.ids.splice(to, 0, id);
+    }
+
+    const wasShown = had && from < this.limit;
+    const isShown = to >= 0 && to < this.limit;
+    if (wasShown && isShown) {
+      if (from !== to) onMoved?.(doc!, from, to);
+      if (valueKey(previous) !== valueKey(doc))
+        onChanged?.(doc!, previous!, to);
+    } else if (wasShown) {
+      onRemoved?.(previous!, from);
+      // the next document moves up into the window
+      const next = this.ids[this.limit - 1];
+      if (next !== undefined) onAdded?.(this.docs.get(next)!, this.limit - 1);
+    } else if (isShown) {
+      // the last document of the window is pushed out
+      const pushed = this.ids[this.limit];
+      if (pushed !== undefined) {
+        onRemoved?.(this.docs.get(pushed)!, this.limit - 1);
+      }
+      onAdded?.(doc!, to);
+    }
+  }
+}
@@ -0,0 +1,430 @@
+import type {
+  CollectionIndex,
+  CollectionPlan,
+  DeepKeyOf,
+  IndexKind,
+  ObserveCallbacks,
+  ObserveHandle,
+  ObserveOptions,
+  Predicate,
+  SafeCollectionOptions,
+  SafeSiftQuery,
+  SafeUpdate,
+} from "../types";
+import { createSiftFunction } from "../create-sift-function";
+import { normalizeQuery } from "../getValue";
+import { applyUpdate } from "../update";
+import { isPlainObject } from "../values";
+import { comparable } from "./comparable";
+import { HashIndex } from "./hash-index";
+import { QueryObserver } from "./query-observer";
+import { SortedIndex } from "./sorted-index";
+import type { Bound } from "./sorted-index";
+
+const LOWER = new Set(["$gt", "$gte"]);
+const UPPER = new Set(["$lt", "$lte"]);
+
+/** Values an `$eq` or `$in` predicate can be looked up by, or `undefined`. */
+function lookupValues({ op, value }: Predicate): unknown[] | undefined {
+  const values = op === "$eq" ? [value] : op === "$in" ? value : undefined;
+  const scalar = (v: unknown) =>
+    typeof v === "string" ||
+    typeof v === "number" ||
+    typeof v === "boolean" ||
+    v instanceof Date;
+  // `null` also matches missing fields, which no index lists
+  return Array.isArray(values) && values.every(scalar) ? values : undefined;
+}
+
+function rangeKey(value: unknown): number | string | undefined {
+  const key = comparable(value);
+  return (typeof key === "number" && !Number.isNaN(key)) ||
+    typeof key === "string"
+    ? key
+    : undefined;
+}
+
+function toBound(pred: Predicate): Bound {
+  return {
+    value: rangeKey(pred.value)!,
+    inclusive: pred.op === "$gte" || pred.op === "$lte",
+  };
+}
+
+/** The `$or` groups of a query, including those nested in `$and`. */
+function orGroups(query: unknown): unknown[][] {
+  if (!isPlainObject(query)) return [];
+  const groups: unknown[][] = [];
+  for (const [key, value] of Object.entries(query)) {
+    if (key === "$or" && Array.isArray(value)) groups.push(value);
+    else if (key === "$and" && Array.isArray(value)) {
+      groups.push(...value.flatMap(orGroups));
+    }
+  }
+  return groups;
+}
+
+function intersect(sets: ReadonlySet<number>[]): ReadonlySet<number> {
+  if (sets.length === 1) return sets[0]!;
+  const [smallest, ...others] = [...sets].sort((a, b) => a.size - b.size);
+  const result = new Set<number>();
+  for (const id of smallest!) {
+    if (others.every((set) => set.has(id))) result.add(id);
+  }
+  return result;
+}
+
+/**
+ * An in-memory collection of documents with hash and sorted indexes on chosen
+ * paths. Queries look up `$eq` / `$in` conditions in hash indexes and range
+ * conditions in sorted indexes, including those in every branch of an `$or`,
+ * and only test the documents found with the full query. Queries no index
+ * serves scan every document, as `SafeSift.filter` does.
+ *
+ * Indexes and observed queries (see `observe`) follow `insert`, `update` and
+ * `remove`. Documents changed in place without going through the collection
+ * leave them stale: `update` replaces a document with an updated copy instead.
+ *
+ * @template T - The type of documents in the collection
+ *
+ * @example
+ * ```typescript
+ * const users = new SafeCollection<User>(data, {
+ *   indexes: [{ path: 'status', kind: 'hash' }, { path: 'age', kind: 'sorted' }],
+ * });
+ *
+ * users.find({ status: 'active', age: { $gte: 18, $lt: 30 } });
+ * users.plan({ status: 'active' });
+ * // => { indexes: [{ path: 'status', kind: 'hash' }], candidates: 1200, total: 200000 }
+ *
+ * users.update({ status: 'pending' }, { $set: { status: 'active' } });
+ * users.remove({ age: { $lt: 13 } });
+ * ```
+ */
+export class SafeCollection<T> {
+  private readonly docs = new Map<number, T>();
+  private readonly hashIndexes = new Map<string, HashIndex<DeepKeyOf<T>>>();
+  private readonly sortedIndexes = new Map<string, SortedIndex<DeepKeyOf<T>>>();
+  private readonly observers = new Set<QueryObserver<T>>();
+  private nextId = 0;
+
+  /**
+   * Creates a collection holding `docs`.
+   *
+   * @param docs - The initial documents, kept by reference
+   * @param options - Indexes to build and maintain
+   */
+  constructor(docs: Iterable<T> = [], options: SafeCollectionOptions<T> = {}) {
+    for (const { path, kind } of options.indexes ?? []) {
+      this.createIndex(path, kind);
+    }
+    this.insertMany(docs);
+  }
+
+  /** The number of documents in the collection. */
+  get size(): number {
+    return this.docs.size;
+  }
+
+  /**
+   * Builds an index over the current documents. Creating an index that exists does nothing.
+   *
+   * @param path - The path to index
+   * @param kind - `hash` for `$eq` / `$in`, `sorted` for ranges (default: `hash`)
+   * @returns This collection
+   */
+  createIndex(path: DeepKeyOf<T>, kind: IndexKind = "hash"): this {
+    const indexes = kind === "hash" ? this.hashIndexes : this.sortedIndexes;
+    if (indexes.has(path)) return this;
+
+    const index = kind === "hash" ? new HashIndex(path) : new SortedIndex(path);
+    for (const [id, doc] of this.docs) index.add(id, doc);
+    if (index instanceof HashIndex) this.hashIndexes.set(path, index);
+    else this.sortedIndexes.set(path, index);
+    return this;
+  }
+
+  /**
+   * Drops an index.
+   *
+   * @param path - The indexed path
+   * @param kind - The kind of index to drop (default: `hash`)
+   * @returns Whether the index existed
+   */
+  dropIndex(path: DeepKeyOf<T>, kind: IndexKind = "hash"): boolean {
+    return (kind === "hash" ? this.hashIndexes : this.sortedIndexes).delete(
+      path
+    );
+  }
+
+  /** Lists the indexes of the collection. */
+  indexes(): CollectionIndex<T>[] {
+    return [
+      ...[...this.hashIndexes.values()].map(
+        ({ path }): CollectionIndex<T> => ({ path, kind: "hash" })
+      ),
+      ...[...this.sortedIndexes.values()].map(
+        ({ path }): CollectionIndex<T> => ({ path, kind: "sorted" })
+      ),
+    ];
+  }
+
+  private index(id: number, doc: T): void {
+    for (const index of this.hashIndexes.values()) index.add(id, doc);
+    for (const index of this.sortedIndexes.values()) index.add(id, doc);
+  }
+
+  private notify(id: number, doc: T | undefined): void {
+    for (const observer of this.observers) observer.apply(id, doc);
+  }
+
+  private unindex(id: number): void {
+    for (const index of this.hashIndexes.values()) index.delete(id);
+    for (const index of this.sortedIndexes.values()) index.delete(id);
+  }
+
+  /**
+   * Adds a document.
+   *
+   * @param doc - The document, kept by reference
+   */
+  insert(doc: T): void {
+    const id = this.nextId++;
+    this.docs.set(id, doc);
+    this.index(id, doc);
+    this.notify(id, doc);
+  }
+
+  /**
+   * Adds documents in order.
+   *
+   * @param docs - The documents, kept by reference
+   */
+  insertMany(docs: Iterable<T>): void {
+    for (const doc of docs) this.insert(doc);
+  }
+
+  /**
+   * Ids of documents that may match `query`, from the indexes, or `undefined`
+   * when no index serves it. Every matching document is among them.
+   */
+  private candidates(
+    query: unknown,
+    used: CollectionIndex<T>[]
+  ): ReadonlySet<number> | undefined {
+    const sets: ReadonlySet<number>[] = [];
+    const use = (index: { path: DeepKeyOf<T> }, kind: IndexKind) => {
+      used.push({ path: index.path, kind });
+    };
+
+    const byPath = new Map<string, Predicate[]>();
+    for (const p of normalizeQuery(query).and) {
+      byPath.set(p.path, [...(byPath.get(p.path) ?? []), p]);
+    }
+
+    for (const [path, preds] of byPath) {
+      const hash = this.hashIndexes.get(path);
+      const sorted = this.sortedIndexes.get(path);
+
+      for (const p of preds) {
+        const values = lookupValues(p);
+        if (!values) continue;
+        if (hash) {
+          sets.push(hash.lookup(values));
+          use(hash, "hash");
+        } else if (sorted && values.every((v) => rangeKey(v) !== undefined)) {
+          const found = new Set<number>();
+          for (const v of values) {
+            const bound = { value: rangeKey(v)!, inclusive: true };
+            for (const id of sorted.range(bound, bound)) found.add(id);
+          }
+          sets.push(found);
+          use(sorted, "sorted");
+        }
+      }
+
+      // each bound may be met by a different element of an array, so every
+      // bound is looked up on its own and the results are intersected
+      const bounds = preds.filter(
+        (p) =>
+          (LOWER.has(p.op) || UPPER.has(p.op)) &&
+          rangeKey(p.value) !== undefined
+      );
+      if (sorted && bounds.length) {
+        for (const p of bounds) {
+          sets.push(
+            LOWER.has(p.op)
+              ? sorted.range(toBound(p), undefined)
+              : sorted.range(undefined, toBound(p))
+          );
+        }
+        use(sorted, "sorted");
+      }
+    }
+
+    // a document matching the query matches a branch of every `$or`
+    for (const branches of orGroups(query)) {
+      const branchUsed: CollectionIndex<T>[] = [];
+      const found = new Set<number>();
+      const served = branches.every((branch) => {
+        const ids = this.candidates(branch, branchUsed);
+        ids?.forEach((id) => found.add(id));
+        return ids !== undefined;
+      });
+      if (served) {
+        sets.push(found);
+        used.push(...branchUsed);
+      }
+    }
+
+    return sets.length ? intersect(sets) : undefined;
+  }
+
+  /** Ids of the documents matching `query`, in insertion order. */
+  private matching(query: SafeSiftQuery<T>, limit = Infinity): number[] {
+    const test = createSiftFunction(query);
+    const candidates = this.candidates(query, []);
+    const ids = candidates
+      ? [...candidates].sort((a, b) => a - b)
+      : this.docs.keys();
+
+    const matched: number[] = [];
+    for (const id of ids) {
+      if (matched.length >= limit) break;
+      if (test(this.docs.get(id)!)) matched.push(id);
+    }
+    return matched;
+  }
+
+  /**
+   * Returns the documents matching a query, in insertion order.
+   *
+   * @param query - A SafeSiftQuery over the documents
+   * @returns The matching documents
+   */
+  find(query: SafeSiftQuery<T>): T[] {
+    return this.matching(query).map((id) => this.docs.get(id)!);
+  }
+
+  /**
+   * Returns the first document matching a query, in insertion order.
+   *
+   * @param query - A SafeSiftQuery over the documents
+   * @returns The first matching document, or `undefined`
+   */
+  findOne(query: SafeSiftQuery<T>): T | undefined {
+    const [id] = this.matching(query, 1);
+    return id === undefined ? undefined : this.docs.get(id);
+  }
+
+  /**
+   * Counts the documents matching a query.
+   *
+   * @param query - A SafeSiftQuery over the documents
+   * @returns The number of matching documents
+   */
+  count(query: SafeSiftQuery<T>): number {
+    return this.matching(query).length;
+  }
+
+  /**
+   * Describes how a query would run: the indexes looked up and the number of
+   * documents they leave to test.
+   *
+   * @param query - A SafeSiftQuery over the documents
+   * @returns The plan of the query
+   */
+  plan(query: SafeSiftQuery<T>): CollectionPlan<T> {
+    const indexes: CollectionIndex<T>[] = [];
+    const candidates = this.candidates(query, indexes);
+    const seen = new Set<string>();
+    return {
+      indexes: indexes.filter(({ path, kind }) => {
+        const key = `${kind}:${path}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }),
+      candidates: candidates?.size ?? this.docs.size,
+      total: this.docs.size,
+    };
+  }
+
+  /**
+   * Applies an update to the documents matching a query, replacing each with
+   * an updated copy and reindexing it.
+   *
+   * @param query - A SafeSiftQuery selecting the documents to update
+   * @param update - The update operators to apply, as in `applyUpdate`
+   * @returns The number of updated documents
+   * @throws {TypeError | Error} If the update cannot be applied, as `applyUpdate` does; documents updated before stay updated
+   */
+  update(query: SafeSiftQuery<T>, update: SafeUpdate<T>): number {
+    const ids = this.matching(query);
+    for (const id of ids) {
+      const updated = applyUpdate(this.docs.get(id)!, update, { query });
+      this.unindex(id);
+      this.docs.set(id, updated);
+      this.index(id, updated);
+      this.notify(id, updated);
+    }
+    return ids.length;
+  }
+
+  /**
+   * Removes the documents matching a query.
+   *
+   * @param query - A SafeSiftQuery selecting the documents to remove
+   * @returns The number of removed documents
+   */
+  remove(query: SafeSiftQuery<T>): number {
+    const ids = this.matching(query);
+    for (const id of ids) {
+      this.unindex(id);
+      this.docs.delete(id);
+      this.notify(id, undefined);
+    }
+    return ids.length;
+  }
+
+  /**
+   * Observes the result of a query as the collection changes, like minimongo's
+   * `observeChanges`. `onAdded` is first called for each current match; after
+   * that, every insert, update and removal re-evaluates only the documents it
+   * changed and reports how the result changed. With `sort` and `limit`, only
+   * the window of the first `limit` sorted matches is observed, and documents
+   * move in and out of it as others enter or leave.
+   *
+   * @param query - A SafeSiftQuery selecting the observed documents
+   * @param callbacks - Called as documents enter, leave, change or move in the result
+   * @param options - Sort order and window size of the result
+   * @returns A handle whose `stop()` ends the observation
+   *
+   * @example
+   * ```typescript
+   * const handle = users.observe(
+   *   { status: 'online' },
+   *   {
+   *     onAdded: (user, index) => list.insert(index, user),
+   *     onRemoved: (_user, index) => list.remove(index),
+   *   },
+   *   { sort: { lastSeen: -1 }, limit: 20 }
+   * );
+   * handle.stop();
+   * ```
+   */
+  observe(
+    query: SafeSiftQuery<T>,
+    callbacks: ObserveCallbacks<T>,
+    options: ObserveOptions<T> = {}
+  ): ObserveHandle {
+    const observer = new QueryObserver(query, callbacks, options, this.docs);
+    this.observers.add(observer);
+    return { stop: () => this.observers.delete(observer) };
+  }
+
+  /** Returns the documents of the collection, in insertion order. */
+  toArray(): T[] {
+    return [...this.docs.values()];
+  }
+}
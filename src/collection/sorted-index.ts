@@ -0,0 +1,105 @@
+import { comparable } from "./comparable";
+import { fieldValues } from "./field-values";
+
+/** A bound of a range lookup: `$gt` / `$lt` exclude the value, `$gte` / `$lte` include it. */
+export type Bound = { value: number | string; inclusive: boolean };
+
+type Entry = { key: number | string; id: number };
+
+/** The first position in `entries` whose key is not below `key`, or above it when `after` is set. */
+function search(
+  entries: readonly Entry[],
+  key: number | string,
+  after: boolean
+): number {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const current = entries[mid]!.key;
+    if (current < key || (after && current === key)) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Document ids ordered by the numbers (Dates included) and strings found at one
+ * path, for range lookups. Like sift, a range only meets values of its bound's
+ * type. Documents holding values whose order sift may see differently, such as
+ * objects with a `toJSON` method, are returned by every lookup.
+ */
+export class SortedIndex<P extends string = string> {
+  private numbers: Entry[] = [];
+  private strings: Entry[] = [];
+  private readonly unordered = new Set<number>();
+  private readonly entriesById = new Map<number, Entry[]>();
+  /** Entries of deleted documents, dropped from the lists when they are next sorted. */
+  private readonly removed = new Set<Entry>();
+  /** Set when entries were added or removed since the lists were last sorted. */
+  private dirty = false;
+
+  constructor(readonly path: P) {}
+
+  private listFor(key: number | string): Entry[] {
+    return typeof key === "number" ? this.numbers : this.strings;
+  }
+
+  add(id: number, doc: unknown): void {
+    const entries: Entry[] = [];
+    for (const value of fieldValues(doc, this.path)) {
+      const key = comparable(value);
+      if (typeof value === "object" && !(value instanceof Date)) {
+        if (key !== value) this.unordered.add(id);
+      } else if (
+        (typeof key === "number" && !Number.isNaN(key)) ||
+        typeof key === "string"
+      ) {
+        entries.push({ key, id });
+      }
+    }
+
+    for (const entry of entries) this.listFor(entry.key).push(entry);
+    this.dirty ||= entries.length > 0;
+    this.entriesById.set(id, entries);
+  }
+
+  /** Sort the lists once after a batch of changes rather than on each. */
+  private sort(): void {
+    if (!this.dirty) return;
+    const byKey = (a: Entry, b: Entry) =>
+      a.key === b.key ? 0 : a.key < b.key ? -1 : 1;
+    const compact = (list: Entry[]) =>
+      list.filter((entry) => !this.removed.has(entry)).sort(byKey);
+    this.numbers = compact(this.numbers);
+    this.strings = compact(this.strings);
+    this.removed.clear();
+    this.dirty = false;
+  }
+
+  delete(id: number): void {
+    for (const entry of this.entriesById.get(id) ?? []) {
+      this.removed.add(entry);
+      this.dirty = true;
+    }
+    this.entriesById.delete(id);
+    this.unordered.delete(id);
+  }
+
+  /**
+   * Ids of the documents holding a value between the bounds at the path. Both
+   * bounds must have the same type; a missing bound leaves that side open.
+   */
+  range(lower: Bound | undefined, upper: Bound | undefined): Set<number> {
+    this.sort();
+    const list = this.listFor((lower ?? upper)!.value);
+    const start = lower ? search(list, lower.value, !lower.inclusive) : 0;
+    const end = upper
+      ? search(list, upper.value, upper.inclusive)
+      : list.length;
+
+    const found = new Set(this.unordered);
+    for (let i = start; i < end; i++) found.add(list[i]!.id);
+    return found;
+  }
+}
@@ -0,0 +1,2 @@
+export { listConditions } from "./list-conditions";
+export { queryFromConditions } from "./query-from-conditions";
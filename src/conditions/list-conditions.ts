@@ -0,0 +1,106 @@
+import type { QueryCondition, SafeSiftQuery } from "../types";
+import { isOperatorKey } from "../getValue";
+import { typedPath } from "../typed-path";
+import { appendPointer, isPlainObject } from "../values";
+
+/** Keys holding arrays of sub-queries. */
+export const QUERY_GROUPS: ReadonlySet<string> = new Set([
+  "$and",
+  "$or",
+  "$nor",
+]);
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.startsWith("$"));
+}
+
+/** The operand of `$regex`, with a sibling `$options` folded into a RegExp. */
+function regexOperand(ops: Record<string, unknown>): unknown {
+  const { $regex: pattern, $options: options } = ops;
+  if (typeof options !== "string") return pattern;
+  return new RegExp(
+    pattern instanceof RegExp ? pattern.source : String(pattern),
+    options
+  );
+}
+
+function collect<T>(
+  query: unknown,
+  pointer: string,
+  out: QueryCondition<T>[]
+): void {
+  if (!isPlainObject(query)) {
+    throw new TypeError("A query must be an object");
+  }
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    const at = appendPointer(pointer, key);
+
+    if (QUERY_GROUPS.has(key)) {
+      if (!Array.isArray(value)) {
+        throw new TypeError(`${key} expects an array of queries`);
+      }
+      value.forEach((sub, i) => collect(sub, appendPointer(at, i), out));
+    } else if (key === "$not") {
+      collect(value, at, out);
+    } else if (isOperatorKey(key)) {
+      out.push({ pointer: at, field: null, operator: key, value });
+    } else if (value instanceof RegExp) {
+      out.push({
+        pointer: at,
+        field: typedPath<T>(key),
+        operator: "$regex",
+        value,
+      });
+    } else if (isOperatorObject(value)) {
+      for (const op of Object.keys(value)) {
+        if (op === "$options" && "$regex" in value) continue;
+        if (!isOperatorKey(op)) continue;
+        out.push({
+          pointer: appendPointer(at, op),
+          field: typedPath<T>(key),
+          operator: op,
+          value: op === "$regex" ? regexOperand(value) : value[op],
+        });
+      }
+    } else {
+      out.push({
+        pointer: at,
+        field: typedPath<T>(key),
+        operator: "$eq",
+        value,
+      });
+    }
+  }
+}
+
+/**
+ * Lists the clauses of a query in document order, each with the JSON pointer to
+ * where it sits. `$and`, `$or`, `$nor` and `$not` groups are descended into;
+ * operands such as `$elemMatch` queries and field-level `$not` are not. A
+ * `$regex` with `$options` is listed once, with the options folded into a RegExp.
+ *
+ * @param query - The query to list the clauses of
+ * @returns The clauses, which `queryFromConditions` turns back into a query
+ * @throws {TypeError} If the query or one of its groups is malformed
+ *
+ * @example
+ * ```ts
+ * listConditions<User>({ age: { $gte: 18, $lt: 65 }, $or: [{ name: "Ann" }] });
+ * // => [
+ * //   { pointer: "/age/$gte", field: "age", operator: "$gte", value: 18 },
+ * //   { pointer: "/age/$lt", field: "age", operator: "$lt", value: 65 },
+ * //   { pointer: "/$or/0/name", field: "name", operator: "$eq", value: "Ann" },
+ * // ]
+ * ```
+ */
+export function listConditions<T>(
+  query: SafeSiftQuery<T>
+): QueryCondition<T>[] {
+  const out: QueryCondition<T>[] = [];
+  collect(query, "", out);
+  return out;
+}
@@ -0,0 +1,69 @@
+import type { QueryCondition, SafeSiftQuery } from "../types";
+import { typedQuery } from "../typed-query";
+import { parsePointer } from "../values";
+import { QUERY_GROUPS } from "./list-conditions";
+
+/** A branch of the query being rebuilt; leaves hold the condition values. */
+type Node = Map<string, Node | { leaf: unknown }>;
+
+function entries(node: Node): [string, unknown][] {
+  return [...node].map(([key, child]) => [
+    key,
+    child instanceof Map
+      ? QUERY_GROUPS.has(key)
+        ? Object.freeze(entries(child).map(([, value]) => value))
+        : materialize(child)
+      : child.leaf,
+  ]);
+}
+
+function materialize(node: Node): Record<string, unknown> {
+  return Object.freeze(Object.fromEntries(entries(node)));
+}
+
+/**
+ * Rebuilds a query from clauses listed by `listConditions`, so the list can be
+ * edited first: leaving a clause out deletes it, and the order of the list
+ * decides the order of keys and of `$and`/`$or`/`$nor` branches (array indices
+ * in pointers only tell branches apart). Groups left without clauses disappear.
+ * The objects and arrays the query is made of are frozen.
+ *
+ * @param conditions - The clauses of the query
+ * @returns The query made of the clauses
+ * @throws {Error} If two clauses share a pointer or one lies inside the other
+ *
+ * @example
+ * ```ts
+ * const conditions = listConditions<User>({ age: { $gte: 18 }, $or: [{ name: "Ann" }, { name: "Bob" }] });
+ * queryFromConditions(conditions.filter((c) => c.value !== "Ann"));
+ * // => { age: { $gte: 18 }, $or: [{ name: "Bob" }] }
+ * ```
+ */
+export function queryFromConditions<T>(
+  conditions: ReadonlyArray<QueryCondition<T>>
+): SafeSiftQuery<T> {
+  const root: Node = new Map();
+
+  for (const { pointer, value } of conditions) {
+    const tokens = parsePointer(pointer);
+    const last = tokens.pop();
+    if (last === undefined) {
+      throw new Error("A condition cannot be the whole query");
+    }
+    let node = root;
+    for (const token of tokens) {
+      const child = node.get(token) ?? new Map();
+      if (!(child instanceof Map)) {
+        throw new Error(`Conditions overlap at ${pointer}`);
+      }
+      node.set(token, child);
+      node = child;
+    }
+    if (node.has(last)) {
+      throw new Error(`Conditions overlap at ${pointer}`);
+    }
+    node.set(last, { leaf: value });
+  }
+
+  return typedQuery<T>(materialize(root));
+}
@@ -1,8 +1,17 @@
 import sift from "sift";
 import { SafeSiftQuery } from "./types";
 import type { SiftParameters } from "./safe-sift-types";
+import { siftOperations } from "./operators/operator-registry";
 
 export function createSiftFunction<T>(query: SafeSiftQuery<T>) {
   const siftParams: SiftParameters = query;
-  return sift(siftParams);
-}
\ No newline at end of file
+  return sift(siftParams, { operations: siftOperations() });
+}
+
+/** Compiles a query whose shape is only known at runtime, testing any value. */
+export function createQueryMatcher(
+  query: Record<string, unknown>
+): (obj: unknown) => boolean {
+  const siftParams: SiftParameters = query;
+  return sift(siftParams, { operations: siftOperations() });
+}
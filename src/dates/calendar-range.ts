@@ -0,0 +1,25 @@
+/**
+ * The start of the calendar day or month containing `date`, and the start of the
+ * next one, in local time or in UTC if `utc` is set.
+ */
+export function calendarRange(
+  date: Date,
+  unit: "day" | "month",
+  utc: boolean
+): [Date, Date] {
+  const start = new Date(date.getTime());
+  if (utc) {
+    start.setUTCHours(0, 0, 0, 0);
+    if (unit === "month") start.setUTCDate(1);
+  } else {
+    start.setHours(0, 0, 0, 0);
+    if (unit === "month") start.setDate(1);
+  }
+
+  const end = new Date(start.getTime());
+  if (utc && unit === "day") end.setUTCDate(start.getUTCDate() + 1);
+  else if (utc) end.setUTCMonth(start.getUTCMonth() + 1);
+  else if (unit === "day") end.setDate(start.getDate() + 1);
+  else end.setMonth(start.getMonth() + 1);
+  return [start, end];
+}
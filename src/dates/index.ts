@@ -0,0 +1,2 @@
+export { subtractDuration } from "./subtract-duration";
+export { calendarRange } from "./calendar-range";
@@ -0,0 +1,53 @@
+import type { DateDuration } from "../types";
+
+const TIME_UNITS: ReadonlyArray<[keyof DateDuration, number]> = [
+  ["hours", 3_600_000],
+  ["minutes", 60_000],
+  ["seconds", 1000],
+  ["milliseconds", 1],
+];
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * The date `duration` before `date`. Calendar units are subtracted in local time,
+ * or in UTC if `utc` is set, keeping the time of day; a day of the month that
+ * does not exist in the resulting month becomes its last day.
+ *
+ * @throws {RangeError} If an amount of the duration is not a non-negative integer
+ */
+export function subtractDuration(
+  date: Date,
+  duration: DateDuration,
+  utc: boolean
+): Date {
+  for (const [unit, amount] of Object.entries(duration)) {
+    if (
+      amount !== undefined &&
+      !(Number.isSafeInteger(amount) && amount >= 0)
+    ) {
+      throw new RangeError(`Duration ${unit} must be a non-negative integer`);
+    }
+  }
+
+  const { years = 0, months = 0, weeks = 0, days = 0 } = duration;
+  const shifted = new Date(date.getTime());
+  const [year, month, day] = utc
+    ? [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()]
+    : [date.getFullYear(), date.getMonth(), date.getDate()];
+  const monthIndex = year * 12 + month - years * 12 - months;
+  const targetYear = Math.floor(monthIndex / 12);
+  const targetMonth = monthIndex - targetYear * 12;
+  const targetDay =
+    Math.min(day, daysInMonth(targetYear, targetMonth)) - weeks * 7 - days;
+  if (utc) shifted.setUTCFullYear(targetYear, targetMonth, targetDay);
+  else shifted.setFullYear(targetYear, targetMonth, targetDay);
+
+  const time = TIME_UNITS.reduce(
+    (total, [unit, ms]) => total + (duration[unit] ?? 0) * ms,
+    0
+  );
+  return new Date(shifted.getTime() - time);
+}
@@ -0,0 +1,48 @@
+import type { QuerySchema, RuleField, SchemaNode } from "../types";
+import { typedPath } from "../typed-path";
+import { RULE_LABELS } from "./rule-operators";
+import { validOperators } from "./valid-operators";
+
+function collect<T>(node: SchemaNode, path: string, out: RuleField<T>[]): void {
+  if (typeof node === "string" || Array.isArray(node)) {
+    out.push({
+      name: typedPath<T>(path),
+      label: path,
+      type: node,
+      operators: validOperators(node).map((name) => ({
+        name,
+        label: RULE_LABELS[name] ?? name,
+      })),
+    });
+  }
+  const element: SchemaNode = Array.isArray(node) ? node[0] : node;
+  if (typeof element === "string" || Array.isArray(element)) return;
+  for (const [key, child] of Object.entries(element)) {
+    collect(child, path ? `${path}.${key}` : key, out);
+  }
+}
+
+/**
+ * Lists the fields of a schema in react-querybuilder's field format, for the
+ * field and operator pickers of a query editor. Every scalar and array field
+ * is listed by its dot-notation path, including the fields of nested objects and
+ * of objects inside arrays, with the operators `validOperators` gives for it.
+ *
+ * @param schema - Schema of the queried documents
+ * @returns The fields, in schema order
+ *
+ * @example
+ * ```ts
+ * fieldsFromSchema<User>({ name: "string", profile: { age: "number" } });
+ * // => [
+ * //   { name: "name", label: "name", type: "string", operators: [...] },
+ * //   { name: "profile.age", label: "profile.age", type: "number", operators: [...] },
+ * // ]
+ * ```
+ */
+export function fieldsFromSchema<T>(schema: QuerySchema<T>): RuleField<T>[] {
+  const fields: RuleField<T>[] = [];
+  const root: SchemaNode = schema;
+  collect(root, "", fields);
+  return fields;
+}
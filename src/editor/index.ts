@@ -0,0 +1,4 @@
+export { queryToRuleGroup } from "./query-to-rule-group";
+export { ruleGroupToQuery } from "./rule-group-to-query";
+export { validOperators } from "./valid-operators";
+export { fieldsFromSchema } from "./fields-from-schema";
@@ -0,0 +1,199 @@
+import type { Rule, RuleGroup, RuleOperator, SafeSiftQuery } from "../types";
+import { isOperatorKey } from "../getValue";
+import { typedPath } from "../typed-path";
+import { isPlainObject } from "../values";
+import {
+  FIELD_COMPARISON_RULES,
+  NEGATED_TEXT_RULES,
+  OPERATOR_RULES,
+  isRuleOperator,
+  textRule,
+} from "./rule-operators";
+
+type Node<T> = Rule<T> | RuleGroup<T>;
+
+function invert(
+  record: Readonly<Record<string, string>>
+): ReadonlyMap<string, RuleOperator> {
+  return new Map(
+    Object.entries(record).flatMap(([key, value]): [string, RuleOperator][] =>
+      isRuleOperator(key) ? [[value, key]] : []
+    )
+  );
+}
+
+const RULE_OF_OPERATOR = invert(OPERATOR_RULES);
+const RULE_OF_COMPARISON = invert(FIELD_COMPARISON_RULES);
+const NEGATED_RULE_OF_TEXT = invert(NEGATED_TEXT_RULES);
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.startsWith("$"));
+}
+
+/** True if `value` is an operator object of exactly the given operators, in order. */
+function hasOperators(
+  value: unknown,
+  ...ops: string[]
+): value is Record<string, unknown> {
+  return isOperatorObject(value) && Object.keys(value).join() === ops.join();
+}
+
+function rule<T>(
+  field: string,
+  operator: RuleOperator,
+  value: unknown
+): Rule<T> {
+  return { field: typedPath<T>(field), operator, value };
+}
+
+function operatorRule<T>(
+  field: string,
+  op: string,
+  operand: unknown,
+  ops: Record<string, unknown>
+): Node<T> {
+  if (op === "$ne" && operand === null) return rule(field, "notNull", null);
+  const named = RULE_OF_OPERATOR.get(op);
+  if (named) return rule(field, named, operand);
+
+  if (op === "$regex" && typeof operand === "string" && !("$options" in ops)) {
+    const text = textRule(operand);
+    if (text) return rule(field, text.operator, text.value);
+  }
+  if (op === "$not" && hasOperators(operand, "$gte", "$lte")) {
+    return rule(field, "notBetween", [operand.$gte, operand.$lte]);
+  }
+  if (
+    op === "$not" &&
+    hasOperators(operand, "$regex") &&
+    typeof operand.$regex === "string"
+  ) {
+    const text = textRule(operand.$regex);
+    const negated = text && NEGATED_RULE_OF_TEXT.get(text.operator);
+    if (text && negated) return rule(field, negated, text.value);
+  }
+  if (isOperatorKey(op)) return rule(field, op, operand);
+  throw new TypeError(`Cannot represent ${op} as a rule`);
+}
+
+function fieldRules<T>(field: string, value: unknown): Node<T>[] {
+  if (value === null) return [rule(field, "null", null)];
+  if (!isOperatorObject(value)) return [rule(field, "=", value)];
+  if (hasOperators(value, "$gte", "$lte")) {
+    return [rule(field, "between", [value.$gte, value.$lte])];
+  }
+  return Object.entries(value).map(([op, operand]) =>
+    operatorRule<T>(field, op, operand, value)
+  );
+}
+
+/** The rule for a `$expr` comparing two fields, as written for field-comparison rules. */
+function comparisonRule<T>(expr: unknown): Node<T> {
+  const [entry] = isOperatorObject(expr) ? Object.entries(expr) : [];
+  const operator = entry && RULE_OF_COMPARISON.get(entry[0]);
+  const args: unknown = entry?.[1];
+  if (
+    operator &&
+    Object.keys(expr ?? {}).length === 1 &&
+    Array.isArray(args) &&
+    args.length === 2
+  ) {
+    const [left, right]: unknown[] = args;
+    if (
+      typeof left === "string" &&
+      typeof right === "string" &&
+      left.startsWith("$") &&
+      right.startsWith("$")
+    ) {
+      return {
+        ...rule<T>(left.slice(1), operator, right.slice(1)),
+        valueSource: "field",
+      };
+    }
+  }
+  throw new TypeError(
+    "Only $expr comparisons of two fields can be represented as rules"
+  );
+}
+
+function groupOf<T>(query: unknown): RuleGroup<T> {
+  if (!isPlainObject(query)) {
+    throw new TypeError("A query must be an object");
+  }
+
+  const rules: Node<T>[] = [];
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      if (!Array.isArray(value)) {
+        throw new TypeError(`${key} expects an array of queries`);
+      }
+      const group: RuleGroup<T> = {
+        combinator: key === "$and" ? "and" : "or",
+        rules: value.map((item) => nodeOf<T>(item)),
+      };
+      rules.push(key === "$nor" ? { ...group, not: true } : group);
+    } else if (key === "$not") {
+      rules.push({ ...groupOf<T>(value), not: true });
+    } else if (key === "$expr") {
+      rules.push(comparisonRule<T>(value));
+    } else if (key.startsWith("$")) {
+      throw new TypeError(`Cannot represent ${key} as a rule`);
+    } else {
+      rules.push(...fieldRules<T>(key, value));
+    }
+  }
+  return { combinator: "and", rules };
+}
+
+/**
+ * The node for a query: its only rule or group when that converts back to the
+ * same query on its own, otherwise an `and` group of its clauses.
+ */
+function nodeOf<T>(query: unknown): Node<T> {
+  const group = groupOf<T>(query);
+  const [only] = group.rules;
+  if (
+    group.rules.length === 1 &&
+    only &&
+    (!("rules" in only) || only.combinator === "or" || only.not)
+  ) {
+    return only;
+  }
+  return group;
+}
+
+/**
+ * Converts a query into a query-editor tree in react-querybuilder's format.
+ * Each clause becomes a rule, `$and`/`$or` become groups, and `$nor` and `$not`
+ * become negated groups. Operators are named as react-querybuilder names them
+ * where the query matches its conventions (`{ age: { $gte: 1, $lte: 5 } }` is
+ * `between`, an escaped `$regex` is `contains`, ...) and as in the query
+ * otherwise. `ruleGroupToQuery` converts the tree back into the same query.
+ *
+ * @param query - The query to convert
+ * @returns The root group of the tree
+ * @throws {TypeError} If the query is malformed, or uses `$expr` for anything but comparing two fields
+ *
+ * @example
+ * ```ts
+ * queryToRuleGroup<User>({ age: { $gte: 18 }, $or: [{ role: "admin" }, { name: /^a/ }] });
+ * // => {
+ * //   combinator: "and",
+ * //   rules: [
+ * //     { field: "age", operator: ">=", value: 18 },
+ * //     { combinator: "or", rules: [
+ * //       { field: "role", operator: "=", value: "admin" },
+ * //       { field: "name", operator: "=", value: /^a/ },
+ * //     ] },
+ * //   ],
+ * // }
+ * ```
+ */
+export function queryToRuleGroup<T>(query: SafeSiftQuery<T>): RuleGroup<T> {
+  const node = nodeOf<T>(query);
+  return "rules" in node ? node : { combinator: "and", rules: [node] };
+}
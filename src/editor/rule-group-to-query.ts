@@ -0,0 +1,172 @@
+import type { Rule, RuleGroup, SafeSiftQuery } from "../types";
+import { typedQuery } from "../typed-query";
+import { isPlainObject } from "../values";
+import {
+  FIELD_COMPARISON_RULES,
+  NEGATED_TEXT_RULES,
+  OPERATOR_RULES,
+  TEXT_RULES,
+  escapePattern,
+} from "./rule-operators";
+
+type Query = Record<string, unknown>;
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.startsWith("$"));
+}
+
+/** The values of an `in`-like rule: an array, or a comma-separated string. */
+function listOf(operator: string, value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") {
+    return value === "" ? [] : value.split(",").map((item) => item.trim());
+  }
+  throw new TypeError(
+    `${operator} expects an array or a comma-separated list of values`
+  );
+}
+
+function rangeOf(operator: string, value: unknown): Query {
+  const bounds = listOf(operator, value);
+  if (bounds.length !== 2) {
+    throw new TypeError(`${operator} expects two values`);
+  }
+  return { $gte: bounds[0], $lte: bounds[1] };
+}
+
+function textPattern(operator: string, value: unknown): string | undefined {
+  const anchors = TEXT_RULES[operator];
+  if (!anchors) return undefined;
+  return `${anchors[0]}${escapePattern(String(value))}${anchors[1]}`;
+}
+
+/** The condition a rule places on its field. */
+function fieldCondition(operator: string, value: unknown): unknown {
+  switch (operator) {
+    case "=":
+      return value;
+    case "null":
+      return null;
+    case "notNull":
+      return { $ne: null };
+    case "between":
+      return rangeOf(operator, value);
+    case "notBetween":
+      return { $not: rangeOf(operator, value) };
+    case "in":
+      return { $in: listOf(operator, value) };
+    case "notIn":
+      return { $nin: listOf(operator, value) };
+  }
+
+  const op = OPERATOR_RULES[operator];
+  if (op) return { [op]: value };
+  const pattern = textPattern(operator, value);
+  if (pattern !== undefined) return { $regex: pattern };
+  const negated = NEGATED_TEXT_RULES[operator];
+  if (negated) return { $not: { $regex: textPattern(negated, value) } };
+  if (operator.startsWith("$")) return { [operator]: value };
+  throw new TypeError(`Unknown rule operator ${operator}`);
+}
+
+/** The key and value a rule adds to a query. */
+function ruleClause<T>(rule: Rule<T>): [string, unknown] {
+  const { field, operator, value } = rule;
+  if (rule.valueSource !== "field") {
+    return [field, fieldCondition(operator, value)];
+  }
+
+  const op = FIELD_COMPARISON_RULES[operator];
+  if (!op || typeof value !== "string") {
+    throw new TypeError(
+      `Cannot compare ${field} with a field using ${operator}`
+    );
+  }
+  return ["$expr", { [op]: [`$${field}`, `$${value}`] }];
+}
+
+/**
+ * The query matching all of `nodes`. Rules on the same field are merged into one
+ * operator object; clauses that cannot share a key go into `$and`.
+ */
+function conjunction<T>(nodes: Array<Rule<T> | RuleGroup<T>>): Query {
+  const query: Query = {};
+  const and: unknown[] = [];
+  const push = (...branches: unknown[]): void => {
+    if (branches.length === 0) return;
+    query.$and ??= and;
+    and.push(...branches);
+  };
+  const add = (key: string, clause: unknown): void => {
+    const existing = query[key];
+    if (!(key in query)) {
+      query[key] = clause;
+    } else if (
+      isOperatorObject(existing) &&
+      isOperatorObject(clause) &&
+      Object.keys(clause).every((op) => !(op in existing))
+    ) {
+      query[key] = { ...existing, ...clause };
+    } else {
+      push({ [key]: clause });
+    }
+  };
+
+  for (const node of nodes) {
+    if (!("rules" in node)) {
+      add(...ruleClause(node));
+    } else if (node.combinator === "and" && !node.not) {
+      push(...node.rules.map(branchOf));
+    } else {
+      for (const [key, clause] of Object.entries(groupQuery(node))) {
+        add(key, clause);
+      }
+    }
+  }
+  return query;
+}
+
+function branchOf<T>(node: Rule<T> | RuleGroup<T>): Query {
+  return "rules" in node ? groupQuery(node) : conjunction([node]);
+}
+
+function groupQuery<T>(group: RuleGroup<T>): Query {
+  if (group.combinator === "or") {
+    if (group.rules.length === 0) return {};
+    return { [group.not ? "$nor" : "$or"]: group.rules.map(branchOf) };
+  }
+  const query = conjunction(group.rules);
+  return group.not ? { $not: query } : query;
+}
+
+/**
+ * Converts a query-editor tree in react-querybuilder's format into a query. Rules
+ * on the same field are merged (`age > 1` and `age < 5` become
+ * `{ age: { $gt: 1, $lt: 5 } }`), `or` groups become `$or`, and negated groups
+ * become `$nor` or `$not`. Rules with `valueSource: "field"` become `$expr`
+ * comparisons. `in`, `notIn`, `between` and `notBetween` accept an array or a
+ * comma-separated string, whose items are kept as strings. Empty groups match
+ * everything. Trees produced by `queryToRuleGroup` convert back into the query
+ * they were made from.
+ *
+ * @param group - The root group of the tree
+ * @returns The query the tree stands for
+ * @throws {TypeError} If a rule uses an unknown operator or a malformed value
+ *
+ * @example
+ * ```ts
+ * ruleGroupToQuery<User>({
+ *   combinator: "and",
+ *   rules: [
+ *     { field: "name", operator: "beginsWith", value: "A" },
+ *     { field: "age", operator: "between", value: [18, 65] },
+ *   ],
+ * });
+ * // => { name: { $regex: "^A" }, age: { $gte: 18, $lte: 65 } }
+ * ```
+ */
+export function ruleGroupToQuery<T>(group: RuleGroup<T>): SafeSiftQuery<T> {
+  return typedQuery<T>(groupQuery(group));
+}
@@ -0,0 +1,103 @@
+import type { RuleOperator } from "../types";
+import { isOperatorKey } from "../getValue";
+
+/** Rule operators that stand for a single query operator. */
+export const OPERATOR_RULES: Readonly<Record<string, string>> = {
+  "!=": "$ne",
+  "<": "$lt",
+  "<=": "$lte",
+  ">": "$gt",
+  ">=": "$gte",
+  in: "$in",
+  notIn: "$nin",
+};
+
+/** Rule operators that compare two fields, with the `$expr` operator they use. */
+export const FIELD_COMPARISON_RULES: Readonly<Record<string, string>> = {
+  "=": "$eq",
+  "!=": "$ne",
+  "<": "$lt",
+  "<=": "$lte",
+  ">": "$gt",
+  ">=": "$gte",
+};
+
+/** Text-matching rule operators, with the anchors of the pattern they stand for. */
+export const TEXT_RULES: Readonly<Record<string, readonly [string, string]>> = {
+  contains: ["", ""],
+  beginsWith: ["^", ""],
+  endsWith: ["", "$"],
+};
+
+/** Negated text-matching rule operators, with the rule operator they negate. */
+export const NEGATED_TEXT_RULES: Readonly<Record<string, string>> = {
+  doesNotContain: "contains",
+  doesNotBeginWith: "beginsWith",
+  doesNotEndWith: "endsWith",
+};
+
+/** Labels react-querybuilder uses for its operators; other operators are labelled by name. */
+export const RULE_LABELS: Readonly<Partial<Record<RuleOperator, string>>> = {
+  beginsWith: "begins with",
+  endsWith: "ends with",
+  doesNotContain: "does not contain",
+  doesNotBeginWith: "does not begin with",
+  doesNotEndWith: "does not end with",
+  null: "is null",
+  notNull: "is not null",
+  notIn: "not in",
+  notBetween: "not between",
+};
+
+/** Rule operators react-querybuilder names; the others are query operators. */
+const NAMED_RULES: ReadonlySet<string> = new Set<RuleOperator>([
+  "=",
+  "!=",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "contains",
+  "beginsWith",
+  "endsWith",
+  "doesNotContain",
+  "doesNotBeginWith",
+  "doesNotEndWith",
+  "null",
+  "notNull",
+  "in",
+  "notIn",
+  "between",
+  "notBetween",
+]);
+
+/** True if `name` is a react-querybuilder operator name or a query operator. */
+export function isRuleOperator(name: string): name is RuleOperator {
+  return NAMED_RULES.has(name) || isOperatorKey(name);
+}
+
+const SPECIAL = /[.*+?^${}()|[\]\\]/g;
+const LITERAL = /^(?:[^.*+?^${}()|[\]\\]|\\[.*+?^${}()|[\]\\])*$/;
+
+/** Escapes text for use in a regular expression that matches it literally. */
+export function escapePattern(text: string): string {
+  return text.replace(SPECIAL, "\\$&");
+}
+
+/**
+ * The text-matching rule a `$regex` pattern stands for, if it is an escaped
+ * literal with at most a `^` or `$` anchor, as written by `escapePattern`.
+ */
+export function textRule(
+  pattern: string
+): { operator: RuleOperator; value: string } | undefined {
+  for (const [operator, [start, end]] of Object.entries(TEXT_RULES)) {
+    if (!isRuleOperator(operator)) continue;
+    if (!pattern.startsWith(start) || !pattern.endsWith(end)) continue;
+    const body = pattern.slice(start.length, pattern.length - end.length);
+    if (LITERAL.test(body)) {
+      return { operator, value: body.replace(/\\(.)/g, "$1") };
+    }
+  }
+  return undefined;
+}
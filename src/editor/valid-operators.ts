@@ -0,0 +1,83 @@
+import type { RuleOperator, SchemaNode } from "../types";
+import { getCustomOperator, listCustomOperators } from "../operators";
+import { isOperatorKey } from "../getValue";
+import { operatorAppliesTo } from "../validate";
+
+const EQUALITY: readonly RuleOperator[] = [
+  "=",
+  "!=",
+  "null",
+  "notNull",
+  "in",
+  "notIn",
+  "$exists",
+  "$type",
+];
+const ORDERED: readonly RuleOperator[] = [
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "between",
+  "notBetween",
+];
+const TEXT: readonly RuleOperator[] = [
+  "contains",
+  "beginsWith",
+  "endsWith",
+  "doesNotContain",
+  "doesNotBeginWith",
+  "doesNotEndWith",
+  "$regex",
+];
+const NUMERIC: readonly RuleOperator[] = [
+  "$mod",
+  "$bitsAllSet",
+  "$bitsAnySet",
+  "$bitsAllClear",
+  "$bitsAnyClear",
+];
+const ARRAY: readonly RuleOperator[] = ["$size", "$all", "$elemMatch"];
+
+function builtInOperators(node: SchemaNode): readonly RuleOperator[] {
+  if (Array.isArray(node)) return [...EQUALITY, ...ARRAY];
+  switch (node) {
+    case "any":
+      return [...EQUALITY, ...ORDERED, ...TEXT, ...NUMERIC, ...ARRAY];
+    case "string":
+      return [...EQUALITY, ...ORDERED, ...TEXT];
+    case "number":
+      return [...EQUALITY, ...ORDERED, ...NUMERIC];
+    case "date":
+      return [...EQUALITY, ...ORDERED];
+    default:
+      return EQUALITY;
+  }
+}
+
+/**
+ * Lists the rule operators `validateQuery` accepts on a field described by
+ * `node`, in the order a query editor would offer them: equality, then
+ * ordering, then text or numeric operators, then array operators, then custom
+ * operators registered with `defineOperators` that apply to the field.
+ *
+ * @param node - Schema descriptor of the field
+ * @returns The operators to offer for the field
+ *
+ * @example
+ * ```ts
+ * validOperators("date");
+ * // => ["=", "!=", "null", "notNull", "in", "notIn", "$exists", "$type",
+ * //     "<", "<=", ">", ">=", "between", "notBetween"]
+ * validOperators(["string"]).includes("$size"); // => true
+ * ```
+ */
+export function validOperators(node: SchemaNode): RuleOperator[] {
+  const custom = listCustomOperators()
+    .filter(isOperatorKey)
+    .filter((name) => {
+      const definition = getCustomOperator(name);
+      return definition && operatorAppliesTo(definition.appliesTo, node);
+    });
+  return [...builtInOperators(node), ...custom];
+}
@@ -0,0 +1 @@
+export { toElasticsearch } from "./to-elasticsearch";
@@ -0,0 +1,350 @@
+import type {
+  ElasticsearchQuery,
+  Predicate,
+  SafeSiftQuery,
+  ToElasticsearchOptions,
+} from "../types";
+import {
+  foldRegexOptions,
+  normalizeEquality,
+  normalizeQuery,
+} from "../getValue";
+import { isPlainObject } from "../values";
+
+type FieldMap = Record<string, string | undefined>;
+
+/** The clauses of a `bool` query under construction. */
+type Bool = {
+  must: ElasticsearchQuery[];
+  should: ElasticsearchQuery[];
+  mustNot: ElasticsearchQuery[];
+};
+
+const RANGES = { $gt: "gt", $gte: "gte", $lt: "lt", $lte: "lte" } as const;
+
+const LOGICAL = new Set(["$and", "$or", "$nor", "$not"]);
+
+function emptyBool(): Bool {
+  return { must: [], should: [], mustNot: [] };
+}
+
+function boolClauses({ must, should, mustNot }: Bool) {
+  return {
+    ...(must.length ? { must } : {}),
+    ...(should.length ? { should, minimum_should_match: 1 } : {}),
+    ...(mustNot.length ? { must_not: mustNot } : {}),
+  };
+}
+
+/** Render a bool, unwrapping one holding a single `must` clause. */
+function toQuery(bool: Bool): ElasticsearchQuery {
+  const { must, should, mustNot } = bool;
+  if (!should.length && !mustNot.length) {
+    if (!must.length) return { match_all: {} };
+    if (must.length === 1) return must[0]!;
+  }
+  return { bool: boolClauses(bool) };
+}
+
+/** Add the conditions of `source` to `target`, which both must satisfy. */
+function merge(target: Bool, source: Bool): void {
+  target.must.push(...source.must);
+  target.mustNot.push(...source.mustNot);
+  if (!source.should.length) return;
+  if (target.should.length) {
+    target.must.push({
+      bool: { should: source.should, minimum_should_match: 1 },
+    });
+  } else {
+    target.should.push(...source.should);
+  }
+}
+
+/** Resolve a field path to its index field name using the longest mapped prefix. */
+function indexField(path: string, fieldMap: FieldMap): string {
+  const segments = path.split(".");
+  for (let i = segments.length; i > 0; i--) {
+    const mapped = fieldMap[segments.slice(0, i).join(".")];
+    if (mapped !== undefined) return [mapped, ...segments.slice(i)].join(".");
+  }
+  return path;
+}
+
+function termValue(path: string, op: string, value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (
+    value === undefined ||
+    value instanceof RegExp ||
+    Array.isArray(value) ||
+    isPlainObject(value)
+  ) {
+    throw new Error(
+      `Cannot translate ${op} on "${path}" to Elasticsearch: only scalar values can be compared`
+    );
+  }
+  return value;
+}
+
+/** Split a regex source at its top-level `|`, outside groups and character classes. */
+function alternatives(source: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inClass = false;
+  let start = 0;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === "\\") i++;
+    else if (inClass) inClass = ch !== "]";
+    else if (ch === "[") inClass = true;
+    else if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    else if (ch === "|" && depth === 0) {
+      parts.push(source.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(source.slice(start));
+  return parts;
+}
+
+/**
+ * Lucene regular expressions always match the whole value, so each alternative
+ * loses its `^` / `$` anchors or, without them, is padded with `.*`.
+ */
+function regexp(
+  path: string,
+  field: string,
+  value: unknown
+): ElasticsearchQuery {
+  const source = value instanceof RegExp ? value.source : String(value);
+  const flags = value instanceof RegExp ? value.flags : "";
+  if (flags.replace("i", "")) {
+    throw new Error(
+      `Cannot translate regex flags "${flags}" on "${path}" to Elasticsearch`
+    );
+  }
+
+  const pattern = alternatives(source)
+    .map((alternative) => {
+      const start = alternative.startsWith("^");
+      const end = /(^|[^\\])(\\\\)*\$$/.test(alternative);
+      const body = alternative.slice(start ? 1 : 0, end ? -1 : undefined);
+      return `${start ? "" : ".*"}${body}${end ? "" : ".*"}`;
+    })
+    .join("|");
+
+  return {
+    regexp: {
+      [field]: flags
+        ? { value: pattern, case_insensitive: true }
+        : { value: pattern },
+    },
+  };
+}
+
+function translatePredicates(
+  preds: Predicate[],
+  bool: Bool,
+  fieldMap: FieldMap
+): void {
+  const ranges = new Map<string, Record<string, unknown>>();
+
+  for (const { path, op, value } of foldRegexOptions(preds)) {
+    const field = indexField(path, fieldMap);
+    const exists: ElasticsearchQuery = { exists: { field } };
+
+    switch (op) {
+      case "$eq":
+        if (value === null) {
+          bool.mustNot.push(exists);
+        } else if (value instanceof RegExp) {
+          bool.must.push(regexp(path, field, value));
+        } else {
+          bool.must.push({ term: { [field]: termValue(path, op, value) } });
+        }
+        break;
+
+      case "$ne":
+        if (value === null) {
+          bool.must.push(exists);
+        } else {
+          bool.mustNot.push({ term: { [field]: termValue(path, op, value) } });
+        }
+        break;
+
+      case "$gt":
+      case "$gte":
+      case "$lt":
+      case "$lte": {
+        const range = ranges.get(field) ?? {};
+        if (!ranges.has(field)) {
+          ranges.set(field, range);
+          bool.must.push({ range: { [field]: range } });
+        }
+        range[RANGES[op]] = termValue(path, op, value);
+        break;
+      }
+
+      case "$in":
+      case "$nin": {
+        if (!Array.isArray(value)) {
+          throw new TypeError(`${op} on "${path}" expects an array`);
+        }
+        const values = value
+          .filter((v) => v !== null)
+          .map((v) => termValue(path, op, v));
+        const hasNull = values.length < value.length;
+        const terms: ElasticsearchQuery = { terms: { [field]: values } };
+
+        if (op === "$nin") {
+          if (values.length) bool.mustNot.push(terms);
+          if (hasNull) bool.must.push(exists);
+        } else if (values.length && hasNull) {
+          bool.must.push({
+            bool: {
+              should: [terms, { bool: { must_not: [exists] } }],
+              minimum_should_match: 1,
+            },
+          });
+        } else if (values.length) {
+          bool.must.push(terms);
+        } else if (hasNull) {
+          bool.mustNot.push(exists);
+        } else {
+          bool.must.push({ match_none: {} });
+        }
+        break;
+      }
+
+      case "$all":
+        if (!Array.isArray(value)) {
+          throw new TypeError(`$all on "${path}" expects an array`);
+        }
+        if (!value.length) bool.must.push({ match_none: {} });
+        for (const v of value) {
+          bool.must.push({ term: { [field]: termValue(path, op, v) } });
+        }
+        break;
+
+      case "$exists":
+        (value ? bool.must : bool.mustNot).push(exists);
+        break;
+
+      case "$regex":
+        bool.must.push(regexp(path, field, value));
+        break;
+
+      case "$elemMatch":
+        if (
+          !isPlainObject(value) ||
+          Object.keys(value).some((k) => k.startsWith("$") && !LOGICAL.has(k))
+        ) {
+          throw new Error(
+            `Cannot translate $elemMatch on "${path}" to Elasticsearch: only documents can be matched as nested objects`
+          );
+        }
+        bool.must.push({
+          nested: {
+            path: field,
+            query: toQuery(translateQuery(value, path, fieldMap)),
+          },
+        });
+        break;
+
+      case "$not":
+        if (value instanceof RegExp) {
+          bool.mustNot.push(regexp(path, field, value));
+        } else {
+          const negated = emptyBool();
+          translatePredicates(
+            normalizeEquality(path, value),
+            negated,
+            fieldMap
+          );
+          bool.mustNot.push(toQuery(negated));
+        }
+        break;
+
+      default:
+        throw new Error(`Cannot translate ${op} on "${path}" to Elasticsearch`);
+    }
+  }
+}
+
+function translateQuery(
+  query: unknown,
+  basePath: string,
+  fieldMap: FieldMap
+): Bool {
+  if (!isPlainObject(query)) {
+    throw new TypeError("A query must be an object");
+  }
+
+  const bool = emptyBool();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      if (!Array.isArray(value) || !value.length) {
+        throw new TypeError(`${key} expects a non-empty array of queries`);
+      }
+      const branches = value.map((sub) =>
+        translateQuery(sub, basePath, fieldMap)
+      );
+      if (key === "$and") {
+        for (const branch of branches) merge(bool, branch);
+      } else if (key === "$nor") {
+        bool.mustNot.push(...branches.map(toQuery));
+      } else {
+        merge(bool, { must: [], should: branches.map(toQuery), mustNot: [] });
+      }
+    } else if (key === "$not") {
+      bool.mustNot.push(toQuery(translateQuery(value, basePath, fieldMap)));
+    } else if (key.startsWith("$")) {
+      throw new Error(`Cannot translate ${key} to Elasticsearch`);
+    } else {
+      translatePredicates(
+        normalizeQuery({ [key]: value }, basePath).and,
+        bool,
+        fieldMap
+      );
+    }
+  }
+  return bool;
+}
+
+/**
+ * Translates a query into an Elasticsearch / OpenSearch `bool` query. Field
+ * conditions become `must` / `must_not` clauses built from `term`, `terms`,
+ * `range`, `exists` and `regexp` queries; `$or` becomes `should`, `$nor` and
+ * `$not` become `must_not`, and `$elemMatch` on documents becomes a `nested`
+ * query, which requires the array to be mapped as `nested`.
+ *
+ * Equality on a document matches its fields one by one, since the index flattens
+ * documents. Regular expressions are anchored at both ends as Lucene requires
+ * (unanchored patterns are padded with `.*`) and only support the `i` flag.
+ *
+ * @throws {Error} For operators and values without an Elasticsearch translation, such as `$size`, `$where` or array equality
+ *
+ * @example
+ * ```ts
+ * toElasticsearch<User>(
+ *   { age: { $gte: 18 }, role: { $ne: "guest" }, $or: [{ tags: "admin" }, { verified: true }] },
+ *   { fieldMap: { role: "role.keyword" } }
+ * );
+ * // => { bool: {
+ * //   must: [{ range: { age: { gte: 18 } } }],
+ * //   should: [{ term: { tags: "admin" } }, { term: { verified: true } }],
+ * //   minimum_should_match: 1,
+ * //   must_not: [{ term: { "role.keyword": "guest" } }],
+ * // } }
+ * ```
+ */
+export function toElasticsearch<T>(
+  query: SafeSiftQuery<T>,
+  options: ToElasticsearchOptions<T> = {}
+): ElasticsearchQuery {
+  const bool = translateQuery(query, "", options.fieldMap ?? {});
+  const clauses = boolClauses(bool);
+  return Object.keys(clauses).length ? { bool: clauses } : { match_all: {} };
+}
@@ -0,0 +1,141 @@
+import type {
+  ExplainGroup,
+  ExplainNode,
+  ExplainPredicate,
+  Predicate,
+  SafeSiftQuery,
+} from "../types";
+import { createQueryMatcher } from "../create-sift-function";
+import {
+  foldRegexOptions,
+  isOperatorKey,
+  normalizeEquality,
+} from "../getValue";
+import { getPathValues, isPlainObject } from "../values";
+
+function matches(query: Record<string, unknown>, obj: unknown): boolean {
+  return createQueryMatcher(query)(obj);
+}
+
+/** Wrap field operators in a query; an empty path queries the value itself. */
+function fieldQuery(
+  path: string,
+  ops: Record<string, unknown>
+): Record<string, unknown> {
+  return path ? { [path]: ops } : ops;
+}
+
+function actualAt(obj: unknown, path: string): unknown {
+  if (!path) return obj;
+  const values = getPathValues(obj, path);
+  return values.length > 1 ? values : values[0];
+}
+
+function group(
+  op: ExplainGroup["op"],
+  children: ExplainNode[],
+  pass: boolean,
+  path?: string
+): ExplainGroup {
+  return path === undefined
+    ? { kind: "group", op, pass, children }
+    : { kind: "group", op, path, pass, children };
+}
+
+function explainPredicate(obj: unknown, pred: Predicate): ExplainNode {
+  const { path, op, value } = pred;
+
+  if (op === "$not") {
+    const inner = explainField(obj, path, value);
+    return group(
+      "$not",
+      inner,
+      matches(fieldQuery(path, { $not: value }), obj),
+      path
+    );
+  }
+
+  const node: ExplainPredicate = {
+    kind: "predicate",
+    path,
+    op,
+    value,
+    actual: actualAt(obj, path),
+    pass: matches(fieldQuery(path, { [op]: value }), obj),
+  };
+
+  if (op === "$elemMatch") {
+    const arrays = path ? getPathValues(obj, path) : [obj];
+    node.elements = arrays
+      .filter(Array.isArray)
+      .flat()
+      .map((element) => explainObject(value, element));
+  }
+
+  return node;
+}
+
+function explainField(obj: unknown, path: string, v: unknown): ExplainNode[] {
+  return foldRegexOptions(normalizeEquality(path, v)).map((pred) =>
+    explainPredicate(obj, pred)
+  );
+}
+
+function explainObject(query: unknown, obj: unknown): ExplainGroup {
+  const children: ExplainNode[] = [];
+
+  for (const [key, val] of Object.entries(isPlainObject(query) ? query : {})) {
+    if (val === undefined) continue;
+
+    if (
+      (key === "$and" || key === "$or" || key === "$nor") &&
+      Array.isArray(val)
+    ) {
+      const branches = val.map((sub) => explainObject(sub, obj));
+      const pass =
+        key === "$and"
+          ? branches.every((b) => b.pass)
+          : key === "$or"
+          ? branches.some((b) => b.pass)
+          : !branches.some((b) => b.pass);
+      children.push(group(key, branches, pass));
+    } else if (key === "$not") {
+      const inner = explainObject(val, obj);
+      children.push(group("$not", [inner], !inner.pass));
+    } else if (isOperatorKey(key)) {
+      children.push(...explainField(obj, "", { [key]: val }));
+    } else {
+      children.push(...explainField(obj, key, val));
+    }
+  }
+
+  return group(
+    "$and",
+    children,
+    children.every((c) => c.pass)
+  );
+}
+
+/**
+ * Explains how an object is evaluated against a query. Returns a tree that
+ * mirrors the query: each query object becomes an `$and` group, `$or`, `$nor`
+ * and `$not` become groups over their branches, and every field condition
+ * becomes a predicate carrying its path, operator, expected value, the actual
+ * value found and whether it passed. `$elemMatch` predicates explain their
+ * sub-query against every array element.
+ *
+ * The `pass` of the root equals the result of `SafeSift.test(obj)`.
+ *
+ * @example
+ * ```ts
+ * const node = explainQuery<User>(
+ *   { age: { $gte: 18 }, $or: [{ role: "admin" }, { verified: true }] },
+ *   { age: 30, role: "user", verified: false }
+ * );
+ * // node.pass === false
+ * // node.children[1] => { kind: "group", op: "$or", pass: false, children: [...] }
+ * ```
+ */
+export function explainQuery<T>(query: SafeSiftQuery<T>, obj: T): ExplainGroup {
+  return explainObject(query, obj);
+}
@@ -0,0 +1,58 @@
+import type { ExplainNode } from "../types";
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof RegExp) return value.toString();
+  return (
+    JSON.stringify(value, (_key, v: unknown) =>
+      v instanceof RegExp ? v.toString() : v
+    ) ?? String(value)
+  );
+}
+
+function formatNode(node: ExplainNode, depth: number, lines: string[]): void {
+  const indent = "  ".repeat(depth);
+  const mark = node.pass ? "PASS" : "FAIL";
+
+  if (node.kind === "group") {
+    const path = node.path === undefined ? "" : `${node.path} `;
+    lines.push(`${indent}${mark} ${path}${node.op}`);
+    for (const child of node.children) formatNode(child, depth + 1, lines);
+    return;
+  }
+
+  const path = node.path || "(value)";
+  const expected =
+    node.op === "$elemMatch" ? "" : ` ${formatValue(node.value)}`;
+  lines.push(
+    `${indent}${mark} ${path} ${node.op}${expected} (actual: ${formatValue(
+      node.actual
+    )})`
+  );
+  node.elements?.forEach((element, i) => {
+    lines.push(`${indent}  [${i}]`);
+    formatNode(element, depth + 2, lines);
+  });
+}
+
+/**
+ * Formats a query explanation as indented text, one node per line, for logs.
+ *
+ * @example
+ * ```ts
+ * console.log(formatExplanation(new SafeSift<User>(query).explain(user)));
+ * // FAIL $and
+ * //   PASS age $gte 18 (actual: 30)
+ * //   FAIL $or
+ * //     FAIL $and
+ * //       FAIL role $eq "admin" (actual: "user")
+ * //     FAIL $and
+ * //       FAIL verified $eq true (actual: false)
+ * ```
+ */
+export function formatExplanation(node: ExplainNode): string {
+  const lines: string[] = [];
+  formatNode(node, 0, lines);
+  return lines.join("\n");
+}
@@ -0,0 +1,2 @@
+export { explainQuery } from "./explain-query";
+export { formatExplanation } from "./format-explanation";
@@ -0,0 +1,181 @@
+import { evaluateFieldRef } from "../aggregation/evaluate-field-ref";
+import { compareValues, isPlainObject } from "../values";
+
+type Evaluate = (doc: unknown, args: unknown) => unknown;
+
+/** Arguments of an operator taking a fixed number of them. */
+function fixed(op: string, args: unknown, count: number): unknown[] {
+  if (!Array.isArray(args) || args.length !== count) {
+    throw new TypeError(`${op} expects an array of ${count} expressions`);
+  }
+  return args;
+}
+
+function list(op: string, args: unknown): unknown[] {
+  if (!Array.isArray(args)) {
+    throw new TypeError(`${op} expects an array of expressions`);
+  }
+  return args;
+}
+
+/** Whether a value counts as true: everything but `false`, `null`, missing and zero. */
+export function isTruthy(value: unknown): boolean {
+  return (
+    value !== false &&
+    value !== null &&
+    value !== undefined &&
+    value !== 0 &&
+    !Number.isNaN(value)
+  );
+}
+
+/** Compares two values in MongoDB's order, with missing values below `null`. */
+function compare(a: unknown, b: unknown): number {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? -1 : 1;
+  }
+  return compareValues(a, b);
+}
+
+function comparison(op: string, test: (c: number) => boolean): Evaluate {
+  return (doc, args) => {
+    const [a, b] = fixed(op, args, 2).map((arg) => evaluateExpr(doc, arg));
+    return test(compare(a, b));
+  };
+}
+
+function isNullish(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function toNumber(op: string, value: unknown): number {
+  if (typeof value === "number") return value;
+  throw new TypeError(
+    `${op} only supports numeric${op === "$multiply" ? "" : " or date"} values`
+  );
+}
+
+const OPERATORS: Readonly<Record<string, Evaluate>> = {
+  $eq: comparison("$eq", (c) => c === 0),
+  $ne: comparison("$ne", (c) => c !== 0),
+  $gt: comparison("$gt", (c) => c > 0),
+  $gte: comparison("$gte", (c) => c >= 0),
+  $lt: comparison("$lt", (c) => c < 0),
+  $lte: comparison("$lte", (c) => c <= 0),
+
+  $add(doc, args) {
+    const values = list("$add", args).map((arg) => evaluateExpr(doc, arg));
+    if (values.some(isNullish)) return null;
+    const dates = values.filter((v): v is Date => v instanceof Date);
+    if (dates.length > 1) throw new TypeError("$add only supports one date");
+    const sum = values.reduce<number>(
+      (total, v) =>
+        total + (v instanceof Date ? v.getTime() : toNumber("$add", v)),
+      0
+    );
+    return dates.length ? new Date(sum) : sum;
+  },
+
+  $subtract(doc, args) {
+    const [a, b] = fixed("$subtract", args, 2).map((arg) =>
+      evaluateExpr(doc, arg)
+    );
+    if (isNullish(a) || isNullish(b)) return null;
+    if (a instanceof Date) {
+      return b instanceof Date
+        ? a.getTime() - b.getTime()
+        : new Date(a.getTime() - toNumber("$subtract", b));
+    }
+    return toNumber("$subtract", a) - toNumber("$subtract", b);
+  },
+
+  $multiply(doc, args) {
+    const values = list("$multiply", args).map((arg) => evaluateExpr(doc, arg));
+    if (values.some(isNullish)) return null;
+    return values.reduce<number>(
+      (product, v) => product * toNumber("$multiply", v),
+      1
+    );
+  },
+
+  $concat(doc, args) {
+    const values = list("$concat", args).map((arg) => evaluateExpr(doc, arg));
+    if (values.some(isNullish)) return null;
+    if (!values.every((v): v is string => typeof v === "string")) {
+      throw new TypeError("$concat only supports strings");
+    }
+    return values.join("");
+  },
+
+  $size(doc, args) {
+    const value = evaluateExpr(
+      doc,
+      Array.isArray(args) ? fixed("$size", args, 1)[0] : args
+    );
+    if (!Array.isArray(value)) {
+      throw new TypeError("$size expects an array");
+    }
+    return value.length;
+  },
+
+  $cond(doc, args) {
+    const [condition, then, otherwise] = isPlainObject(args)
+      ? [args.if, args.then, args.else]
+      : fixed("$cond", args, 3);
+    return evaluateExpr(
+      doc,
+      isTruthy(evaluateExpr(doc, condition)) ? then : otherwise
+    );
+  },
+
+  $literal: (_doc, value) => value,
+};
+
+/** Operators an `$expr` expression may use. */
+export const EXPRESSION_OPERATORS: ReadonlySet<string> = new Set(
+  Object.keys(OPERATORS)
+);
+
+/**
+ * Evaluates an aggregation expression, as used by `$expr`, against a document.
+ * `"$path"` strings are field references, `{ $op: args }` objects apply an
+ * operator, arrays and other objects are evaluated element by element, and
+ * anything else is a constant. Arithmetic on `null` or missing values yields
+ * `null`; comparisons follow MongoDB's cross-type order, in which a missing
+ * value is lower than `null`.
+ *
+ * @throws {TypeError} For unknown operators, a wrong number of arguments or operands of the wrong type
+ *
+ * @example
+ * ```ts
+ * evaluateExpr({ spent: 120, budget: 100 }, { $gt: ["$spent", "$budget"] }); // true
+ * evaluateExpr({ price: 4, qty: 3 }, { $multiply: ["$price", "$qty"] });     // 12
+ * ```
+ */
+export function evaluateExpr(doc: unknown, expr: unknown): unknown {
+  if (typeof expr === "string" && expr.startsWith("$")) {
+    return evaluateFieldRef(doc, expr);
+  }
+  if (Array.isArray(expr)) return expr.map((item) => evaluateExpr(doc, item));
+  if (!isPlainObject(expr)) return expr;
+
+  const keys = Object.keys(expr);
+  const [op] = keys;
+  if (op?.startsWith("$")) {
+    const evaluate = OPERATORS[op];
+    if (keys.length > 1 || !evaluate) {
+      throw new TypeError(
+        keys.length > 1
+          ? `An expression object must have a single operator, received ${keys.join(
+              ", "
+            )}`
+          : `Unknown expression operator ${op}`
+      );
+    }
+    return evaluate(doc, expr[op]);
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const key of keys) out[key] = evaluateExpr(doc, expr[key]);
+  return out;
+}
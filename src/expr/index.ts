@@ -0,0 +1 @@
+export { evaluateExpr, isTruthy, EXPRESSION_OPERATORS } from "./evaluate-expr";
@@ -0,0 +1,22 @@
+/**
+ * Thrown by `parseFilter` for malformed filter strings and unknown fields.
+ * `position` is the zero-based offset in the input where the problem starts.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   parseFilter<User>("age >= ", { fields: ["age"] });
+ * } catch (error) {
+ *   if (error instanceof FilterSyntaxError) {
+ *     console.log(error.position); // 7
+ *     console.log(error.message);  // "Expected a value at position 7"
+ *   }
+ * }
+ * ```
+ */
+export class FilterSyntaxError extends Error {
+  constructor(readonly position: number, message: string) {
+    super(`${message} at position ${position}`);
+    this.name = "FilterSyntaxError";
+  }
+}
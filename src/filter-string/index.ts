@@ -0,0 +1,4 @@
+export { FilterSyntaxError } from "./filter-syntax-error";
+export { tokenize } from "./tokenize";
+export { parseFilter } from "./parse-filter";
+export { stringifyFilter } from "./stringify-filter";
@@ -0,0 +1,270 @@
+import type { ParseFilterOptions, SafeSiftQuery } from "../types";
+import { typedQuery } from "../typed-query";
+import { isPlainObject } from "../values";
+import { FilterSyntaxError } from "./filter-syntax-error";
+import { tokenize } from "./tokenize";
+import type { Token } from "./tokenize";
+
+type Query = Record<string, unknown>;
+
+const KEYWORDS = new Set([
+  "and",
+  "or",
+  "not",
+  "in",
+  "nin",
+  "exists",
+  "all",
+  "size",
+  "true",
+  "false",
+  "null",
+]);
+
+const COMPARISONS: Record<string, string> = {
+  "!=": "$ne",
+  "<>": "$ne",
+  ">": "$gt",
+  ">=": "$gte",
+  "<": "$lt",
+  "<=": "$lte",
+};
+
+// No path segment may start with `$`, so fields can never be read as operators
+const FIELD = /^[A-Za-z_][\w$]*(\.\w[\w$]*)*$/;
+
+function isKeyword(token: Token, keyword: string): boolean {
+  return token.kind === "word" && token.text.toLowerCase() === keyword;
+}
+
+function describe(token: Token): string {
+  return token.kind === "end" ? "end of input" : `"${token.text}"`;
+}
+
+function isOperatorObject(value: unknown): value is Query {
+  return (
+    isPlainObject(value) && Object.keys(value).every((k) => k.startsWith("$"))
+  );
+}
+
+/**
+ * Combine the operands of `and` into one query object when their fields do not
+ * clash, merging operator conditions on the same field; otherwise use `$and`.
+ */
+function conjoin(parts: Query[]): Query {
+  const merged: Query = {};
+  for (const part of parts) {
+    for (const [key, condition] of Object.entries(part)) {
+      const existing = merged[key];
+      if (key.startsWith("$")) return { $and: parts };
+      if (existing === undefined) {
+        merged[key] = condition;
+      } else if (
+        isOperatorObject(existing) &&
+        isOperatorObject(condition) &&
+        Object.keys(condition).every((op) => !(op in existing))
+      ) {
+        merged[key] = { ...existing, ...condition };
+      } else {
+        return { $and: parts };
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parses a filter string such as `age >= 18 and profile.active = true or tags in (admin, mod)`
+ * into a query.
+ *
+ * Grammar (keywords are case-insensitive, `and` binds tighter than `or`):
+ * - conditions: `field = value`, `!=` (or `<>`), `>`, `>=`, `<`, `<=`, `field ~ /regex/flags`,
+ *   `field in (a, b)`, `field not in (...)`, `field exists`, `field not exists`,
+ *   `field all (...)`, `field size 3`
+ * - combinators: `and`, `or`, `not`, parentheses
+ * - values: numbers, `true`, `false`, `null`, `"quoted"` or `'quoted'` strings, and bare words
+ *
+ * @param input - The filter string, e.g. a decoded URL parameter
+ * @param options - Set `fields` to restrict the field paths the filter may use
+ * @returns The parsed query
+ * @throws {FilterSyntaxError} For malformed input or unknown fields, with the offending position
+ *
+ * @example
+ * ```ts
+ * parseFilter<User>("age >= 18 and profile.active = true or tags in (admin, mod)");
+ * // => { $or: [{ age: { $gte: 18 }, "profile.active": true }, { tags: { $in: ["admin", "mod"] } }] }
+ *
+ * parseFilter<User>("email = x", { fields: ["name", "age"] });
+ * // throws FilterSyntaxError: Unknown field "email" at position 0
+ * ```
+ */
+export function parseFilter<T>(
+  input: string,
+  options: ParseFilterOptions<T> = {}
+): SafeSiftQuery<T> {
+  const tokens = tokenize(input);
+  const fields = options.fields && new Set<string>(options.fields);
+  let index = 0;
+
+  const peek = (): Token => tokens[index]!;
+  const next = (): Token => tokens[index++]!;
+
+  function expect(kind: Token["kind"], what: string): Token {
+    const token = next();
+    if (token.kind !== kind) {
+      throw new FilterSyntaxError(
+        token.position,
+        `Expected ${what} but found ${describe(token)}`
+      );
+    }
+    return token;
+  }
+
+  function parseValue(): unknown {
+    const token = next();
+    if (token.kind === "number" || token.kind === "string") return token.value;
+    if (token.kind === "word") {
+      const word = token.text.toLowerCase();
+      if (word === "true") return true;
+      if (word === "false") return false;
+      if (word === "null") return null;
+      if (!KEYWORDS.has(word)) return token.text;
+    }
+    throw new FilterSyntaxError(
+      token.position,
+      `Expected a value but found ${describe(token)}`
+    );
+  }
+
+  function parseList(): unknown[] {
+    expect("(", '"("');
+    const values: unknown[] = [];
+    if (peek().kind === ")") {
+      next();
+      return values;
+    }
+    values.push(parseValue());
+    while (peek().kind === ",") {
+      next();
+      values.push(parseValue());
+    }
+    expect(")", '"," or ")"');
+    return values;
+  }
+
+  function parseCondition(): Query {
+    const token = next();
+    if (
+      token.kind !== "word" ||
+      KEYWORDS.has(token.text.toLowerCase()) ||
+      !FIELD.test(token.text)
+    ) {
+      throw new FilterSyntaxError(
+        token.position,
+        `Expected a field name but found ${describe(token)}`
+      );
+    }
+    const field = token.text;
+    if (fields && !fields.has(field)) {
+      throw new FilterSyntaxError(token.position, `Unknown field "${field}"`);
+    }
+
+    const op = next();
+    if (op.kind === "operator") {
+      if (op.text === "~") {
+        const pattern = next();
+        if (pattern.kind !== "regex" && pattern.kind !== "string") {
+          throw new FilterSyntaxError(
+            pattern.position,
+            `Expected a regular expression but found ${describe(pattern)}`
+          );
+        }
+        return { [field]: { $regex: pattern.value } };
+      }
+      const value = parseValue();
+      const mql = COMPARISONS[op.text];
+      return { [field]: mql ? { [mql]: value } : value };
+    }
+
+    if (isKeyword(op, "in")) return { [field]: { $in: parseList() } };
+    if (isKeyword(op, "nin")) return { [field]: { $nin: parseList() } };
+    if (isKeyword(op, "all")) return { [field]: { $all: parseList() } };
+    if (isKeyword(op, "exists")) return { [field]: { $exists: true } };
+    if (isKeyword(op, "size")) {
+      const size = next();
+      if (
+        size.kind !== "number" ||
+        !Number.isInteger(size.value) ||
+        size.value < 0
+      ) {
+        throw new FilterSyntaxError(
+          size.position,
+          `Expected a non-negative integer but found ${describe(size)}`
+        );
+      }
+      return { [field]: { $size: size.value } };
+    }
+    if (isKeyword(op, "not")) {
+      const negated = next();
+      if (isKeyword(negated, "in")) return { [field]: { $nin: parseList() } };
+      if (isKeyword(negated, "exists")) return { [field]: { $exists: false } };
+      throw new FilterSyntaxError(
+        negated.position,
+        `Expected "in" or "exists" but found ${describe(negated)}`
+      );
+    }
+
+    throw new FilterSyntaxError(
+      op.position,
+      `Expected an operator after "${field}" but found ${describe(op)}`
+    );
+  }
+
+  function parseUnary(): Query {
+    const token = peek();
+    if (isKeyword(token, "not")) {
+      next();
+      return { $not: parseUnary() };
+    }
+    if (token.kind === "(") {
+      next();
+      const query = parseOr();
+      expect(")", '")"');
+      return query;
+    }
+    return parseCondition();
+  }
+
+  function parseAnd(): Query {
+    const parts = [parseUnary()];
+    while (isKeyword(peek(), "and")) {
+      next();
+      parts.push(parseUnary());
+    }
+    return parts.length === 1 ? parts[0]! : conjoin(parts);
+  }
+
+  function parseOr(): Query {
+    const branches = [parseAnd()];
+    while (isKeyword(peek(), "or")) {
+      next();
+      branches.push(parseAnd());
+    }
+    if (branches.length === 1) return branches[0]!;
+    return {
+      $or: branches.flatMap((branch) => {
+        const keys = Object.keys(branch);
+        return keys.length === 1 && Array.isArray(branch.$or)
+          ? branch.$or
+          : [branch];
+      }),
+    };
+  }
+
+  const query = peek().kind === "end" ? {} : parseOr();
+  const rest = peek();
+  if (rest.kind !== "end") {
+    throw new FilterSyntaxError(rest.position, `Unexpected ${describe(rest)}`);
+  }
+  return typedQuery<T>(query);
+}
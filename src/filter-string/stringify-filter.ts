@@ -0,0 +1,188 @@
+import type { SafeSiftQuery } from "../types";
+import { isPlainObject } from "../values";
+
+/** Filter text with the precedence of its outermost combinator. */
+type Expression = { text: string; precedence: "or" | "and" | "atom" };
+
+const COMPARISONS: Record<string, string> = {
+  $eq: "=",
+  $ne: "!=",
+  $gt: ">",
+  $gte: ">=",
+  $lt: "<",
+  $lte: "<=",
+};
+
+const KEYWORDS = new Set([
+  "and",
+  "or",
+  "not",
+  "in",
+  "nin",
+  "exists",
+  "all",
+  "size",
+  "true",
+  "false",
+  "null",
+]);
+
+const BARE_WORD = /^[A-Za-z_][\w.@:-]*$/;
+// No path segment may start with `$`, so fields can never be read as operators
+const FIELD = /^[A-Za-z_][\w$]*(\.\w[\w$]*)*$/;
+
+function stringifyValue(value: unknown): string {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new TypeError(`Cannot stringify the number ${value}`);
+    }
+    return String(value);
+  }
+  if (typeof value === "string") {
+    return BARE_WORD.test(value) && !KEYWORDS.has(value.toLowerCase())
+      ? value
+      : `"${value.replace(/[\\"]/g, "\\$&")}"`;
+  }
+  throw new TypeError(
+    `Cannot stringify ${
+      value instanceof Date ? "a Date" : typeof value
+    } value; filter strings hold numbers, strings, booleans and null`
+  );
+}
+
+function stringifyList(values: unknown): string {
+  if (!Array.isArray(values)) throw new TypeError("Expected an array");
+  return `(${values.map(stringifyValue).join(", ")})`;
+}
+
+function stringifyRegex(pattern: unknown, options: unknown): string {
+  const regex =
+    pattern instanceof RegExp
+      ? options === undefined
+        ? pattern
+        : new RegExp(pattern.source, String(options))
+      : new RegExp(
+          String(pattern),
+          options === undefined ? "" : String(options)
+        );
+  return regex.toString();
+}
+
+function atom(text: string): Expression {
+  return { text, precedence: "atom" };
+}
+
+function join(parts: Expression[], combinator: "and" | "or"): Expression {
+  if (parts.length === 1) return parts[0]!;
+  const texts = parts.map((part) =>
+    combinator === "and" && part.precedence === "or"
+      ? `(${part.text})`
+      : part.text
+  );
+  return { text: texts.join(` ${combinator} `), precedence: combinator };
+}
+
+function negate(expression: Expression): Expression {
+  return atom(
+    expression.precedence === "atom"
+      ? `not ${expression.text}`
+      : `not (${expression.text})`
+  );
+}
+
+function stringifyField(field: string, condition: unknown): Expression[] {
+  if (!FIELD.test(field)) {
+    throw new TypeError(`Cannot stringify the field name "${field}"`);
+  }
+  if (condition instanceof RegExp) {
+    return [atom(`${field} ~ ${condition.toString()}`)];
+  }
+  if (!isPlainObject(condition)) {
+    if (Array.isArray(condition)) {
+      throw new TypeError(`Cannot stringify array equality on "${field}"`);
+    }
+    return [atom(`${field} = ${stringifyValue(condition)}`)];
+  }
+  if (!Object.keys(condition).every((k) => k.startsWith("$"))) {
+    throw new TypeError(`Cannot stringify document equality on "${field}"`);
+  }
+
+  const parts: Expression[] = [];
+  for (const [op, value] of Object.entries(condition)) {
+    if (value === undefined || op === "$options") continue;
+    const comparison = COMPARISONS[op];
+
+    if (comparison) {
+      parts.push(atom(`${field} ${comparison} ${stringifyValue(value)}`));
+    } else if (op === "$in" || op === "$nin" || op === "$all") {
+      const keyword = op === "$in" ? "in" : op === "$nin" ? "not in" : "all";
+      parts.push(atom(`${field} ${keyword} ${stringifyList(value)}`));
+    } else if (op === "$exists") {
+      parts.push(atom(`${field} ${value ? "exists" : "not exists"}`));
+    } else if (op === "$size") {
+      parts.push(atom(`${field} size ${stringifyValue(value)}`));
+    } else if (op === "$regex") {
+      parts.push(
+        atom(`${field} ~ ${stringifyRegex(value, condition.$options)}`)
+      );
+    } else if (op === "$not") {
+      parts.push(negate(join(stringifyField(field, value), "and")));
+    } else {
+      throw new TypeError(`Cannot stringify ${op} on "${field}"`);
+    }
+  }
+  return parts;
+}
+
+function stringifyQuery(query: unknown): Expression {
+  if (!isPlainObject(query)) throw new TypeError("A query must be an object");
+
+  const parts: Expression[] = [];
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      if (!Array.isArray(value) || !value.length) {
+        throw new TypeError(`${key} expects a non-empty array of queries`);
+      }
+      const branches = value.map(stringifyQuery);
+      if (key === "$and") parts.push(join(branches, "and"));
+      else if (key === "$or") parts.push(join(branches, "or"));
+      else parts.push(negate(join(branches, "or")));
+    } else if (key === "$not") {
+      parts.push(negate(stringifyQuery(value)));
+    } else if (key.startsWith("$")) {
+      throw new TypeError(`Cannot stringify ${key}`);
+    } else {
+      parts.push(...stringifyField(key, value));
+    }
+  }
+
+  if (!parts.length) {
+    throw new TypeError("Cannot stringify an empty query inside a combinator");
+  }
+  return join(parts, "and");
+}
+
+/**
+ * Formats a query as a filter string that `parseFilter` reads back into an
+ * equivalent query, e.g. for putting queries built with `QueryBuilder` into URLs.
+ * An empty query becomes an empty string.
+ *
+ * @throws {TypeError} For operators and values the filter syntax cannot express,
+ * such as `$elemMatch`, Dates or document equality
+ *
+ * @example
+ * ```ts
+ * const filter = stringifyFilter(
+ *   query<User>().where("age").gte(18).or("tags").in(["admin", "mod"]).build()
+ * );
+ * // => "age >= 18 or tags in (admin, mod)"
+ * const url = `/users?filter=${encodeURIComponent(filter)}`;
+ * ```
+ */
+export function stringifyFilter<T>(query: SafeSiftQuery<T>): string {
+  return Object.keys(query).length ? stringifyQuery(query).text : "";
+}
@@ -0,0 +1,114 @@
+import { FilterSyntaxError } from "./filter-syntax-error";
+
+/** A lexical token of a filter string. */
+export type Token =
+  | { kind: "word"; text: string; position: number }
+  | { kind: "number"; text: string; value: number; position: number }
+  | { kind: "string"; text: string; value: string; position: number }
+  | { kind: "regex"; text: string; value: RegExp; position: number }
+  | { kind: "operator"; text: string; position: number }
+  | { kind: "(" | ")" | "," | "end"; text: string; position: number };
+
+const OPERATORS = [">=", "<=", "!=", "<>", "==", "=", ">", "<", "~"];
+const NUMBER = /^-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const WORD = /^[^\s(),=!<>~'"]+/;
+
+function readQuoted(input: string, start: number): Token {
+  const quote = input[start];
+  let value = "";
+  let i = start + 1;
+  while (i < input.length && input[i] !== quote) {
+    if (input[i] === "\\" && i + 1 < input.length) i += 1;
+    value += input[i];
+    i += 1;
+  }
+  if (i >= input.length) {
+    throw new FilterSyntaxError(start, "Unterminated string");
+  }
+  return {
+    kind: "string",
+    text: input.slice(start, i + 1),
+    value,
+    position: start,
+  };
+}
+
+function readRegex(input: string, start: number): Token {
+  let i = start + 1;
+  let inClass = false;
+  while (i < input.length && (inClass || input[i] !== "/")) {
+    if (input[i] === "\\") i += 1;
+    else if (input[i] === "[") inClass = true;
+    else if (input[i] === "]") inClass = false;
+    i += 1;
+  }
+  if (i >= input.length) {
+    throw new FilterSyntaxError(start, "Unterminated regular expression");
+  }
+  const flags = /^[a-z]*/.exec(input.slice(i + 1))![0];
+  const text = input.slice(start, i + 1 + flags.length);
+  try {
+    return {
+      kind: "regex",
+      text,
+      value: new RegExp(input.slice(start + 1, i), flags),
+      position: start,
+    };
+  } catch {
+    throw new FilterSyntaxError(start, `Invalid regular expression ${text}`);
+  }
+}
+
+/**
+ * Split a filter string into tokens: words (fields, keywords and bare values),
+ * numbers, quoted strings, `/regex/flags` literals, comparison operators,
+ * parentheses and commas. The last token is always `end`.
+ *
+ * @throws {FilterSyntaxError} For unterminated strings or regular expressions and stray characters
+ *
+ * @example
+ * ```ts
+ * tokenize("age >= 18").map((t) => t.text);
+ * // => ["age", ">=", "18", ""]
+ * ```
+ */
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i]!;
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+
+    const rest = input.slice(i);
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    let token: Token;
+
+    if (ch === "(" || ch === ")" || ch === ",") {
+      token = { kind: ch, text: ch, position: i };
+    } else if (ch === '"' || ch === "'") {
+      token = readQuoted(input, i);
+    } else if (ch === "/") {
+      token = readRegex(input, i);
+    } else if (operator) {
+      token = { kind: "operator", text: operator, position: i };
+    } else {
+      const word = WORD.exec(rest)?.[0];
+      if (!word) throw new FilterSyntaxError(i, `Unexpected character "${ch}"`);
+      const number = NUMBER.exec(word)?.[0];
+      token =
+        number === word
+          ? { kind: "number", text: word, value: Number(word), position: i }
+          : { kind: "word", text: word, position: i };
+    }
+
+    tokens.push(token);
+    i += token.text.length;
+  }
+
+  tokens.push({ kind: "end", text: "", position: input.length });
+  return tokens;
+}
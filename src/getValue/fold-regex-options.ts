@@ -0,0 +1,28 @@
+import type { Predicate } from "../types";
+
+/**
+ * Folds an `$options` predicate into the `$regex` predicate on the same path,
+ * whose value becomes a RegExp with those flags. `normalizeEquality` emits
+ * `$options` as a predicate of its own, although it only qualifies `$regex`.
+ *
+ * @example
+ * ```ts
+ * foldRegexOptions(normalizeEquality("name", { $regex: "^a", $options: "i" }));
+ * // => [{ path: "name", op: "$regex", value: /^a/i }]
+ * ```
+ */
+export function foldRegexOptions(preds: Predicate[]): Predicate[] {
+  // `$options` passes isOperatorKey but is not an operator of its own
+  const options = preds.find((p) => String(p.op) === "$options");
+  const regex = preds.find((p) => p.op === "$regex");
+  if (!options || !regex) return preds;
+  const source =
+    regex.value instanceof RegExp ? regex.value.source : String(regex.value);
+  return preds
+    .filter((p) => p !== options)
+    .map((p) =>
+      p === regex
+        ? { ...p, value: new RegExp(source, String(options.value)) }
+        : p
+    );
+}
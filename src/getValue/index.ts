@@ -5,3 +5,4 @@ export { bagFromPreds } from "./bag-from-preds";
 export { mergeOpsBags } from "./merge-ops-bags";
 export { getFilterOps } from "./get-filter-ops";
 export { getFilterValue } from "./get-filter-value";
+export { foldRegexOptions } from "./fold-regex-options";
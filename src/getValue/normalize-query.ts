@@ -53,6 +53,7 @@ export function normalizeQuery(q: unknown, basePath = ""): Normalized {
     }
 
     if (key === "$nor") continue; // skip NOR for positive extraction
+    if (key === "$expr") continue; // expressions do not constrain a single path
 
     const path = basePath ? `${basePath}.${key}` : key;
 
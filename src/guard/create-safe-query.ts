@@ -0,0 +1,28 @@
+import type { QueryLimits } from "../types";
+import { SafeSift } from "../safe-sift-class";
+import { guardQuery } from "./guard-query";
+
+/**
+ * Creates a SafeSift instance from an untrusted query after checking it with
+ * `guardQuery`, so that user-supplied filters cannot run code or hang the process.
+ *
+ * @param input - The untrusted query, typically parsed JSON
+ * @param limits - Overrides for the default depth, `$in` length, condition count and regex length limits
+ * @returns A SafeSift instance for the checked query
+ * @throws {QueryGuardError} If the query breaks a safety rule or limit
+ *
+ * @example
+ * ```ts
+ * const safe = createSafeQuery<User>(JSON.parse(req.query.filter), {
+ *   maxDepth: 6,
+ *   maxInLength: 50,
+ * });
+ * const results = safe.filter(users);
+ * ```
+ */
+export function createSafeQuery<T>(
+  input: unknown,
+  limits: QueryLimits = {}
+): SafeSift<T> {
+  return new SafeSift<T>(guardQuery<T>(input, limits));
+}
@@ -0,0 +1,168 @@
+import type { QueryLimits, SafeSiftQuery } from "../types";
+import { typedQuery } from "../typed-query";
+import { appendPointer, isPlainObject } from "../values";
+import { QueryGuardError } from "./query-guard-error";
+import { isUnsafeRegex } from "./is-unsafe-regex";
+
+const DEFAULT_LIMITS: Required<QueryLimits> = {
+  maxDepth: 10,
+  maxInLength: 100,
+  maxPredicates: 50,
+  maxRegexLength: 200,
+};
+
+/** Operators that run JavaScript supplied by the query author. */
+const FORBIDDEN_OPERATORS = new Set(["$where", "$function", "$accumulator"]);
+
+/** Operators that are not conditions of their own: combinators, `$elemMatch` and `$options`. */
+const STRUCTURAL_OPERATORS = new Set([
+  "$and",
+  "$or",
+  "$nor",
+  "$not",
+  "$elemMatch",
+  "$options",
+]);
+
+const LIST_OPERATORS = new Set(["$in", "$nin", "$all"]);
+
+type GuardState = { limits: Required<QueryLimits>; predicates: number };
+
+function checkRegex(source: string, pointer: string, state: GuardState): void {
+  const { maxRegexLength } = state.limits;
+  if (source.length > maxRegexLength) {
+    throw new QueryGuardError(
+      "regex-too-long",
+      pointer,
+      `Regular expression exceeds the maximum length of ${maxRegexLength}`
+    );
+  }
+  if (isUnsafeRegex(source)) {
+    throw new QueryGuardError(
+      "unsafe-regex",
+      pointer,
+      `Regular expression /${source}/ is prone to catastrophic backtracking`
+    );
+  }
+}
+
+function countPredicate(pointer: string, state: GuardState): void {
+  state.predicates += 1;
+  if (state.predicates > state.limits.maxPredicates) {
+    throw new QueryGuardError(
+      "max-predicates",
+      pointer,
+      `Query exceeds the maximum of ${state.limits.maxPredicates} conditions`
+    );
+  }
+}
+
+/**
+ * Walk a query value. `data` is set below equality conditions, whose values are
+ * compared literally: they count towards depth but contain no conditions.
+ */
+function checkValue(
+  value: unknown,
+  pointer: string,
+  depth: number,
+  state: GuardState,
+  data = false
+): void {
+  if (typeof value === "function") {
+    throw new QueryGuardError(
+      "function-value",
+      pointer,
+      "Functions are not allowed in queries"
+    );
+  }
+  if (value instanceof RegExp) {
+    checkRegex(value.source, pointer, state);
+    return;
+  }
+  if (!Array.isArray(value) && !isPlainObject(value)) return;
+
+  if (depth > state.limits.maxDepth) {
+    throw new QueryGuardError(
+      "max-depth",
+      pointer,
+      `Query nesting exceeds the maximum depth of ${state.limits.maxDepth}`
+    );
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, i) =>
+      checkValue(item, appendPointer(pointer, i), depth + 1, state, data)
+    );
+    return;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const at = appendPointer(pointer, key);
+
+    if (FORBIDDEN_OPERATORS.has(key)) {
+      throw new QueryGuardError(
+        "forbidden-operator",
+        at,
+        `${key} is not allowed in queries`
+      );
+    }
+    if (data) {
+      checkValue(item, at, depth + 1, state, true);
+      continue;
+    }
+    if (
+      LIST_OPERATORS.has(key) &&
+      Array.isArray(item) &&
+      item.length > state.limits.maxInLength
+    ) {
+      throw new QueryGuardError(
+        "max-in-length",
+        at,
+        `${key} exceeds the maximum of ${state.limits.maxInLength} items`
+      );
+    }
+    if (key === "$regex" && typeof item === "string") {
+      checkRegex(item, at, state);
+    }
+
+    // a condition: an operator other than the structural ones, or a field compared by equality
+    const isCondition = key.startsWith("$")
+      ? !STRUCTURAL_OPERATORS.has(key)
+      : !(
+          isPlainObject(item) &&
+          Object.keys(item).some((k) => k.startsWith("$"))
+        );
+    if (isCondition) countPredicate(at, state);
+    checkValue(item, at, depth + 1, state, isCondition);
+  }
+}
+
+/**
+ * Checks an untrusted query against safety rules and limits before it reaches
+ * sift. Rejects `$where`, `$function` and `$accumulator`, function values, regular
+ * expressions that are too long or prone to catastrophic backtracking, and
+ * queries exceeding the nesting depth, `$in`/`$nin`/`$all` length or total
+ * condition count in `limits`.
+ *
+ * @throws {QueryGuardError} On the first violation found, with its code and JSON pointer
+ * @throws {TypeError} If `input` is not a plain object
+ *
+ * @example
+ * ```ts
+ * const query = guardQuery<User>(JSON.parse(body), { maxPredicates: 20 });
+ * ```
+ */
+export function guardQuery<T>(
+  input: unknown,
+  limits: QueryLimits = {}
+): SafeSiftQuery<T> {
+  const state: GuardState = {
+    limits: { ...DEFAULT_LIMITS, ...limits },
+    predicates: 0,
+  };
+  if (!isPlainObject(input)) {
+    throw new TypeError("A query must be an object");
+  }
+  checkValue(input, "", 1, state);
+  return typedQuery<T>(input);
+}
@@ -0,0 +1,4 @@
+export { QueryGuardError } from "./query-guard-error";
+export { isUnsafeRegex } from "./is-unsafe-regex";
+export { guardQuery } from "./guard-query";
+export { createSafeQuery } from "./create-safe-query";
@@ -0,0 +1,123 @@
+type Frame = {
+  /** The group contains a repeating quantifier */
+  repeats: boolean;
+  /** Source of each `|` alternative seen so far */
+  alternatives: string[];
+  current: string;
+};
+
+/** Length of the quantifier at `i` and whether it can repeat its atom more than once. */
+function quantifierAt(
+  source: string,
+  i: number
+): { length: number; repeats: boolean } | undefined {
+  const ch = source[i];
+  let length = 0;
+  let repeats = false;
+
+  if (ch === "*" || ch === "+") {
+    length = 1;
+    repeats = true;
+  } else if (ch === "?") {
+    length = 1;
+  } else if (ch === "{") {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i));
+    if (!match) return undefined;
+    length = match[0].length;
+    const max =
+      match[2] === undefined
+        ? Number(match[1])
+        : match[3]
+        ? Number(match[3])
+        : Infinity;
+    repeats = max > 1;
+  } else {
+    return undefined;
+  }
+
+  // a trailing `?` makes the quantifier lazy; laziness does not prevent backtracking
+  if (source[i + length] === "?") length += 1;
+  return { length, repeats };
+}
+
+function hasDuplicateAlternatives(frame: Frame): boolean {
+  const alternatives = [...frame.alternatives, frame.current];
+  return (
+    alternatives.length > 1 && new Set(alternatives).size < alternatives.length
+  );
+}
+
+/**
+ * Detect regular expression patterns prone to catastrophic backtracking: a
+ * repeated group that itself contains a repeating quantifier (`(a+)+`, `(\w*\s?)*`,
+ * `(.*,){2,}`) or duplicate alternatives (`(a|a)*`). This is a conservative
+ * heuristic; it does not prove a pattern safe.
+ *
+ * @example
+ * ```ts
+ * isUnsafeRegex("^(a+)+$");  // true
+ * isUnsafeRegex("^[a-z]+$"); // false
+ * ```
+ */
+export function isUnsafeRegex(source: string): boolean {
+  const stack: Frame[] = [{ repeats: false, alternatives: [], current: "" }];
+  const top = () => stack[stack.length - 1]!;
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i]!;
+    let atom: string;
+
+    if (ch === "\\") {
+      atom = source.slice(i, i + 2);
+      i += 2;
+    } else if (ch === "[") {
+      let end = i + 1;
+      if (source[end] === "]") end += 1;
+      while (end < source.length && source[end] !== "]") {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      atom = source.slice(i, end + 1);
+      i = end + 1;
+    } else if (ch === "(") {
+      stack.push({ repeats: false, alternatives: [], current: "" });
+      const prefix = /^\(\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)?/.exec(
+        source.slice(i)
+      );
+      i += prefix ? prefix[0].length : 1;
+      continue;
+    } else if (ch === ")" && stack.length > 1) {
+      const group = stack.pop()!;
+      i += 1;
+      const quantifier = quantifierAt(source, i);
+      if (
+        quantifier?.repeats &&
+        (group.repeats || hasDuplicateAlternatives(group))
+      ) {
+        return true;
+      }
+      if (quantifier) i += quantifier.length;
+      top().repeats ||= group.repeats || Boolean(quantifier?.repeats);
+      top().current += `(${[...group.alternatives, group.current].join("|")})`;
+      continue;
+    } else if (ch === "|") {
+      top().alternatives.push(top().current);
+      top().current = "";
+      i += 1;
+      continue;
+    } else {
+      atom = ch;
+      i += 1;
+    }
+
+    const quantifier = quantifierAt(source, i);
+    if (quantifier) {
+      top().repeats ||= quantifier.repeats;
+      atom += source.slice(i, i + quantifier.length);
+      i += quantifier.length;
+    }
+    top().current += atom;
+  }
+
+  return false;
+}
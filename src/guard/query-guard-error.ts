@@ -0,0 +1,28 @@
+import type { QueryGuardCode } from "../types";
+
+/**
+ * Thrown by `createSafeQuery` when an untrusted query breaks a safety rule or limit.
+ * `code` identifies the rule and `pointer` is a JSON pointer to the offending part of the query.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   createSafeQuery<User>(JSON.parse(body));
+ * } catch (error) {
+ *   if (error instanceof QueryGuardError) {
+ *     return reply(400, { code: error.code, pointer: error.pointer });
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class QueryGuardError extends Error {
+  constructor(
+    readonly code: QueryGuardCode,
+    readonly pointer: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "QueryGuardError";
+  }
+}
@@ -1,11 +1,101 @@
 export { SafeSift } from "./safe-sift-class";
 export { createQuery } from "./create-query";
 export { safeSift } from "./safe-sift-function";
+export { SafeSiftCursor } from "./safe-sift-cursor";
+export { sortDocuments } from "./sort-documents";
+export { applyProjection } from "./apply-projection";
+export { compareValues, getPathValues } from "./values";
+export { applyUpdate } from "./update";
+export { explainQuery, formatExplanation } from "./explain";
+export { validateQuery } from "./validate";
+export {
+  createSafeQuery,
+  guardQuery,
+  isUnsafeRegex,
+  QueryGuardError,
+} from "./guard";
+export { toSql } from "./sql";
+export { toElasticsearch } from "./elasticsearch";
+export { optimizeQuery } from "./optimize";
+export { isQuerySubsetOf } from "./subset";
+export { SafeCollection } from "./collection";
+export { defineOperators } from "./operators";
+export {
+  parseFilter,
+  stringifyFilter,
+  FilterSyntaxError,
+} from "./filter-string";
+export type { SafeSiftOptions } from "./safe-sift-options";
 export type { SiftParameters } from "./safe-sift-types";
 export type { FindResult } from "./find-result";
 export type { SafeSiftReturnType } from "./safe-sift-return-type";
 export { QueryBuilder, FieldBuilder, query } from "./query-builder";
-export type { SafeSiftQuery, DeepKeyOf, DeepValueOf } from "./types";
+export type { QueryGroup } from "./query-builder";
+export type {
+  SafeSiftQuery,
+  DeepKeyOf,
+  DeepValueOf,
+  SortDirection,
+  SortSpec,
+  Projection,
+  Projected,
+  FieldRef,
+  Accumulator,
+  GroupSpec,
+  GroupResult,
+  Unwound,
+  PipelineStage,
+  SafeUpdate,
+  UpdatePath,
+  UpdatePathValue,
+  UpdateOptions,
+  ExplainNode,
+  ExplainGroup,
+  ExplainPredicate,
+  FieldType,
+  QuerySchema,
+  QueryValidationError,
+  QueryValidationResult,
+  QueryLimits,
+  QueryGuardCode,
+  SqlDialect,
+  SqlFragment,
+  ToSqlOptions,
+  ParseFilterOptions,
+  ElasticsearchQuery,
+  ToElasticsearchOptions,
+  QueryRewrite,
+  OptimizeOptions,
+  OptimizeResult,
+  QuerySubsetOptions,
+  QuerySubsetResult,
+  IndexKind,
+  CollectionIndex,
+  SafeCollectionOptions,
+  CollectionPlan,
+  ObserveCallbacks,
+  ObserveOptions,
+  ObserveHandle,
+  OperatorTarget,
+  OperatorTargetValue,
+  OperatorDefinition,
+  CustomOperators,
+  RegisteredOperators,
+  CustomOperand,
+  CustomOperatorConditions,
+  CustomFieldMethods,
+  BsonType,
+  BitPositions,
+  TypedFieldRef,
+  Expression,
+  QueryCondition,
+  Rule,
+  RuleGroup,
+  RuleOperator,
+  RuleField,
+  DateDuration,
+  QueryBuilderOptions,
+} from "./types";
 export {
   getFilterOps,
   getFilterValue,
@@ -15,4 +105,14 @@ export {
   normalizeEquality,
   normalizeQuery,
 } from "./getValue";
-export { areQueriesEqual } from "./are-queries-equal";
+export { areQueriesEqual, areQueriesEquivalent } from "./are-queries-equal";
+export { canonicalizeQuery } from "./canonicalize-query";
+export { aggregate, AggregationPipeline, runPipeline } from "./aggregation";
+export { evaluateExpr } from "./expr";
+export { listConditions, queryFromConditions } from "./conditions";
+export {
+  fieldsFromSchema,
+  queryToRuleGroup,
+  ruleGroupToQuery,
+  validOperators,
+} from "./editor";
@@ -0,0 +1,38 @@
+import type { Transform } from "node:stream";
+import type { Projection, SafeSiftQuery } from "../types";
+import type { SafeSiftOptions } from "../safe-sift-options";
+import { createSiftFunction } from "../create-sift-function";
+import { filterTransform } from "./filter-transform";
+
+/**
+ * Creates an object-mode Node.js `Transform` stream that passes on only the
+ * documents matching a query, for data that does not fit in memory. The query
+ * is compiled once; `skip`, `limit` and `project` apply as documents flow, and
+ * the stream ends as soon as `limit` documents have passed. It is exported from
+ * `safe-sift/stream`, so that the main entry does not load `node:stream`.
+ *
+ * @template T - The type of documents written to the stream
+ * @template P - The projection type, inferred from `options.project`
+ * @param query - The SafeSiftQuery documents must match
+ * @param options - `skip`, `limit` and `project`; `sort` is not supported
+ * @returns A Transform stream in object mode
+ * @throws {Error} If `options.sort` is set, since sorting needs every document first
+ *
+ * @example
+ * ```typescript
+ * import { pipeline } from 'node:stream/promises';
+ * import { createFilterStream } from 'safe-sift/stream';
+ *
+ * await pipeline(
+ *   readLogLines('app.log'), // an object-mode stream of parsed LogEntry objects
+ *   createFilterStream<LogEntry>({ level: 'error', 'http.status': { $gte: 500 } }),
+ *   writeJsonLines('errors.jsonl')
+ * );
+ * ```
+ */
+export function createFilterStream<
+  T,
+  P extends Projection<T> = Record<never, never>
+>(query: SafeSiftQuery<T>, options: SafeSiftOptions<T, P> = {}): Transform {
+  return filterTransform(createSiftFunction(query), options);
+}
@@ -0,0 +1,33 @@
+import { Transform } from "node:stream";
+import type { Projection } from "../types";
+import type { SafeSiftOptions } from "../safe-sift-options";
+import { StreamWindow } from "../stream/stream-window";
+
+/**
+ * An object-mode Transform stream passing on the documents that pass `test`,
+ * shaped by `skip`, `limit` and `project`. Its readable side ends as soon as
+ * the limit is reached; later documents are dropped.
+ *
+ * @throws {Error} If `options.sort` is set
+ */
+export function filterTransform<T, P extends Projection<T>>(
+  test: (obj: T) => boolean,
+  options: SafeSiftOptions<T, P>
+): Transform {
+  const window = new StreamWindow(options);
+  return new Transform({
+    objectMode: true,
+    transform(doc: T, _encoding, callback) {
+      try {
+        if (!window.done && test(doc)) {
+          const shaped = window.take(doc);
+          if (shaped !== undefined) this.push(shaped);
+          if (window.done) this.push(null);
+        }
+        callback();
+      } catch (error) {
+        callback(error instanceof Error ? error : new Error(String(error)));
+      }
+    },
+  });
+}
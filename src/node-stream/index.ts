@@ -0,0 +1 @@
+export { createFilterStream } from "./create-filter-stream";
@@ -0,0 +1,145 @@
+import type { OperatorDefinition, OperatorTarget } from "../types";
+import { FieldBuilder } from "../query-builder";
+import { isPlainObject } from "../values";
+import { registerOperator } from "./operator-registry";
+import type { RegisteredOperator } from "./operator-registry";
+
+/** Operators sift implements itself, which cannot be redefined. */
+const BUILT_IN_OPERATORS = new Set([
+  "$eq",
+  "$ne",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$in",
+  "$nin",
+  "$exists",
+  "$regex",
+  "$options",
+  "$size",
+  "$all",
+  "$elemMatch",
+  "$type",
+  "$mod",
+  "$not",
+  "$and",
+  "$or",
+  "$nor",
+  "$where",
+  "$expr",
+  "$bitsAllSet",
+  "$bitsAnySet",
+  "$bitsAllClear",
+  "$bitsAnyClear",
+]);
+
+const TARGETS: ReadonlySet<unknown> = new Set<OperatorTarget>([
+  "string",
+  "number",
+  "boolean",
+  "date",
+  "array",
+  "any",
+]);
+
+function isTarget(value: unknown): value is OperatorTarget {
+  return TARGETS.has(value);
+}
+
+/** FieldBuilder methods installed by `defineOperators`, which may be replaced. */
+const installedMethods = new Set<string>();
+
+function checkDefinition(
+  name: string,
+  definition: unknown
+): RegisteredOperator {
+  if (!/^\$[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new TypeError(
+      `Custom operator names must be "$" followed by an identifier, received "${name}"`
+    );
+  }
+  if (BUILT_IN_OPERATORS.has(name)) {
+    throw new Error(`Cannot redefine the built-in operator ${name}`);
+  }
+  const method = name.slice(1);
+  if (method in FieldBuilder.prototype && !installedMethods.has(method)) {
+    throw new Error(
+      `Cannot define ${name}: FieldBuilder already has a ${method}() method`
+    );
+  }
+
+  const { appliesTo, fn } = isPlainObject(definition) ? definition : {};
+  if (!isTarget(appliesTo)) {
+    throw new TypeError(
+      `${name}.appliesTo must be one of ${[...TARGETS].join(", ")}`
+    );
+  }
+  if (typeof fn !== "function") {
+    throw new TypeError(`${name}.fn must be a function`);
+  }
+  return {
+    appliesTo,
+    fn: (value, operand): boolean => Boolean(fn(value, operand)),
+  };
+}
+
+/**
+ * Registers custom query operators. Once defined, an operator is understood by
+ * every query compiled afterwards, including `$not` and `$elemMatch` conditions,
+ * and gets a FieldBuilder method named after it without its `$`. Its `fn` is
+ * called with each field value of the `appliesTo` kind (array elements included,
+ * except for `array` operators) and the operand from the query; other values
+ * never match. Redefining a custom operator replaces it.
+ *
+ * The registry is global to the process: operators defined by any module apply
+ * to every query and `FieldBuilder` in it, and queries compiled before the call
+ * do not know them. Define operators once, at startup, before compiling queries.
+ *
+ * To type queries and FieldBuilder methods, add the returned definitions to the
+ * `CustomOperators` registry by declaration merging.
+ *
+ * @returns The definitions, for `RegisteredOperators<typeof definitions>`
+ * @throws {TypeError} If a name is not `$` followed by an identifier, or a definition is malformed
+ * @throws {Error} If a name is a built-in operator or clashes with a FieldBuilder method
+ *
+ * @example
+ * ```ts
+ * const operators = defineOperators({
+ *   $startsWith: { appliesTo: "string", fn: (value, prefix: string) => value.startsWith(prefix) },
+ *   $between: {
+ *     appliesTo: "number",
+ *     fn: (value, [min, max]: [number, number]) => value >= min && value <= max,
+ *   },
+ * });
+ *
+ * declare module "safe-sift" {
+ *   interface CustomOperators extends RegisteredOperators<typeof operators> {}
+ * }
+ *
+ * new SafeSift<User>({ name: { $startsWith: "Jo" }, age: { $between: [18, 65] } });
+ * query<User>().where("name").startsWith("Jo").build();
+ * ```
+ */
+export function defineOperators<
+  D extends Record<`$${string}`, OperatorDefinition>
+>(definitions: D): D {
+  const checked = Object.entries(definitions).map(
+    ([name, definition]) => [name, checkDefinition(name, definition)] as const
+  );
+
+  for (const [name, operator] of checked) {
+    registerOperator(name, operator);
+
+    const method = name.slice(1);
+    installedMethods.add(method);
+    Object.defineProperty(FieldBuilder.prototype, method, {
+      configurable: true,
+      writable: true,
+      value(this: FieldBuilder<unknown, never>, operand: unknown) {
+        return this._addOperator(name, operand);
+      },
+    });
+  }
+  return definitions;
+}
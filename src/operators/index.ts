@@ -0,0 +1,8 @@
+export { defineOperators } from "./define-operators";
+export {
+  getCustomOperator,
+  isOperatorTarget,
+  listCustomOperators,
+  siftOperations,
+} from "./operator-registry";
+export { isBsonType } from "./mql-operations";
@@ -0,0 +1,223 @@
+import { createEqualsOperation } from "sift";
+import type { BsonType } from "../types";
+import type { SiftOperations } from "../safe-sift-types";
+import { isPlainObject } from "../values";
+import { evaluateExpr, isTruthy } from "../expr";
+
+const INT32 = 2 ** 31;
+const INT64 = 2 ** 63;
+
+/** Type aliases by numeric code. */
+const TYPE_CODES: ReadonlyMap<number, string> = new Map([
+  [1, "double"],
+  [2, "string"],
+  [3, "object"],
+  [4, "array"],
+  [5, "binData"],
+  [6, "undefined"],
+  [7, "objectId"],
+  [8, "bool"],
+  [9, "date"],
+  [10, "null"],
+  [11, "regex"],
+  [12, "dbPointer"],
+  [13, "javascript"],
+  [14, "symbol"],
+  [15, "javascriptWithScope"],
+  [16, "int"],
+  [17, "timestamp"],
+  [18, "long"],
+  [19, "decimal"],
+  [-1, "minKey"],
+  [127, "maxKey"],
+]);
+
+const TYPE_ALIASES: ReadonlySet<string> = new Set([
+  ...TYPE_CODES.values(),
+  "number",
+]);
+
+/** `_bsontype` of the `bson` package classes standing for each alias. */
+const BSON_CLASSES: Readonly<Record<string, readonly string[]>> = {
+  double: ["Double"],
+  binData: ["Binary"],
+  objectId: ["ObjectId", "ObjectID"],
+  regex: ["BSONRegExp"],
+  dbPointer: ["DBPointer", "DBRef"],
+  javascript: ["Code"],
+  symbol: ["BSONSymbol", "Symbol"],
+  javascriptWithScope: ["Code"],
+  int: ["Int32"],
+  timestamp: ["Timestamp"],
+  long: ["Long"],
+  decimal: ["Decimal128"],
+  minKey: ["MinKey"],
+  maxKey: ["MaxKey"],
+  number: ["Double", "Int32", "Long", "Decimal128"],
+};
+
+/**
+ * True if `value` is a BSON type alias or numeric code accepted by `$type`.
+ *
+ * @example
+ * ```ts
+ * isBsonType("string"); // true
+ * isBsonType(16);       // true
+ * isBsonType("text");   // false
+ * ```
+ */
+export function isBsonType(value: unknown): value is BsonType {
+  return typeof value === "number"
+    ? TYPE_CODES.has(value)
+    : typeof value === "string" && TYPE_ALIASES.has(value);
+}
+
+function bsonClass(value: unknown): unknown {
+  return typeof value === "object" && value !== null && "_bsontype" in value
+    ? value._bsontype
+    : undefined;
+}
+
+/**
+ * Tests a value against a type alias. Plain JavaScript values map to the alias
+ * they serialize to, and `bson` package objects to the alias of their class.
+ * Like sift, `timestamp` also matches dates.
+ */
+function hasType(value: unknown, alias: string, present: boolean): boolean {
+  const bsonClasses = BSON_CLASSES[alias];
+  if (bsonClasses?.includes(String(bsonClass(value)))) return true;
+
+  switch (alias) {
+    case "double":
+      return typeof value === "number";
+    case "int":
+      return (
+        typeof value === "number" &&
+        Number.isInteger(value) &&
+        Math.abs(value) < INT32
+      );
+    case "long":
+      return typeof value === "bigint";
+    case "number":
+      return typeof value === "number" || typeof value === "bigint";
+    case "string":
+      return typeof value === "string";
+    case "bool":
+      return typeof value === "boolean";
+    case "object":
+      return isPlainObject(value) && bsonClass(value) === undefined;
+    case "array":
+      return Array.isArray(value);
+    case "binData":
+      return value instanceof Uint8Array;
+    case "undefined":
+      return value === undefined && present;
+    case "date":
+    case "timestamp":
+      return value instanceof Date;
+    case "null":
+      return value === null;
+    case "regex":
+      return value instanceof RegExp;
+    case "javascript":
+      return typeof value === "function";
+    case "symbol":
+      return typeof value === "symbol";
+    default:
+      return false;
+  }
+}
+
+const $type: SiftOperations[string] = (params, ownerQuery, options) => {
+  const types: unknown[] = Array.isArray(params) ? params : [params];
+  // constructors keep sift's `instanceof` check
+  const tests = types.map((type): ((value: unknown) => boolean) => {
+    if (typeof type === "function") {
+      return (value) =>
+        value != null &&
+        (value instanceof type || Object(value).constructor === type);
+    }
+    if (!isBsonType(type)) {
+      throw new Error(`Unknown $type ${JSON.stringify(type)}`);
+    }
+    const alias = typeof type === "number" ? TYPE_CODES.get(type)! : type;
+    return (value) => hasType(value, alias, true);
+  });
+
+  return createEqualsOperation(
+    (value: unknown, key: unknown, owner: unknown) =>
+      tests.some((test) =>
+        value === undefined
+          ? typeof owner === "object" &&
+            owner !== null &&
+            Object.prototype.hasOwnProperty.call(owner, String(key)) &&
+            test(value)
+          : test(value)
+      ),
+    ownerQuery,
+    options
+  );
+};
+
+function bitmask(op: string, operand: unknown): bigint {
+  const isPosition = (n: unknown): n is number =>
+    typeof n === "number" && Number.isSafeInteger(n) && n >= 0;
+  if (isPosition(operand)) return BigInt(operand);
+  if (Array.isArray(operand) && operand.every(isPosition)) {
+    return operand.reduce((mask: bigint, p) => mask | (1n << BigInt(p)), 0n);
+  }
+  throw new TypeError(
+    `${op} expects a non-negative integer bitmask or an array of bit positions`
+  );
+}
+
+/** The bits of an integer, sign-extended; `undefined` for other values. */
+function bits(value: unknown): bigint | undefined {
+  if (typeof value === "bigint") return value;
+  if (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    Math.abs(value) < INT64
+  ) {
+    return BigInt(value);
+  }
+  return undefined;
+}
+
+function bitwise(
+  op: string,
+  test: (bits: bigint, mask: bigint) => boolean
+): SiftOperations[string] {
+  return (params, ownerQuery, options) => {
+    const mask = bitmask(op, params);
+    return createEqualsOperation(
+      (value: unknown) => {
+        const b = bits(value);
+        return b !== undefined && test(b, mask);
+      },
+      ownerQuery,
+      options
+    );
+  };
+}
+
+const $expr: SiftOperations[string] = (params, ownerQuery, options) =>
+  createEqualsOperation(
+    (doc: unknown) => isTruthy(evaluateExpr(doc, params)),
+    ownerQuery,
+    options
+  );
+
+/**
+ * Operations sift lacks or implements partially: `$type` with every BSON alias,
+ * numeric codes and arrays of types, the bitwise `$bitsAllSet`, `$bitsAnySet`,
+ * `$bitsAllClear` and `$bitsAnyClear`, and `$expr`.
+ */
+export const MQL_OPERATIONS: SiftOperations = {
+  $type,
+  $expr,
+  $bitsAllSet: bitwise("$bitsAllSet", (b, mask) => (b & mask) === mask),
+  $bitsAnySet: bitwise("$bitsAnySet", (b, mask) => (b & mask) !== 0n),
+  $bitsAllClear: bitwise("$bitsAllClear", (b, mask) => (b & mask) === 0n),
+  $bitsAnyClear: bitwise("$bitsAnyClear", (b, mask) => (b & mask) !== mask),
+};
@@ -0,0 +1,74 @@
+import { createEqualsOperation } from "sift";
+import type { OperatorTarget } from "../types";
+import type { SiftOperations } from "../safe-sift-types";
+import { MQL_OPERATIONS } from "./mql-operations";
+
+/** A registered custom operator, with its test widened to any field value. */
+export type RegisteredOperator = {
+  appliesTo: OperatorTarget;
+  fn: (value: unknown, operand: unknown) => boolean;
+};
+
+const registry = new Map<string, RegisteredOperator>();
+let operations: SiftOperations = MQL_OPERATIONS;
+
+/**
+ * True if `value` is of the kind a custom operator applies to.
+ *
+ * @example
+ * ```ts
+ * isOperatorTarget("abc", "string"); // true
+ * isOperatorTarget(["abc"], "string"); // false
+ * ```
+ */
+export function isOperatorTarget(
+  value: unknown,
+  target: OperatorTarget
+): boolean {
+  switch (target) {
+    case "date":
+      return value instanceof Date;
+    case "array":
+      return Array.isArray(value);
+    case "any":
+      return true;
+    default:
+      return typeof value === target;
+  }
+}
+
+/** Adds or replaces a custom operator and rebuilds the operations given to sift. */
+export function registerOperator(
+  name: string,
+  operator: RegisteredOperator
+): void {
+  registry.set(name, operator);
+  operations = { ...MQL_OPERATIONS };
+  for (const [op, { appliesTo, fn }] of registry) {
+    const create: SiftOperations[string] = (params, ownerQuery, options) =>
+      createEqualsOperation(
+        (value: unknown) =>
+          isOperatorTarget(value, appliesTo) && fn(value, params),
+        ownerQuery,
+        options
+      );
+    operations[op] = create;
+  }
+}
+
+/** The custom operator registered under `name`, if any. */
+export function getCustomOperator(
+  name: string
+): RegisteredOperator | undefined {
+  return registry.get(name);
+}
+
+/** The names of the registered custom operators, in registration order. */
+export function listCustomOperators(): string[] {
+  return [...registry.keys()];
+}
+
+/** The operations given to sift: the MQL operations it lacks and the registered custom operators. */
+export function siftOperations(): SiftOperations {
+  return operations;
+}
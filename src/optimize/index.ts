@@ -0,0 +1 @@
+export { optimizeQuery } from "./optimize-query";
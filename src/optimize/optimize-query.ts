@@ -0,0 +1,529 @@
+import type {
+  Normalized,
+  OptimizeOptions,
+  OptimizeResult,
+  Predicate,
+  QueryRewrite,
+  SafeSiftQuery,
+} from "../types";
+import { foldRegexOptions, normalizeEquality } from "../getValue";
+import {
+  NEEDS_FIELD,
+  compareBounds,
+  isScalarPath,
+  matchesPredicate,
+  predicateKey,
+  tighterBound,
+} from "../predicates";
+import { isPlainObject, valueKey } from "../values";
+import { typedQuery } from "../typed-query";
+
+type Query = Record<string, unknown>;
+
+/**
+ * A conjunction: field predicates as in `Normalized.and`, `$or` groups of
+ * optimized branches, and the remaining clauses (`$nor`, `$not`, `$where`, ...).
+ */
+type Conjunction = Pick<Normalized, "and"> & {
+  or: Conjunction[][];
+  rest: [string, unknown][];
+};
+
+type Context = { scalarPaths: string[]; rewrites: QueryRewrite[] };
+
+/** A query no document matches: `{}` matches every document. */
+const ALWAYS_FALSE = { $nor: [{}] };
+
+/** Operators that sift can evaluate on a single scalar value. */
+const SCALAR_OPS = new Set([
+  "$eq",
+  "$ne",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$in",
+  "$nin",
+  "$regex",
+  "$exists",
+  "$not",
+  "$type",
+  "$mod",
+  "$bitsAllSet",
+  "$bitsAnySet",
+  "$bitsAllClear",
+  "$bitsAnyClear",
+]);
+
+function note(
+  ctx: Context,
+  code: QueryRewrite["code"],
+  message: string,
+  path?: string
+): void {
+  ctx.rewrites.push(
+    path === undefined ? { code, message } : { code, path, message }
+  );
+}
+
+function describe({ op, value }: Predicate): string {
+  return `${op}: ${
+    value instanceof RegExp ? value.toString() : JSON.stringify(value)
+  }`;
+}
+
+function conjunctionKey(c: Conjunction): string {
+  return valueKey(render(c));
+}
+
+function isEmpty(c: Conjunction): boolean {
+  return !c.and.length && !c.or.length && !c.rest.length;
+}
+
+function isBoundContradiction(lower: Predicate, upper: Predicate): boolean {
+  const order = compareBounds(lower.value, upper.value);
+  if (order === undefined) return false;
+  return (
+    order > 0 || (order === 0 && (lower.op === "$gt" || upper.op === "$lt"))
+  );
+}
+
+/**
+ * Simplify the predicates on one path. Returns `false` when they contradict.
+ * Predicates on paths not declared scalar may be met by different array
+ * elements, so only rewrites that hold for arrays are applied to them.
+ */
+function simplifyPath(
+  path: string,
+  input: Predicate[],
+  ctx: Context
+): Predicate[] | false {
+  const seen = new Set<string>();
+  let preds = input.filter((p) => {
+    const key = predicateKey(p);
+    if (!seen.has(key)) {
+      seen.add(key);
+      return true;
+    }
+    note(ctx, "remove-duplicate", `Removed duplicate ${describe(p)}`, path);
+    return false;
+  });
+
+  // bounds on the same side: the tighter one implies the other
+  for (const side of [
+    ["$gt", "$gte"],
+    ["$lt", "$lte"],
+  ]) {
+    const kept: Predicate[] = [];
+    for (const bound of preds.filter((p) => side.includes(p.op))) {
+      const index = kept.findIndex((k) => tighterBound(k, bound) !== undefined);
+      const current = kept[index];
+      if (!current) {
+        kept.push(bound);
+        continue;
+      }
+      const winner = tighterBound(current, bound)!;
+      note(
+        ctx,
+        "merge-range",
+        `Dropped ${describe(
+          winner === bound ? current : bound
+        )}, implied by ${describe(winner)}`,
+        path
+      );
+      kept[index] = winner;
+    }
+    preds = preds.filter((p) => !side.includes(p.op) || kept.includes(p));
+  }
+
+  // $nin lists hold for every element, so they combine on arrays too
+  const nins = preds.filter((p) => p.op === "$nin");
+  if (nins.length > 1 && nins.every((p) => Array.isArray(p.value))) {
+    const values = new Map<string, unknown>();
+    for (const { value } of nins) {
+      for (const v of Array.isArray(value) ? value : []) {
+        values.set(valueKey(v), v);
+      }
+    }
+    preds = preds.filter((p) => !nins.includes(p));
+    preds.push({ path, op: "$nin", value: [...values.values()] });
+    note(ctx, "merge-nin", `Merged ${nins.length} $nin lists`, path);
+  }
+
+  if (!isScalarPath(path, ctx.scalarPaths)) return preds;
+
+  const exists = preds.filter((p) => p.op === "$exists");
+  const missing = exists.some((p) => !p.value);
+  if (missing) {
+    const conflict = preds.find(
+      (p) =>
+        (p.op === "$exists" && p.value) ||
+        NEEDS_FIELD.has(p.op) ||
+        (p.op === "$eq" && p.value !== null) ||
+        (p.op === "$in" && Array.isArray(p.value) && !p.value.includes(null))
+    );
+    if (conflict) {
+      note(
+        ctx,
+        "always-false",
+        `${describe(conflict)} cannot hold for a missing field`,
+        path
+      );
+      return false;
+    }
+  }
+
+  if (!preds.every((p) => SCALAR_OPS.has(p.op))) return preds;
+
+  const lower = preds.find((p) => p.op === "$gt" || p.op === "$gte");
+  const upper = preds.find((p) => p.op === "$lt" || p.op === "$lte");
+  if (lower && upper && isBoundContradiction(lower, upper)) {
+    note(
+      ctx,
+      "always-false",
+      `${describe(lower)} and ${describe(upper)} contradict`,
+      path
+    );
+    return false;
+  }
+
+  // a scalar equality decides every other predicate on the path
+  const eq = preds.find(
+    (p) =>
+      p.op === "$eq" &&
+      p.value !== null &&
+      !(p.value instanceof RegExp) &&
+      !Array.isArray(p.value) &&
+      !isPlainObject(p.value)
+  );
+  if (eq) {
+    const others = preds.filter((p) => p !== eq);
+    const failed = others.find((p) => !matchesPredicate(p, eq.value));
+    if (failed) {
+      note(
+        ctx,
+        "always-false",
+        `${describe(eq)} contradicts ${describe(failed)}`,
+        path
+      );
+      return false;
+    }
+    for (const p of others) {
+      note(
+        ctx,
+        "implied-by-eq",
+        `Dropped ${describe(p)}, implied by ${describe(eq)}`,
+        path
+      );
+    }
+    return [eq];
+  }
+
+  // $in lists: keep the values every other predicate accepts
+  const ins = preds.filter(
+    (p) =>
+      p.op === "$in" &&
+      Array.isArray(p.value) &&
+      !p.value.some((v) => v === null || v instanceof RegExp)
+  );
+  const [firstIn] = ins;
+  if (firstIn) {
+    const others = preds.filter((p) => p !== firstIn);
+    const candidates: unknown[] = Array.isArray(firstIn.value)
+      ? firstIn.value
+      : [];
+    const values = candidates.filter((v) =>
+      others.every((p) => matchesPredicate(p, v))
+    );
+    if (!values.length) {
+      note(
+        ctx,
+        "always-false",
+        `No value of ${describe(firstIn)} satisfies the other conditions`,
+        path
+      );
+      return false;
+    }
+    if (others.length) {
+      note(
+        ctx,
+        "intersect-in",
+        `Folded ${others.map(describe).join(", ")} into $in: ${JSON.stringify(
+          values
+        )}`,
+        path
+      );
+    }
+    return [{ path, op: "$in", value: values }];
+  }
+
+  return preds;
+}
+
+function collect(query: unknown, c: Conjunction, ctx: Context): boolean {
+  if (!isPlainObject(query)) {
+    throw new TypeError("A query must be an object");
+  }
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      if (!Array.isArray(value) || !value.length) {
+        throw new TypeError(`${key} expects a non-empty array of queries`);
+      }
+      if (key === "$and") {
+        note(ctx, "flatten-and", "Flattened $and");
+        for (const sub of value) {
+          if (!collect(sub, c, ctx)) return false;
+        }
+      } else if (!collectBranches(key, value, c, ctx)) {
+        return false;
+      }
+    } else if (key === "$not") {
+      const inner = optimize(value, ctx);
+      if (!inner) {
+        note(
+          ctx,
+          "remove-false-branch",
+          "Removed $not of a query that never matches"
+        );
+      } else if (isEmpty(inner)) {
+        note(
+          ctx,
+          "always-false",
+          "$not negates a query that matches every document"
+        );
+        return false;
+      } else {
+        c.rest.push(["$not", render(inner)]);
+      }
+    } else if (key.startsWith("$")) {
+      c.rest.push([key, value]);
+    } else {
+      c.and.push(...foldRegexOptions(normalizeEquality(key, value)));
+    }
+  }
+  return true;
+}
+
+function collectBranches(
+  key: "$or" | "$nor",
+  queries: unknown[],
+  c: Conjunction,
+  ctx: Context
+): boolean {
+  const branches: Conjunction[] = [];
+  for (const sub of queries) {
+    const branch = optimize(sub, ctx);
+    if (!branch) {
+      note(
+        ctx,
+        "remove-false-branch",
+        `Removed a branch of ${key} that never matches`
+      );
+    } else if (key === "$nor" && isEmpty(branch)) {
+      note(
+        ctx,
+        "always-false",
+        "$nor has a branch that matches every document"
+      );
+      return false;
+    } else {
+      branches.push(branch);
+    }
+  }
+
+  if (key === "$or") c.or.push(branches);
+  else if (branches.length) c.rest.push(["$nor", branches.map(render)]);
+  return true;
+}
+
+/** Resolve the `$or` groups of a conjunction, which may add predicates to it. */
+function resolveOr(c: Conjunction, ctx: Context): boolean {
+  const groups = c.or;
+  c.or = [];
+
+  for (let i = 0; i < groups.length; i++) {
+    const seen = new Set<string>();
+    const branches: Conjunction[] = [];
+    for (const branch of groups[i]!) {
+      const nested =
+        !branch.and.length && !branch.rest.length && branch.or.length === 1;
+      if (nested) note(ctx, "flatten-or", "Flattened a nested $or");
+      for (const b of nested ? branch.or[0]! : [branch]) {
+        const key = conjunctionKey(b);
+        if (seen.has(key)) {
+          note(ctx, "remove-duplicate", "Removed a duplicate $or branch");
+        } else {
+          seen.add(key);
+          branches.push(b);
+        }
+      }
+    }
+
+    if (!branches.length) {
+      note(ctx, "always-false", "No $or branch can match");
+      return false;
+    }
+    if (branches.length === 1) {
+      note(ctx, "unwrap-or", "Replaced a single-branch $or with its branch");
+      const [only] = branches;
+      c.and.push(...only!.and);
+      c.rest.push(...only!.rest);
+      groups.push(...only!.or);
+      continue;
+    }
+
+    // predicates shared by every branch hold regardless of the branch taken
+    const [first, ...others] = branches;
+    const shared = first!.and.filter((p) => {
+      const key = predicateKey(p);
+      return others.every((b) => b.and.some((q) => predicateKey(q) === key));
+    });
+    for (const p of shared) {
+      const key = predicateKey(p);
+      for (const branch of branches) {
+        branch.and = branch.and.filter((q) => predicateKey(q) !== key);
+      }
+      c.and.push(p);
+      note(ctx, "hoist-from-or", `Hoisted ${describe(p)} out of $or`, p.path);
+    }
+
+    // a branch holds whenever the surrounding conditions do, e.g. after hoisting
+    const known = new Set(c.and.map(predicateKey));
+    const implied = branches.some(
+      (b) =>
+        !b.or.length &&
+        !b.rest.length &&
+        b.and.every((p) => known.has(predicateKey(p)))
+    );
+    if (implied) {
+      note(
+        ctx,
+        "remove-true-or",
+        "Removed an $or with a branch implied by the other conditions"
+      );
+      continue;
+    }
+    c.or.push(branches);
+  }
+  return true;
+}
+
+function optimize(query: unknown, ctx: Context): Conjunction | false {
+  const c: Conjunction = { and: [], or: [], rest: [] };
+  if (!collect(query, c, ctx) || !resolveOr(c, ctx)) return false;
+
+  const byPath = new Map<string, Predicate[]>();
+  for (const p of c.and) {
+    const list = byPath.get(p.path);
+    if (list) list.push(p);
+    else byPath.set(p.path, [p]);
+  }
+
+  c.and = [];
+  for (const [path, preds] of byPath) {
+    const simplified = simplifyPath(path, preds, ctx);
+    if (!simplified) return false;
+    c.and.push(...simplified);
+  }
+  return c;
+}
+
+function render(c: Conjunction): Query {
+  const out: Query = {};
+  const overflow: Query[] = [];
+
+  for (const p of c.and) {
+    const condition = out[p.path];
+    const operators = isPlainObject(condition) ? condition : undefined;
+    if (condition === undefined) {
+      out[p.path] = { [p.op]: p.value };
+    } else if (operators && !(p.op in operators)) {
+      operators[p.op] = p.value;
+    } else {
+      overflow.push({ [p.path]: { [p.op]: p.value } });
+    }
+  }
+
+  // unwrap `{ $eq: v }` unless it would read as document equality or a regex
+  for (const [path, condition] of Object.entries(out)) {
+    if (!isPlainObject(condition)) continue;
+    const keys = Object.keys(condition);
+    const value = condition.$eq;
+    if (
+      keys.length === 1 &&
+      keys[0] === "$eq" &&
+      !isPlainObject(value) &&
+      !(value instanceof RegExp)
+    ) {
+      out[path] = value;
+    }
+  }
+
+  for (const [key, value] of c.rest) {
+    const existing = out[key];
+    if (existing === undefined) out[key] = value;
+    else if (
+      key === "$nor" &&
+      Array.isArray(existing) &&
+      Array.isArray(value)
+    ) {
+      out[key] = [...existing, ...value];
+    } else overflow.push({ [key]: value });
+  }
+
+  const [firstOr, ...restOr] = c.or;
+  if (firstOr) out.$or = firstOr.map(render);
+  for (const branches of restOr) overflow.push({ $or: branches.map(render) });
+  if (overflow.length) out.$and = overflow;
+  return out;
+}
+
+/**
+ * Rewrites a query into an equivalent, smaller one and reports each rewrite.
+ * It flattens `$and` and nested `$or`, unwraps single-branch `$or`, removes
+ * duplicate conditions and branches, keeps the tighter of two bounds on the same
+ * side, merges `$nin` lists, hoists conditions shared by all `$or` branches, and
+ * detects queries that can never match. On paths that hold single values it also
+ * detects contradictory ranges and equalities and folds `$in` intersections.
+ *
+ * A query that can never match is returned as `{ $nor: [{}] }` with `alwaysFalse` set.
+ * Any path may hold an array, whose conditions may each be met by a different
+ * element, so conditions are only combined on paths listed in `options.scalarPaths`.
+ *
+ * @throws {TypeError} If the query or one of its `$and` / `$or` / `$nor` operands is malformed
+ *
+ * @example
+ * ```ts
+ * optimizeQuery<User>(
+ *   {
+ *     $and: [{ age: { $gte: 5, $gt: 3 } }, { $or: [{ role: "admin" }] }],
+ *     status: { $in: ["a", "b"] },
+ *     $or: [{ status: { $in: ["b", "c"] } }],
+ *   },
+ *   { scalarPaths: ["age", "status"] }
+ * );
+ * // => { query: { age: { $gte: 5 }, role: "admin", status: { $in: ["b"] } }, alwaysFalse: false,
+ * //      rewrites: [{ code: "flatten-and", ... }, { code: "unwrap-or", ... }, { code: "merge-range", path: "age", ... }, ...] }
+ *
+ * optimizeQuery<User>({ age: { $gt: 65, $lt: 18 } }, { scalarPaths: ["age"] }).alwaysFalse; // => true
+ * optimizeQuery<User>({ age: { $gt: 65, $lt: 18 } }).alwaysFalse; // => false, `age` may be `[70, 10]`
+ * ```
+ */
+export function optimizeQuery<T>(
+  query: SafeSiftQuery<T>,
+  options: OptimizeOptions<T> = {}
+): OptimizeResult<T> {
+  const ctx: Context = {
+    scalarPaths: [...(options.scalarPaths ?? [])],
+    rewrites: [],
+  };
+  const optimized = optimize(query, ctx);
+  return {
+    query: typedQuery<T>(optimized ? render(optimized) : ALWAYS_FALSE),
+    rewrites: ctx.rewrites,
+    alwaysFalse: !optimized,
+  };
+}
@@ -0,0 +1,19 @@
+import { compareValues } from "../values";
+
+/**
+ * Order two range bounds of the same type (numbers, strings or Dates), or
+ * return `undefined` when they are not comparable.
+ *
+ * @example
+ * ```ts
+ * compareBounds(3, 5);   // => -1
+ * compareBounds(3, "5"); // => undefined
+ * ```
+ */
+export function compareBounds(a: unknown, b: unknown): number | undefined {
+  const comparable =
+    (typeof a === "number" && typeof b === "number") ||
+    (typeof a === "string" && typeof b === "string") ||
+    (a instanceof Date && b instanceof Date);
+  return comparable ? compareValues(a, b) : undefined;
+}
@@ -0,0 +1,6 @@
+export { predicateKey } from "./predicate-key";
+export { matchesPredicate } from "./matches-predicate";
+export { compareBounds } from "./compare-bounds";
+export { tighterBound } from "./tighter-bound";
+export { isScalarPath } from "./is-scalar-path";
+export { NEEDS_FIELD } from "./needs-field";
@@ -0,0 +1,17 @@
+/**
+ * Whether a path is declared to hold a single value, that is, it is one of
+ * `scalarPaths`. Any other path may hold or run through an array, where each
+ * condition can be met by a different element.
+ *
+ * @example
+ * ```ts
+ * isScalarPath("age", ["age"]);       // true
+ * isScalarPath("posts.title", []);    // false
+ * ```
+ */
+export function isScalarPath(
+  path: string,
+  scalarPaths: readonly string[]
+): boolean {
+  return scalarPaths.includes(path);
+}
@@ -0,0 +1,21 @@
+import type { Predicate } from "../types";
+import { createQueryMatcher } from "../create-sift-function";
+
+/**
+ * Whether a field holding `value` satisfies a predicate, evaluated by sift.
+ * With `present` false the field is missing instead.
+ *
+ * @example
+ * ```ts
+ * matchesPredicate({ path: "age", op: "$gt", value: 18 }, 30);            // true
+ * matchesPredicate({ path: "age", op: "$ne", value: 5 }, undefined, false); // true
+ * ```
+ */
+export function matchesPredicate(
+  { op, value: operand }: Predicate,
+  value: unknown,
+  present = true
+): boolean {
+  const matches = createQueryMatcher({ v: { [op]: operand } });
+  return matches(present ? { v: value } : {});
+}
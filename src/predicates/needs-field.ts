@@ -0,0 +1,17 @@
+/** Operators that only match documents that have the field. */
+export const NEEDS_FIELD: ReadonlySet<string> = new Set([
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$regex",
+  "$all",
+  "$size",
+  "$elemMatch",
+  "$type",
+  "$mod",
+  "$bitsAllSet",
+  "$bitsAnySet",
+  "$bitsAllClear",
+  "$bitsAnyClear",
+]);
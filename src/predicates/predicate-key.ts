@@ -0,0 +1,15 @@
+import type { Predicate } from "../types";
+import { valueKey } from "../values";
+
+/**
+ * Serialize a predicate into a string that is equal for equal predicates.
+ *
+ * @example
+ * ```ts
+ * predicateKey({ path: "age", op: "$gte", value: 18 }) ===
+ *   predicateKey({ path: "age", op: "$gte", value: 18 }); // true
+ * ```
+ */
+export function predicateKey({ path, op, value }: Predicate): string {
+  return `${path}\u0000${op}\u0000${valueKey(value)}`;
+}
@@ -0,0 +1,23 @@
+import type { Predicate } from "../types";
+import { compareBounds } from "./compare-bounds";
+
+/**
+ * The tighter of two bounds on the same side (`$gt`/`$gte` or `$lt`/`$lte`),
+ * which implies the other, or `undefined` when they are not comparable.
+ *
+ * @example
+ * ```ts
+ * tighterBound({ path: "age", op: "$gte", value: 5 }, { path: "age", op: "$gt", value: 3 });
+ * // => { path: "age", op: "$gte", value: 5 }
+ * ```
+ */
+export function tighterBound(
+  a: Predicate,
+  b: Predicate
+): Predicate | undefined {
+  const order = compareBounds(a.value, b.value);
+  if (order === undefined) return undefined;
+  if (order === 0) return a.op === "$gt" || a.op === "$lt" ? a : b;
+  const lower = a.op === "$gt" || a.op === "$gte";
+  return order > 0 === lower ? a : b;
+}
@@ -1,15 +1,82 @@
 /* eslint-disable no-restricted-syntax */
 /* eslint-disable @typescript-eslint/consistent-type-assertions */
 /* eslint-disable import/group-exports */
-import { DeepKeyOf, PathValue, SafeSiftQuery } from "./types";
+import { DeepKeyOf, PathValue, SafeSiftQuery, SortSpec } from "./types";
+import type {
+  CustomFieldMethods,
+  DateDuration,
+  QueryBuilderOptions,
+  QueryCondition,
+} from "./types";
 import { SafeSift } from "./safe-sift";
+import type { SafeSiftOptions } from "./safe-sift-options";
+import { listConditions, queryFromConditions } from "./conditions";
+import { calendarRange, subtractDuration } from "./dates";
 
 type LogicalOperation = "and" | "or";
+/** What date conditions compare fields with: dates, or what `coerceDate` turns them into. */
+type DateValue = Date | string | number;
+/** Options converting dates into `D`, from which `query()` and `QueryBuilder.from()` infer `D`. */
+type CoercingOptions<D extends DateValue> = QueryBuilderOptions<D> & {
+  coerceDate: (date: Date) => D;
+};
+type SortOrder = "asc" | "desc";
+
+/** Everything a QueryBuilder has collected; never changed once a builder exists. */
+type BuilderState<T, D extends DateValue> = {
+  query: SafeSiftQuery<T>;
+  negated: boolean;
+  sort: SortSpec<T>;
+  skip: number | undefined;
+  limit: number | undefined;
+  options: QueryBuilderOptions<D>;
+};
+
+/** Freezes a node the builder created, so builders can share it safely. */
+function freeze<N extends object>(node: N): N {
+  return Object.freeze(node) as N;
+}
+
+/**
+ * A nested group of conditions: a prebuilt QueryBuilder, or a callback that adds
+ * conditions to the fresh QueryBuilder it receives and returns it.
+ *
+ * @example
+ * ```typescript
+ * const admins: QueryGroup<User> = query<User>().where('role').equals('admin');
+ * const adults: QueryGroup<User> = (q) => q.where('age').gte(18);
+ * ```
+ */
+export type QueryGroup<T, D extends DateValue = Date> =
+  | QueryBuilder<T, D>
+  | ((group: QueryBuilder<T, D>) => QueryBuilder<T, D>);
+
+/** Paths of `T` holding values of type `V`, for comparing one field with another. */
+type FieldOfType<T, V> = {
+  [P in DeepKeyOf<T>]: NonNullable<PathValue<T, P>> extends V ? P : never;
+}[DeepKeyOf<T>];
+
+/** Paths of `T` that a field with value `V` may be compared with, or `never` if `V` is not comparable. */
+type ComparableField<T, V> = NonNullable<V> extends string | number | Date
+  ? FieldOfType<T, NonNullable<V>>
+  : never;
+
+/**
+ * `A` for fields holding values of type `D` (dates, or what the builder's `coerceDate`
+ * turns them into), or `never` so date conditions cannot be used on other fields.
+ */
+type OnDateField<T, K extends DeepKeyOf<T>, D, A> = NonNullable<
+  PathValue<T, K>
+> extends D
+  ? A
+  : never;
+
 /**
  * A fluent query builder that constructs type-safe queries for filtering objects and arrays.
  * Uses the builder pattern to create complex queries with logical operators and field conditions.
  *
  * @template T - The type of objects to be queried
+ * @template D - The type of fields date conditions such as `before` apply to: `Date`, or what the `coerceDate` option turns dates into
  *
  * @example
  * ```typescript
@@ -39,13 +106,101 @@ type LogicalOperation = "and" | "or";
  *   .where('name').equals('Jane')
  *   .not()
  *   .build();
+ *
+ * // Grouped conditions: (active AND age >= 18) OR (role = 'admin' AND verified)
+ * const query4 = new QueryBuilder<User>()
+ *   .andGroup(q => q.where('active').equals(true).and('age').gte(18))
+ *   .orGroup(q => q.where('role').equals('admin').and('verified').equals(true))
+ *   .build();
+ * ```
+ *
+ * Conditions combine strictly from left to right, without operator precedence:
+ * `where`, `and`, `andGroup` and `nor` AND a condition with everything built so far,
+ * while `or` and `orGroup` OR a condition with everything built so far. So
+ * `where(a).or(b).and(c)` means `(a OR b) AND c`, and `where(a).and(b).or(c)` means
+ * `(a AND b) OR c`. Use groups to nest conditions any other way, e.g.
+ * `where(a).andGroup(q => q.where(b).or(c))` for `a AND (b OR c)`.
+ *
+ * Builders are immutable: every method returns a new builder and leaves the one
+ * it was called on unchanged, so a shared base builder can be extended in several
+ * places. New builders share the unchanged parts of the query with the builder
+ * they came from, and the query objects the builder creates are frozen.
+ *
+ * ```typescript
+ * const active = query<User>().where('active').equals(true);
+ * const admins = active.and('role').equals('admin'); // active is unchanged
+ * const adults = active.and('age').gte(18);
  * ```
  */
-export class QueryBuilder<T> {
-  private query: SafeSiftQuery<T> = {};
-  private currentField: string | null = null;
-  private pendingCondition: LogicalOperation | null = null;
-  private originalBuild: (() => SafeSiftQuery<T>) | null = null;
+export class QueryBuilder<T, D extends DateValue = Date> {
+  private state: BuilderState<T, D>;
+
+  /**
+   * Creates an empty builder.
+   *
+   * @param options - Clock, date coercion and time zone used by date conditions such as `withinLast`
+   */
+  constructor(options: QueryBuilderOptions<D> = {}) {
+    this.state = freeze({
+      query: freeze({}),
+      negated: false,
+      sort: freeze({}),
+      skip: undefined,
+      limit: undefined,
+      options,
+    });
+  }
+
+  /**
+   * Creates a builder from an existing query, for example one stored as JSON, so it
+   * can be edited further. A query that is only a `$not` becomes a negated builder,
+   * as produced by `not()`; any other query is kept as it is, with `$and`, `$or`,
+   * `$nor` and `$not` groups intact.
+   *
+   * @param query - The query to start from
+   * @param options - Options of the new builder, as for the constructor
+   * @returns A QueryBuilder whose `build()` returns an equivalent query
+   * @throws {TypeError} If the query or one of its groups is malformed
+   *
+   * @example
+   * ```typescript
+   * const stored: SafeSiftQuery<User> = JSON.parse(localStorage.filter);
+   *
+   * const query = QueryBuilder.from(stored)
+   *   .and('age').gte(18)
+   *   .build();
+   * ```
+   */
+  static from<T>(
+    query: SafeSiftQuery<T>,
+    options: CoercingOptions<string>
+  ): QueryBuilder<T, string>;
+  static from<T>(
+    query: SafeSiftQuery<T>,
+    options: CoercingOptions<number>
+  ): QueryBuilder<T, number>;
+  static from<T>(
+    query: SafeSiftQuery<T>,
+    options?: QueryBuilderOptions
+  ): QueryBuilder<T>;
+  static from<T, D extends DateValue>(
+    query: SafeSiftQuery<T>,
+    options?: QueryBuilderOptions<D>
+  ): QueryBuilder<T, D>;
+  static from<T, D extends DateValue>(
+    query: SafeSiftQuery<T>,
+    options: QueryBuilderOptions<D> = {}
+  ): QueryBuilder<T, D> {
+    const keys = Object.keys(query);
+    if (keys.length === 1 && keys[0] === "$not" && query.$not) {
+      return new QueryBuilder<T, D>(options)
+        .withConditions(listConditions(query.$not))
+        .not();
+    }
+    return new QueryBuilder<T, D>(options).withConditions(
+      listConditions(query)
+    );
+  }
 
   /**
    * Starts a new field condition query. This is typically the first method called when building a query.
@@ -70,8 +225,7 @@ export class QueryBuilder<T> {
    *   .build();
    * ```
    */
-  where<K extends DeepKeyOf<T>>(field: K): FieldBuilder<T, K> {
-    this.currentField = field;
+  where<K extends DeepKeyOf<T>>(field: K): FieldBuilder<T, K, D> {
     return new FieldBuilder(this, field);
   }
 
@@ -92,7 +246,7 @@ export class QueryBuilder<T> {
    * // Results in: { name: 'John', $and: [{ age: { $gt: 18 } }] }
    * ```
    */
-  and<K extends DeepKeyOf<T>>(field: K): FieldBuilder<T, K> {
+  and<K extends DeepKeyOf<T>>(field: K): FieldBuilder<T, K, D> {
     return new FieldBuilder(this, field, "and");
   }
 
@@ -113,15 +267,15 @@ export class QueryBuilder<T> {
    * // Results in: { $or: [{ name: 'John' }, { name: 'Jane' }] }
    * ```
    */
-  or<K extends DeepKeyOf<T>>(field: K): FieldBuilder<T, K> {
+  or<K extends DeepKeyOf<T>>(field: K): FieldBuilder<T, K, D> {
     return new FieldBuilder(this, field, "or");
   }
 
   /**
-   * Negates the entire query by wrapping it in a $not operator.
-   * This method modifies the build behavior to return the negated query.
+   * Negates the entire query by wrapping it in a $not operator when it is built,
+   * including conditions added after this call. Use `negate` to negate part of a query.
    *
-   * @returns This QueryBuilder instance for method chaining
+   * @returns A new QueryBuilder that builds the negated query
    *
    * @example
    * ```typescript
@@ -134,20 +288,245 @@ export class QueryBuilder<T> {
    * // Matches all users whose name is NOT 'John'
    * ```
    */
-  not(): QueryBuilder<T> {
-    if (!this.originalBuild) {
-      this.originalBuild = this.build.bind(this);
+  not(): QueryBuilder<T, D> {
+    return this.derive({ negated: true });
+  }
+
+  /**
+   * ANDs the query built so far with the negation of a nested group of conditions.
+   * Groups without conditions are ignored.
+   *
+   * @param group - A QueryBuilder, or a callback that adds the group's conditions to the builder it receives
+   * @returns A new QueryBuilder with the negated group added
+   *
+   * @example
+   * ```typescript
+   * // active AND NOT (role = 'guest' AND age < 18)
+   * const query = new QueryBuilder<User>()
+   *   .where('active').equals(true)
+   *   .negate(q => q.where('role').equals('guest').and('age').lt(18))
+   *   .build();
+   *
+   * // Results in: {
+   * //   active: true,
+   * //   $and: [{ $not: { role: 'guest', $and: [{ age: { $lt: 18 } }] } }]
+   * // }
+   * ```
+   */
+  negate(group: QueryGroup<T, D>): QueryBuilder<T, D> {
+    const built = buildGroup(group, this.state.options);
+    return built
+      ? this.addAndBranch(freeze({ $not: built } as SafeSiftQuery<T>))
+      : this;
+  }
 
-      this.build = () => {
-        const query = this.originalBuild!();
-        const queryNot = { $not: query };
+  /**
+   * ANDs the query of another builder with this one, for example to extend shared
+   * base filters. Sort keys of this builder take precedence over those of `other`,
+   * and `skip` and `limit` are taken from `other` only when this builder has none.
+   *
+   * @param other - The builder whose query, sort, skip and limit are merged in
+   * @returns A new QueryBuilder matching what both builders match
+   *
+   * @example
+   * ```typescript
+   * const visible = query<Post>().where('deleted').equals(false);
+   * const recent = query<Post>().where('year').gte(2024).sortBy('year', 'desc');
+   *
+   * const query = visible.merge(recent).build();
+   * // Results in: { deleted: false, $and: [{ year: { $gte: 2024 } }] }
+   * ```
+   */
+  merge(other: QueryBuilder<T, D>): QueryBuilder<T, D> {
+    const mine = this.build();
+    const theirs = other.build();
+    const sort = { ...this.state.sort };
+    for (const [field, direction] of Object.entries(other.state.sort)) {
+      if (!(field in sort)) Object.assign(sort, { [field]: direction });
+    }
 
-        // eslint-disable-next-line no-restricted-syntax
-        return queryNot as SafeSiftQuery<T>;
-      };
+    let query = mine;
+    if (!Object.keys(mine).length) query = theirs;
+    else if (Object.keys(theirs).length) {
+      query = freeze({ ...mine, $and: freeze([...(mine.$and ?? []), theirs]) });
     }
+    return this.derive({
+      query,
+      negated: false,
+      sort: freeze(sort),
+      skip: this.state.skip ?? other.state.skip,
+      limit: this.state.limit ?? other.state.limit,
+    });
+  }
 
-    return this;
+  /**
+   * Returns a builder with the same conditions and settings. Builders never change,
+   * so a clone is interchangeable with the original; it only differs in identity.
+   *
+   * @returns A new QueryBuilder equal to this one
+   *
+   * @example
+   * ```typescript
+   * const base = query<User>().where('active').equals(true);
+   * const copy = base.clone();
+   * copy.build() === base.build(); // true, the query is shared
+   * ```
+   */
+  clone(): QueryBuilder<T, D> {
+    return this.derive({});
+  }
+
+  /**
+   * ANDs a nested group of conditions with the query built so far.
+   * Groups without conditions are ignored.
+   *
+   * @param group - A QueryBuilder, or a callback that adds the group's conditions to the builder it receives
+   * @returns A new QueryBuilder with the group added
+   *
+   * @example
+   * ```typescript
+   * // active AND (role = 'admin' OR age >= 65)
+   * const query = new QueryBuilder<User>()
+   *   .where('active').equals(true)
+   *   .andGroup(q => q.where('role').equals('admin').or('age').gte(65))
+   *   .build();
+   *
+   * // Results in: { active: true, $and: [{ $or: [{ role: 'admin' }, { age: { $gte: 65 } }] }] }
+   * ```
+   */
+  andGroup(group: QueryGroup<T, D>): QueryBuilder<T, D> {
+    const built = buildGroup(group, this.state.options);
+    return built ? this.addAndBranch(built) : this;
+  }
+
+  /**
+   * ORs a nested group of conditions with the query built so far.
+   * Groups without conditions are ignored.
+   *
+   * @param group - A QueryBuilder, or a callback that adds the group's conditions to the builder it receives
+   * @returns A new QueryBuilder with the group added
+   *
+   * @example
+   * ```typescript
+   * // (active AND age >= 18) OR (role = 'admin' AND verified)
+   * const query = new QueryBuilder<User>()
+   *   .where('active').equals(true)
+   *   .and('age').gte(18)
+   *   .orGroup(q => q.where('role').equals('admin').and('verified').equals(true))
+   *   .build();
+   *
+   * // Results in: {
+   * //   $or: [
+   * //     { active: true, $and: [{ age: { $gte: 18 } }] },
+   * //     { role: 'admin', $and: [{ verified: true }] }
+   * //   ]
+   * // }
+   * ```
+   */
+  orGroup(group: QueryGroup<T, D>): QueryBuilder<T, D> {
+    const built = buildGroup(group, this.state.options);
+    return built ? this.addOrBranch(built) : this;
+  }
+
+  /**
+   * ANDs the query built so far with a condition that none of the given groups match.
+   * Groups without conditions are ignored.
+   *
+   * @param groups - QueryBuilders, or callbacks that add a group's conditions to the builder they receive
+   * @returns A new QueryBuilder with the groups added
+   *
+   * @example
+   * ```typescript
+   * // active AND NOT (role = 'guest' OR banned)
+   * const query = new QueryBuilder<User>()
+   *   .where('active').equals(true)
+   *   .nor(q => q.where('role').equals('guest'), q => q.where('banned').equals(true))
+   *   .build();
+   *
+   * // Results in: { active: true, $nor: [{ role: 'guest' }, { banned: true }] }
+   * ```
+   */
+  nor(...groups: QueryGroup<T, D>[]): QueryBuilder<T, D> {
+    const built = groups.flatMap(
+      (group) => buildGroup(group, this.state.options) ?? []
+    );
+    if (!built.length) return this;
+    const { query } = this.state;
+    return this.withQuery({
+      ...query,
+      $nor: freeze([...(query.$nor ?? []), ...built]),
+    });
+  }
+
+  /**
+   * Lists the clauses of the query, each with its field, operator, value and the
+   * JSON pointer to where it sits, so a UI can render, reorder, edit and delete
+   * them. Pass the edited list to `withConditions`. A negation from `not()` is not
+   * a clause and is kept by `withConditions`.
+   *
+   * @returns The clauses of the query in order
+   *
+   * @example
+   * ```typescript
+   * const builder = new QueryBuilder<User>()
+   *   .where('age').gte(18)
+   *   .or('name').equals('Ann');
+   *
+   * builder.conditions();
+   * // => [
+   * //   { pointer: '/$or/0/age/$gte', field: 'age', operator: '$gte', value: 18 },
+   * //   { pointer: '/$or/1/name', field: 'name', operator: '$eq', value: 'Ann' }
+   * // ]
+   * ```
+   */
+  conditions(): QueryCondition<T>[] {
+    return listConditions(this.state.query);
+  }
+
+  /**
+   * Replaces the query with one made of the given clauses, as listed by `conditions()`.
+   * Leaving a clause out deletes it, and the order of the list decides the order of
+   * fields and of `$and`/`$or`/`$nor` branches. Groups left without clauses disappear.
+   *
+   * @param conditions - The clauses of the new query
+   * @returns A new QueryBuilder with the query made of the clauses
+   * @throws {Error} If two clauses share a pointer or one lies inside the other
+   *
+   * @example
+   * ```typescript
+   * const [first, ...rest] = builder.conditions();
+   * const moved = builder.withConditions([...rest, first]);
+   * const edited = builder.withConditions(
+   *   builder.conditions().map(c => (c.field === 'age' ? { ...c, value: 21 } : c))
+   * );
+   * ```
+   */
+  withConditions(
+    conditions: ReadonlyArray<QueryCondition<T>>
+  ): QueryBuilder<T, D> {
+    return this.derive({ query: queryFromConditions(conditions) });
+  }
+
+  /**
+   * Removes a single clause, identified by its pointer from `conditions()`.
+   * Unlike `removeField`, other clauses on the same field are kept.
+   *
+   * @param pointer - The JSON pointer of the clause to remove
+   * @returns A new QueryBuilder without the clause
+   *
+   * @example
+   * ```typescript
+   * const builder = new QueryBuilder<User>()
+   *   .where('age').between(18, 65)
+   *   .removeCondition('/age/$lte');
+   *
+   * // Query now only contains: { age: { $gte: 18 } }
+   * ```
+   */
+  removeCondition(pointer: string): QueryBuilder<T, D> {
+    return this.withConditions(
+      this.conditions().filter((condition) => condition.pointer !== pointer)
+    );
   }
 
   /**
@@ -167,12 +546,84 @@ export class QueryBuilder<T> {
    * ```
    */
   build(): SafeSiftQuery<T> {
-    return this.query;
+    const { query, negated } = this.state;
+    return negated ? (freeze({ $not: query }) as SafeSiftQuery<T>) : query;
+  }
+
+  /**
+   * Adds a sort key applied to the results of `execute()`.
+   * Calls are cumulative: the first field sorted on has the highest precedence.
+   *
+   * @param field - The field path to sort by (supports nested paths with dot notation)
+   * @param direction - Sort direction (default: 'asc')
+   * @returns A new QueryBuilder with the sort key added
+   *
+   * @example
+   * ```typescript
+   * const page = new QueryBuilder<User>()
+   *   .where('active').equals(true)
+   *   .sortBy('age', 'desc')
+   *   .sortBy('name')
+   *   .execute()
+   *   .filter(users);
+   * // Active users, oldest first, ties broken by name
+   * ```
+   */
+  sortBy<K extends DeepKeyOf<T>>(
+    field: K,
+    direction: SortOrder = "asc"
+  ): QueryBuilder<T, D> {
+    return this.derive({
+      sort: freeze({
+        ...this.state.sort,
+        [field]: direction === "desc" ? -1 : 1,
+      }),
+    });
+  }
+
+  /**
+   * Skips the first `n` matching objects in the results of `execute()`.
+   *
+   * @param n - Number of objects to skip
+   * @returns A new QueryBuilder with the skip applied
+   *
+   * @example
+   * ```typescript
+   * const secondPage = query<User>()
+   *   .sortBy('name')
+   *   .skip(10)
+   *   .limit(10)
+   *   .execute()
+   *   .filter(users);
+   * ```
+   */
+  skip(n: number): QueryBuilder<T, D> {
+    return this.derive({ skip: n });
+  }
+
+  /**
+   * Limits the number of objects in the results of `execute()`. A limit of 0 means no limit.
+   *
+   * @param n - Maximum number of objects to return
+   * @returns A new QueryBuilder with the limit applied
+   *
+   * @example
+   * ```typescript
+   * const topFive = query<User>()
+   *   .sortBy('score', 'desc')
+   *   .limit(5)
+   *   .execute()
+   *   .filter(users);
+   * ```
+   */
+  limit(n: number): QueryBuilder<T, D> {
+    return this.derive({ limit: n });
   }
 
   /**
    * Builds the query and immediately returns a SafeSift instance for executing operations.
    * This is a convenience method that combines build() and new SafeSift().
+   * Any `sortBy`, `skip` and `limit` settings are passed along as SafeSift options.
    *
    * @returns A SafeSift instance ready to filter, find, or test objects
    *
@@ -192,13 +643,18 @@ export class QueryBuilder<T> {
    * ```
    */
   execute(): SafeSift<T> {
-    return new SafeSift(this.build());
+    const options: SafeSiftOptions<T> = {};
+    const { sort, skip, limit } = this.state;
+    if (Object.keys(sort).length) options.sort = { ...sort };
+    if (skip !== undefined) options.skip = skip;
+    if (limit !== undefined) options.limit = limit;
+    return new SafeSift(this.build(), options);
   }
 
   /**
    * Clears all conditions from the query, resetting it to an empty state.
    *
-   * @returns This QueryBuilder instance for method chaining
+   * @returns A new QueryBuilder without conditions
    *
    * @example
    * ```typescript
@@ -206,21 +662,20 @@ export class QueryBuilder<T> {
    *   .where('name').equals('John')
    *   .and('age').greaterThan(18);
    *
-   * builder.clear(); // Query is now empty: {}
+   * const empty = builder.clear(); // Query is empty: {}, builder is unchanged
    *
-   * builder.where('status').equals('active'); // Start fresh
+   * empty.where('status').equals('active'); // Start fresh
    * ```
    */
-  clear(): QueryBuilder<T> {
-    this.query = {};
-    return this;
+  clear(): QueryBuilder<T, D> {
+    return this.withQuery({});
   }
 
   /**
    * Removes a specific field condition from the query.
    *
    * @param field - The field path to remove from the query
-   * @returns This QueryBuilder instance for method chaining
+   * @returns A new QueryBuilder without the field condition
    *
    * @example
    * ```typescript
@@ -232,15 +687,14 @@ export class QueryBuilder<T> {
    * // Query now only contains: { name: 'John' }
    * ```
    */
-  removeField<K extends DeepKeyOf<T>>(field: K): QueryBuilder<T> {
-    delete this.query[field];
-    return this;
+  removeField<K extends DeepKeyOf<T>>(field: K): QueryBuilder<T, D> {
+    return this.withoutKeys(field);
   }
 
   /**
    * Removes all OR conditions from the query.
    *
-   * @returns This QueryBuilder instance for method chaining
+   * @returns A new QueryBuilder without OR conditions
    *
    * @example
    * ```typescript
@@ -252,17 +706,14 @@ export class QueryBuilder<T> {
    * // OR conditions are removed, other conditions remain
    * ```
    */
-  removeOr(): QueryBuilder<T> {
-    if (this.query.$or) {
-      delete this.query.$or;
-    }
-    return this;
+  removeOr(): QueryBuilder<T, D> {
+    return this.withoutKeys("$or");
   }
 
   /**
    * Removes all AND conditions from the query.
    *
-   * @returns This QueryBuilder instance for method chaining
+   * @returns A new QueryBuilder without AND conditions
    *
    * @example
    * ```typescript
@@ -274,17 +725,14 @@ export class QueryBuilder<T> {
    * // AND conditions are removed: { name: 'John' }
    * ```
    */
-  removeAnd(): QueryBuilder<T> {
-    if (this.query.$and) {
-      delete this.query.$and;
-    }
-    return this;
+  removeAnd(): QueryBuilder<T, D> {
+    return this.withoutKeys("$and");
   }
 
   /**
    * Removes the NOT negation from the query, restoring the original query structure.
    *
-   * @returns This QueryBuilder instance for method chaining
+   * @returns A new QueryBuilder that builds the query without negation
    *
    * @example
    * ```typescript
@@ -296,19 +744,15 @@ export class QueryBuilder<T> {
    * // NOT negation removed, back to: { name: 'John' }
    * ```
    */
-  removeNot(): QueryBuilder<T> {
-    if (this.originalBuild) {
-      this.build = this.originalBuild;
-      this.originalBuild = null;
-    }
-    return this;
+  removeNot(): QueryBuilder<T, D> {
+    return this.derive({ negated: false });
   }
 
   /**
-   * Removes all logical operators ($or, $and, $not) from the query.
+   * Removes all logical operators ($or, $and, $nor, $not) from the query.
    * This is a comprehensive method that cleans up all logical structuring.
    *
-   * @returns This QueryBuilder instance for method chaining
+   * @returns A new QueryBuilder without logical operators
    *
    * @example
    * ```typescript
@@ -322,16 +766,8 @@ export class QueryBuilder<T> {
    * // All logical operators removed, only field conditions remain
    * ```
    */
-  removeLogical(): QueryBuilder<T> {
-    delete this.query.$or;
-    delete this.query.$and;
-    delete this.query.$not;
-    // Also remove NOT by restoring original build method
-    if (this.originalBuild) {
-      this.build = this.originalBuild;
-      this.originalBuild = null;
-    }
-    return this;
+  removeLogical(): QueryBuilder<T, D> {
+    return this.withoutKeys("$or", "$and", "$nor", "$not").removeNot();
   }
 
   /**
@@ -351,47 +787,97 @@ export class QueryBuilder<T> {
    * builder._addCondition('age', { $gt: 18 }, 'and'); // AND condition
    * builder._addCondition('status', 'active', 'or'); // OR condition
    * ```
+   *
+   * @returns A new QueryBuilder with the condition added
    */
   _addCondition(
     field: string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     condition: any,
     logical?: LogicalOperation
-  ): void {
-    if (logical === "or") {
-      if (!this.query.$or) {
-        // Convert existing query to OR format
-        const existingConditions = { ...this.query };
-        delete existingConditions.$or;
-        delete existingConditions.$and;
-        delete existingConditions.$not;
-
-        this.query = { $or: [] } as unknown as SafeSiftQuery<T>;
-
-        // Add existing conditions as the first OR clause
-        if (Object.keys(existingConditions).length > 0) {
-          this.query.$or!.push(existingConditions as SafeSiftQuery<T>);
-        }
-      }
-      this.query.$or!.push({ [field]: condition } as SafeSiftQuery<T>);
-    } else if (logical === "and") {
-      if (!this.query.$and) {
-        this.query.$and = [];
-      }
-      this.query.$and.push({ [field]: condition } as SafeSiftQuery<T>);
-    } else {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (this.query as any)[field] = condition;
+  ): QueryBuilder<T, D> {
+    const branch = freeze({ [field]: condition }) as SafeSiftQuery<T>;
+    if (logical === "or") return this.addOrBranch(branch);
+    if (logical === "and") return this.addAndBranch(branch);
+    // Keep earlier field comparisons instead of replacing them
+    if (field === "$expr" && this.state.query.$expr !== undefined) {
+      return this.addAndBranch(branch);
     }
+    return this.withQuery({ ...this.state.query, [field]: condition });
+  }
+
+  /**
+   * Internal method that returns the options the builder was created with.
+   *
+   * @internal This method backs the date conditions of FieldBuilder
+   */
+  _options(): QueryBuilderOptions<D> {
+    return this.state.options;
+  }
+
+  /** A new builder with `changes` applied to the state of this one. */
+  private derive(changes: Partial<BuilderState<T, D>>): QueryBuilder<T, D> {
+    const next = new QueryBuilder<T, D>();
+    next.state = freeze({ ...this.state, ...changes });
+    return next;
+  }
+
+  private withQuery(query: SafeSiftQuery<T>): QueryBuilder<T, D> {
+    return this.derive({ query: freeze(query) });
+  }
+
+  private withoutKeys(...keys: string[]): QueryBuilder<T, D> {
+    return this.withQuery(
+      Object.fromEntries(
+        Object.entries(this.state.query).filter(([key]) => !keys.includes(key))
+      ) as SafeSiftQuery<T>
+    );
+  }
+
+  /** ANDs a branch with the query built so far. */
+  private addAndBranch(branch: SafeSiftQuery<T>): QueryBuilder<T, D> {
+    const { query } = this.state;
+    return this.withQuery({
+      ...query,
+      $and: freeze([...(query.$and ?? []), branch]),
+    });
+  }
+
+  /**
+   * ORs a branch with the query built so far. A query that is only an `$or`
+   * gains another alternative; any other non-empty query becomes the first one.
+   */
+  private addOrBranch(branch: SafeSiftQuery<T>): QueryBuilder<T, D> {
+    const { query } = this.state;
+    const keys = Object.keys(query);
+    const branches =
+      keys.length === 1 && query.$or
+        ? [...query.$or, branch]
+        : keys.length
+        ? [query, branch]
+        : [branch];
+    return this.withQuery({ $or: freeze(branches) } as SafeSiftQuery<T>);
   }
 }
 
+/** Builds a nested group, or returns undefined if it has no conditions. */
+function buildGroup<T, D extends DateValue>(
+  group: QueryGroup<T, D>,
+  options: QueryBuilderOptions<D>
+): SafeSiftQuery<T> | undefined {
+  const built = (
+    typeof group === "function" ? group(new QueryBuilder<T, D>(options)) : group
+  ).build();
+  return Object.keys(built).length ? built : undefined;
+}
+
 /**
  * A specialized builder for adding conditions to a specific field in a query.
  * Created by QueryBuilder methods (where, and, or) to provide field-specific query operations.
  *
  * @template T - The type of objects being queried
  * @template K - The specific field path being queried (extends DeepKeyOf<T>)
+ * @template D - The type of fields date conditions such as `before` apply to, set by the builder's `coerceDate` option
  *
  * @example
  * ```typescript
@@ -415,7 +901,12 @@ export class QueryBuilder<T> {
  * ```
  */
 
-export class FieldBuilder<T, K extends DeepKeyOf<T>> {
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+export class FieldBuilder<
+  T,
+  K extends DeepKeyOf<T>,
+  D extends DateValue = Date
+> {
   /**
    * Creates a new FieldBuilder instance for a specific field.
    *
@@ -424,7 +915,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * @param logical - Optional logical operator for combining this condition with others
    */
   constructor(
-    private builder: QueryBuilder<T>,
+    private builder: QueryBuilder<T, D>,
     private field: K,
     private logical?: LogicalOperation
   ) {}
@@ -433,21 +924,33 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Internal method that adds a condition for this field and returns the parent QueryBuilder.
    *
    * @param condition - The condition to apply to this field
-   * @returns The parent QueryBuilder instance for continued chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @internal
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private addCondition(condition: any): QueryBuilder<T> {
-    this.builder._addCondition(this.field, condition, this.logical);
-    return this.builder;
+  private addCondition(condition: any): QueryBuilder<T, D> {
+    return this.builder._addCondition(this.field, condition, this.logical);
+  }
+
+  /**
+   * Internal method that adds a condition using a custom operator registered with `defineOperators`.
+   *
+   * @param operator - The custom operator name, including its `$`
+   * @param operand - The operand given to the operator
+   * @returns A new QueryBuilder with the condition added
+   *
+   * @internal This method backs the FieldBuilder methods added by `defineOperators`
+   */
+  _addOperator(operator: string, operand: unknown): QueryBuilder<T, D> {
+    return this.addCondition({ [operator]: operand });
   }
 
   /**
    * Creates an equality condition for this field (shorthand for exact match).
    *
    * @param value - The exact value to match against
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -458,7 +961,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * // Results in: { name: 'John' }
    * ```
    */
-  equals(value: PathValue<T, K>): QueryBuilder<T> {
+  equals(value: PathValue<T, K>): QueryBuilder<T, D> {
     return this.addCondition(value);
   }
 
@@ -466,7 +969,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates an explicit equality condition using the $eq operator.
    *
    * @param value - The exact value to match against
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -477,7 +980,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * // Results in: { status: { $eq: 'active' } }
    * ```
    */
-  eq(value: PathValue<T, K>): QueryBuilder<T> {
+  eq(value: PathValue<T, K>): QueryBuilder<T, D> {
     return this.addCondition({ $eq: value });
   }
 
@@ -485,7 +988,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a not-equals condition for this field.
    *
    * @param value - The value that should NOT match
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -496,7 +999,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * // Results in: { status: { $ne: 'deleted' } }
    * ```
    */
-  notEquals(value: PathValue<T, K>): QueryBuilder<T> {
+  notEquals(value: PathValue<T, K>): QueryBuilder<T, D> {
     return this.addCondition({ $ne: value });
   }
 
@@ -504,7 +1007,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a not-equals condition for this field (alias for notEquals).
    *
    * @param value - The value that should NOT match
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -515,7 +1018,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * // Results in: { age: { $ne: 0 } }
    * ```
    */
-  ne(value: PathValue<T, K>): QueryBuilder<T> {
+  ne(value: PathValue<T, K>): QueryBuilder<T, D> {
     return this.addCondition({ $ne: value });
   }
 
@@ -523,7 +1026,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a greater-than condition for comparable fields (string, number, Date).
    *
    * @param value - The value to compare against (field value must be greater than this)
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -548,7 +1051,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     value: PathValue<T, K> extends string | number | Date
       ? PathValue<T, K>
       : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $gt: value });
   }
 
@@ -556,7 +1059,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a greater-than condition (alias for greaterThan).
    *
    * @param value - The value to compare against
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -571,7 +1074,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     value: PathValue<T, K> extends string | number | Date
       ? PathValue<T, K>
       : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $gt: value });
   }
 
@@ -579,7 +1082,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a greater-than-or-equal condition for comparable fields.
    *
    * @param value - The value to compare against (field value must be >= this)
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -594,7 +1097,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     value: PathValue<T, K> extends string | number | Date
       ? PathValue<T, K>
       : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $gte: value });
   }
 
@@ -602,7 +1105,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a greater-than-or-equal condition (alias for greaterThanOrEqual).
    *
    * @param value - The value to compare against
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -617,7 +1120,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     value: PathValue<T, K> extends string | number | Date
       ? PathValue<T, K>
       : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $gte: value });
   }
 
@@ -625,7 +1128,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a less-than condition for comparable fields.
    *
    * @param value - The value to compare against (field value must be less than this)
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -640,7 +1143,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     value: PathValue<T, K> extends string | number | Date
       ? PathValue<T, K>
       : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $lt: value });
   }
 
@@ -648,7 +1151,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a less-than condition (alias for lessThan).
    *
    * @param value - The value to compare against
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -663,7 +1166,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     value: PathValue<T, K> extends string | number | Date
       ? PathValue<T, K>
       : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $lt: value });
   }
 
@@ -671,7 +1174,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a less-than-or-equal condition for comparable fields.
    *
    * @param value - The value to compare against (field value must be <= this)
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -686,7 +1189,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     value: PathValue<T, K> extends string | number | Date
       ? PathValue<T, K>
       : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $lte: value });
   }
 
@@ -694,7 +1197,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a less-than-or-equal condition (alias for lessThanOrEqual).
    *
    * @param value - The value to compare against
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -709,7 +1212,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     value: PathValue<T, K> extends string | number | Date
       ? PathValue<T, K>
       : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $lte: value });
   }
 
@@ -719,7 +1222,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * For non-array fields, checks if the field value matches any value in the array.
    *
    * @param values - Array of values to match against
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -740,7 +1243,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     values: PathValue<T, K> extends ReadonlyArray<infer U>
       ? U[]
       : PathValue<T, K>[]
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $in: values });
   }
 
@@ -749,7 +1252,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Opposite of the `in` method.
    *
    * @param values - Array of values to exclude
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -764,7 +1267,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     values: PathValue<T, K> extends ReadonlyArray<infer U>
       ? U[]
       : PathValue<T, K>[]
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $nin: values });
   }
 
@@ -773,7 +1276,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Alias for `notIn`.
    *
    * @param values - Array of values to exclude
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -788,7 +1291,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     values: PathValue<T, K> extends ReadonlyArray<infer U>
       ? U[]
       : PathValue<T, K>[]
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $nin: values });
   }
 
@@ -797,7 +1300,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Only works with array fields.
    *
    * @param value - The value that should be present in the array
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -811,7 +1314,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    */
   contains(
     value: PathValue<T, K> extends ReadonlyArray<infer U> ? U : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition(value);
   }
 
@@ -820,7 +1323,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Only works with string fields.
    *
    * @param pattern - Regular expression pattern (RegExp object or string)
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -842,7 +1345,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    */
   regex(
     pattern: PathValue<T, K> extends string ? RegExp | string : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $regex: pattern });
   }
 
@@ -851,7 +1354,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Alias for `regex` method. Only works with string fields.
    *
    * @param pattern - Regular expression pattern (RegExp object or string)
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -865,7 +1368,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    */
   matches(
     pattern: PathValue<T, K> extends string ? RegExp | string : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $regex: pattern });
   }
 
@@ -873,7 +1376,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Creates a condition that checks if a field exists (is not null or undefined).
    *
    * @param value - Whether the field should exist (default: true)
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -894,7 +1397,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * // Matches users who do NOT have a middle name
    * ```
    */
-  exists(value: boolean = true): QueryBuilder<T> {
+  exists(value: boolean = true): QueryBuilder<T, D> {
     return this.addCondition({ $exists: value });
   }
 
@@ -903,7 +1406,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Only works with array fields.
    *
    * @param value - The exact length the array should have
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -917,7 +1420,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    */
   size(
     value: PathValue<T, K> extends ReadonlyArray<unknown> ? number : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $size: value });
   }
 
@@ -927,7 +1430,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Only works with array fields.
    *
    * @param values - Array of values that must ALL be present in the field
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -941,7 +1444,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    */
   all(
     values: PathValue<T, K> extends ReadonlyArray<infer U> ? U[] : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $all: values });
   }
 
@@ -950,7 +1453,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    * Useful for querying arrays of objects. Only works with array fields.
    *
    * @param query - A SafeSiftQuery to apply to each array element
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -970,7 +1473,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     query: PathValue<T, K> extends ReadonlyArray<infer U>
       ? SafeSiftQuery<U>
       : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $elemMatch: query });
   }
 
@@ -980,7 +1483,7 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
    *
    * @param min - The minimum value (inclusive)
    * @param max - The maximum value (inclusive)
-   * @returns The parent QueryBuilder for method chaining
+   * @returns A new QueryBuilder with the condition added
    *
    * @example
    * ```typescript
@@ -1006,16 +1509,396 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
     max: PathValue<T, K> extends string | number | Date
       ? PathValue<T, K>
       : never
-  ): QueryBuilder<T> {
+  ): QueryBuilder<T, D> {
     return this.addCondition({ $gte: min, $lte: max });
   }
+
+  /**
+   * Internal method that adds a condition on dates, converting them with the
+   * builder's `coerceDate` option.
+   *
+   * @param bounds - The dates to compare with, by operator
+   * @returns A new QueryBuilder with the condition added
+   * @throws {RangeError} If one of the dates is invalid
+   *
+   * @internal
+   */
+  private addDateCondition(bounds: Record<string, Date>): QueryBuilder<T, D> {
+    const { coerceDate = (date: Date): unknown => date } =
+      this.builder._options();
+    const condition: Record<string, unknown> = {};
+    for (const [operator, date] of Object.entries(bounds)) {
+      if (Number.isNaN(date.getTime())) throw new RangeError("Invalid date");
+      condition[operator] = coerceDate(date);
+    }
+    return this.addCondition(condition);
+  }
+
+  /**
+   * Internal method that reads the builder's clock and returns the date `duration` before now, and now.
+   *
+   * @internal
+   */
+  private ago(duration: DateDuration): [Date, Date] {
+    const { now = (): Date => new Date(), utc = false } =
+      this.builder._options();
+    const current = now();
+    return [subtractDuration(current, duration, utc), current];
+  }
+
+  /**
+   * Creates a condition that a date field is before the given date. Only works with date fields.
+   *
+   * @param date - The date the field value must be earlier than
+   * @returns A new QueryBuilder with the condition added
+   * @throws {RangeError} If the date is invalid
+   *
+   * @example
+   * ```typescript
+   * const query = new QueryBuilder<Post>()
+   *   .where('createdAt').before(new Date('2024-01-01'))
+   *   .build();
+   *
+   * // Results in: { createdAt: { $lt: new Date('2024-01-01') } }
+   * ```
+   */
+  before(date: OnDateField<T, K, D, Date>): QueryBuilder<T, D> {
+    return this.addDateCondition({ $lt: date });
+  }
+
+  /**
+   * Creates a condition that a date field is after the given date. Only works with date fields.
+   *
+   * @param date - The date the field value must be later than
+   * @returns A new QueryBuilder with the condition added
+   * @throws {RangeError} If the date is invalid
+   *
+   * @example
+   * ```typescript
+   * const query = new QueryBuilder<Post>()
+   *   .where('createdAt').after(new Date('2024-01-01'))
+   *   .build();
+   *
+   * // Results in: { createdAt: { $gt: new Date('2024-01-01') } }
+   * ```
+   */
+  after(date: OnDateField<T, K, D, Date>): QueryBuilder<T, D> {
+    return this.addDateCondition({ $gt: date });
+  }
+
+  /**
+   * Creates a condition that a date field lies within the given duration before
+   * now, up to and including now. The current time comes from the builder's `now`
+   * option, and is read when the condition is added. Only works with date fields.
+   *
+   * @param duration - How far back from now the field value may be
+   * @returns A new QueryBuilder with the condition added
+   * @throws {RangeError} If an amount of the duration is not a non-negative integer
+   *
+   * @example
+   * ```typescript
+   * const query = query<Post>({ now: () => new Date('2024-06-08T12:00:00Z') })
+   *   .where('createdAt').withinLast({ days: 7 })
+   *   .build();
+   *
+   * // Results in: {
+   * //   createdAt: { $gte: new Date('2024-06-01T12:00:00Z'), $lte: new Date('2024-06-08T12:00:00Z') }
+   * // }
+   * ```
+   */
+  withinLast(duration: OnDateField<T, K, D, DateDuration>): QueryBuilder<T, D> {
+    const [start, current] = this.ago(duration);
+    return this.addDateCondition({ $gte: start, $lte: current });
+  }
+
+  /**
+   * Creates a condition that a date field is more than the given duration before
+   * now. The current time comes from the builder's `now` option, and is read when
+   * the condition is added. Only works with date fields.
+   *
+   * @param duration - How far back from now the field value must at least be
+   * @returns A new QueryBuilder with the condition added
+   * @throws {RangeError} If an amount of the duration is not a non-negative integer
+   *
+   * @example
+   * ```typescript
+   * const query = query<User>({ now: () => new Date('2024-06-01T00:00:00Z') })
+   *   .where('lastLogin').olderThan({ months: 6 })
+   *   .build();
+   *
+   * // Results in: { lastLogin: { $lt: new Date('2023-12-01T00:00:00Z') } }
+   * ```
+   */
+  olderThan(duration: OnDateField<T, K, D, DateDuration>): QueryBuilder<T, D> {
+    const [start] = this.ago(duration);
+    return this.addDateCondition({ $lt: start });
+  }
+
+  /**
+   * Creates a condition that a date field falls on the same calendar day as the
+   * given date, in local time or in UTC with the builder's `utc` option. Only works
+   * with date fields.
+   *
+   * @param date - Any time on the day to match
+   * @returns A new QueryBuilder with the condition added
+   * @throws {RangeError} If the date is invalid
+   *
+   * @example
+   * ```typescript
+   * const query = query<Post>({ utc: true })
+   *   .where('createdAt').onDay(new Date('2024-03-10T15:30:00Z'))
+   *   .build();
+   *
+   * // Results in: {
+   * //   createdAt: { $gte: new Date('2024-03-10T00:00:00Z'), $lt: new Date('2024-03-11T00:00:00Z') }
+   * // }
+   * ```
+   */
+  onDay(date: OnDateField<T, K, D, Date>): QueryBuilder<T, D> {
+    const [start, end] = calendarRange(
+      date,
+      "day",
+      this.builder._options().utc ?? false
+    );
+    return this.addDateCondition({ $gte: start, $lt: end });
+  }
+
+  /**
+   * Creates a condition that a date field falls in the same calendar month as the
+   * given date, in local time or in UTC with the builder's `utc` option. Only works
+   * with date fields.
+   *
+   * @param date - Any time in the month to match
+   * @returns A new QueryBuilder with the condition added
+   * @throws {RangeError} If the date is invalid
+   *
+   * @example
+   * ```typescript
+   * const query = query<Post>({ utc: true })
+   *   .where('createdAt').inMonth(new Date('2024-02-14T00:00:00Z'))
+   *   .build();
+   *
+   * // Results in: {
+   * //   createdAt: { $gte: new Date('2024-02-01T00:00:00Z'), $lt: new Date('2024-03-01T00:00:00Z') }
+   * // }
+   * ```
+   */
+  inMonth(date: OnDateField<T, K, D, Date>): QueryBuilder<T, D> {
+    const [start, end] = calendarRange(
+      date,
+      "month",
+      this.builder._options().utc ?? false
+    );
+    return this.addDateCondition({ $gte: start, $lt: end });
+  }
+
+  /**
+   * Creates a condition that a date field lies in the half-open range from `start`
+   * up to but excluding `end`, so consecutive ranges do not overlap. Use `between`
+   * to include both ends. Only works with date fields.
+   *
+   * @param start - The earliest date to match (inclusive)
+   * @param end - The date the field value must be earlier than (exclusive)
+   * @returns A new QueryBuilder with the condition added
+   * @throws {RangeError} If one of the dates is invalid
+   *
+   * @example
+   * ```typescript
+   * const query = new QueryBuilder<Post>()
+   *   .where('createdAt').inRange(new Date('2024-01-01'), new Date('2024-04-01'))
+   *   .build();
+   *
+   * // Results in: { createdAt: { $gte: new Date('2024-01-01'), $lt: new Date('2024-04-01') } }
+   * ```
+   */
+  inRange(
+    start: OnDateField<T, K, D, Date>,
+    end: OnDateField<T, K, D, Date>
+  ): QueryBuilder<T, D> {
+    return this.addDateCondition({ $gte: start, $lt: end });
+  }
+
+  /**
+   * Internal method that compares this field with another field of the document through `$expr`.
+   *
+   * @param operator - The comparison operator of the expression
+   * @param other - The path of the field to compare with
+   * @returns A new QueryBuilder with the condition added
+   *
+   * @internal
+   */
+  private addFieldComparison(
+    operator: string,
+    other: string
+  ): QueryBuilder<T, D> {
+    return this.builder._addCondition(
+      "$expr",
+      { [operator]: [`$${this.field}`, `$${other}`] },
+      this.logical
+    );
+  }
+
+  /**
+   * Creates a condition that this field has the same value as another field, using `$expr`.
+   * The other field must hold values of the same type.
+   *
+   * @param field - The path of the field to compare with
+   * @returns A new QueryBuilder with the condition added
+   *
+   * @example
+   * ```typescript
+   * const query = new QueryBuilder<Order>()
+   *   .where('billingAddress.city').equalsField('shippingAddress.city')
+   *   .build();
+   *
+   * // Results in: { $expr: { $eq: ['$billingAddress.city', '$shippingAddress.city'] } }
+   * ```
+   */
+  equalsField(
+    field: FieldOfType<T, NonNullable<PathValue<T, K>>>
+  ): QueryBuilder<T, D> {
+    return this.addFieldComparison("$eq", field);
+  }
+
+  /**
+   * Creates a condition that this field differs from another field, using `$expr`.
+   * The other field must hold values of the same type.
+   *
+   * @param field - The path of the field to compare with
+   * @returns A new QueryBuilder with the condition added
+   *
+   * @example
+   * ```typescript
+   * const query = new QueryBuilder<Order>()
+   *   .where('billingAddress.city').notEqualsField('shippingAddress.city')
+   *   .build();
+   *
+   * // Results in: { $expr: { $ne: ['$billingAddress.city', '$shippingAddress.city'] } }
+   * ```
+   */
+  notEqualsField(
+    field: FieldOfType<T, NonNullable<PathValue<T, K>>>
+  ): QueryBuilder<T, D> {
+    return this.addFieldComparison("$ne", field);
+  }
+
+  /**
+   * Creates a condition that this field is greater than another field, using `$expr`.
+   * The other field must hold values of the same type. Both fields must be strings, numbers or dates.
+   *
+   * @param field - The path of the field to compare with
+   * @returns A new QueryBuilder with the condition added
+   *
+   * @example
+   * ```typescript
+   * const query = new QueryBuilder<Project>()
+   *   .where('spent').greaterThanField('budget')
+   *   .build();
+   *
+   * // Results in: { $expr: { $gt: ['$spent', '$budget'] } }
+   * ```
+   */
+  greaterThanField(
+    field: ComparableField<T, PathValue<T, K>>
+  ): QueryBuilder<T, D> {
+    return this.addFieldComparison("$gt", field);
+  }
+
+  /**
+   * Creates a condition that this field is greater than or equal to another field, using `$expr`.
+   * The other field must hold values of the same type. Both fields must be strings, numbers or dates.
+   *
+   * @param field - The path of the field to compare with
+   * @returns A new QueryBuilder with the condition added
+   *
+   * @example
+   * ```typescript
+   * const query = new QueryBuilder<Project>()
+   *   .where('spent').greaterThanOrEqualField('budget')
+   *   .build();
+   *
+   * // Results in: { $expr: { $gte: ['$spent', '$budget'] } }
+   * ```
+   */
+  greaterThanOrEqualField(
+    field: ComparableField<T, PathValue<T, K>>
+  ): QueryBuilder<T, D> {
+    return this.addFieldComparison("$gte", field);
+  }
+
+  /**
+   * Creates a condition that this field is less than another field, using `$expr`.
+   * The other field must hold values of the same type. Both fields must be strings, numbers or dates.
+   *
+   * @param field - The path of the field to compare with
+   * @returns A new QueryBuilder with the condition added
+   *
+   * @example
+   * ```typescript
+   * const query = new QueryBuilder<Post>()
+   *   .where('updatedAt').lessThanField('createdAt')
+   *   .build();
+   *
+   * // Results in: { $expr: { $lt: ['$updatedAt', '$createdAt'] } }
+   * ```
+   */
+  lessThanField(
+    field: ComparableField<T, PathValue<T, K>>
+  ): QueryBuilder<T, D> {
+    return this.addFieldComparison("$lt", field);
+  }
+
+  /**
+   * Creates a condition that this field is less than or equal to another field, using `$expr`.
+   * The other field must hold values of the same type. Both fields must be strings, numbers or dates.
+   *
+   * @param field - The path of the field to compare with
+   * @returns A new QueryBuilder with the condition added
+   *
+   * @example
+   * ```typescript
+   * const query = new QueryBuilder<Post>()
+   *   .where('updatedAt').lessThanOrEqualField('createdAt')
+   *   .build();
+   *
+   * // Results in: { $expr: { $lte: ['$updatedAt', '$createdAt'] } }
+   * ```
+   */
+  lessThanOrEqualField(
+    field: ComparableField<T, PathValue<T, K>>
+  ): QueryBuilder<T, D> {
+    return this.addFieldComparison("$lte", field);
+  }
 }
 
+/**
+ * Methods added to FieldBuilder by the custom operators registered in `CustomOperators`,
+ * such as `startsWith(prefix)` for a `$startsWith` operator. `defineOperators` installs
+ * them at runtime; their operand is `never` on fields the operator does not apply to.
+ *
+ * @example
+ * ```typescript
+ * const query = new QueryBuilder<User>()
+ *   .where('name').startsWith('Jo')
+ *   .build();
+ *
+ * // Results in: { name: { $startsWith: 'Jo' } }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface, @typescript-eslint/no-unsafe-declaration-merging
+export interface FieldBuilder<
+  T,
+  K extends DeepKeyOf<T>,
+  D extends DateValue = Date
+> extends CustomFieldMethods<PathValue<T, K>, QueryBuilder<T, D>> {}
+
 /**
  * Factory function that creates a new QueryBuilder instance.
  * This is the main entry point for building type-safe queries.
  *
  * @template T - The type of objects to be queried
+ * @template D - What the `coerceDate` option turns dates into (default: Date); inferred for strings and numbers
+ * @param options - Clock, date coercion and time zone used by date conditions such as `withinLast`
  * @returns A new QueryBuilder instance for type T
  *
  * @example
@@ -1056,8 +1939,20 @@ export class FieldBuilder<T, K extends DeepKeyOf<T>> {
  * ```
  */
 
-export function query<T>(): QueryBuilder<T> {
-  return new QueryBuilder<T>();
+export function query<T>(
+  options: CoercingOptions<string>
+): QueryBuilder<T, string>;
+export function query<T>(
+  options: CoercingOptions<number>
+): QueryBuilder<T, number>;
+export function query<T>(options?: QueryBuilderOptions): QueryBuilder<T>;
+export function query<T, D extends DateValue>(
+  options?: QueryBuilderOptions<D>
+): QueryBuilder<T, D>;
+export function query<T, D extends DateValue>(
+  options: QueryBuilderOptions<D> = {}
+): QueryBuilder<T, D> {
+  return new QueryBuilder<T, D>(options);
 }
 
 // TODO: split this file to multiple files and fix all the eslint disable
@@ -1,12 +1,35 @@
-import { SafeSiftQuery } from "./types";
+import {
+  ExplainGroup,
+  Projected,
+  Projection,
+  SafeSiftQuery,
+  SafeUpdate,
+  UpdateOptions,
+} from "./types";
 import { createSiftFunction } from "./create-sift-function";
 import type { FindResult } from "./find-result";
+import type { SafeSiftOptions } from "./safe-sift-options";
+import { SafeSiftCursor } from "./safe-sift-cursor";
+import { applyProjection } from "./apply-projection";
+import { applyUpdate } from "./update";
+import { explainQuery } from "./explain";
+import {
+  countAsync,
+  everyAsync,
+  findAsync,
+  matchAsyncIterable,
+  matchIterable,
+  someAsync,
+} from "./stream";
+
+type SiftFunction = ReturnType<typeof createSiftFunction>;
 
 /**
  * A type-safe wrapper around the sift library that provides MongoDB-style querying for JavaScript objects.
  * Enables filtering, searching, and testing objects against complex query conditions with full type safety.
  *
  * @template T - The type of objects this SafeSift instance will operate on
+ * @template P - The projection applied to returned objects (none by default)
  *
  * @example
  * ```typescript
@@ -40,14 +63,55 @@ import type { FindResult } from "./find-result";
  * // Find first match
  * const firstMatch = safeSift.find(users); // John
  * ```
+ *
+ * The query is compiled into a sift matcher lazily, on the first method call, and the
+ * compiled matcher is reused by every later call. The query object is treated as
+ * immutable: if you mutate it in place after the first call, call `recompile()`.
  */
-export class SafeSift<T> {
+export class SafeSift<T, P extends Projection<T> = Record<never, never>> {
+  private compiled: SiftFunction | null = null;
+
   /**
    * Creates a new SafeSift instance with the specified query.
    *
    * @param query - The SafeSiftQuery to use for filtering and testing objects
+   * @param options - Optional sort, skip, limit and projection applied by `filter`, `find` and `cursor`
+   */
+  constructor(
+    private readonly query: SafeSiftQuery<T>,
+    private readonly options: SafeSiftOptions<T, P> = {}
+  ) {}
+
+  /**
+   * Returns the compiled sift matcher, compiling the query on first access.
+   */
+  private get siftFn(): SiftFunction {
+    if (!this.compiled) {
+      this.compiled = createSiftFunction(this.query);
+    }
+    return this.compiled;
+  }
+
+  /**
+   * Discards the cached matcher and compiles the query again.
+   * Only needed when the query object passed to the constructor was mutated in place.
+   *
+   * @returns This SafeSift instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * const query: SafeSiftQuery<User> = { age: { $gt: 18 } };
+   * const safeSift = new SafeSift<User>(query);
+   * safeSift.test({ name: 'Jane', age: 16 }); // false
+   *
+   * query.age = { $gt: 10 };
+   * safeSift.recompile().test({ name: 'Jane', age: 16 }); // true
+   * ```
    */
-  constructor(private readonly query: SafeSiftQuery<T>) {}
+  recompile(): SafeSift<T, P> {
+    this.compiled = createSiftFunction(this.query);
+    return this;
+  }
 
   /**
    * Tests whether a single object matches the query conditions.
@@ -71,12 +135,36 @@ export class SafeSift<T> {
    * ```
    */
   test(obj: T): boolean {
-    const siftFn = createSiftFunction(this.query);
-    return siftFn(obj);
+    return this.siftFn(obj);
+  }
+
+  /**
+   * Explains why an object does or does not match the query. Returns a tree mirroring
+   * the query in which every predicate carries its path, operator, expected value,
+   * the actual value found on the object and whether it passed.
+   *
+   * @param obj - The object to evaluate
+   * @returns The root `$and` group; its `pass` equals `test(obj)`
+   *
+   * @example
+   * ```typescript
+   * const segment = new SafeSift<User>({ age: { $gte: 18 }, 'profile.active': true });
+   * const explanation = segment.explain({ name: 'Jane', age: 16, profile: { active: true } });
+   *
+   * explanation.pass; // false
+   * console.log(formatExplanation(explanation));
+   * // FAIL $and
+   * //   FAIL age $gte 18 (actual: 16)
+   * //   PASS profile.active $eq true (actual: true)
+   * ```
+   */
+  explain(obj: T): ExplainGroup {
+    return explainQuery(this.query, obj);
   }
 
   /**
    * Filters an array of objects, returning only those that match the query conditions.
+   * The `sort`, `skip`, `limit` and `project` options given to the constructor are applied to the result.
    *
    * @param array - The array of objects to filter
    * @returns A new array containing only objects that match the query
@@ -100,13 +188,65 @@ export class SafeSift<T> {
    * // Result: [{ name: 'John', age: 25, active: true }, { name: 'Bob', age: 35, active: true }]
    * ```
    */
-  filter(array: T[]): T[] {
-    const siftFn = createSiftFunction(this.query);
-    return array.filter(siftFn);
+  filter(array: T[]): Projected<T, P>[] {
+    return this.cursor(array).toArray();
+  }
+
+  /**
+   * Opens a cursor over the matching objects of an array, for sorting, skipping and limiting.
+   * The cursor starts from the `sort`, `skip`, `limit` and `project` options given to the constructor.
+   *
+   * @param array - The array of objects to query
+   * @returns A SafeSiftCursor whose `toArray()` returns the shaped results
+   *
+   * @example
+   * ```typescript
+   * interface User {
+   *   name: string;
+   *   profile: { age: number };
+   * }
+   *
+   * const safeSift = new SafeSift<User>({ 'profile.age': { $gte: 18 } });
+   * const oldestFirst = safeSift
+   *   .cursor(users)
+   *   .sort({ 'profile.age': -1, name: 1 })
+   *   .limit(10)
+   *   .toArray();
+   * ```
+   */
+  cursor(array: T[]): SafeSiftCursor<T, P> {
+    return new SafeSiftCursor(array, this.siftFn, this.options);
+  }
+
+  /**
+   * Returns a SafeSift with the same query and options whose results are narrowed
+   * by a MongoDB-style projection. Keys are checked against `DeepKeyOf<T>`, and
+   * mixing inclusion (`1`) with exclusion (`0`) is a compile error.
+   *
+   * @param projection - Inclusion or exclusion map of field paths
+   * @returns A new SafeSift whose `filter`, `find` and `cursor` return the projected shape
+   *
+   * @example
+   * ```typescript
+   * interface User {
+   *   name: string;
+   *   age: number;
+   *   profile: { age: number; bio: string };
+   * }
+   *
+   * const rows = new SafeSift<User>({ age: { $gte: 18 } })
+   *   .project({ name: 1, 'profile.age': 1 })
+   *   .filter(users);
+   * // rows: { name: string; profile: { age: number } }[]
+   * ```
+   */
+  project<Q extends Projection<T>>(projection: Q): SafeSift<T, Q> {
+    return new SafeSift(this.query, { ...this.options, project: projection });
   }
 
   /**
    * Finds the first object in an array that matches the query conditions.
+   * The `project` option given to the constructor is applied to the result.
    *
    * @param array - The array of objects to search
    * @returns The first matching object, or `undefined` if no match is found
@@ -129,9 +269,11 @@ export class SafeSift<T> {
    * // Result: { name: 'Jane', role: 'admin' }
    * ```
    */
-  find(array: T[]): FindResult<T> {
-    const siftFn = createSiftFunction(this.query);
-    return array.find(siftFn);
+  find(array: T[]): FindResult<Projected<T, P>> {
+    const found = array.find(this.siftFn);
+    return found === undefined
+      ? undefined
+      : applyProjection(found, this.options.project);
   }
 
   /**
@@ -159,8 +301,7 @@ export class SafeSift<T> {
    * ```
    */
   findIndex(array: T[]): number {
-    const siftFn = createSiftFunction(this.query);
-    return array.findIndex(siftFn);
+    return array.findIndex(this.siftFn);
   }
 
   /**
@@ -188,8 +329,7 @@ export class SafeSift<T> {
    * ```
    */
   some(array: T[]): boolean {
-    const siftFn = createSiftFunction(this.query);
-    return array.some(siftFn);
+    return array.some(this.siftFn);
   }
 
   /**
@@ -217,8 +357,7 @@ export class SafeSift<T> {
    * ```
    */
   every(array: T[]): boolean {
-    const siftFn = createSiftFunction(this.query);
-    return array.every(siftFn);
+    return array.every(this.siftFn);
   }
 
   /**
@@ -246,7 +385,169 @@ export class SafeSift<T> {
    * ```
    */
   count(array: T[]): number {
-    const siftFn = createSiftFunction(this.query);
-    return array.filter(siftFn).length;
+    return array.filter(this.siftFn).length;
+  }
+
+  /**
+   * Lazily filters any iterable, such as a generator over a large file, without
+   * collecting it into an array. The `skip`, `limit` and `project` options given
+   * to the constructor apply as documents are read, and reading stops once the
+   * limit is reached.
+   *
+   * @param iterable - The documents to filter
+   * @returns An iterator over the matching documents
+   * @throws {Error} If a `sort` option was given, since sorting needs every document first
+   *
+   * @example
+   * ```typescript
+   * function* readEntries(): Generator<LogEntry> { ... }
+   *
+   * const errors = new SafeSift<LogEntry>({ level: 'error' }, { limit: 100 });
+   * for (const entry of errors.filterIterable(readEntries())) {
+   *   report(entry);
+   * }
+   * ```
+   */
+  filterIterable(iterable: Iterable<T>): IterableIterator<Projected<T, P>> {
+    return matchIterable(iterable, this.siftFn, this.options);
+  }
+
+  /**
+   * Lazily filters an async iterable, such as a database cursor or a readable
+   * stream, without collecting it into an array. The `skip`, `limit` and
+   * `project` options given to the constructor apply as documents arrive, and
+   * the source is closed once the limit is reached.
+   *
+   * @param iterable - The documents to filter; a sync iterable is accepted too
+   * @returns An async iterator over the matching documents
+   * @throws {Error} If a `sort` option was given, since sorting needs every document first
+   *
+   * @example
+   * ```typescript
+   * const active = new SafeSift<User>({ active: true }, { project: { name: 1 } });
+   * for await (const user of active.filterAsync(db.collection('users').find())) {
+   *   console.log(user.name);
+   * }
+   * ```
+   */
+  filterAsync(
+    iterable: AsyncIterable<T> | Iterable<T>
+  ): AsyncIterableIterator<Projected<T, P>> {
+    return matchAsyncIterable(iterable, this.siftFn, this.options);
+  }
+
+  /**
+   * Finds the first document of an async iterable that matches the query, and
+   * stops reading there. The `project` option given to the constructor is applied.
+   *
+   * @param iterable - The documents to search; a sync iterable is accepted too
+   * @returns A promise of the first matching document, or `undefined`
+   *
+   * @example
+   * ```typescript
+   * const admin = await new SafeSift<User>({ role: 'admin' }).findAsync(cursor);
+   * ```
+   */
+  findAsync(
+    iterable: AsyncIterable<T> | Iterable<T>
+  ): Promise<FindResult<Projected<T, P>>> {
+    return findAsync(iterable, this.siftFn, this.options.project);
+  }
+
+  /**
+   * Counts the documents of an async iterable that match the query.
+   *
+   * @param iterable - The documents to count; a sync iterable is accepted too
+   * @returns A promise of the number of matching documents
+   *
+   * @example
+   * ```typescript
+   * const errors = await new SafeSift<LogEntry>({ level: 'error' }).countAsync(entries);
+   * ```
+   */
+  countAsync(iterable: AsyncIterable<T> | Iterable<T>): Promise<number> {
+    return countAsync(iterable, this.siftFn);
+  }
+
+  /**
+   * Tests whether a document of an async iterable matches the query, and stops
+   * reading at the first match.
+   *
+   * @param iterable - The documents to test; a sync iterable is accepted too
+   * @returns A promise of `true` if at least one document matches
+   *
+   * @example
+   * ```typescript
+   * const anyFailed = await new SafeSift<Job>({ status: 'failed' }).someAsync(jobs);
+   * ```
+   */
+  someAsync(iterable: AsyncIterable<T> | Iterable<T>): Promise<boolean> {
+    return someAsync(iterable, this.siftFn);
+  }
+
+  /**
+   * Tests whether every document of an async iterable matches the query, and
+   * stops reading at the first document that does not.
+   *
+   * @param iterable - The documents to test; a sync iterable is accepted too
+   * @returns A promise of `true` if all documents match
+   *
+   * @example
+   * ```typescript
+   * const allDone = await new SafeSift<Job>({ status: 'done' }).everyAsync(jobs);
+   * ```
+   */
+  everyAsync(iterable: AsyncIterable<T> | Iterable<T>): Promise<boolean> {
+    return everyAsync(iterable, this.siftFn);
+  }
+
+  /**
+   * Applies a MongoDB-style update to every object in an array that matches the query.
+   * Positional `$` paths resolve to the first array element matched by this query.
+   * By default the input is left untouched and a new array is returned in which the
+   * matching objects are replaced by updated copies; with `mutate: true` the matching
+   * objects are modified in place and the same array is returned.
+   *
+   * @param array - The array of objects to update
+   * @param update - The update document; paths and values are checked against `T`
+   * @param options - Set `mutate` to update the objects in place
+   * @returns The array with the matching objects updated
+   *
+   * @example
+   * ```typescript
+   * interface User {
+   *   name: string;
+   *   active: boolean;
+   *   loginCount: number;
+   *   posts: { title: string; views: number }[];
+   * }
+   *
+   * const updated = new SafeSift<User>({ active: true }).updateMany(users, {
+   *   $inc: { loginCount: 1 },
+   *   $set: { name: 'Active user' },
+   * });
+   *
+   * new SafeSift<User>({ 'posts.title': 'Hello' }).updateMany(
+   *   users,
+   *   { $inc: { 'posts.$.views': 1 } },
+   *   { mutate: true }
+   * );
+   * ```
+   */
+  updateMany(
+    array: T[],
+    update: SafeUpdate<T>,
+    options: Pick<UpdateOptions<T>, "mutate"> = {}
+  ): T[] {
+    const updateOptions = { ...options, query: this.query };
+    if (options.mutate) {
+      for (const obj of array) {
+        if (this.siftFn(obj)) applyUpdate(obj, update, updateOptions);
+      }
+      return array;
+    }
+    return array.map((obj) =>
+      this.siftFn(obj) ? applyUpdate(obj, update, updateOptions) : obj
+    );
   }
-}
\ No newline at end of file
+}
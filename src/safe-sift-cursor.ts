@@ -0,0 +1,139 @@
+import type { Projected, Projection, SortSpec } from "./types";
+import type { SafeSiftOptions } from "./safe-sift-options";
+import { sortDocuments } from "./sort-documents";
+import { applyProjection } from "./apply-projection";
+
+function assertCount(method: string, n: number): void {
+  if (!Number.isInteger(n) || n < 0) {
+    throw new RangeError(
+      `${method}() expects a non-negative integer, received ${n}`
+    );
+  }
+}
+
+/**
+ * A MongoDB-style cursor over the documents of an array that match a query.
+ * Sorting, skipping, limiting and projection are recorded by chaining and applied,
+ * in that order, when the results are read with `toArray()`.
+ *
+ * @template T - The type of objects in the underlying array
+ * @template P - The projection applied to returned documents
+ *
+ * @example
+ * ```typescript
+ * interface User {
+ *   name: string;
+ *   profile: { age: number };
+ * }
+ *
+ * const page = new SafeSift<User>({ 'profile.age': { $gte: 18 } })
+ *   .cursor(users)
+ *   .sort({ 'profile.age': -1, name: 1 })
+ *   .skip(20)
+ *   .limit(10)
+ *   .toArray();
+ * ```
+ */
+export class SafeSiftCursor<T, P extends Projection<T> = Record<never, never>> {
+  private sortSpec: SortSpec<T> | undefined;
+  private skipCount = 0;
+  private limitCount = 0;
+
+  /**
+   * Creates a new cursor. Usually obtained from `SafeSift.cursor()` rather than constructed directly.
+   *
+   * @param source - The array to read documents from
+   * @param test - Predicate selecting the documents the cursor yields
+   * @param options - Initial sort, skip, limit and projection settings
+   */
+  constructor(
+    private readonly source: readonly T[],
+    private readonly test: (obj: T) => boolean,
+    private readonly options: SafeSiftOptions<T, P> = {}
+  ) {
+    this.sortSpec = options.sort;
+    if (options.skip !== undefined) this.skip(options.skip);
+    if (options.limit !== undefined) this.limit(options.limit);
+  }
+
+  /**
+   * Sets the sort order, replacing any previous one. Fields are compared in the
+   * order they appear, using MongoDB's ordering across mixed types, nulls and Dates.
+   *
+   * @param spec - Map of field paths to `1` (ascending) or `-1` (descending)
+   * @returns This cursor for method chaining
+   *
+   * @example
+   * ```typescript
+   * cursor.sort({ 'profile.age': -1, name: 1 });
+   * ```
+   */
+  sort(spec: SortSpec<T>): SafeSiftCursor<T, P> {
+    this.sortSpec = spec;
+    return this;
+  }
+
+  /**
+   * Skips the first `n` matching documents.
+   *
+   * @param n - Number of documents to skip
+   * @returns This cursor for method chaining
+   * @throws {RangeError} If `n` is not a non-negative integer
+   */
+  skip(n: number): SafeSiftCursor<T, P> {
+    assertCount("skip", n);
+    this.skipCount = n;
+    return this;
+  }
+
+  /**
+   * Limits the number of documents returned. A limit of 0 means no limit.
+   *
+   * @param n - Maximum number of documents to return
+   * @returns This cursor for method chaining
+   * @throws {RangeError} If `n` is not a non-negative integer
+   */
+  limit(n: number): SafeSiftCursor<T, P> {
+    assertCount("limit", n);
+    this.limitCount = n;
+    return this;
+  }
+
+  /**
+   * Returns a cursor with the same settings that narrows each returned document
+   * with a MongoDB-style projection. The result type follows the projection.
+   *
+   * @param projection - Inclusion (`1`) or exclusion (`0`) map of field paths
+   * @returns A new cursor typed to the projected shape
+   *
+   * @example
+   * ```typescript
+   * const rows = cursor.project({ name: 1, 'profile.age': 1 }).toArray();
+   * // rows: { name: string; profile: { age: number } }[]
+   * ```
+   */
+  project<Q extends Projection<T>>(projection: Q): SafeSiftCursor<T, Q> {
+    const options: SafeSiftOptions<T, Q> = {
+      skip: this.skipCount,
+      limit: this.limitCount,
+      project: projection,
+    };
+    if (this.sortSpec) options.sort = this.sortSpec;
+    return new SafeSiftCursor(this.source, this.test, options);
+  }
+
+  /**
+   * Runs the query and returns the matching documents after sort, skip, limit and projection.
+   *
+   * @returns A new array of matching documents
+   */
+  toArray(): Projected<T, P>[] {
+    const matches = this.source.filter((obj) => this.test(obj));
+    const sorted = this.sortSpec
+      ? sortDocuments(matches, this.sortSpec)
+      : matches;
+    const end = this.limitCount ? this.skipCount + this.limitCount : undefined;
+    const page = sorted.slice(this.skipCount, end);
+    return page.map((doc) => applyProjection(doc, this.options.project));
+  }
+}
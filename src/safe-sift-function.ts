@@ -1,13 +1,27 @@
-import { SafeSiftQuery } from "./types";
+import { Projection, SafeSiftQuery } from "./types";
 import { createSiftFunction } from "./create-sift-function";
 import type { SafeSiftReturnType } from "./safe-sift-return-type";
+import type { SafeSiftOptions } from "./safe-sift-options";
+import { SafeSiftCursor } from "./safe-sift-cursor";
+import { applyProjection } from "./apply-projection";
+import { explainQuery } from "./explain";
+import {
+  countAsync,
+  everyAsync,
+  findAsync,
+  matchAsyncIterable,
+  matchIterable,
+  someAsync,
+} from "./stream";
 
 /**
  * Creates a functional interface for querying arrays with MongoDB-style queries.
  * Returns an object with methods for filtering, testing, and searching arrays.
  *
  * @template T - The type of objects to be queried
+ * @template P - The projection type, inferred from `options.project`
  * @param query - The SafeSiftQuery object defining the search criteria
+ * @param options - Optional sort, skip, limit and projection applied by `filter`, `find` and `cursor`
  * @returns An object containing methods for array operations (filter, test, find, etc.)
  *
  * @example
@@ -33,18 +47,42 @@ import type { SafeSiftReturnType } from "./safe-sift-return-type";
  * const affordableElectronics = electronicsQuery.filter(products);
  * const hasMatch = electronicsQuery.some(products);
  * const count = electronicsQuery.count(products);
+ *
+ * // Sorted, paginated results
+ * const cheapestFirst = safeSift<Product>(
+ *   { category: 'electronics' },
+ *   { sort: { price: 1 }, limit: 10 }
+ * ).filter(products);
+ *
+ * // Projected results; T is inferred from the typed query
+ * const electronics: SafeSiftQuery<Product> = { category: 'electronics' };
+ * const names = safeSift(electronics, { project: { name: 1 } }).filter(products);
+ * // names: { name: string }[]
  * ```
  */
-export function safeSift<T>(query: SafeSiftQuery<T>): SafeSiftReturnType<T> {
+export function safeSift<T, P extends Projection<T> = Record<never, never>>(
+  query: SafeSiftQuery<T>,
+  options: SafeSiftOptions<T, P> = {}
+): SafeSiftReturnType<T, P> {
   const siftFn = createSiftFunction(query);
+  const cursor = (array: T[]) => new SafeSiftCursor(array, siftFn, options);
 
   return {
     /** Tests whether a single object matches the query conditions */
     test: (obj: T): boolean => siftFn(obj),
+    /** Explains, predicate by predicate, why an object does or does not match */
+    explain: (obj: T) => explainQuery(query, obj),
     /** Filters an array, returning only objects that match the query conditions */
-    filter: (array: T[]): T[] => array.filter(siftFn),
+    filter: (array: T[]) => cursor(array).toArray(),
+    /** Opens a cursor over the matching objects for sorting, skipping and limiting */
+    cursor,
     /** Finds the first object in an array that matches the query conditions */
-    find: (array: T[]) => array.find(siftFn),
+    find: (array: T[]) => {
+      const found = array.find(siftFn);
+      return found === undefined
+        ? undefined
+        : applyProjection(found, options.project);
+    },
     /** Finds the index of the first object that matches the query conditions */
     findIndex: (array: T[]): number => array.findIndex(siftFn),
     /** Tests whether at least one object in an array matches the query conditions */
@@ -53,5 +91,17 @@ export function safeSift<T>(query: SafeSiftQuery<T>): SafeSiftReturnType<T> {
     every: (array: T[]): boolean => array.every(siftFn),
     /** Counts the number of objects in an array that match the query conditions */
     count: (array: T[]): number => array.filter(siftFn).length,
+    /** Lazily filters any iterable, applying skip, limit and projection as it reads */
+    filterIterable: (iterable) => matchIterable(iterable, siftFn, options),
+    /** Lazily filters an async iterable, closing it once the limit is reached */
+    filterAsync: (iterable) => matchAsyncIterable(iterable, siftFn, options),
+    /** Finds the first matching document of an async iterable, stopping there */
+    findAsync: (iterable) => findAsync(iterable, siftFn, options.project),
+    /** Counts the matching documents of an async iterable */
+    countAsync: (iterable) => countAsync(iterable, siftFn),
+    /** Tests whether a document of an async iterable matches, stopping at the first */
+    someAsync: (iterable) => someAsync(iterable, siftFn),
+    /** Tests whether every document of an async iterable matches, stopping at the first miss */
+    everyAsync: (iterable) => everyAsync(iterable, siftFn),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import type { Projection, SortSpec } from "./types";
+
+/**
+ * Result-shaping options applied by `filter`, `find` and `cursor`.
+ *
+ * @template T - The type of objects being queried
+ * @template P - The projection type, inferred from `project`
+ *
+ * @example
+ * ```ts
+ * const options: SafeSiftOptions<User> = { sort: { age: -1 }, skip: 10, limit: 5 };
+ * ```
+ */
+export type SafeSiftOptions<
+  T,
+  P extends Projection<T> = Record<never, never>
+> = {
+  /** MongoDB-style sort specification, keys restricted to paths of `T` */
+  sort?: SortSpec<T>;
+  /** Number of matching documents to skip */
+  skip?: number;
+  /** Maximum number of documents to return; 0 means no limit */
+  limit?: number;
+  /** MongoDB-style projection narrowing the returned documents */
+  project?: P;
+};
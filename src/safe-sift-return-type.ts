@@ -1,11 +1,28 @@
 import type { FindResult } from "./find-result";
+import type { SafeSiftCursor } from "./safe-sift-cursor";
+import type { ExplainGroup, Projected, Projection } from "./types";
 
-export type SafeSiftReturnType<T> = {
+export type SafeSiftReturnType<
+  T,
+  P extends Projection<T> = Record<never, never>
+> = {
   test: (obj: T) => boolean;
-  filter: (array: T[]) => T[];
-  find: (array: T[]) => FindResult<T>;
+  explain: (obj: T) => ExplainGroup;
+  filter: (array: T[]) => Projected<T, P>[];
+  cursor: (array: T[]) => SafeSiftCursor<T, P>;
+  find: (array: T[]) => FindResult<Projected<T, P>>;
   findIndex: (array: T[]) => number;
   some: (array: T[]) => boolean;
   every: (array: T[]) => boolean;
   count: (array: T[]) => number;
-};
\ No newline at end of file
+  filterIterable: (iterable: Iterable<T>) => IterableIterator<Projected<T, P>>;
+  filterAsync: (
+    iterable: AsyncIterable<T> | Iterable<T>
+  ) => AsyncIterableIterator<Projected<T, P>>;
+  findAsync: (
+    iterable: AsyncIterable<T> | Iterable<T>
+  ) => Promise<FindResult<Projected<T, P>>>;
+  countAsync: (iterable: AsyncIterable<T> | Iterable<T>) => Promise<number>;
+  someAsync: (iterable: AsyncIterable<T> | Iterable<T>) => Promise<boolean>;
+  everyAsync: (iterable: AsyncIterable<T> | Iterable<T>) => Promise<boolean>;
+};
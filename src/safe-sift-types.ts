@@ -1,3 +1,6 @@
 import sift from "sift";
 
-export type SiftParameters = Parameters<typeof sift>[0];
\ No newline at end of file
+export type SiftParameters = Parameters<typeof sift>[0];
+export type SiftOperations = NonNullable<
+  NonNullable<Parameters<typeof sift>[1]>["operations"]
+>;
@@ -0,0 +1,96 @@
+import type { SortDirection, SortSpec } from "./types";
+import { compareValues, getPathValues } from "./values";
+
+/** Sort key of a field holding an empty array, which MongoDB orders before null. */
+const EMPTY_ARRAY = Symbol("emptyArray");
+
+/**
+ * Computes the value a document sorts by for one field. Array fields sort by
+ * their smallest element ascending and by their largest element descending.
+ */
+function sortKey(
+  doc: unknown,
+  path: string,
+  direction: SortDirection
+): unknown {
+  const candidates: unknown[] = [];
+  for (const value of getPathValues(doc, path)) {
+    if (Array.isArray(value)) {
+      if (value.length) candidates.push(...value);
+      else candidates.push(EMPTY_ARRAY);
+    } else {
+      candidates.push(value);
+    }
+  }
+  if (!candidates.length) return null;
+
+  return candidates.reduce((best, value) =>
+    compareKeys(value, best) * direction < 0 ? value : best
+  );
+}
+
+function compareKeys(a: unknown, b: unknown): number {
+  if (a === EMPTY_ARRAY || b === EMPTY_ARRAY) {
+    return a === b ? 0 : a === EMPTY_ARRAY ? -1 : 1;
+  }
+  return compareValues(a, b);
+}
+
+function sortFields<T>(spec: SortSpec<T>): [string, SortDirection][] {
+  return Object.entries(spec).filter(
+    (entry): entry is [string, SortDirection] => entry[1] !== undefined
+  );
+}
+
+/**
+ * Returns a comparator ordering two documents as `sortDocuments` does.
+ *
+ * @example
+ * ```ts
+ * const byAge = compareDocuments<User>({ age: -1 });
+ * byAge(alice, bob); // negative when Alice is older
+ * ```
+ */
+export function compareDocuments<T>(spec: SortSpec<T>): (a: T, b: T) => number {
+  const fields = sortFields(spec);
+  return (a, b) => {
+    for (const [path, direction] of fields) {
+      const c = compareKeys(
+        sortKey(a, path, direction),
+        sortKey(b, path, direction)
+      );
+      if (c) return c * direction;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Returns a sorted copy of `array` following a MongoDB sort specification.
+ * Fields are compared in the order they appear in `spec`, values use MongoDB's
+ * cross-type ordering, and documents that compare equal keep their input order.
+ *
+ * @example
+ * ```ts
+ * sortDocuments(users, { "profile.age": -1, name: 1 });
+ * ```
+ */
+export function sortDocuments<T>(array: readonly T[], spec: SortSpec<T>): T[] {
+  const fields = sortFields(spec);
+  if (!fields.length) return [...array];
+
+  const decorated = array.map((doc) => ({
+    doc,
+    keys: fields.map(([path, direction]) => sortKey(doc, path, direction)),
+  }));
+
+  decorated.sort((a, b) => {
+    for (let i = 0; i < fields.length; i++) {
+      const c = compareKeys(a.keys[i], b.keys[i]);
+      if (c) return c * fields[i]![1];
+    }
+    return 0;
+  });
+
+  return decorated.map(({ doc }) => doc);
+}
@@ -0,0 +1,2 @@
+export { sqlColumn } from "./sql-column";
+export { toSql } from "./to-sql";
@@ -0,0 +1,72 @@
+import type { SqlDialect } from "../types";
+
+/** An SQL expression reading a field, and whether it reads from a JSON column. */
+export type SqlColumn = { sql: string; json: boolean };
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(text: string): string {
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+function jsonPath(
+  column: string,
+  segments: string[],
+  dialect: SqlDialect
+): string {
+  if (dialect === "sqlite") {
+    const path = segments
+      .map((s) =>
+        /^\d+$/.test(s)
+          ? `[${s}]`
+          : /^\w+$/.test(s)
+          ? `.${s}`
+          : `."${s.replace(/"/g, '\\"')}"`
+      )
+      .join("");
+    return `json_extract(${column}, ${quoteLiteral(`$${path}`)})`;
+  }
+  return segments.length === 1
+    ? `${column}->>${quoteLiteral(segments[0]!)}`
+    : `${column}#>>${quoteLiteral(
+        `{${segments.map((s) => s.replace(/[\\{},"]/g, "\\$&")).join(",")}}`
+      )}`;
+}
+
+/**
+ * Resolve a field path to the SQL expression that reads it. The longest mapped
+ * prefix of the path (or, without one, its first segment as a quoted column) names
+ * the column; any remaining segments are read from that column as JSON.
+ *
+ * @example
+ * ```ts
+ * sqlColumn("name", "postgres", {});        // => { sql: `"name"`, json: false }
+ * sqlColumn("profile.age", "postgres", {}); // => { sql: `"profile"->>'age'`, json: true }
+ * sqlColumn("profile.age", "sqlite", { profile: "p" });
+ * // => { sql: "json_extract(p, '$.age')", json: true }
+ * ```
+ */
+export function sqlColumn(
+  path: string,
+  dialect: SqlDialect,
+  columnMap: Record<string, string | undefined>
+): SqlColumn {
+  const segments = path.split(".");
+
+  for (let i = segments.length; i > 0; i--) {
+    const mapped = columnMap[segments.slice(0, i).join(".")];
+    if (mapped === undefined) continue;
+    const rest = segments.slice(i);
+    return rest.length
+      ? { sql: jsonPath(mapped, rest, dialect), json: true }
+      : { sql: mapped, json: false };
+  }
+
+  const [column, ...rest] = segments;
+  const quoted = quoteIdentifier(column!);
+  return rest.length
+    ? { sql: jsonPath(quoted, rest, dialect), json: true }
+    : { sql: quoted, json: false };
+}
@@ -0,0 +1,249 @@
+import type {
+  Predicate,
+  SafeSiftQuery,
+  SqlDialect,
+  SqlFragment,
+  ToSqlOptions,
+} from "../types";
+import { foldRegexOptions, normalizeEquality } from "../getValue";
+import { isPlainObject } from "../values";
+import { sqlColumn } from "./sql-column";
+import type { SqlColumn } from "./sql-column";
+
+type Context = {
+  dialect: SqlDialect;
+  columnMap: Record<string, string | undefined>;
+  arrayPaths: readonly string[];
+  params: unknown[];
+};
+
+const COMPARISONS = { $gt: ">", $gte: ">=", $lt: "<", $lte: "<=" } as const;
+
+function bind(ctx: Context, value: unknown): string {
+  // SQLite drivers bind neither booleans nor Dates
+  ctx.params.push(
+    ctx.dialect === "sqlite" && typeof value === "boolean"
+      ? Number(value)
+      : ctx.dialect === "sqlite" && value instanceof Date
+      ? value.toISOString()
+      : value
+  );
+  return ctx.dialect === "postgres" ? `$${ctx.params.length}` : "?";
+}
+
+/** Cast text extracted from Postgres JSON to the type of the compared value. */
+function typed(column: SqlColumn, sample: unknown, ctx: Context): string {
+  if (!column.json || ctx.dialect !== "postgres") return column.sql;
+  const cast =
+    typeof sample === "number"
+      ? "numeric"
+      : typeof sample === "boolean"
+      ? "boolean"
+      : sample instanceof Date
+      ? "timestamptz"
+      : undefined;
+  return cast ? `(${column.sql})::${cast}` : column.sql;
+}
+
+/** Negate a condition so that NULL (a missing field) counts as not matching it. */
+function negate(sql: string, ctx: Context): string {
+  return `NOT COALESCE(${sql}, ${ctx.dialect === "postgres" ? "FALSE" : "0"})`;
+}
+
+function conjoin(parts: string[]): string {
+  if (!parts.length) return "1 = 1";
+  return parts.length === 1 ? parts[0]! : `(${parts.join(" AND ")})`;
+}
+
+function translateRegex(
+  path: string,
+  column: SqlColumn,
+  value: unknown,
+  ctx: Context
+): string {
+  const source = value instanceof RegExp ? value.source : String(value);
+  const flags = value instanceof RegExp ? value.flags : "";
+  const unsupported = flags.replace("i", "");
+
+  if (unsupported || (flags && ctx.dialect === "sqlite")) {
+    throw new Error(
+      `Cannot translate regex flags "${flags}" on "${path}" to ${ctx.dialect} SQL`
+    );
+  }
+  return ctx.dialect === "postgres"
+    ? `${column.sql} ${flags ? "~*" : "~"} ${bind(ctx, source)}`
+    : `${column.sql} REGEXP ${bind(ctx, source)}`;
+}
+
+function translatePredicate(
+  { path, op, value }: Predicate,
+  ctx: Context
+): string {
+  const array = ctx.arrayPaths.find(
+    (p) => path === p || path.startsWith(`${p}.`)
+  );
+  if (array !== undefined && !(op === "$exists" && path === array)) {
+    throw new Error(
+      `Cannot translate ${op} on "${path}" to SQL: "${array}" holds an array, whose elements a column comparison cannot match`
+    );
+  }
+
+  const column = sqlColumn(path, ctx.dialect, ctx.columnMap);
+  const scalar = (v: unknown): unknown => {
+    if (Array.isArray(v) || isPlainObject(v)) {
+      throw new Error(
+        `Cannot translate ${op} on "${path}" to SQL: arrays and documents cannot be compared`
+      );
+    }
+    return v;
+  };
+
+  switch (op) {
+    case "$eq":
+      if (value === null) return `${column.sql} IS NULL`;
+      if (value instanceof RegExp) {
+        return translateRegex(path, column, value, ctx);
+      }
+      return `${typed(column, value, ctx)} = ${bind(ctx, scalar(value))}`;
+
+    case "$ne":
+      if (value === null) return `${column.sql} IS NOT NULL`;
+      return `(${typed(column, value, ctx)} <> ${bind(ctx, scalar(value))} OR ${
+        column.sql
+      } IS NULL)`;
+
+    case "$gt":
+    case "$gte":
+    case "$lt":
+    case "$lte":
+      return `${typed(column, value, ctx)} ${COMPARISONS[op]} ${bind(
+        ctx,
+        scalar(value)
+      )}`;
+
+    case "$in":
+    case "$nin": {
+      if (!Array.isArray(value)) {
+        throw new TypeError(`${op} on "${path}" expects an array`);
+      }
+      const values = value.filter((v) => v !== null);
+      const hasNull = values.length < value.length;
+      if (values.some((v) => v instanceof RegExp)) {
+        throw new Error(
+          `Cannot translate ${op} with regular expressions on "${path}" to SQL`
+        );
+      }
+      const list = values.length
+        ? `${typed(column, values[0], ctx)}${
+            op === "$nin" ? " NOT" : ""
+          } IN (${values.map((v) => bind(ctx, scalar(v))).join(", ")})`
+        : undefined;
+      if (op === "$in") {
+        const parts = [list, hasNull ? `${column.sql} IS NULL` : undefined];
+        const present = parts.filter((p) => p !== undefined);
+        if (!present.length) return "1 = 0";
+        return present.length === 1 ? present[0]! : `(${present.join(" OR ")})`;
+      }
+      if (!list) return hasNull ? `${column.sql} IS NOT NULL` : "1 = 1";
+      return hasNull
+        ? `(${list} AND ${column.sql} IS NOT NULL)`
+        : `(${list} OR ${column.sql} IS NULL)`;
+    }
+
+    case "$exists":
+      return `${column.sql} IS${value ? " NOT" : ""} NULL`;
+
+    case "$regex":
+      return translateRegex(path, column, value, ctx);
+
+    case "$not":
+      return negate(
+        value instanceof RegExp
+          ? translateRegex(path, column, value, ctx)
+          : translateField(path, value, ctx),
+        ctx
+      );
+
+    default:
+      throw new Error(`Cannot translate ${op} on "${path}" to SQL`);
+  }
+}
+
+function translateField(path: string, value: unknown, ctx: Context): string {
+  const preds = foldRegexOptions(normalizeEquality(path, value));
+  return conjoin(preds.map((pred) => translatePredicate(pred, ctx)));
+}
+
+function translateQuery(query: unknown, ctx: Context): string[] {
+  if (!isPlainObject(query)) {
+    throw new TypeError("A query must be an object");
+  }
+
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      if (!Array.isArray(value) || !value.length) {
+        throw new TypeError(`${key} expects a non-empty array of queries`);
+      }
+      const branches = value.map((sub) => conjoin(translateQuery(sub, ctx)));
+      const joined = `(${branches.join(key === "$and" ? " AND " : " OR ")})`;
+      parts.push(key === "$nor" ? negate(joined, ctx) : joined);
+    } else if (key === "$not") {
+      parts.push(negate(conjoin(translateQuery(value, ctx)), ctx));
+    } else if (key.startsWith("$")) {
+      throw new Error(`Cannot translate ${key} to SQL`);
+    } else {
+      parts.push(translateField(key, value, ctx));
+    }
+  }
+  return parts;
+}
+
+/**
+ * Translates a query into a parameterized SQL `WHERE` fragment for Postgres
+ * (`$1` placeholders, `->>`/`#>>` JSON access) or SQLite (`?` placeholders,
+ * `json_extract`). Supports equality, `$ne`, `$gt`/`$gte`/`$lt`/`$lte`, `$in`/`$nin`,
+ * `$exists`, `$regex` (`$options: "i"` on Postgres), field-level `$not` and
+ * `$and`/`$or`/`$nor`/`$not`.
+ *
+ * Missing fields are read as SQL `NULL`, so `$ne`, `$nin`, `$not` and `$nor`
+ * match rows where the field is `NULL`, as MongoDB matches documents without the
+ * field; `$exists` can only test for `NULL`. SQLite's `REGEXP` requires an
+ * application-defined `regexp()` function.
+ *
+ * Conditions compare whole column values, while sift matches a condition on an
+ * array when one element meets it. List array fields in `options.arrayPaths` so
+ * that conditions on them throw instead of emitting SQL that matches differently;
+ * only `$exists` is translated there.
+ *
+ * @throws {Error} For operators, values or regex flags that have no SQL translation, or conditions on `arrayPaths`, instead of dropping them
+ *
+ * @example
+ * ```ts
+ * const { sql, params } = toSql<User>(
+ *   { age: { $gte: 18 }, "profile.country": { $in: ["DE", "FR"] }, $or: [{ role: "admin" }, { verified: true }] },
+ *   { columnMap: { role: "user_role" } }
+ * );
+ * // sql:    "age" >= $1 AND "profile"->>'country' IN ($2, $3) AND (user_role = $4 OR "verified" = $5)
+ * // params: [18, "DE", "FR", "admin", true]
+ * db.query(`SELECT * FROM users WHERE ${sql}`, params);
+ * ```
+ */
+export function toSql<T>(
+  query: SafeSiftQuery<T>,
+  options: ToSqlOptions<T> = {}
+): SqlFragment {
+  const ctx: Context = {
+    dialect: options.dialect ?? "postgres",
+    columnMap: options.columnMap ?? {},
+    arrayPaths: options.arrayPaths ?? [],
+    params: [],
+  };
+  const parts = translateQuery(query, ctx);
+  return {
+    sql: parts.length ? parts.join(" AND ") : "1 = 1",
+    params: ctx.params,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Resolves to the number of documents of an async (or sync) iterable that pass `test`.
+ *
+ * @example
+ * ```ts
+ * const errors = await countAsync(logEntries, (e) => e.level === "error");
+ * ```
+ */
+export async function countAsync<T>(
+  source: AsyncIterable<T> | Iterable<T>,
+  test: (obj: T) => boolean
+): Promise<number> {
+  let count = 0;
+  for await (const doc of source) {
+    if (test(doc)) count++;
+  }
+  return count;
+}
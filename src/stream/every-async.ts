@@ -0,0 +1,18 @@
+/**
+ * Resolves to whether every document of an async (or sync) iterable passes
+ * `test`, and stops reading the source at the first one that does not.
+ *
+ * @example
+ * ```ts
+ * const allHealthy = await everyAsync(checks, (c) => c.status === "ok");
+ * ```
+ */
+export async function everyAsync<T>(
+  source: AsyncIterable<T> | Iterable<T>,
+  test: (obj: T) => boolean
+): Promise<boolean> {
+  for await (const doc of source) {
+    if (!test(doc)) return false;
+  }
+  return true;
+}
@@ -0,0 +1,23 @@
+import type { Projected, Projection } from "../types";
+import type { FindResult } from "../find-result";
+import { applyProjection } from "../apply-projection";
+
+/**
+ * Resolves to the first document of an async (or sync) iterable that passes
+ * `test`, projected, and stops reading the source there.
+ *
+ * @example
+ * ```ts
+ * const admin = await findAsync(cursor, (u) => u.role === "admin", undefined);
+ * ```
+ */
+export async function findAsync<T, P extends Projection<T>>(
+  source: AsyncIterable<T> | Iterable<T>,
+  test: (obj: T) => boolean,
+  projection: P | undefined
+): Promise<FindResult<Projected<T, P>>> {
+  for await (const doc of source) {
+    if (test(doc)) return applyProjection(doc, projection);
+  }
+  return undefined;
+}
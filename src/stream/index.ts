@@ -0,0 +1,6 @@
+export { matchIterable } from "./match-iterable";
+export { matchAsyncIterable } from "./match-async-iterable";
+export { findAsync } from "./find-async";
+export { countAsync } from "./count-async";
+export { someAsync } from "./some-async";
+export { everyAsync } from "./every-async";
@@ -0,0 +1,33 @@
+import type { Projected, Projection } from "../types";
+import type { SafeSiftOptions } from "../safe-sift-options";
+import { StreamWindow } from "./stream-window";
+
+/**
+ * Lazily yields the documents of an async (or sync) iterable that pass `test`,
+ * shaped by `skip`, `limit` and `project`. Once the limit is reached the source
+ * is closed through its `return()` method, as a `break` would.
+ *
+ * @throws {Error} If `options.sort` is set
+ *
+ * @example
+ * ```ts
+ * for await (const user of matchAsyncIterable(cursor, (u) => u.active, {})) {
+ *   console.log(user.name);
+ * }
+ * ```
+ */
+export function matchAsyncIterable<T, P extends Projection<T>>(
+  source: AsyncIterable<T> | Iterable<T>,
+  test: (obj: T) => boolean,
+  options: SafeSiftOptions<T, P>
+): AsyncIterableIterator<Projected<T, P>> {
+  const window = new StreamWindow(options);
+  return (async function* () {
+    for await (const doc of source) {
+      if (!test(doc)) continue;
+      const shaped = window.take(doc);
+      if (shaped !== undefined) yield shaped;
+      if (window.done) return;
+    }
+  })();
+}
@@ -0,0 +1,31 @@
+import type { Projected, Projection } from "../types";
+import type { SafeSiftOptions } from "../safe-sift-options";
+import { StreamWindow } from "./stream-window";
+
+/**
+ * Lazily yields the documents of `source` that pass `test`, shaped by `skip`,
+ * `limit` and `project`. Reading stops once the limit is reached.
+ *
+ * @throws {Error} If `options.sort` is set
+ *
+ * @example
+ * ```ts
+ * const adults = matchIterable(readUsers(), (u) => u.age >= 18, { limit: 10 });
+ * for (const user of adults) console.log(user.name);
+ * ```
+ */
+export function matchIterable<T, P extends Projection<T>>(
+  source: Iterable<T>,
+  test: (obj: T) => boolean,
+  options: SafeSiftOptions<T, P>
+): IterableIterator<Projected<T, P>> {
+  const window = new StreamWindow(options);
+  return (function* () {
+    for (const doc of source) {
+      if (!test(doc)) continue;
+      const shaped = window.take(doc);
+      if (shaped !== undefined) yield shaped;
+      if (window.done) return;
+    }
+  })();
+}
@@ -0,0 +1,18 @@
+/**
+ * Resolves to whether a document of an async (or sync) iterable passes `test`,
+ * and stops reading the source at the first one that does.
+ *
+ * @example
+ * ```ts
+ * const anyErrors = await someAsync(logEntries, (e) => e.level === "error");
+ * ```
+ */
+export async function someAsync<T>(
+  source: AsyncIterable<T> | Iterable<T>,
+  test: (obj: T) => boolean
+): Promise<boolean> {
+  for await (const doc of source) {
+    if (test(doc)) return true;
+  }
+  return false;
+}
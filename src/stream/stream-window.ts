@@ -0,0 +1,38 @@
+import type { Projected, Projection } from "../types";
+import type { SafeSiftOptions } from "../safe-sift-options";
+import { applyProjection } from "../apply-projection";
+
+/**
+ * Applies the `skip`, `limit` and `project` options to matching documents as
+ * they arrive, one at a time.
+ */
+export class StreamWindow<T, P extends Projection<T>> {
+  private skipped = 0;
+  private taken = 0;
+
+  /**
+   * @throws {Error} If `options.sort` is set, since sorting needs every document first
+   */
+  constructor(private readonly options: SafeSiftOptions<T, P>) {
+    if (options.sort) {
+      throw new Error(
+        "Cannot sort a stream of documents: collect them into an array and use filter() instead"
+      );
+    }
+  }
+
+  /** Whether the limit is reached, so no later document is taken. */
+  get done(): boolean {
+    return !!this.options.limit && this.taken >= this.options.limit;
+  }
+
+  /** Takes a matching document, returning it projected, or `undefined` while skipping. */
+  take(doc: T): Projected<T, P> | undefined {
+    if (this.skipped < (this.options.skip ?? 0)) {
+      this.skipped++;
+      return undefined;
+    }
+    this.taken++;
+    return applyProjection(doc, this.options.project);
+  }
+}
@@ -0,0 +1 @@
+export { isQuerySubsetOf } from "./is-query-subset-of";
@@ -0,0 +1,410 @@
+import type {
+  Normalized,
+  Predicate,
+  QuerySubsetOptions,
+  QuerySubsetResult,
+  SafeSiftQuery,
+} from "../types";
+import { createSiftFunction } from "../create-sift-function";
+import { foldRegexOptions, normalizeEquality } from "../getValue";
+import { optimizeQuery } from "../optimize";
+import {
+  NEEDS_FIELD,
+  isScalarPath,
+  matchesPredicate,
+  predicateKey,
+  tighterBound,
+} from "../predicates";
+import { setPathValue } from "../update/set-path-value";
+import { isPlainObject, valueKey } from "../values";
+
+type Query = Record<string, unknown>;
+
+/**
+ * A conjunction: field predicates as in `Normalized.and`, `$or` groups of
+ * branches, and the remaining clauses (`$nor`, `$not`, `$where`, ...).
+ */
+type Clause = Pick<Normalized, "and"> & {
+  or: Clause[][];
+  rest: [string, unknown][];
+};
+
+/** One alternative of a query in disjunctive normal form. */
+type Conjunct = Omit<Clause, "or">;
+
+type Context = {
+  scalarPaths: readonly string[];
+  /** Whether the optimizer proves that no document matches a query. */
+  isAlwaysFalse: (query: Query) => boolean;
+};
+
+/** Beyond this many alternatives, the narrow query is not expanded. */
+const MAX_CONJUNCTS = 64;
+
+/** Beyond this many candidate documents, the search for a witness stops. */
+const MAX_WITNESSES = 4096;
+
+/** Operators that hold for an array when they hold for one of its elements. */
+const EXISTENTIAL = new Set([
+  "$eq",
+  "$in",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$regex",
+  "$exists",
+]);
+
+const MISSING = Symbol("missing");
+
+function parse(query: unknown): Clause {
+  if (!isPlainObject(query)) {
+    throw new TypeError("A query must be an object");
+  }
+
+  const clause: Clause = { and: [], or: [], rest: [] };
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+
+    if (key === "$and" && Array.isArray(value)) {
+      for (const sub of value.map(parse)) {
+        clause.and.push(...sub.and);
+        clause.or.push(...sub.or);
+        clause.rest.push(...sub.rest);
+      }
+    } else if (key === "$or" && Array.isArray(value)) {
+      clause.or.push(value.map(parse));
+    } else if (key.startsWith("$")) {
+      clause.rest.push([key, value]);
+    } else {
+      clause.and.push(...foldRegexOptions(normalizeEquality(key, value)));
+    }
+  }
+  return clause;
+}
+
+/** Distribute the `$or` groups of a clause, or `undefined` past `MAX_CONJUNCTS`. */
+function expand(clause: Clause): Conjunct[] | undefined {
+  let conjuncts: Conjunct[] = [{ and: clause.and, rest: clause.rest }];
+  for (const group of clause.or) {
+    const branches: Conjunct[] = [];
+    for (const branch of group) {
+      const expanded = expand(branch);
+      if (!expanded) return undefined;
+      branches.push(...expanded);
+    }
+    conjuncts = conjuncts.flatMap((c) =>
+      branches.map((b) => ({
+        and: [...c.and, ...b.and],
+        rest: [...c.rest, ...b.rest],
+      }))
+    );
+    if (conjuncts.length > MAX_CONJUNCTS) return undefined;
+  }
+  return conjuncts;
+}
+
+function render({ and, rest }: Conjunct): Query {
+  const conditions = [
+    ...and.map(({ path, op, value }) => ({ [path]: { [op]: value } })),
+    ...rest.map(([key, value]) => ({ [key]: value })),
+  ];
+  return conditions.length ? { $and: conditions } : {};
+}
+
+/** Values a field holding one of them satisfies `pred` with, for `$eq` and `$in`. */
+function heldValues({ op, value }: Predicate): unknown[] | undefined {
+  const values = op === "$eq" ? [value] : op === "$in" ? value : undefined;
+  return Array.isArray(values) && !values.some((v) => v instanceof RegExp)
+    ? values
+    : undefined;
+}
+
+/** Values `pred` excludes, for `$ne` and `$nin`. */
+function excludedValues({ op, value }: Predicate): unknown[] | undefined {
+  const values = op === "$ne" ? [value] : op === "$nin" ? value : undefined;
+  return Array.isArray(values) && !values.some((v) => v instanceof RegExp)
+    ? values
+    : undefined;
+}
+
+function isSubset(a: readonly unknown[], b: readonly unknown[]): boolean {
+  const keys = new Set(b.map(valueKey));
+  return a.every((v) => keys.has(valueKey(v)));
+}
+
+/** Whether a field holding `value` satisfies `pred`; `null` also stands for a missing field. */
+function accepts(pred: Predicate, value: unknown): boolean {
+  return (
+    matchesPredicate(pred, value) &&
+    (value !== null || matchesPredicate(pred, undefined, false))
+  );
+}
+
+/** Whether no field holding `value` satisfies `pred`; `null` also stands for a missing field. */
+function rejects(pred: Predicate, value: unknown): boolean {
+  return (
+    !matchesPredicate(pred, value) &&
+    (value !== null || !matchesPredicate(pred, undefined, false))
+  );
+}
+
+function requiresField({ op, value }: Predicate): boolean {
+  return (
+    NEEDS_FIELD.has(op) ||
+    (op === "$exists" && value === true) ||
+    (op === "$eq" && value !== null) ||
+    (op === "$in" && Array.isArray(value) && !value.includes(null))
+  );
+}
+
+/** Whether a single predicate on the same path implies `q`. */
+function impliedBy(p: Predicate, q: Predicate, scalar: boolean): boolean {
+  if (p.op === "$exists" && p.value === false) {
+    return scalar && matchesPredicate(q, undefined, false);
+  }
+
+  // $in and $nin are monotone in their values, on arrays too
+  const held = heldValues(p);
+  const accepted = heldValues(q);
+  if (held && accepted && isSubset(held, accepted)) return true;
+  const excluded = excludedValues(q);
+  const rejected = excludedValues(p);
+  if (excluded && rejected && isSubset(excluded, rejected)) return true;
+
+  if (held) {
+    if (scalar) return held.every((v) => accepts(q, v));
+    // an element equals one of the values
+    return (
+      EXISTENTIAL.has(q.op) &&
+      held.every(
+        (v) => v !== null && !Array.isArray(v) && matchesPredicate(q, v)
+      )
+    );
+  }
+
+  // the array contains every value, so one satisfying `q` is enough
+  if (p.op === "$all" && Array.isArray(p.value) && EXISTENTIAL.has(q.op)) {
+    return p.value.some(
+      (v) =>
+        v !== null &&
+        !(v instanceof RegExp) &&
+        !Array.isArray(v) &&
+        !isPlainObject(v) &&
+        matchesPredicate(q, v)
+    );
+  }
+
+  const lower = ["$gt", "$gte"];
+  const upper = ["$lt", "$lte"];
+  if (
+    (lower.includes(p.op) && lower.includes(q.op)) ||
+    (upper.includes(p.op) && upper.includes(q.op))
+  ) {
+    return tighterBound(p, q) === p;
+  }
+  return false;
+}
+
+function impliesPredicate(
+  preds: Predicate[],
+  q: Predicate,
+  scalarPaths: readonly string[]
+): boolean {
+  const key = predicateKey(q);
+  const onPath = preds.filter((p) => p.path === q.path);
+  if (onPath.some((p) => predicateKey(p) === key)) return true;
+
+  // a condition that needs the field, or a field below it, implies it exists
+  if (q.op === "$exists" && q.value === true) {
+    return preds.some(
+      (p) =>
+        (p.path === q.path || p.path.startsWith(`${q.path}.`)) &&
+        requiresField(p)
+    );
+  }
+
+  const scalar = isScalarPath(q.path, scalarPaths);
+  if (onPath.some((p) => impliedBy(p, q, scalar))) return true;
+
+  // every excluded value fails some condition of the narrow query
+  const excluded = excludedValues(q);
+  return (
+    scalar &&
+    excluded !== undefined &&
+    excluded.every((w) => onPath.some((p) => rejects(p, w)))
+  );
+}
+
+/** Whether `c` implies a clause kept as it is, such as `$nor` or `$where`. */
+function impliesRest(
+  c: Conjunct,
+  [key, value]: [string, unknown],
+  ctx: Context
+): boolean {
+  if (c.rest.some((entry) => valueKey(entry) === valueKey([key, value]))) {
+    return true;
+  }
+  // `c` implies the negation of a query when no document matches both
+  const negated = key === "$nor" ? value : key === "$not" ? [value] : [];
+  return (
+    Array.isArray(negated) &&
+    negated.length > 0 &&
+    negated.every(
+      (sub) =>
+        isPlainObject(sub) && ctx.isAlwaysFalse({ $and: [render(c), sub] })
+    )
+  );
+}
+
+function implies(c: Conjunct, clause: Clause, ctx: Context): boolean {
+  return (
+    clause.and.every((q) => impliesPredicate(c.and, q, ctx.scalarPaths)) &&
+    clause.rest.every((entry) => impliesRest(c, entry, ctx)) &&
+    clause.or.every((group) => group.some((branch) => implies(c, branch, ctx)))
+  );
+}
+
+/** Values around a constant, to land on either side of a bound. */
+function variants(value: unknown): unknown[] {
+  if (typeof value === "number") return [value - 1, value, value + 1];
+  if (typeof value === "string") return ["", value, `${value}~`];
+  if (typeof value === "boolean") return [true, false];
+  if (value instanceof Date) {
+    return [-1, 0, 1].map((ms) => new Date(value.getTime() + ms));
+  }
+  return [value];
+}
+
+/** Collect the constants of a clause per path, including those under `$nor` and `$not`. */
+function collectConstants(
+  clause: Clause,
+  constants: Map<string, unknown[]>
+): void {
+  const add = ({ path, op, value }: Predicate): void => {
+    const list = constants.get(path) ?? [];
+    constants.set(path, list);
+    if (op === "$not" && isPlainObject(value)) {
+      normalizeEquality(path, value).forEach(add);
+    } else if (op === "$eq" || op === "$ne" || NEEDS_FIELD.has(op)) {
+      list.push(value);
+    } else if (op === "$in" || op === "$nin") {
+      if (Array.isArray(value)) list.push(...value);
+    }
+  };
+
+  clause.and.forEach(add);
+  for (const group of clause.or) {
+    for (const branch of group) collectConstants(branch, constants);
+  }
+  for (const [key, value] of clause.rest) {
+    const subs = key === "$nor" ? value : key === "$not" ? [value] : [];
+    for (const sub of Array.isArray(subs) ? subs : []) {
+      if (isPlainObject(sub)) collectConstants(parse(sub), constants);
+    }
+  }
+}
+
+/**
+ * Search documents built from the constants of both queries for one that
+ * matches `narrow` but not `broad`.
+ */
+function findWitness<T>(
+  narrow: SafeSiftQuery<T>,
+  broad: SafeSiftQuery<T>,
+  scalarPaths: readonly string[]
+): boolean {
+  const constants = new Map<string, unknown[]>();
+  collectConstants(parse(narrow), constants);
+  collectConstants(parse(broad), constants);
+
+  const candidates: [string, unknown[]][] = [];
+  for (const path of [...constants.keys()].sort()) {
+    // a path not declared scalar may also hold an array
+    const array = !isScalarPath(path, scalarPaths);
+    const values = new Map<string, unknown>();
+    for (const constant of constants.get(path)!) {
+      if (constant instanceof RegExp || isPlainObject(constant)) continue;
+      for (const v of variants(constant)) {
+        values.set(valueKey(v), v);
+        if (array && !Array.isArray(v)) values.set(valueKey([v]), [v]);
+      }
+    }
+    if (array) values.set(valueKey([]), []);
+    candidates.push([path, [MISSING, ...values.values()]]);
+  }
+
+  const matchesNarrow = createSiftFunction(narrow);
+  const matchesBroad = createSiftFunction(broad);
+
+  const total = candidates.reduce((n, [, values]) => n * values.length, 1);
+  for (let index = 0; index < Math.min(total, MAX_WITNESSES); index++) {
+    const doc: Query = {};
+    let rest = index;
+    try {
+      for (const [path, values] of candidates) {
+        const value = values[rest % values.length];
+        rest = Math.floor(rest / values.length);
+        if (value !== MISSING) setPathValue(doc, path, value);
+      }
+    } catch {
+      // a value was placed where a path needs a document, as with `a` and `a.b`
+      continue;
+    }
+    if (matchesNarrow(doc) && !matchesBroad(doc)) return true;
+  }
+  return false;
+}
+
+/**
+ * Decides whether every document matching `narrow` also matches `broad`,
+ * soundly but conservatively: `true` is only returned when the containment is
+ * proven and `false` only when a document matching `narrow` but not `broad` is
+ * found; otherwise the answer is `"unknown"`.
+ *
+ * Both queries are first optimized, and `narrow` is expanded into its `$or`
+ * alternatives. Each alternative must then imply every condition of `broad`:
+ * equality, `$in` / `$nin` and `$exists` conditions, ranges on either side, and
+ * at least one branch of each `$or`. A `$nor` or `$not` of `broad` holds when no
+ * document matches both the alternative and the negated query; other clauses
+ * such as `$where` only imply themselves. Counterexamples are searched among
+ * documents built from the constants of both queries.
+ *
+ * Any path may hold an array, where a condition holds when one element
+ * satisfies it, so fewer implications hold there. List the paths that hold
+ * single values in `options.scalarPaths` to use the implications of scalars.
+ *
+ * @throws {TypeError} If a query or one of its `$and` / `$or` / `$nor` operands is malformed
+ *
+ * @example
+ * ```ts
+ * isQuerySubsetOf<User>({ age: { $gte: 21 }, role: "admin" }, { age: { $gt: 18 } });
+ * // => true
+ * isQuerySubsetOf<User>({ role: { $in: ["admin", "user"] } }, { role: "admin" });
+ * // => false, { role: "user" } matches only the first query
+ * isQuerySubsetOf<User>({ name: { $regex: /^A/ } }, { name: { $regex: /^[A-C]/ } });
+ * // => "unknown"
+ * ```
+ */
+export function isQuerySubsetOf<T>(
+  narrow: SafeSiftQuery<T>,
+  broad: SafeSiftQuery<T>,
+  options: QuerySubsetOptions<T> = {}
+): QuerySubsetResult {
+  const ctx: Context = {
+    scalarPaths: options.scalarPaths ?? [],
+    isAlwaysFalse: (query) =>
+      optimizeQuery<Query>(query, { scalarPaths: ctx.scalarPaths }).alwaysFalse,
+  };
+  const optimized = optimizeQuery(narrow, options);
+  const target = parse(optimizeQuery(broad, options).query);
+  const conjuncts = expand(parse(optimized.query));
+  const proven =
+    conjuncts?.every(
+      (c) => implies(c, target, ctx) || ctx.isAlwaysFalse(render(c))
+    ) ?? false;
+  if (proven) return true;
+
+  return findWitness(narrow, broad, ctx.scalarPaths) ? false : "unknown";
+}
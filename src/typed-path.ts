@@ -0,0 +1,16 @@
+import type { DeepKeyOf } from "./types";
+
+/**
+ * Types a dot-notation path that was read or built at runtime, such as a schema
+ * path or a field of a parsed query, as a path of `T`. The caller vouches that
+ * it names a field of `T`.
+ *
+ * @example
+ * ```ts
+ * const path = typedPath<User>(["profile", "age"].join("."));
+ * ```
+ */
+export function typedPath<T>(path: string): DeepKeyOf<T> {
+  // eslint-disable-next-line no-restricted-syntax, @typescript-eslint/consistent-type-assertions
+  return path as DeepKeyOf<T>;
+}
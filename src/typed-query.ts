@@ -0,0 +1,18 @@
+import type { SafeSiftQuery } from "./types";
+
+/**
+ * Types a query object that was built or checked at runtime, such as a parsed
+ * filter string or a rewritten query, as a query on `T`. The caller vouches
+ * that its paths and operands fit `T`.
+ *
+ * @example
+ * ```ts
+ * const query = typedQuery<User>({ age: { $gte: 18 } });
+ * ```
+ */
+export function typedQuery<T>(
+  query: Record<string, unknown>
+): SafeSiftQuery<T> {
+  // eslint-disable-next-line no-restricted-syntax, @typescript-eslint/consistent-type-assertions
+  return query as SafeSiftQuery<T>;
+}
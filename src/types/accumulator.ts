@@ -0,0 +1,23 @@
+import type { FieldRef } from "./field-ref";
+import type { TypedFieldRef } from "./typed-field-ref";
+
+/**
+ * A `$group` accumulator over documents of type `T`.
+ * `$sum` and `$avg` only accept numeric fields; `$sum: 1` counts documents.
+ *
+ * @example
+ * ```ts
+ * const total: Accumulator<Order> = { $sum: "$amount" };
+ * const count: Accumulator<Order> = { $sum: 1 };
+ * const names: Accumulator<Order> = { $addToSet: "$customer.name" };
+ * ```
+ */
+export type Accumulator<T> =
+  | { $sum: TypedFieldRef<T, number> | number }
+  | { $avg: TypedFieldRef<T, number> }
+  | { $min: FieldRef<T> }
+  | { $max: FieldRef<T> }
+  | { $push: FieldRef<T> }
+  | { $addToSet: FieldRef<T> }
+  | { $first: FieldRef<T> }
+  | { $last: FieldRef<T> };
@@ -0,0 +1,16 @@
+import type { DeepKeyOf } from "./deep-key-of";
+import type { DeepValueOf } from "./deep-value-of";
+
+/**
+ * Paths of `T` whose value is an array.
+ *
+ * @example
+ * ```ts
+ * type P = ArrayPath<User>; // "tags" | "posts" | "profile.languages"
+ * ```
+ */
+export type ArrayPath<T> = {
+  [K in DeepKeyOf<T>]: NonNullable<DeepValueOf<T, K>> extends ReadonlyArray<unknown>
+    ? K
+    : never;
+}[DeepKeyOf<T>];
@@ -0,0 +1,11 @@
+/**
+ * Operand of the bitwise query operators: a non-negative bitmask, or the
+ * positions of the bits to test, with bit 0 the least significant.
+ *
+ * @example
+ * ```ts
+ * const mask: BitPositions = 0b101;
+ * const positions: BitPositions = [0, 2];
+ * ```
+ */
+export type BitPositions = number | readonly number[];
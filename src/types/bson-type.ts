@@ -0,0 +1,53 @@
+/**
+ * BSON type accepted by `$type`: a MongoDB type alias or its numeric code.
+ * `"number"` matches any numeric type.
+ *
+ * @example
+ * ```ts
+ * const types: BsonType[] = ["string", "null", 16];
+ * ```
+ */
+export type BsonType =
+  | "double"
+  | "string"
+  | "object"
+  | "array"
+  | "binData"
+  | "undefined"
+  | "objectId"
+  | "bool"
+  | "date"
+  | "null"
+  | "regex"
+  | "dbPointer"
+  | "javascript"
+  | "symbol"
+  | "javascriptWithScope"
+  | "int"
+  | "timestamp"
+  | "long"
+  | "decimal"
+  | "minKey"
+  | "maxKey"
+  | "number"
+  | 1
+  | 2
+  | 3
+  | 4
+  | 5
+  | 6
+  | 7
+  | 8
+  | 9
+  | 10
+  | 11
+  | 12
+  | 13
+  | 14
+  | 15
+  | 16
+  | 17
+  | 18
+  | 19
+  | -1
+  | 127;
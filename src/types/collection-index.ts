@@ -0,0 +1,15 @@
+import type { DeepKeyOf } from "./deep-key-of";
+import type { IndexKind } from "./index-kind";
+
+/**
+ * An index of a `SafeCollection`: the path it covers and its kind.
+ *
+ * @example
+ * ```ts
+ * const index: CollectionIndex<User> = { path: "profile.country", kind: "hash" };
+ * ```
+ */
+export type CollectionIndex<T> = {
+  path: DeepKeyOf<T>;
+  kind: IndexKind;
+};
@@ -0,0 +1,21 @@
+import type { CollectionIndex } from "./collection-index";
+
+/**
+ * How a `SafeCollection` runs a query: the indexes it looks up, and how many of
+ * its documents are then tested with the full query.
+ *
+ * @example
+ * ```ts
+ * users.plan({ status: "active", age: { $gte: 18 } });
+ * // => { indexes: [{ path: "status", kind: "hash" }, { path: "age", kind: "sorted" }],
+ * //      candidates: 1200, total: 200000 }
+ * ```
+ */
+export type CollectionPlan<T> = {
+  /** Indexes looked up; empty when every document is scanned */
+  indexes: CollectionIndex<T>[];
+  /** Documents tested with the full query */
+  candidates: number;
+  /** Documents in the collection */
+  total: number;
+};
@@ -1,3 +1,7 @@
+import type { BitPositions } from "./bit-positions";
+import type { BsonType } from "./bson-type";
+import type { CustomOperatorConditions } from "./custom-operator-conditions";
+
 /**
  * Helper type for $in and $nin operators that properly handles union types
  * Uses tuple wrapping to prevent distributive conditional types
@@ -5,7 +9,8 @@
 type InOperatorArray<T> = [T] extends [ReadonlyArray<infer U>] ? U[] : T[];
 
 /**
- * Type representing MongoDB-style comparison operators for field queries.
+ * Type representing MongoDB-style comparison operators for field queries,
+ * including the custom operators registered in `CustomOperators`.
  */
 export type ComparisonOperators<T> = {
   $eq?: T;
@@ -19,6 +24,13 @@ export type ComparisonOperators<T> = {
   $regex?: T extends string ? RegExp | string : never;
   $options?: T extends string ? string : never;
   $exists?: boolean;
-  $type?: string;
+  $type?: BsonType | readonly BsonType[];
   $size?: T extends ReadonlyArray<unknown> ? number : never;
-};
+  $mod?: T extends number
+    ? readonly [divisor: number, remainder: number]
+    : never;
+  $bitsAllSet?: T extends number ? BitPositions : never;
+  $bitsAnySet?: T extends number ? BitPositions : never;
+  $bitsAllClear?: T extends number ? BitPositions : never;
+  $bitsAnyClear?: T extends number ? BitPositions : never;
+} & CustomOperatorConditions<T>;
@@ -0,0 +1,18 @@
+import type { CustomOperators } from "./custom-operators";
+import type { CustomOperand } from "./custom-operand";
+
+/**
+ * `FieldBuilder` methods added by the registered custom operators, named after
+ * the operator without its `$`, for a field of type `V` and returning `R`.
+ *
+ * @example
+ * ```ts
+ * type Methods = CustomFieldMethods<string, QueryBuilder<User>>;
+ * // { startsWith: (operand: string) => QueryBuilder<User> }
+ * ```
+ */
+export type CustomFieldMethods<V, R> = {
+  [N in keyof CustomOperators as N extends `$${infer M}` ? M : never]: (
+    operand: CustomOperand<V, N>
+  ) => R;
+};
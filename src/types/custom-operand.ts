@@ -0,0 +1,28 @@
+import type { CustomOperators } from "./custom-operators";
+import type { OperatorTarget } from "./operator-target";
+import type { OperatorTargetValue } from "./operator-target-value";
+
+/**
+ * Operand type of the custom operator `N` on a field of type `V`, or `never` if
+ * the operator does not apply to the field. An operator on scalars also applies
+ * to arrays of them, since it is tested against each element.
+ *
+ * @example
+ * ```ts
+ * type Prefix = CustomOperand<string, "$startsWith">;   // string
+ * type Invalid = CustomOperand<number, "$startsWith">;  // never
+ * ```
+ */
+export type CustomOperand<
+  V,
+  N extends keyof CustomOperators
+> = CustomOperators[N] extends {
+  appliesTo: infer A extends OperatorTarget;
+  operand: infer O;
+}
+  ? [NonNullable<V>] extends [OperatorTargetValue<A>]
+    ? O
+    : [NonNullable<V>] extends [ReadonlyArray<OperatorTargetValue<A>>]
+    ? O
+    : never
+  : never;
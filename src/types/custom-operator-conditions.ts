@@ -0,0 +1,15 @@
+import type { CustomOperators } from "./custom-operators";
+import type { CustomOperand } from "./custom-operand";
+
+/**
+ * Conditions on a field of type `T` using the registered custom operators.
+ * Operators that do not apply to the field only accept `never`.
+ *
+ * @example
+ * ```ts
+ * const condition: CustomOperatorConditions<string> = { $startsWith: "A" };
+ * ```
+ */
+export type CustomOperatorConditions<T> = {
+  [N in keyof CustomOperators]?: CustomOperand<T, N>;
+};
@@ -0,0 +1,19 @@
+/**
+ * Registry of the custom operators known to the query types, filled by
+ * declaration merging. Each entry maps an operator name to the kind of field it
+ * applies to and the type of its operand; `RegisteredOperators` derives the
+ * entries from the definitions given to `defineOperators`.
+ *
+ * @example
+ * ```ts
+ * const operators = defineOperators({
+ *   $startsWith: { appliesTo: "string", fn: (value, prefix: string) => value.startsWith(prefix) },
+ * });
+ *
+ * declare module "safe-sift" {
+ *   interface CustomOperators extends RegisteredOperators<typeof operators> {}
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface CustomOperators {}
@@ -0,0 +1,22 @@
+/**
+ * A length of time for relative date conditions such as `withinLast`. Years,
+ * months, weeks and days are calendar units, so `{ days: 1 }` is one calendar day
+ * even across a daylight saving change, and a month back from March 31 is the
+ * last day of February. All amounts must be non-negative integers.
+ *
+ * @example
+ * ```ts
+ * const fortnight: DateDuration = { weeks: 2 };
+ * const sessionLength: DateDuration = { hours: 1, minutes: 30 };
+ * ```
+ */
+export type DateDuration = {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  milliseconds?: number;
+};
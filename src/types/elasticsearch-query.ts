@@ -0,0 +1,35 @@
+/**
+ * An Elasticsearch / OpenSearch query DSL clause, as produced by `toElasticsearch`.
+ *
+ * @example
+ * ```ts
+ * const q: ElasticsearchQuery = {
+ *   bool: {
+ *     must: [{ range: { age: { gte: 18 } } }],
+ *     must_not: [{ term: { role: "guest" } }],
+ *   },
+ * };
+ * ```
+ */
+export type ElasticsearchQuery =
+  | {
+      bool: {
+        must?: ElasticsearchQuery[];
+        should?: ElasticsearchQuery[];
+        must_not?: ElasticsearchQuery[];
+        minimum_should_match?: number;
+      };
+    }
+  | { term: Record<string, unknown> }
+  | { terms: Record<string, unknown[]> }
+  | {
+      range: Record<
+        string,
+        { gt?: unknown; gte?: unknown; lt?: unknown; lte?: unknown }
+      >;
+    }
+  | { exists: { field: string } }
+  | { regexp: Record<string, { value: string; case_insensitive?: boolean }> }
+  | { nested: { path: string; query: ElasticsearchQuery } }
+  | { match_all: Record<string, never> }
+  | { match_none: Record<string, never> };
@@ -0,0 +1,18 @@
+import type { ExplainNode } from "./explain-node";
+
+/**
+ * A logical node in a query explanation. `$and` groups the conditions of one
+ * query object; `$not` with a `path` is the field-level form `{ age: { $not: ... } }`.
+ *
+ * @example
+ * ```ts
+ * const g: ExplainGroup = { kind: "group", op: "$or", pass: true, children: [] };
+ * ```
+ */
+export type ExplainGroup = {
+  kind: "group";
+  op: "$and" | "$or" | "$nor" | "$not";
+  path?: string;
+  pass: boolean;
+  children: ExplainNode[];
+};
@@ -0,0 +1,15 @@
+import type { ExplainGroup } from "./explain-group";
+import type { ExplainPredicate } from "./explain-predicate";
+
+/**
+ * A node of the tree returned by `explain`, mirroring the query structure.
+ *
+ * @example
+ * ```ts
+ * function failures(node: ExplainNode): ExplainPredicate[] {
+ *   if (node.kind === "predicate") return node.pass ? [] : [node];
+ *   return node.children.flatMap(failures);
+ * }
+ * ```
+ */
+export type ExplainNode = ExplainGroup | ExplainPredicate;
@@ -0,0 +1,29 @@
+import type { ExplainNode } from "./explain-node";
+import type { Predicate } from "./predicate";
+
+/**
+ * A field predicate in a query explanation: the normalized `Predicate`
+ * (whose `value` is the expected value) with the value found on the object and
+ * whether the predicate matched. `$elemMatch` predicates also explain the
+ * sub-query against each array element.
+ *
+ * @example
+ * ```ts
+ * const p: ExplainPredicate = {
+ *   kind: "predicate",
+ *   path: "age",
+ *   op: "$gte",
+ *   value: 18,
+ *   actual: 16,
+ *   pass: false,
+ * };
+ * ```
+ */
+export type ExplainPredicate = Predicate & {
+  kind: "predicate";
+  /** Value found at `path`; values collected through arrays are returned as an array */
+  actual: unknown;
+  pass: boolean;
+  /** For `$elemMatch`: the sub-query explained against each array element */
+  elements?: ExplainNode[];
+};
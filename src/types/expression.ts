@@ -0,0 +1,83 @@
+import type { FieldRef } from "./field-ref";
+import type { TypedFieldRef } from "./typed-field-ref";
+
+interface Cond<T, R> {
+  $cond: [Expression<T>, R, R] | { if: Expression<T>; then: R; else: R };
+}
+
+type NumericExpression<T> =
+  | number
+  | TypedFieldRef<T, number>
+  | { $add: NumericExpression<T>[] }
+  | {
+      $subtract:
+        | [NumericExpression<T>, NumericExpression<T>]
+        | [DateExpression<T>, DateExpression<T>];
+    }
+  | { $multiply: NumericExpression<T>[] }
+  | { $size: ArrayExpression<T> }
+  | Cond<T, NumericExpression<T>>;
+
+type DateExpression<T> =
+  | Date
+  | TypedFieldRef<T, Date>
+  | { $add: (DateExpression<T> | NumericExpression<T>)[] }
+  | { $subtract: [DateExpression<T>, NumericExpression<T>] }
+  | Cond<T, DateExpression<T>>;
+
+type StringExpression<T> =
+  | { $literal: string }
+  | TypedFieldRef<T, string>
+  | { $concat: StringExpression<T>[] }
+  | Cond<T, StringExpression<T>>;
+
+type ArrayExpression<T> =
+  | { $literal: ReadonlyArray<unknown> }
+  | TypedFieldRef<T, ReadonlyArray<unknown>>
+  | Cond<T, ArrayExpression<T>>;
+
+/** Two expressions of the same kind, or any expression and `null`. */
+type Comparable<T> =
+  | [NumericExpression<T>, NumericExpression<T>]
+  | [DateExpression<T>, DateExpression<T>]
+  | [StringExpression<T>, StringExpression<T>]
+  | [BooleanExpression<T>, BooleanExpression<T>]
+  | [Expression<T>, null]
+  | [null, Expression<T>];
+
+type BooleanExpression<T> =
+  | boolean
+  | TypedFieldRef<T, boolean>
+  | { $eq: Comparable<T> }
+  | { $ne: Comparable<T> }
+  | { $gt: Comparable<T> }
+  | { $gte: Comparable<T> }
+  | { $lt: Comparable<T> }
+  | { $lte: Comparable<T> }
+  | Cond<T, BooleanExpression<T>>;
+
+/**
+ * An aggregation expression over documents of type `T`, as used by `$expr`.
+ * Strings starting with `$` are field references and must be paths of `T`;
+ * string constants are written `{ $literal: "..." }`. Operators only accept
+ * operands of the kind they work on, and comparisons only compare expressions
+ * of the same kind (or with `null`).
+ *
+ * @example
+ * ```ts
+ * const overBudget: Expression<Project> = { $gt: ["$spent", "$budget"] };
+ * const late: Expression<Task> = {
+ *   $gt: ["$doneAt", { $add: ["$startedAt", 7 * 86_400_000] }],
+ * };
+ * const label: Expression<User> = { $concat: ["$first", { $literal: " " }, "$last"] };
+ * ```
+ */
+export type Expression<T> =
+  | FieldRef<T>
+  | null
+  | { $literal: unknown }
+  | NumericExpression<T>
+  | DateExpression<T>
+  | StringExpression<T>
+  | ArrayExpression<T>
+  | BooleanExpression<T>;
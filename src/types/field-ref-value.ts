@@ -0,0 +1,25 @@
+type ResolvePath<T, P extends string> = T extends null | undefined
+  ? undefined
+  : T extends ReadonlyArray<infer U>
+  ? ResolvePath<U, P>[]
+  : P extends `${infer H}.${infer R}`
+  ? H extends keyof T
+    ? ResolvePath<T[H], R>
+    : never
+  : P extends keyof T
+  ? T[P]
+  : never;
+
+/**
+ * The value an aggregation field reference evaluates to. Unlike `DeepValueOf`,
+ * paths that pass through arrays yield arrays, as they do in MongoDB.
+ *
+ * @example
+ * ```ts
+ * type A = FieldRefValue<User, "$profile.age">; // number
+ * type B = FieldRefValue<User, "$posts.title">; // string[]
+ * ```
+ */
+export type FieldRefValue<T, R> = R extends `$${infer P}`
+  ? ResolvePath<T, P>
+  : never;
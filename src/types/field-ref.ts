@@ -0,0 +1,11 @@
+import type { DeepKeyOf } from "./deep-key-of";
+
+/**
+ * An aggregation field reference: a valid path of `T` prefixed with `$`.
+ *
+ * @example
+ * ```ts
+ * const ref: FieldRef<User> = "$profile.age";
+ * ```
+ */
+export type FieldRef<T> = `$${DeepKeyOf<T>}`;
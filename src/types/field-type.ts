@@ -0,0 +1,9 @@
+/**
+ * Runtime name of a scalar field type in a `QuerySchema`. `any` disables type checks for the field.
+ *
+ * @example
+ * ```ts
+ * const t: FieldType = "date";
+ * ```
+ */
+export type FieldType = "string" | "number" | "boolean" | "date" | "any";
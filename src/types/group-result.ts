@@ -0,0 +1,47 @@
+import type { FieldRefValue } from "./field-ref-value";
+
+/** Missing values come out of accumulators as `null`. */
+type Nullish<V> = undefined extends V ? Exclude<V, undefined> | null : V;
+
+type GroupIdResult<T, Id> = Id extends null
+  ? null
+  : Id extends string
+  ? Nullish<FieldRefValue<T, Id>>
+  : { [K in keyof Id]: Nullish<FieldRefValue<T, Id[K]>> };
+
+type AccumulatorResult<T, A> = A extends { $sum: unknown }
+  ? number
+  : A extends { $avg: infer R }
+  ? Nullish<FieldRefValue<T, R>>
+  : A extends { $min: infer R }
+  ? Nullish<FieldRefValue<T, R>>
+  : A extends { $max: infer R }
+  ? Nullish<FieldRefValue<T, R>>
+  : A extends { $push: infer R }
+  ? Exclude<FieldRefValue<T, R>, undefined>[]
+  : A extends { $addToSet: infer R }
+  ? Exclude<FieldRefValue<T, R>, undefined>[]
+  : A extends { $first: infer R }
+  ? Nullish<FieldRefValue<T, R>>
+  : A extends { $last: infer R }
+  ? Nullish<FieldRefValue<T, R>>
+  : never;
+
+/**
+ * The documents a `$group` stage with specification `S` produces from documents of type `T`.
+ *
+ * @example
+ * ```ts
+ * type Row = GroupResult<Order, {
+ *   _id: "$customer.country";
+ *   total: { $sum: "$amount" };
+ *   biggest: { $max: "$amount" };
+ * }>;
+ * // { _id: string; total: number; biggest: number }
+ * ```
+ */
+export type GroupResult<T, S> = {
+  [K in keyof S]: K extends "_id"
+    ? GroupIdResult<T, S[K]>
+    : AccumulatorResult<T, S[K]>;
+};
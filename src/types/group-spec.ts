@@ -0,0 +1,26 @@
+import type { Accumulator } from "./accumulator";
+import type { FieldRef } from "./field-ref";
+
+/**
+ * Group key of a `$group` stage: a field reference, a document of field
+ * references for compound keys, or `null` to group everything together.
+ */
+type GroupId<T> = FieldRef<T> | { [key: string]: FieldRef<T> } | null;
+
+/**
+ * A `$group` stage specification over documents of type `T`.
+ * `S` is the specification itself, so every field besides `_id` is checked
+ * to be an accumulator.
+ *
+ * @example
+ * ```ts
+ * const spec = {
+ *   _id: "$customer.country",
+ *   total: { $sum: "$amount" },
+ *   orders: { $sum: 1 },
+ * } satisfies GroupSpec<Order, typeof spec>;
+ * ```
+ */
+export type GroupSpec<T, S> = { _id: GroupId<T> } & {
+  [K in Exclude<keyof S, "_id">]: Accumulator<T>;
+};
@@ -0,0 +1,11 @@
+/**
+ * Kind of a `SafeCollection` index: `hash` serves `$eq` and `$in`, `sorted`
+ * serves ranges (`$gt`, `$gte`, `$lt`, `$lte`) and equality on numbers, strings
+ * and Dates.
+ *
+ * @example
+ * ```ts
+ * const kind: IndexKind = "sorted";
+ * ```
+ */
+export type IndexKind = "hash" | "sorted";
@@ -11,3 +11,66 @@ export type { GetOptions } from "./get-options";
 export type { ComparisonOperators } from "./comparison-operators";
 export type { SafeSiftQuery } from "./safe-sift-query";
 export type { PathValue } from "./path-value";
+export type { SortDirection } from "./sort-direction";
+export type { SortSpec } from "./sort-spec";
+export type { Projection } from "./projection";
+export type { Projected } from "./projected";
+export type { FieldRef } from "./field-ref";
+export type { FieldRefValue } from "./field-ref-value";
+export type { Accumulator } from "./accumulator";
+export type { GroupSpec } from "./group-spec";
+export type { GroupResult } from "./group-result";
+export type { ArrayPath } from "./array-path";
+export type { Unwound } from "./unwound";
+export type { PipelineStage } from "./pipeline-stage";
+export type { UpdatePath } from "./update-path";
+export type { UpdatePathValue } from "./update-path-value";
+export type { SafeUpdate } from "./safe-update";
+export type { UpdateOptions } from "./update-options";
+export type { ExplainNode } from "./explain-node";
+export type { ExplainGroup } from "./explain-group";
+export type { ExplainPredicate } from "./explain-predicate";
+export type { FieldType } from "./field-type";
+export type { SchemaNode } from "./schema-node";
+export type { QuerySchema } from "./query-schema";
+export type { QueryValidationError } from "./query-validation-error";
+export type { QueryValidationResult } from "./query-validation-result";
+export type { QueryLimits } from "./query-limits";
+export type { QueryGuardCode } from "./query-guard-code";
+export type { SqlDialect } from "./sql-dialect";
+export type { SqlFragment } from "./sql-fragment";
+export type { ToSqlOptions } from "./to-sql-options";
+export type { ParseFilterOptions } from "./parse-filter-options";
+export type { ElasticsearchQuery } from "./elasticsearch-query";
+export type { ToElasticsearchOptions } from "./to-elasticsearch-options";
+export type { QueryRewrite } from "./query-rewrite";
+export type { OptimizeOptions } from "./optimize-options";
+export type { OptimizeResult } from "./optimize-result";
+export type { QuerySubsetOptions } from "./query-subset-options";
+export type { QuerySubsetResult } from "./query-subset-result";
+export type { IndexKind } from "./index-kind";
+export type { CollectionIndex } from "./collection-index";
+export type { SafeCollectionOptions } from "./safe-collection-options";
+export type { CollectionPlan } from "./collection-plan";
+export type { ObserveCallbacks } from "./observe-callbacks";
+export type { ObserveOptions } from "./observe-options";
+export type { ObserveHandle } from "./observe-handle";
+export type { OperatorTarget } from "./operator-target";
+export type { OperatorTargetValue } from "./operator-target-value";
+export type { OperatorDefinition } from "./operator-definition";
+export type { CustomOperators } from "./custom-operators";
+export type { RegisteredOperators } from "./registered-operators";
+export type { CustomOperand } from "./custom-operand";
+export type { CustomOperatorConditions } from "./custom-operator-conditions";
+export type { CustomFieldMethods } from "./custom-field-methods";
+export type { BsonType } from "./bson-type";
+export type { BitPositions } from "./bit-positions";
+export type { TypedFieldRef } from "./typed-field-ref";
+export type { Expression } from "./expression";
+export type { QueryCondition } from "./query-condition";
+export type { RuleOperator } from "./rule-operator";
+export type { Rule } from "./rule";
+export type { RuleGroup } from "./rule-group";
+export type { RuleField } from "./rule-field";
+export type { DateDuration } from "./date-duration";
+export type { QueryBuilderOptions } from "./query-builder-options";
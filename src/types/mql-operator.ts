@@ -1,5 +1,8 @@
+import type { CustomOperators } from "./custom-operators";
+
 /**
- * All supported Mongo-style operators this utility recognizes.
+ * All supported Mongo-style operators this utility recognizes, including the
+ * custom operators registered in `CustomOperators`.
  *
  * @example
  * ```ts
@@ -22,7 +25,9 @@ export type MqlOperator =
   | "$elemMatch"
   | "$type"
   | "$not"
+  | "$mod"
   | "$bitsAllSet"
   | "$bitsAnySet"
   | "$bitsAllClear"
-  | "$bitsAnyClear";
\ No newline at end of file
+  | "$bitsAnyClear"
+  | Extract<keyof CustomOperators, `$${string}`>;
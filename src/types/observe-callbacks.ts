@@ -0,0 +1,27 @@
+/**
+ * Callbacks of `SafeCollection.observe`, called as documents enter, leave,
+ * change or move within the observed result. Indexes are positions in the
+ * result, applied one callback at a time: `onRemoved` gives the position the
+ * document leaves, `onAdded` the position it takes once the earlier callbacks
+ * are applied.
+ *
+ * @example
+ * ```ts
+ * const callbacks: ObserveCallbacks<User> = {
+ *   onAdded: (user, index) => rows.splice(index, 0, user),
+ *   onRemoved: (_user, index) => rows.splice(index, 1),
+ *   onChanged: (user, _previous, index) => (rows[index] = user),
+ *   onMoved: (user, from, to) => rows.splice(to, 0, ...rows.splice(from, 1)),
+ * };
+ * ```
+ */
+export type ObserveCallbacks<T> = {
+  /** A document entered the result */
+  onAdded?: (doc: T, index: number) => void;
+  /** A document left the result */
+  onRemoved?: (doc: T, index: number) => void;
+  /** A document in the result was updated; called after `onMoved` if it also moved */
+  onChanged?: (doc: T, previous: T, index: number) => void;
+  /** An updated document in the result moved to another position */
+  onMoved?: (doc: T, fromIndex: number, toIndex: number) => void;
+};
@@ -0,0 +1,13 @@
+/**
+ * Handle returned by `SafeCollection.observe`.
+ *
+ * @example
+ * ```ts
+ * const handle: ObserveHandle = users.observe({ status: "online" }, callbacks);
+ * handle.stop();
+ * ```
+ */
+export type ObserveHandle = {
+  /** Stops calling the callbacks */
+  stop: () => void;
+};
@@ -0,0 +1,16 @@
+import type { SortSpec } from "./sort-spec";
+
+/**
+ * Options for `SafeCollection.observe`.
+ *
+ * @example
+ * ```ts
+ * const options: ObserveOptions<User> = { sort: { score: -1 }, limit: 10 };
+ * ```
+ */
+export type ObserveOptions<T> = {
+  /** Order of the result (default: insertion order) */
+  sort?: SortSpec<T>;
+  /** Only observe the first `limit` documents of the result (default: 0, no limit) */
+  limit?: number;
+};
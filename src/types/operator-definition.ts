@@ -0,0 +1,26 @@
+import type { OperatorTarget } from "./operator-target";
+import type { OperatorTargetValue } from "./operator-target-value";
+
+/**
+ * Definition of a custom operator passed to `defineOperators`: the kind of field
+ * it applies to and the test run against each field value with the operand
+ * given in the query. `fn` is only called with values of the `appliesTo` kind;
+ * annotate its operand parameter to type the operand accepted in queries.
+ *
+ * @example
+ * ```ts
+ * const startsWith: OperatorDefinition<"string", string> = {
+ *   appliesTo: "string",
+ *   fn: (value, prefix) => value.startsWith(prefix),
+ * };
+ * ```
+ */
+export type OperatorDefinition<
+  A extends OperatorTarget = OperatorTarget,
+  V = never
+> = A extends OperatorTarget
+  ? {
+      appliesTo: A;
+      fn: (value: OperatorTargetValue<A>, operand: V) => boolean;
+    }
+  : never;
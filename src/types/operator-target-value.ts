@@ -0,0 +1,21 @@
+import type { OperatorTarget } from "./operator-target";
+
+/**
+ * The TypeScript type of the field values an `OperatorTarget` stands for.
+ *
+ * @example
+ * ```ts
+ * type Value = OperatorTargetValue<"date">; // Date
+ * ```
+ */
+export type OperatorTargetValue<A extends OperatorTarget> = A extends "string"
+  ? string
+  : A extends "number"
+  ? number
+  : A extends "boolean"
+  ? boolean
+  : A extends "date"
+  ? Date
+  : A extends "array"
+  ? ReadonlyArray<unknown>
+  : unknown;
@@ -0,0 +1,17 @@
+/**
+ * Kind of field value a custom operator applies to. Like the built-in operators,
+ * an operator on scalars also tests each element of an array field, while an
+ * `array` operator tests the array as a whole. `any` applies to every value.
+ *
+ * @example
+ * ```ts
+ * const target: OperatorTarget = "string";
+ * ```
+ */
+export type OperatorTarget =
+  | "string"
+  | "number"
+  | "boolean"
+  | "date"
+  | "array"
+  | "any";
@@ -0,0 +1,19 @@
+import type { DeepKeyOf } from "./deep-key-of";
+
+/**
+ * Options for `optimizeQuery`.
+ *
+ * @example
+ * ```ts
+ * const options: OptimizeOptions<User> = { scalarPaths: ["age", "status"] };
+ * ```
+ */
+export type OptimizeOptions<T> = {
+  /**
+   * Paths that hold a single value, never an array. Conditions on any other path
+   * may each be met by a different array element, so `{ $gt: 10, $lt: 5 }` or two
+   * disjoint `$in` lists are not contradictory there; those conditions are only
+   * deduplicated, never combined.
+   */
+  scalarPaths?: readonly DeepKeyOf<T>[];
+};
@@ -0,0 +1,18 @@
+import type { QueryRewrite } from "./query-rewrite";
+import type { SafeSiftQuery } from "./safe-sift-query";
+
+/**
+ * Result of `optimizeQuery`: the equivalent optimized query, the rewrites that
+ * produced it, and whether no document can match it.
+ *
+ * @example
+ * ```ts
+ * const { query, rewrites, alwaysFalse } = optimizeQuery<User>({ age: { $gt: 5, $lt: 3 } });
+ * // query: { $nor: [{}] }, alwaysFalse: true
+ * ```
+ */
+export type OptimizeResult<T> = {
+  query: SafeSiftQuery<T>;
+  rewrites: QueryRewrite[];
+  alwaysFalse: boolean;
+};
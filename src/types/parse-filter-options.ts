@@ -0,0 +1,14 @@
+import type { DeepKeyOf } from "./deep-key-of";
+
+/**
+ * Options for `parseFilter`.
+ *
+ * @example
+ * ```ts
+ * const options: ParseFilterOptions<User> = { fields: ["name", "age", "profile.active"] };
+ * ```
+ */
+export type ParseFilterOptions<T> = {
+  /** Field paths the filter may reference; any other field is a syntax error. All fields are allowed when omitted. */
+  fields?: readonly DeepKeyOf<T>[];
+};
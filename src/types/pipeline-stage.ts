@@ -0,0 +1,28 @@
+import type { SortDirection } from "./sort-direction";
+
+/**
+ * A raw aggregation stage, in the MongoDB-compatible shape produced by
+ * `AggregationPipeline.toStages()` and accepted by `runPipeline`.
+ *
+ * @example
+ * ```ts
+ * const stages: PipelineStage[] = [
+ *   { $match: { status: "paid" } },
+ *   { $group: { _id: "$country", total: { $sum: "$amount" } } },
+ *   { $sort: { total: -1 } },
+ *   { $limit: 3 },
+ * ];
+ * ```
+ */
+export type PipelineStage =
+  | { $match: Record<string, unknown> }
+  | { $group: { _id: unknown; [field: string]: unknown } }
+  | { $project: Record<string, 0 | 1 | boolean | undefined> }
+  | { $sort: Record<string, SortDirection | undefined> }
+  | { $skip: number }
+  | { $limit: number }
+  | {
+      $unwind:
+        | string
+        | { path: string; preserveNullAndEmptyArrays?: boolean };
+    };
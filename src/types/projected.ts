@@ -0,0 +1,69 @@
+import type { Primitive } from "./primitives";
+
+type PathHead<P extends string> = P extends `${infer H}.${string}` ? H : P;
+
+type PathTail<P extends string, H extends string> = P extends `${H}.${infer R}`
+  ? R
+  : never;
+
+type IncludedPaths<P> = {
+  [K in keyof P]-?: P[K] extends 1 | true ? K : never;
+}[keyof P] &
+  string;
+
+type ExcludedPaths<P> = {
+  [K in keyof P]-?: P[K] extends 0 | false ? K : never;
+}[keyof P] &
+  string;
+
+/** Flattens an intersection into a single object type for readable hovers. */
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/** Keeps only the given paths of `T`, descending through arrays. */
+type PickPaths<T, P extends string> = T extends Primitive
+  ? T
+  : T extends ReadonlyArray<infer U>
+  ? PickPaths<U, P>[]
+  : Simplify<
+      {
+        [K in keyof T as K extends P ? K : never]: T[K];
+      } & {
+        [K in keyof T as K extends Exclude<PathHead<P>, P>
+          ? K
+          : never]: PickPaths<T[K], PathTail<P, K & string>>;
+      }
+    >;
+
+/** Removes the given paths from `T`, descending through arrays. */
+type OmitPaths<T, P extends string> = T extends Primitive
+  ? T
+  : T extends ReadonlyArray<infer U>
+  ? OmitPaths<U, P>[]
+  : Simplify<
+      {
+        [K in keyof T as K extends P | PathHead<P> ? never : K]: T[K];
+      } & {
+        [K in keyof T as K extends Exclude<PathHead<P>, P>
+          ? K
+          : never]: OmitPaths<T[K], PathTail<P, K & string>>;
+      }
+    >;
+
+/**
+ * The shape of a document of type `T` after applying projection `P`.
+ * An empty projection leaves `T` unchanged.
+ *
+ * @example
+ * ```ts
+ * type A = Projected<User, { name: 1; "profile.age": 1 }>;
+ * // { name: string; profile: { age: number } }
+ *
+ * type B = Projected<User, { profile: 0 }>;
+ * // User without `profile`
+ * ```
+ */
+export type Projected<T, P> = [keyof P] extends [never]
+  ? T
+  : [IncludedPaths<P>] extends [never]
+  ? OmitPaths<T, ExcludedPaths<P>>
+  : PickPaths<T, IncludedPaths<P>>;
@@ -0,0 +1,23 @@
+import type { DeepKeyOf } from "./deep-key-of";
+
+type InclusionProjection<T> = {
+  [K in DeepKeyOf<T>]?: 1 | true;
+};
+
+type ExclusionProjection<T> = {
+  [K in DeepKeyOf<T>]?: 0 | false;
+};
+
+/**
+ * MongoDB-style projection with keys restricted to valid paths of `T`.
+ * A projection either includes fields (`1`/`true`) or excludes them (`0`/`false`);
+ * mixing both forms is a compile error, as it is a runtime error in MongoDB.
+ *
+ * @example
+ * ```ts
+ * const include: Projection<User> = { name: 1, "profile.age": 1 };
+ * const exclude: Projection<User> = { "profile.settings": 0 };
+ * // const mixed: Projection<User> = { name: 1, age: 0 }; // ❌ compile error
+ * ```
+ */
+export type Projection<T> = InclusionProjection<T> | ExclusionProjection<T>;
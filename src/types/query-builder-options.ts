@@ -0,0 +1,22 @@
+/**
+ * Options of a `QueryBuilder` for its date conditions, such as `withinLast` and `onDay`.
+ *
+ * @template D - What `coerceDate` turns dates into; date conditions are only available on fields of this type
+ *
+ * @example
+ * ```ts
+ * const options: QueryBuilderOptions<string> = {
+ *   now: () => new Date("2024-06-01T12:00:00Z"),
+ *   coerceDate: (date) => date.toISOString(),
+ *   utc: true,
+ * };
+ * ```
+ */
+export type QueryBuilderOptions<D extends Date | string | number = Date> = {
+  /** Clock giving the current time for relative date conditions (default: `() => new Date()`) */
+  now?: () => Date;
+  /** Converts the dates in date conditions into the values stored in date fields, e.g. ISO strings; date conditions then apply to fields of the returned type instead of `Date` fields (default: the dates as they are) */
+  coerceDate?: (date: Date) => D;
+  /** Use UTC instead of local time for calendar days and months (default: false) */
+  utc?: boolean;
+};
@@ -0,0 +1,25 @@
+import type { DeepKeyOf } from "./deep-key-of";
+import type { MqlOperator } from "./mql-operator";
+
+/**
+ * A single clause of a query, as listed by `QueryBuilder#conditions()`. The JSON
+ * pointer locates the clause in the query, including the `$and`/`$or`/`$nor`/`$not`
+ * groups around it; `field` is `null` for clauses on the whole document (`$expr`).
+ * Implicit equality (`{ name: "Ann" }`) is reported as `$eq` at the field's pointer.
+ *
+ * @example
+ * ```ts
+ * const c: QueryCondition<User> = {
+ *   pointer: "/$or/1/age/$gte",
+ *   field: "age",
+ *   operator: "$gte",
+ *   value: 18,
+ * };
+ * ```
+ */
+export type QueryCondition<T> = {
+  pointer: string;
+  field: DeepKeyOf<T> | null;
+  operator: MqlOperator | "$expr";
+  value: unknown;
+};
@@ -0,0 +1,16 @@
+/**
+ * Kind of limit or rule a query violated, carried by `QueryGuardError`.
+ *
+ * @example
+ * ```ts
+ * const code: QueryGuardCode = "unsafe-regex";
+ * ```
+ */
+export type QueryGuardCode =
+  | "forbidden-operator"
+  | "function-value"
+  | "max-depth"
+  | "max-in-length"
+  | "max-predicates"
+  | "regex-too-long"
+  | "unsafe-regex";
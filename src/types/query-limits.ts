@@ -0,0 +1,18 @@
+/**
+ * Limits enforced by `createSafeQuery` on untrusted queries. Omitted limits use the defaults.
+ *
+ * @example
+ * ```ts
+ * const limits: QueryLimits = { maxDepth: 6, maxInLength: 50 };
+ * ```
+ */
+export type QueryLimits = {
+  /** Maximum nesting of objects and arrays in the query (default: 10) */
+  maxDepth?: number;
+  /** Maximum number of items in an `$in`, `$nin` or `$all` array (default: 100) */
+  maxInLength?: number;
+  /** Maximum number of field conditions in the whole query (default: 50) */
+  maxPredicates?: number;
+  /** Maximum length of a regular expression pattern (default: 200) */
+  maxRegexLength?: number;
+};
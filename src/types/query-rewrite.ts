@@ -0,0 +1,29 @@
+/**
+ * A rewrite applied by `optimizeQuery`, with the field path it concerns, if any.
+ *
+ * @example
+ * ```ts
+ * const r: QueryRewrite = {
+ *   code: "merge-range",
+ *   path: "age",
+ *   message: 'Dropped $gt: 3 on "age", implied by $gte: 5',
+ * };
+ * ```
+ */
+export type QueryRewrite = {
+  code:
+    | "flatten-and"
+    | "flatten-or"
+    | "unwrap-or"
+    | "remove-duplicate"
+    | "remove-false-branch"
+    | "remove-true-or"
+    | "hoist-from-or"
+    | "merge-range"
+    | "merge-nin"
+    | "intersect-in"
+    | "implied-by-eq"
+    | "always-false";
+  path?: string;
+  message: string;
+};
@@ -0,0 +1,42 @@
+import type { FieldType } from "./field-type";
+
+type SchemaOf<V> = [V] extends [string]
+  ? "string" | "any"
+  : [V] extends [number]
+  ? "number" | "any"
+  : [V] extends [boolean]
+  ? "boolean" | "any"
+  : [V] extends [Date]
+  ? "date" | "any"
+  : [V] extends [ReadonlyArray<infer U>]
+  ? readonly [SchemaOf<NonNullable<U>>] | "any"
+  : [V] extends [object]
+  ? QuerySchema<V> | "any"
+  : FieldType;
+
+/**
+ * Runtime descriptor of the fields of `T`, used by `validateQuery` to check untrusted
+ * queries. Scalars are named by type, arrays are a one-element tuple of their element
+ * schema, and nested objects are nested schemas. Every field of `T` must be described,
+ * and each descriptor must match the field's TypeScript type.
+ *
+ * @example
+ * ```ts
+ * interface User {
+ *   name: string;
+ *   age?: number;
+ *   tags: string[];
+ *   profile: { joined: Date };
+ * }
+ *
+ * const userSchema: QuerySchema<User> = {
+ *   name: "string",
+ *   age: "number",
+ *   tags: ["string"],
+ *   profile: { joined: "date" },
+ * };
+ * ```
+ */
+export type QuerySchema<T> = {
+  readonly [K in keyof T & string]-?: SchemaOf<NonNullable<T[K]>>;
+};
@@ -0,0 +1,18 @@
+import type { DeepKeyOf } from "./deep-key-of";
+
+/**
+ * Options for `isQuerySubsetOf`.
+ *
+ * @example
+ * ```ts
+ * const options: QuerySubsetOptions<User> = { scalarPaths: ["age", "role"] };
+ * ```
+ */
+export type QuerySubsetOptions<T> = {
+  /**
+   * Paths that hold a single value, never an array. A condition on any other
+   * path holds when one array element satisfies it, so only implications that
+   * hold for arrays are used there.
+   */
+  scalarPaths?: readonly DeepKeyOf<T>[];
+};
@@ -0,0 +1,12 @@
+/**
+ * Answer of `isQuerySubsetOf`: `true` when every document matching the narrow
+ * query is proven to match the broad one, `false` when a document matching only
+ * the narrow query was found, and `"unknown"` when neither could be shown.
+ *
+ * @example
+ * ```ts
+ * const answer: QuerySubsetResult = isQuerySubsetOf<User>({ age: 30 }, { age: { $gt: 18 } });
+ * // => true
+ * ```
+ */
+export type QuerySubsetResult = boolean | "unknown";
@@ -0,0 +1,22 @@
+/**
+ * A problem found by `validateQuery`, located by a JSON pointer (RFC 6901) into the query.
+ *
+ * @example
+ * ```ts
+ * const e: QueryValidationError = {
+ *   pointer: "/$or/1/age/$regex",
+ *   code: "invalid-operator",
+ *   message: "$regex requires a string field, but age is number",
+ * };
+ * ```
+ */
+export type QueryValidationError = {
+  pointer: string;
+  code:
+    | "invalid-query"
+    | "unknown-path"
+    | "unknown-operator"
+    | "invalid-operator"
+    | "invalid-value";
+  message: string;
+};
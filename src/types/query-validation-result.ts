@@ -0,0 +1,17 @@
+import type { QueryValidationError } from "./query-validation-error";
+import type { SafeSiftQuery } from "./safe-sift-query";
+
+/**
+ * Result of `validateQuery`: the query typed as `SafeSiftQuery<T>` when valid,
+ * otherwise every error found.
+ *
+ * @example
+ * ```ts
+ * const result = validateQuery(JSON.parse(body), userSchema);
+ * if (!result.valid) return reply(400, result.errors);
+ * new SafeSift(result.query).filter(users);
+ * ```
+ */
+export type QueryValidationResult<T> =
+  | { valid: true; query: SafeSiftQuery<T>; errors: [] }
+  | { valid: false; errors: QueryValidationError[] };
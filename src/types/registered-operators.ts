@@ -0,0 +1,21 @@
+/**
+ * Entries of the `CustomOperators` registry for the definitions given to
+ * `defineOperators`, with each operand type taken from the `fn` signature.
+ *
+ * @example
+ * ```ts
+ * const operators = defineOperators({
+ *   $between: { appliesTo: "number", fn: (value, [lo, hi]: [number, number]) => value >= lo && value <= hi },
+ * });
+ * type Entries = RegisteredOperators<typeof operators>;
+ * // { $between: { appliesTo: "number"; operand: [number, number] } }
+ * ```
+ */
+export type RegisteredOperators<D> = {
+  [N in keyof D]: D[N] extends {
+    appliesTo: infer A;
+    fn: (value: never, operand: infer V) => boolean;
+  }
+    ? { appliesTo: A; operand: V }
+    : never;
+};
@@ -0,0 +1,24 @@
+import type { DeepKeyOf } from "./deep-key-of";
+import type { RuleOperator } from "./rule-operator";
+import type { SchemaNode } from "./schema-node";
+
+/**
+ * A field offered by a query editor, in react-querybuilder's field format, with
+ * the operators that apply to its type.
+ *
+ * @example
+ * ```ts
+ * const field: RuleField<User> = {
+ *   name: "age",
+ *   label: "age",
+ *   type: "number",
+ *   operators: [{ name: "=", label: "=" }, { name: "between", label: "between" }],
+ * };
+ * ```
+ */
+export type RuleField<T> = {
+  name: DeepKeyOf<T>;
+  label: string;
+  type: SchemaNode;
+  operators: { name: RuleOperator; label: string }[];
+};
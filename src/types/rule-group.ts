@@ -0,0 +1,23 @@
+import type { Rule } from "./rule";
+
+/**
+ * A group of a query-editor tree, in react-querybuilder's rule-group format: rules
+ * and nested groups joined by one combinator, optionally negated.
+ *
+ * @example
+ * ```ts
+ * const group: RuleGroup<User> = {
+ *   combinator: "or",
+ *   rules: [
+ *     { field: "role", operator: "=", value: "admin" },
+ *     { combinator: "and", not: true, rules: [{ field: "age", operator: "<", value: 18 }] },
+ *   ],
+ * };
+ * ```
+ */
+export type RuleGroup<T> = {
+  id?: string;
+  combinator: "and" | "or";
+  not?: boolean;
+  rules: Array<Rule<T> | RuleGroup<T>>;
+};
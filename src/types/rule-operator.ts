@@ -0,0 +1,33 @@
+import type { MqlOperator } from "./mql-operator";
+
+/**
+ * Operator of a `Rule` in a query-editor tree. The names used by react-querybuilder
+ * stand for their MongoDB equivalents (`"="` is implicit equality, `"between"` is
+ * `$gte` and `$lte`, `"contains"` is an escaped `$regex`, ...); operators without
+ * such a name, including custom ones, are written as in queries (`"$size"`).
+ *
+ * @example
+ * ```ts
+ * const op: RuleOperator = "beginsWith"; // { $regex: "^..." }
+ * ```
+ */
+export type RuleOperator =
+  | "="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "contains"
+  | "beginsWith"
+  | "endsWith"
+  | "doesNotContain"
+  | "doesNotBeginWith"
+  | "doesNotEndWith"
+  | "null"
+  | "notNull"
+  | "in"
+  | "notIn"
+  | "between"
+  | "notBetween"
+  | MqlOperator;
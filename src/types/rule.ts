@@ -0,0 +1,20 @@
+import type { DeepKeyOf } from "./deep-key-of";
+import type { RuleOperator } from "./rule-operator";
+
+/**
+ * A single condition of a query-editor tree, in react-querybuilder's rule format.
+ * With `valueSource: "field"`, `value` names another field to compare with.
+ *
+ * @example
+ * ```ts
+ * const rule: Rule<User> = { field: "age", operator: ">=", value: 18 };
+ * const late: Rule<Task> = { field: "doneAt", operator: ">", value: "dueAt", valueSource: "field" };
+ * ```
+ */
+export type Rule<T> = {
+  id?: string;
+  field: DeepKeyOf<T>;
+  operator: RuleOperator;
+  value: unknown;
+  valueSource?: "value" | "field";
+};
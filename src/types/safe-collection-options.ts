@@ -0,0 +1,16 @@
+import type { CollectionIndex } from "./collection-index";
+
+/**
+ * Options for creating a `SafeCollection`.
+ *
+ * @example
+ * ```ts
+ * const options: SafeCollectionOptions<User> = {
+ *   indexes: [{ path: "status", kind: "hash" }, { path: "age", kind: "sorted" }],
+ * };
+ * ```
+ */
+export type SafeCollectionOptions<T> = {
+  /** Indexes to build over the initial documents and maintain on every change */
+  indexes?: readonly CollectionIndex<T>[];
+};
@@ -1,6 +1,7 @@
 import type { DeepKeyOf } from "./deep-key-of";
 import type { DeepValueOf } from "./deep-value-of";
 import type { ComparisonOperators } from "./comparison-operators";
+import type { Expression } from "./expression";
 
 /**
  * Main query type that combines all query capabilities into a comprehensive query structure. Supports logical operators, direct field queries, and deep nested field queries with dot notation. This is the primary type used for constructing type-safe queries.
@@ -59,6 +60,8 @@ export type SafeSiftQuery<T> = {
   $or?: SafeSiftQuery<T>[];
   $nor?: SafeSiftQuery<T>[];
   $not?: SafeSiftQuery<T>;
+  // Aggregation expression, e.g. to compare two fields of a document
+  $expr?: Expression<T>;
 } & {
   // Direct field queries and deep field queries combined in one mapped type
   [K in keyof T | DeepKeyOf<T>]?: K extends keyof T
@@ -72,11 +75,17 @@ export type SafeSiftQuery<T> = {
  * Union of all supported field query shapes.
  */
 type FieldQuery<T> =
-  | ComparisonOperators<T>
-  | ArrayOperators<T>
+  | FieldOperators<T>
   | T
   | (T extends ReadonlyArray<infer U> ? U : never);
 
+/**
+ * Operator expression on a field, which `$not` negates as a whole.
+ */
+type FieldOperators<T> = (ComparisonOperators<T> | ArrayOperators<T>) & {
+  $not?: FieldOperators<T> | (T extends string ? RegExp : never);
+};
+
 /**
  * Operators for array fields.
  */
@@ -85,4 +94,4 @@ type ArrayOperators<T> = T extends ReadonlyArray<infer U>
       $all?: U[];
       $elemMatch?: SafeSiftQuery<U>;
     }
-  : never;
\ No newline at end of file
+  : never;
@@ -0,0 +1,71 @@
+import type { ArrayPath } from "./array-path";
+import type { DeepKeyOf } from "./deep-key-of";
+import type { SafeSiftQuery } from "./safe-sift-query";
+import type { UpdatePath } from "./update-path";
+import type { UpdatePathValue } from "./update-path-value";
+
+type ElementOf<V> = NonNullable<V> extends ReadonlyArray<infer U> ? U : never;
+
+/** Update paths whose value satisfies `V`. */
+type PathsOfType<T, V> = {
+  [K in UpdatePath<T>]: NonNullable<UpdatePathValue<T, K>> extends V
+    ? K
+    : never;
+}[UpdatePath<T>];
+
+/** Element condition accepted by `$pull`: a value or a query on the element. */
+type PullCondition<U> =
+  | U
+  | (U extends object ? SafeSiftQuery<U> : never)
+  | {
+      $eq?: U;
+      $ne?: U;
+      $gt?: U;
+      $gte?: U;
+      $lt?: U;
+      $lte?: U;
+      $in?: U[];
+      $nin?: U[];
+    };
+
+/**
+ * MongoDB-style update document for objects of type `T`.
+ * Paths are constrained to `UpdatePath<T>` and values to the type at each path;
+ * arithmetic operators only accept numeric fields and array operators only array fields.
+ *
+ * @example
+ * ```ts
+ * const update: SafeUpdate<User> = {
+ *   $set: { "profile.bio": "Hello" },
+ *   $inc: { loginCount: 1 },
+ *   $push: { tags: { $each: ["a", "b"], $slice: -10 } },
+ *   $unset: { "profile.nickname": "" },
+ * };
+ * ```
+ */
+export type SafeUpdate<T> = {
+  $set?: { [K in UpdatePath<T>]?: UpdatePathValue<T, K> };
+  $unset?: { [K in UpdatePath<T>]?: "" | 1 | true };
+  $inc?: { [K in PathsOfType<T, number>]?: number };
+  $mul?: { [K in PathsOfType<T, number>]?: number };
+  $min?: {
+    [K in PathsOfType<T, string | number | Date>]?: UpdatePathValue<T, K>;
+  };
+  $max?: {
+    [K in PathsOfType<T, string | number | Date>]?: UpdatePathValue<T, K>;
+  };
+  $push?: {
+    [K in ArrayPath<T>]?:
+      | ElementOf<UpdatePathValue<T, K>>
+      | { $each: ElementOf<UpdatePathValue<T, K>>[]; $slice?: number };
+  };
+  $addToSet?: {
+    [K in ArrayPath<T>]?:
+      | ElementOf<UpdatePathValue<T, K>>
+      | { $each: ElementOf<UpdatePathValue<T, K>>[] };
+  };
+  $pull?: {
+    [K in ArrayPath<T>]?: PullCondition<ElementOf<UpdatePathValue<T, K>>>;
+  };
+  $rename?: { [K in DeepKeyOf<T>]?: DeepKeyOf<T> };
+};
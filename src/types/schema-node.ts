@@ -0,0 +1,15 @@
+import type { FieldType } from "./field-type";
+
+/**
+ * Untyped node of a query schema: a scalar field type, a one-element tuple
+ * describing array elements, or an object of nested fields.
+ *
+ * @example
+ * ```ts
+ * const node: SchemaNode = { tags: ["string"], profile: { age: "number" } };
+ * ```
+ */
+export type SchemaNode =
+  | FieldType
+  | readonly [SchemaNode]
+  | { readonly [field: string]: SchemaNode };
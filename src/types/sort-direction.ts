@@ -0,0 +1,9 @@
+/**
+ * Sort direction for a single field: `1` ascending, `-1` descending.
+ *
+ * @example
+ * ```ts
+ * const dir: SortDirection = -1;
+ * ```
+ */
+export type SortDirection = 1 | -1;
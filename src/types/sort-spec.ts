@@ -0,0 +1,15 @@
+import type { DeepKeyOf } from "./deep-key-of";
+import type { SortDirection } from "./sort-direction";
+
+/**
+ * MongoDB-style sort specification. Keys are restricted to valid paths of `T`
+ * and are applied in insertion order.
+ *
+ * @example
+ * ```ts
+ * const spec: SortSpec<User> = { "profile.age": -1, name: 1 };
+ * ```
+ */
+export type SortSpec<T> = {
+  [K in DeepKeyOf<T>]?: SortDirection;
+};
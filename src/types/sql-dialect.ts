@@ -0,0 +1,9 @@
+/**
+ * SQL dialects `toSql` can emit.
+ *
+ * @example
+ * ```ts
+ * const dialect: SqlDialect = "sqlite";
+ * ```
+ */
+export type SqlDialect = "postgres" | "sqlite";
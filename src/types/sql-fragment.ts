@@ -0,0 +1,9 @@
+/**
+ * A parameterized SQL fragment: `sql` with placeholders and the values bound to them, in order.
+ *
+ * @example
+ * ```ts
+ * const where: SqlFragment = { sql: '"age" >= $1', params: [18] };
+ * ```
+ */
+export type SqlFragment = { sql: string; params: unknown[] };
@@ -0,0 +1,20 @@
+import type { DeepKeyOf } from "./deep-key-of";
+
+/**
+ * Options for `toElasticsearch`.
+ *
+ * @example
+ * ```ts
+ * const options: ToElasticsearchOptions<User> = {
+ *   fieldMap: { name: "name.keyword", profile: "user_profile" },
+ * };
+ * ```
+ */
+export type ToElasticsearchOptions<T> = {
+  /**
+   * Index field names for field paths. A mapped path also maps the paths below
+   * it, e.g. `profile: "user_profile"` turns `profile.country` into
+   * `user_profile.country`. Unmapped paths are used as they are.
+   */
+  fieldMap?: { [K in DeepKeyOf<T>]?: string };
+};
@@ -0,0 +1,31 @@
+import type { DeepKeyOf } from "./deep-key-of";
+import type { SqlDialect } from "./sql-dialect";
+
+/**
+ * Options for `toSql`.
+ *
+ * @example
+ * ```ts
+ * const options: ToSqlOptions<User> = {
+ *   dialect: "postgres",
+ *   columnMap: { name: "full_name", profile: "profile_json" },
+ *   arrayPaths: ["tags"],
+ * };
+ * ```
+ */
+export type ToSqlOptions<T> = {
+  /** Placeholder style and JSON functions to emit (default: "postgres") */
+  dialect?: SqlDialect;
+  /**
+   * SQL expressions for field paths, used verbatim. A mapped path also maps the
+   * paths below it, which are read from the column as JSON. Unmapped paths use
+   * their first segment as a quoted column name.
+   */
+  columnMap?: { [K in DeepKeyOf<T>]?: string };
+  /**
+   * Paths holding arrays. sift matches a condition on an array when one element
+   * meets it, which a comparison of the whole column cannot express, so any
+   * condition on these paths or the paths below them other than `$exists` throws.
+   */
+  arrayPaths?: readonly DeepKeyOf<T>[];
+};
@@ -0,0 +1,16 @@
+import type { DeepKeyOf } from "./deep-key-of";
+import type { FieldRefValue } from "./field-ref-value";
+
+/**
+ * Field references of `T` that evaluate to `V`, possibly `null` or missing.
+ *
+ * @example
+ * ```ts
+ * type Numeric = TypedFieldRef<User, number>; // "$age" | "$profile.score" ...
+ * ```
+ */
+export type TypedFieldRef<T, V> = {
+  [K in DeepKeyOf<T>]: FieldRefValue<T, `$${K}`> extends V | null | undefined
+    ? `$${K}`
+    : never;
+}[DeepKeyOf<T>];
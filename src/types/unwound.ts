@@ -0,0 +1,25 @@
+type Element<V, Preserve extends boolean> = NonNullable<V> extends ReadonlyArray<
+  infer U
+>
+  ? Preserve extends true
+    ? U | Exclude<V, ReadonlyArray<unknown>> | undefined
+    : U
+  : V;
+
+/**
+ * The documents an `$unwind` stage on path `P` produces from documents of type `T`:
+ * the array at `P` is replaced by one of its elements. With
+ * `preserveNullAndEmptyArrays`, the field may also be missing or null.
+ *
+ * @example
+ * ```ts
+ * type Row = Unwound<User, "tags">; // User with `tags: string`
+ * ```
+ */
+export type Unwound<
+  T,
+  P extends string,
+  Preserve extends boolean = false
+> = P extends `${infer H}.${infer R}`
+  ? { [K in keyof T]: K extends H ? Unwound<T[K], R, Preserve> : T[K] }
+  : { [K in keyof T]: K extends P ? Element<T[K], Preserve> : T[K] };
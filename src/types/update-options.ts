@@ -0,0 +1,16 @@
+import type { SafeSiftQuery } from "./safe-sift-query";
+
+/**
+ * Options for applying an update.
+ *
+ * @example
+ * ```ts
+ * const opts: UpdateOptions<User> = { mutate: true, query: { "posts.title": "Hi" } };
+ * ```
+ */
+export type UpdateOptions<T> = {
+  /** Modify documents in place instead of returning updated copies (default: false) */
+  mutate?: boolean;
+  /** Query whose array conditions resolve positional `$` paths */
+  query?: SafeSiftQuery<T>;
+};
@@ -0,0 +1,29 @@
+import type { DeepValueOf } from "./deep-value-of";
+
+type ElementOf<V> = NonNullable<V> extends ReadonlyArray<infer U> ? U : never;
+
+/** Rewrite numeric index segments as `$`. */
+type Positional<P extends string> = P extends `${infer H}.${infer R}`
+  ? `${H extends `${number}` ? "$" : H}.${Positional<R>}`
+  : P extends `${number}`
+    ? "$"
+    : P;
+
+type Resolve<T, P extends string> = P extends `${infer A}.$.${infer R}`
+  ? DeepValueOf<ElementOf<DeepValueOf<T, A>>, R>
+  : P extends `${infer A}.$`
+    ? ElementOf<DeepValueOf<T, A>>
+    : DeepValueOf<T, P>;
+
+/**
+ * The value type at an update path, resolving positional `$` and numeric index
+ * segments to the array element type.
+ *
+ * @example
+ * ```ts
+ * type A = UpdatePathValue<User, "profile.age">;   // number
+ * type B = UpdatePathValue<User, "posts.$">;       // Post
+ * type C = UpdatePathValue<User, "posts.0.views">; // number
+ * ```
+ */
+export type UpdatePathValue<T, P extends string> = Resolve<T, Positional<P>>;
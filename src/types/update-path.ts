@@ -0,0 +1,32 @@
+import type { ArrayPath } from "./array-path";
+import type { DeepKeyOf } from "./deep-key-of";
+import type { DeepValueOf } from "./deep-value-of";
+
+/** Paths that address a single value, i.e. do not run through an array. */
+type DirectPath<T> = {
+  [K in DeepKeyOf<T>]: [DeepValueOf<T, K>] extends [never] ? never : K;
+}[DeepKeyOf<T>];
+
+/** Paths into array elements, by positional `$` or numeric index. */
+type ElementPath<T> = {
+  [K in ArrayPath<T>]: NonNullable<DeepValueOf<T, K>> extends ReadonlyArray<
+    infer U
+  >
+    ? `${K}.${"$" | number}` | `${K}.${"$" | number}.${DeepKeyOf<U>}`
+    : never;
+}[ArrayPath<T>];
+
+/**
+ * Paths an update operator may target: every path of `T` that addresses a single
+ * value, plus paths into array elements by index (`posts.0.views`) or by the
+ * positional `$` (`posts.$.views`), which stands for the first element matched
+ * by the query.
+ *
+ * @example
+ * ```ts
+ * const p1: UpdatePath<User> = "profile.age";
+ * const p2: UpdatePath<User> = "posts.$.views";
+ * const p3: UpdatePath<User> = "tags.0";
+ * ```
+ */
+export type UpdatePath<T> = DirectPath<T> | ElementPath<T>;
@@ -0,0 +1,166 @@
+import type { SafeUpdate, UpdateOptions } from "../types";
+import { createQueryMatcher } from "../create-sift-function";
+import {
+  cloneDeep,
+  compareValues,
+  getPathValue,
+  isPlainObject,
+  valueKey,
+} from "../values";
+import { assertSafePath } from "./assert-safe-path";
+import { resolvePositionalPath } from "./resolve-positional-path";
+import { setPathValue } from "./set-path-value";
+import { unsetPathValue } from "./unset-path-value";
+
+type Doc = Record<string, unknown>;
+type UpdateOperator = (doc: Doc, path: string, arg: unknown) => void;
+
+function arrayAt(doc: Doc, path: string, op: string): unknown[] {
+  const current = getPathValue(doc, path);
+  if (current === undefined || current === null) {
+    const created: unknown[] = [];
+    setPathValue(doc, path, created);
+    return created;
+  }
+  if (!Array.isArray(current)) {
+    throw new TypeError(`Cannot apply ${op} to non-array field "${path}"`);
+  }
+  return current;
+}
+
+function numberAt(doc: Doc, path: string, op: string): number | undefined {
+  const current = getPathValue(doc, path);
+  if (current !== undefined && typeof current !== "number") {
+    throw new TypeError(`Cannot apply ${op} to non-numeric field "${path}"`);
+  }
+  return current;
+}
+
+function numericArg(arg: unknown, op: string, path: string): number {
+  if (typeof arg !== "number") {
+    throw new TypeError(
+      `Cannot apply ${op} with a non-numeric argument to "${path}"`
+    );
+  }
+  return arg;
+}
+
+function eachOf(arg: unknown): unknown[] {
+  return isPlainObject(arg) && Array.isArray(arg.$each) ? arg.$each : [arg];
+}
+
+const operators: Record<string, UpdateOperator> = {
+  $set: (doc, path, arg) => setPathValue(doc, path, cloneDeep(arg)),
+  $unset: (doc, path) => unsetPathValue(doc, path),
+  $inc: (doc, path, arg) => {
+    const current = numberAt(doc, path, "$inc");
+    setPathValue(doc, path, (current ?? 0) + numericArg(arg, "$inc", path));
+  },
+  $mul: (doc, path, arg) => {
+    const current = numberAt(doc, path, "$mul");
+    setPathValue(doc, path, (current ?? 0) * numericArg(arg, "$mul", path));
+  },
+  $min: (doc, path, arg) => {
+    const current = getPathValue(doc, path);
+    if (current === undefined || compareValues(arg, current) < 0) {
+      setPathValue(doc, path, cloneDeep(arg));
+    }
+  },
+  $max: (doc, path, arg) => {
+    const current = getPathValue(doc, path);
+    if (current === undefined || compareValues(arg, current) > 0) {
+      setPathValue(doc, path, cloneDeep(arg));
+    }
+  },
+  $push: (doc, path, arg) => {
+    const array = arrayAt(doc, path, "$push");
+    array.push(...eachOf(arg).map(cloneDeep));
+    if (isPlainObject(arg) && typeof arg.$slice === "number") {
+      const { $slice } = arg;
+      const kept = $slice < 0 ? array.slice($slice) : array.slice(0, $slice);
+      array.splice(0, array.length, ...kept);
+    }
+  },
+  $addToSet: (doc, path, arg) => {
+    const array = arrayAt(doc, path, "$addToSet");
+    const seen = new Set(array.map(valueKey));
+    for (const item of eachOf(arg)) {
+      const key = valueKey(item);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      array.push(cloneDeep(item));
+    }
+  },
+  $pull: (doc, path, arg) => {
+    const current = getPathValue(doc, path);
+    if (!Array.isArray(current)) return;
+    const matches = isPlainObject(arg)
+      ? createQueryMatcher(arg)
+      : (item: unknown) => valueKey(item) === valueKey(arg);
+    const kept = current.filter((item) => !matches(item));
+    current.splice(0, current.length, ...kept);
+  },
+  $rename: (doc, path, arg) => {
+    const current = getPathValue(doc, path);
+    if (current === undefined) return;
+    unsetPathValue(doc, path);
+    setPathValue(doc, String(arg), current);
+  },
+};
+
+/**
+ * Applies a MongoDB-style update document to an object. Supports `$set`, `$unset`,
+ * `$inc`, `$mul`, `$min`, `$max`, `$push` (with `$each` and `$slice`), `$addToSet`
+ * (with `$each`), `$pull` (by value or condition) and `$rename`. Paths may use
+ * the positional `$` segment, resolved against `options.query`.
+ *
+ * By default the document is left untouched and an updated deep copy is
+ * returned; with `mutate: true` the document is modified in place and returned.
+ *
+ * @throws {TypeError} If the update contains a non-operator key or a path through `__proto__`, `constructor` or `prototype`, or an operator meets a field or argument of the wrong type
+ * @throws {Error} If an operator is unsupported or a positional path has no match
+ *
+ * @example
+ * ```ts
+ * const updated = applyUpdate(user, {
+ *   $set: { "profile.bio": "Hello" },
+ *   $inc: { loginCount: 1 },
+ *   $push: { tags: { $each: ["new"], $slice: -5 } },
+ * });
+ *
+ * applyUpdate(user, { $inc: { "posts.$.views": 1 } }, {
+ *   query: { "posts.title": "Hello" },
+ *   mutate: true,
+ * });
+ * ```
+ */
+export function applyUpdate<T>(
+  doc: T,
+  update: SafeUpdate<T>,
+  options: UpdateOptions<T> = {}
+): T {
+  const target = options.mutate ? doc : cloneDeep(doc);
+  if (!isPlainObject(target)) {
+    throw new TypeError("Updates can only be applied to plain objects");
+  }
+
+  for (const [op, fields] of Object.entries(update)) {
+    if (!op.startsWith("$")) {
+      throw new TypeError(
+        `Update document keys must be operators, got "${op}"`
+      );
+    }
+    const apply = operators[op];
+    if (!apply) throw new Error(`Unsupported update operator: ${op}`);
+    if (!isPlainObject(fields)) continue;
+
+    for (const [path, arg] of Object.entries(fields)) {
+      if (arg === undefined) continue;
+      const resolved = resolvePositionalPath(doc, path, options.query);
+      assertSafePath(resolved);
+      apply(target, resolved, arg);
+    }
+  }
+
+  return target;
+}
@@ -0,0 +1,22 @@
+const UNSAFE_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Reject update paths that would reach an object's prototype, so that untrusted
+ * updates cannot pollute `Object.prototype`.
+ *
+ * @throws {TypeError} If a segment is `__proto__`, `constructor` or `prototype`
+ *
+ * @example
+ * ```ts
+ * assertSafePath("profile.bio");         // ok
+ * assertSafePath("__proto__.polluted"); // throws
+ * ```
+ */
+export function assertSafePath(path: string): void {
+  const unsafe = path
+    .split(".")
+    .find((segment) => UNSAFE_SEGMENTS.has(segment));
+  if (unsafe !== undefined) {
+    throw new TypeError(`Update paths cannot contain "${unsafe}": "${path}"`);
+  }
+}
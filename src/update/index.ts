@@ -0,0 +1,4 @@
+export { setPathValue } from "./set-path-value";
+export { unsetPathValue } from "./unset-path-value";
+export { resolvePositionalPath } from "./resolve-positional-path";
+export { applyUpdate } from "./apply-update";
@@ -0,0 +1,52 @@
+import type { SafeSiftQuery } from "../types";
+import { createQueryMatcher } from "../create-sift-function";
+import { normalizeQuery } from "../getValue";
+import { getPathValue } from "../values";
+
+/**
+ * Replace the positional `$` segment of an update path with the index of the
+ * first array element matched by the query. The element must satisfy every
+ * top-level condition the query places on that array (as if combined with
+ * `$elemMatch`); `$or` and `$nor` branches are not considered.
+ *
+ * @throws {Error} If the query has no condition on the array or no element matches
+ *
+ * @example
+ * ```ts
+ * const doc = { posts: [{ title: "A" }, { title: "B" }] };
+ * resolvePositionalPath(doc, "posts.$.title", { "posts.title": "B" });
+ * // => "posts.1.title"
+ * ```
+ */
+export function resolvePositionalPath<T>(
+  doc: T,
+  path: string,
+  query: SafeSiftQuery<T> | undefined
+): string {
+  const marker = path.indexOf(".$");
+  if (marker === -1 || (path[marker + 2] ?? ".") !== ".") return path;
+
+  const arrayPath = path.slice(0, marker);
+  const conditions: unknown[] = [];
+  for (const { path: p, op, value } of normalizeQuery(query).and) {
+    if (p === arrayPath) {
+      conditions.push(op === "$elemMatch" ? value : { [op]: value });
+    } else if (p.startsWith(`${arrayPath}.`)) {
+      conditions.push({ [p.slice(arrayPath.length + 1)]: { [op]: value } });
+    }
+  }
+
+  const array = getPathValue(doc, arrayPath);
+  const matches = conditions.length
+    ? createQueryMatcher({ $and: conditions })
+    : undefined;
+  const index =
+    matches && Array.isArray(array) ? array.findIndex((el) => matches(el)) : -1;
+
+  if (index === -1) {
+    throw new Error(
+      `The positional operator did not find the match needed from the query: "${path}"`
+    );
+  }
+  return `${arrayPath}.${index}${path.slice(marker + 2)}`;
+}
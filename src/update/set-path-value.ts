@@ -0,0 +1,76 @@
+import { isPlainObject } from "../values";
+import { assertSafePath } from "./assert-safe-path";
+
+const INDEX = /^\d+$/;
+
+function isContainer(
+  value: unknown
+): value is Record<string, unknown> | unknown[] {
+  return isPlainObject(value) || Array.isArray(value);
+}
+
+function assign(
+  container: Record<string, unknown> | unknown[],
+  segment: string,
+  value: unknown
+): void {
+  if (Array.isArray(container) && INDEX.test(segment)) {
+    const index = Number(segment);
+    // MongoDB pads arrays with null up to the written index
+    while (container.length < index) container.push(null);
+    container[index] = value;
+  } else if (Array.isArray(container)) {
+    throw new TypeError(`Cannot create field "${segment}" in an array`);
+  } else {
+    container[segment] = value;
+  }
+}
+
+/**
+ * Write a value at a dot-notation path, in place, creating missing intermediate
+ * objects. Numeric segments index into arrays.
+ *
+ * @throws {TypeError} If the path runs through a non-object value or contains `__proto__`, `constructor` or `prototype`
+ *
+ * @example
+ * ```ts
+ * const doc = { posts: [{ views: 1 }] };
+ * setPathValue(doc, "posts.0.views", 2);
+ * setPathValue(doc, "profile.bio", "Hi"); // creates `profile`
+ * ```
+ */
+export function setPathValue(
+  doc: Record<string, unknown>,
+  path: string,
+  value: unknown
+): void {
+  assertSafePath(path);
+  const segments = path.split(".");
+  const leaf = segments.pop()!;
+  let current: Record<string, unknown> | unknown[] = doc;
+
+  for (const [i, segment] of segments.entries()) {
+    const child: unknown =
+      Array.isArray(current) && INDEX.test(segment)
+        ? current[Number(segment)]
+        : Array.isArray(current)
+          ? undefined
+          : current[segment];
+
+    if (child === undefined || child === null) {
+      const created: Record<string, unknown> = {};
+      assign(current, segment, created);
+      current = created;
+    } else if (isContainer(child)) {
+      current = child;
+    } else {
+      throw new TypeError(
+        `Cannot create a field inside the non-object value at "${segments
+          .slice(0, i + 1)
+          .join(".")}"`
+      );
+    }
+  }
+
+  assign(current, leaf, value);
+}
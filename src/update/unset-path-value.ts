@@ -0,0 +1,32 @@
+import { getPathValue, isPlainObject } from "../values";
+import { assertSafePath } from "./assert-safe-path";
+
+/**
+ * Remove the field at a dot-notation path, in place. Array elements are set to
+ * `null` rather than removed, as in MongoDB. Missing paths are ignored.
+ *
+ * @throws {TypeError} If the path contains `__proto__`, `constructor` or `prototype`
+ *
+ * @example
+ * ```ts
+ * const doc = { profile: { bio: "Hi" }, tags: ["a", "b"] };
+ * unsetPathValue(doc, "profile.bio"); // => { profile: {}, ... }
+ * unsetPathValue(doc, "tags.0");      // => tags: [null, "b"]
+ * ```
+ */
+export function unsetPathValue(
+  doc: Record<string, unknown>,
+  path: string
+): void {
+  assertSafePath(path);
+  const segments = path.split(".");
+  const leaf = segments.pop()!;
+  const parent = segments.length ? getPathValue(doc, segments.join(".")) : doc;
+
+  if (Array.isArray(parent)) {
+    const index = Number(leaf);
+    if (/^\d+$/.test(leaf) && index < parent.length) parent[index] = null;
+  } else if (isPlainObject(parent)) {
+    delete parent[leaf];
+  }
+}
@@ -0,0 +1,3 @@
+export { resolveSchemaPath } from "./resolve-schema-path";
+export { validateQuery } from "./validate-query";
+export { operatorAppliesTo } from "./operator-applies-to";
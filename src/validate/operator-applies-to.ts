@@ -0,0 +1,14 @@
+import type { OperatorTarget, SchemaNode } from "../types";
+import { isArrayNode } from "./resolve-schema-path";
+
+/** True if a custom operator on `target` may test a field described by `node`. */
+export function operatorAppliesTo(
+  target: OperatorTarget,
+  node: SchemaNode
+): boolean {
+  if (target === "any" || node === "any") return true;
+  if (isArrayNode(node)) {
+    return target === "array" || operatorAppliesTo(target, node[0]);
+  }
+  return node === target;
+}
@@ -0,0 +1,44 @@
+import type { SchemaNode } from "../types";
+
+/** Narrow: true for the one-element tuple form describing array elements. */
+export function isArrayNode(node: SchemaNode): node is readonly [SchemaNode] {
+  return Array.isArray(node);
+}
+
+function child(node: SchemaNode, segment: string): SchemaNode | undefined {
+  if (node === "any") return "any";
+  if (typeof node === "string") return undefined;
+  if (isArrayNode(node)) {
+    return /^\d+$/.test(segment) ? node[0] : child(node[0], segment);
+  }
+  return Object.prototype.hasOwnProperty.call(node, segment)
+    ? node[segment]
+    : undefined;
+}
+
+/**
+ * Resolve a dot-notation path against a query schema. Paths may step into array
+ * elements implicitly (`posts.title`) or by numeric index (`posts.0.title`).
+ * Below an `any` field every path resolves to `any`.
+ *
+ * @returns The schema node at `path`, or `undefined` if the path is unknown
+ *
+ * @example
+ * ```ts
+ * const schema: SchemaNode = { posts: [{ title: "string" }] };
+ * resolveSchemaPath(schema, "posts.title"); // => "string"
+ * resolveSchemaPath(schema, "posts");       // => [{ title: "string" }]
+ * resolveSchemaPath(schema, "email");       // => undefined
+ * ```
+ */
+export function resolveSchemaPath(
+  schema: SchemaNode,
+  path: string
+): SchemaNode | undefined {
+  let node: SchemaNode | undefined = schema;
+  for (const segment of path.split(".")) {
+    if (node === undefined) return undefined;
+    node = child(node, segment);
+  }
+  return node;
+}
@@ -0,0 +1,425 @@
+import type {
+  QuerySchema,
+  QueryValidationError,
+  QueryValidationResult,
+  SafeSiftQuery,
+  SchemaNode,
+} from "../types";
+import { appendPointer, isPlainObject } from "../values";
+import { isArrayNode, resolveSchemaPath } from "./resolve-schema-path";
+import { operatorAppliesTo } from "./operator-applies-to";
+import { getCustomOperator, isBsonType } from "../operators";
+import { EXPRESSION_OPERATORS } from "../expr";
+import { typedQuery } from "../typed-query";
+
+type Report = (
+  pointer: string,
+  code: QueryValidationError["code"],
+  message: string
+) => void;
+
+function describe(node: SchemaNode): string {
+  if (typeof node === "string") return node;
+  if (isArrayNode(node)) return `${describe(node[0])}[]`;
+  return "object";
+}
+
+/** True if `value` may be compared with a field described by `node`. */
+function matchesType(value: unknown, node: SchemaNode): boolean {
+  if (node === "any" || value === null) return true;
+  if (isArrayNode(node)) {
+    return Array.isArray(value)
+      ? value.every((item) => matchesType(item, node[0]))
+      : matchesType(value, node[0]);
+  }
+  switch (node) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number";
+    case "boolean":
+      return typeof value === "boolean";
+    case "date":
+      return value instanceof Date;
+    default:
+      return isPlainObject(value);
+  }
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return (
+    isPlainObject(value) && Object.keys(value).some((k) => k.startsWith("$"))
+  );
+}
+
+function isValidRegex(value: unknown): boolean {
+  if (value instanceof RegExp) return true;
+  if (typeof value !== "string") return false;
+  try {
+    new RegExp(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function checkOperators(
+  ops: Record<string, unknown>,
+  node: SchemaNode,
+  path: string,
+  pointer: string,
+  report: Report
+): void {
+  const field = path || "value";
+  const keys = Object.keys(ops);
+  if (!keys.every((k) => k.startsWith("$"))) {
+    report(
+      pointer,
+      "invalid-value",
+      `Operators cannot be mixed with fields in the condition on ${field}`
+    );
+    return;
+  }
+
+  for (const [op, value] of Object.entries(ops)) {
+    const at = appendPointer(pointer, op);
+    switch (op) {
+      case "$eq":
+      case "$ne":
+        if (!matchesType(value, node)) {
+          report(at, "invalid-value", `${op} expects ${describe(node)}`);
+        }
+        break;
+
+      case "$gt":
+      case "$gte":
+      case "$lt":
+      case "$lte":
+        if (
+          node !== "any" &&
+          node !== "string" &&
+          node !== "number" &&
+          node !== "date"
+        ) {
+          report(
+            at,
+            "invalid-operator",
+            `${op} requires a string, number or date field, but ${field} is ${describe(
+              node
+            )}`
+          );
+        } else if (value === null || !matchesType(value, node)) {
+          report(at, "invalid-value", `${op} expects ${describe(node)}`);
+        }
+        break;
+
+      case "$in":
+      case "$nin":
+        if (!Array.isArray(value)) {
+          report(at, "invalid-value", `${op} expects an array`);
+          break;
+        }
+        value.forEach((item, i) => {
+          if (!matchesType(item, node)) {
+            report(
+              appendPointer(at, i),
+              "invalid-value",
+              `${op} items must be ${describe(node)}`
+            );
+          }
+        });
+        break;
+
+      case "$regex":
+        if (node !== "any" && node !== "string") {
+          report(
+            at,
+            "invalid-operator",
+            `$regex requires a string field, but ${field} is ${describe(node)}`
+          );
+        } else if (!isValidRegex(value)) {
+          report(
+            at,
+            "invalid-value",
+            "$regex expects a valid regular expression"
+          );
+        }
+        break;
+
+      case "$options":
+        if (!("$regex" in ops)) {
+          report(at, "invalid-operator", "$options requires $regex");
+        } else if (typeof value !== "string") {
+          report(at, "invalid-value", "$options expects a string");
+        }
+        break;
+
+      case "$exists":
+        if (typeof value !== "boolean") {
+          report(at, "invalid-value", "$exists expects a boolean");
+        }
+        break;
+
+      case "$type":
+        if (
+          !(Array.isArray(value) ? value : [value]).every((t) => isBsonType(t))
+        ) {
+          report(
+            at,
+            "invalid-value",
+            "$type expects a BSON type alias or number, or an array of them"
+          );
+        }
+        break;
+
+      case "$mod":
+        if (node !== "any" && node !== "number") {
+          report(
+            at,
+            "invalid-operator",
+            `$mod requires a number field, but ${field} is ${describe(node)}`
+          );
+        } else if (
+          !Array.isArray(value) ||
+          value.length !== 2 ||
+          !value.every((n) => typeof n === "number") ||
+          !value[0]
+        ) {
+          report(
+            at,
+            "invalid-value",
+            "$mod expects [divisor, remainder] with a non-zero divisor"
+          );
+        }
+        break;
+
+      case "$bitsAllSet":
+      case "$bitsAnySet":
+      case "$bitsAllClear":
+      case "$bitsAnyClear":
+        if (node !== "any" && node !== "number") {
+          report(
+            at,
+            "invalid-operator",
+            `${op} requires a number field, but ${field} is ${describe(node)}`
+          );
+        } else if (
+          !(Array.isArray(value) ? value : [value]).every(
+            (n) => Number.isSafeInteger(n) && n >= 0
+          )
+        ) {
+          report(
+            at,
+            "invalid-value",
+            `${op} expects a non-negative integer bitmask or an array of bit positions`
+          );
+        }
+        break;
+
+      case "$size":
+        if (node !== "any" && !isArrayNode(node)) {
+          report(
+            at,
+            "invalid-operator",
+            `$size requires an array field, but ${field} is ${describe(node)}`
+          );
+        } else if (
+          typeof value !== "number" ||
+          !Number.isInteger(value) ||
+          value < 0
+        ) {
+          report(at, "invalid-value", "$size expects a non-negative integer");
+        }
+        break;
+
+      case "$all":
+        if (node !== "any" && !isArrayNode(node)) {
+          report(
+            at,
+            "invalid-operator",
+            `$all requires an array field, but ${field} is ${describe(node)}`
+          );
+        } else if (!Array.isArray(value)) {
+          report(at, "invalid-value", "$all expects an array");
+        } else if (!value.every((item) => matchesType(item, node))) {
+          report(at, "invalid-value", `$all items must be ${describe(node)}`);
+        }
+        break;
+
+      case "$elemMatch":
+        if (node !== "any" && !isArrayNode(node)) {
+          report(
+            at,
+            "invalid-operator",
+            `$elemMatch requires an array field, but ${field} is ${describe(
+              node
+            )}`
+          );
+        } else if (!isPlainObject(value)) {
+          report(at, "invalid-value", "$elemMatch expects a query object");
+        } else {
+          const element = isArrayNode(node) ? node[0] : "any";
+          if (isOperatorObject(value)) {
+            checkOperators(value, element, "", at, report);
+          } else {
+            checkQuery(value, element, at, report);
+          }
+        }
+        break;
+
+      case "$not":
+        if (value instanceof RegExp) {
+          checkOperators({ $regex: value }, node, path, pointer, report);
+        } else if (isOperatorObject(value)) {
+          checkOperators(value, node, path, at, report);
+        } else {
+          report(
+            at,
+            "invalid-value",
+            "$not expects an operator object or regular expression"
+          );
+        }
+        break;
+
+      default: {
+        const custom = getCustomOperator(op);
+        if (!custom) {
+          report(at, "unknown-operator", `Unknown operator ${op}`);
+        } else if (!operatorAppliesTo(custom.appliesTo, node)) {
+          report(
+            at,
+            "invalid-operator",
+            `${op} requires ${custom.appliesTo === "array" ? "an" : "a"} ${
+              custom.appliesTo
+            } field, but ${field} is ${describe(node)}`
+          );
+        }
+      }
+    }
+  }
+}
+
+/** Checks the field references and operators of a `$expr` expression. */
+function checkExpression(
+  expr: unknown,
+  schema: SchemaNode,
+  pointer: string,
+  report: Report
+): void {
+  if (typeof expr === "string" && expr.startsWith("$")) {
+    if (resolveSchemaPath(schema, expr.slice(1)) === undefined) {
+      report(pointer, "unknown-path", `Unknown field path ${expr.slice(1)}`);
+    }
+  } else if (Array.isArray(expr)) {
+    expr.forEach((sub, i) =>
+      checkExpression(sub, schema, appendPointer(pointer, i), report)
+    );
+  } else if (isPlainObject(expr)) {
+    for (const [key, sub] of Object.entries(expr)) {
+      const at = appendPointer(pointer, key);
+      if (key === "$literal") continue;
+      if (key.startsWith("$") && !EXPRESSION_OPERATORS.has(key)) {
+        report(at, "unknown-operator", `Unknown expression operator ${key}`);
+        continue;
+      }
+      checkExpression(sub, schema, at, report);
+    }
+  }
+}
+
+function checkQuery(
+  query: unknown,
+  schema: SchemaNode,
+  pointer: string,
+  report: Report
+): void {
+  if (!isPlainObject(query)) {
+    report(pointer, "invalid-query", "A query must be an object");
+    return;
+  }
+
+  for (const [key, value] of Object.entries(query)) {
+    const at = appendPointer(pointer, key);
+
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      if (!Array.isArray(value) || value.length === 0) {
+        report(
+          at,
+          "invalid-value",
+          `${key} expects a non-empty array of queries`
+        );
+        continue;
+      }
+      value.forEach((sub, i) =>
+        checkQuery(sub, schema, appendPointer(at, i), report)
+      );
+      continue;
+    }
+    if (key === "$not") {
+      checkQuery(value, schema, at, report);
+      continue;
+    }
+    if (key === "$expr") {
+      checkExpression(value, schema, at, report);
+      continue;
+    }
+    if (key.startsWith("$")) {
+      report(at, "unknown-operator", `Unknown top-level operator ${key}`);
+      continue;
+    }
+
+    const node = resolveSchemaPath(schema, key);
+    if (node === undefined) {
+      report(at, "unknown-path", `Unknown field path ${key}`);
+    } else if (isOperatorObject(value)) {
+      checkOperators(value, node, key, at, report);
+    } else if (value instanceof RegExp) {
+      checkOperators({ $regex: value }, node, key, pointer, report);
+    } else if (!matchesType(value, node)) {
+      report(at, "invalid-value", `${key} expects ${describe(node)}`);
+    }
+  }
+}
+
+/**
+ * Validates an untrusted query (for example, filter JSON from a client) against
+ * a schema of the queried type. Reports unknown paths, unknown operators,
+ * operators that do not fit the field type (`$regex` on a number, `$size` on a
+ * scalar, ...), values of the wrong type and malformed `$in`/`$and`/`$or`/`$nor`
+ * arrays. The rules mirror `SafeSiftQuery<T>`, except that paths may also run
+ * through arrays (`posts.title`) as in MongoDB.
+ *
+ * Every error carries a JSON pointer to the offending part of the query.
+ *
+ * @param query - The query to check, typically parsed JSON
+ * @param schema - Field types of the queried documents
+ * @returns The query typed as `SafeSiftQuery<T>` when valid, otherwise all errors found
+ *
+ * @example
+ * ```ts
+ * const result = validateQuery(
+ *   { age: { $regex: "^1" }, $or: [] },
+ *   userSchema
+ * );
+ * // result.errors => [
+ * //   { pointer: "/age/$regex", code: "invalid-operator",
+ * //     message: "$regex requires a string field, but age is number" },
+ * //   { pointer: "/$or", code: "invalid-value",
+ * //     message: "$or expects a non-empty array of queries" },
+ * // ]
+ * ```
+ */
+export function validateQuery<T>(
+  query: unknown,
+  schema: QuerySchema<T>
+): QueryValidationResult<T> {
+  const errors: QueryValidationError[] = [];
+  const root: SchemaNode = schema;
+  checkQuery(query, root, "", (pointer, code, message) =>
+    errors.push({ pointer, code, message })
+  );
+
+  return isPlainObject(query) && !errors.length
+    ? { valid: true, query: typedQuery<T>(query), errors: [] }
+    : { valid: false, errors };
+}
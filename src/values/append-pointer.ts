@@ -0,0 +1,12 @@
+/**
+ * Append a reference token to a JSON pointer (RFC 6901), escaping `~` and `/`.
+ *
+ * @example
+ * ```ts
+ * appendPointer("/$or/0", "profile.age"); // => "/$or/0/profile.age"
+ * appendPointer("", "a/b");               // => "/a~1b"
+ * ```
+ */
+export function appendPointer(base: string, token: string | number): string {
+  return `${base}/${String(token).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+}
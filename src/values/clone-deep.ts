@@ -0,0 +1,26 @@
+import { isPlainObject } from "./is-plain-object";
+
+/**
+ * Copy plain objects, arrays and Dates recursively. Other values, including
+ * class instances, are shared with the original.
+ *
+ * @example
+ * ```ts
+ * const copy = cloneDeep({ tags: ["a"], at: new Date(0) });
+ * copy.tags.push("b"); // the original is untouched
+ * ```
+ */
+export function cloneDeep<T>(value: T): T {
+  let copy: unknown = value;
+  if (Array.isArray(value)) {
+    copy = value.map(cloneDeep);
+  } else if (value instanceof Date) {
+    copy = new Date(value.getTime());
+  } else if (isPlainObject(value)) {
+    copy = Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, cloneDeep(v)])
+    );
+  }
+  // eslint-disable-next-line no-restricted-syntax, @typescript-eslint/consistent-type-assertions
+  return copy as T;
+}
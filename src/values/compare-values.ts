@@ -0,0 +1,105 @@
+import { isPlainObject } from "./is-plain-object";
+
+/**
+ * Rank of each value type in MongoDB's cross-type comparison order.
+ * `undefined` is treated like `null`, as a missing field is in sorts.
+ */
+function typeRank(v: unknown): number {
+  if (v === null || v === undefined) return 1;
+  if (typeof v === "number" || typeof v === "bigint") return 2;
+  if (typeof v === "string") return 3;
+  if (Array.isArray(v)) return 5;
+  if (typeof v === "boolean") return 8;
+  if (v instanceof Date) return 9;
+  if (v instanceof RegExp) return 11;
+  if (isPlainObject(v)) return 4;
+  return 12;
+}
+
+function sign(n: number): number {
+  return n < 0 ? -1 : n > 0 ? 1 : 0;
+}
+
+function compareNumbers(a: number | bigint, b: number | bigint): number {
+  // NaN sorts before every other number and equals itself
+  const aNaN = typeof a === "number" && Number.isNaN(a);
+  const bNaN = typeof b === "number" && Number.isNaN(b);
+  if (aNaN || bNaN) return aNaN === bNaN ? 0 : aNaN ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareArrays(a: unknown[], b: unknown[]): number {
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    const c = compareValues(a[i], b[i]);
+    if (c) return c;
+  }
+  return sign(a.length - b.length);
+}
+
+function compareObjects(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>
+): number {
+  const aEntries = Object.entries(a);
+  const bEntries = Object.entries(b);
+  const len = Math.min(aEntries.length, bEntries.length);
+  for (let i = 0; i < len; i++) {
+    const [aKey, aVal] = aEntries[i]!;
+    const [bKey, bVal] = bEntries[i]!;
+    const rank = sign(typeRank(aVal) - typeRank(bVal));
+    if (rank) return rank;
+    const key = compareStrings(aKey, bKey);
+    if (key) return key;
+    const value = compareValues(aVal, bVal);
+    if (value) return value;
+  }
+  return sign(aEntries.length - bEntries.length);
+}
+
+/**
+ * Compare two values using MongoDB's BSON ordering, so mixed types sort
+ * deterministically: null/missing < numbers < strings < objects < arrays
+ * < booleans < Dates < RegExps.
+ *
+ * @returns A negative number if `a` sorts first, positive if `b` does, 0 if equal
+ *
+ * @example
+ * ```ts
+ * compareValues(1, "a");                 // -1
+ * compareValues(null, 0);                // -1
+ * compareValues(new Date(1), new Date(2)); // -1
+ * [3, null, "x", 1].sort(compareValues); // [null, 1, 3, "x"]
+ * ```
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const rank = sign(typeRank(a) - typeRank(b));
+  if (rank) return rank;
+
+  if (a === null || a === undefined) return 0;
+  if (
+    (typeof a === "number" || typeof a === "bigint") &&
+    (typeof b === "number" || typeof b === "bigint")
+  ) {
+    return compareNumbers(a, b);
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return compareStrings(a, b);
+  }
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return a === b ? 0 : a ? 1 : -1;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return compareNumbers(a.getTime(), b.getTime());
+  }
+  if (a instanceof RegExp && b instanceof RegExp) {
+    return compareStrings(a.source, b.source) || compareStrings(a.flags, b.flags);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) return compareArrays(a, b);
+  if (isPlainObject(a) && isPlainObject(b)) return compareObjects(a, b);
+  return 0;
+}
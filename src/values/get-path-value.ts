@@ -0,0 +1,28 @@
+import { isPlainObject } from "./is-plain-object";
+
+/**
+ * Resolve a dot-notation path to the single value it addresses. Unlike
+ * `getPathValues`, arrays do not fan out: only numeric segments index into them.
+ *
+ * @example
+ * ```ts
+ * getPathValue({ posts: [{ views: 1 }, { views: 5 }] }, "posts.1.views");
+ * // => 5
+ *
+ * getPathValue({ posts: [{ views: 1 }] }, "posts.views");
+ * // => undefined
+ * ```
+ */
+export function getPathValue(obj: unknown, path: string): unknown {
+  let current = obj;
+  for (const segment of path.split(".")) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[Number(segment)];
+    } else if (isPlainObject(current)) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
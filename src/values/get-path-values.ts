@@ -0,0 +1,43 @@
+import { isPlainObject } from "./is-plain-object";
+
+/**
+ * Resolve a dot-notation path against a document, the way MongoDB does.
+ * Arrays met along the way fan out: the remaining path is resolved against each
+ * element, and numeric segments index into the array. Missing fields yield no value.
+ *
+ * @example
+ * ```ts
+ * getPathValues({ profile: { age: 30 } }, "profile.age");
+ * // => [30]
+ *
+ * getPathValues({ posts: [{ views: 1 }, { views: 5 }] }, "posts.views");
+ * // => [1, 5]
+ *
+ * getPathValues({ name: "Alice" }, "profile.age");
+ * // => []
+ * ```
+ */
+export function getPathValues(obj: unknown, path: string): unknown[] {
+  let current: unknown[] = [obj];
+
+  for (const segment of path.split(".")) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (Array.isArray(value)) {
+        if (/^\d+$/.test(segment)) {
+          const index = Number(segment);
+          if (index < value.length) next.push(value[index]);
+          continue;
+        }
+        for (const item of value) {
+          if (isPlainObject(item) && segment in item) next.push(item[segment]);
+        }
+        continue;
+      }
+      if (isPlainObject(value) && segment in value) next.push(value[segment]);
+    }
+    current = next;
+  }
+
+  return current;
+}
@@ -0,0 +1,8 @@
+export { isPlainObject } from "./is-plain-object";
+export { getPathValues } from "./get-path-values";
+export { compareValues } from "./compare-values";
+export { valueKey } from "./value-key";
+export { getPathValue } from "./get-path-value";
+export { cloneDeep } from "./clone-deep";
+export { appendPointer } from "./append-pointer";
+export { parsePointer } from "./parse-pointer";
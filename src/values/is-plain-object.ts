@@ -0,0 +1,4 @@
+/** Narrow: true only for plain object literals (not Date/RegExp/Map/etc.) */
+export function isPlainObject(x: unknown): x is Record<string, unknown> {
+  return Object.prototype.toString.call(x) === "[object Object]";
+}
@@ -0,0 +1,19 @@
+/**
+ * Split a JSON pointer (RFC 6901) into its unescaped reference tokens.
+ *
+ * @example
+ * ```ts
+ * parsePointer("/$or/0/profile.age"); // => ["$or", "0", "profile.age"]
+ * parsePointer("/a~1b");              // => ["a/b"]
+ * ```
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new SyntaxError(`Invalid JSON pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
@@ -0,0 +1,28 @@
+import { isPlainObject } from "./is-plain-object";
+
+/**
+ * Serialize a value into a string that is equal for equal values, so values
+ * can key a `Map` or `Set`. Dates and RegExps compare by value, `undefined`
+ * collapses into `null`, and object key order is significant, as in MongoDB.
+ *
+ * @example
+ * ```ts
+ * valueKey({ a: 1, at: new Date(0) }) === valueKey({ a: 1, at: new Date(0) }); // true
+ * valueKey(1) === valueKey("1"); // false
+ * ```
+ */
+export function valueKey(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (value instanceof Date) return `date:${value.getTime()}`;
+  if (value instanceof RegExp) return `regex:${value.toString()}`;
+  if (Array.isArray(value)) return `[${value.map(valueKey).join(",")}]`;
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).map(
+      ([k, v]) => `${JSON.stringify(k)}:${valueKey(v)}`
+    );
+    return `{${entries.join(",")}}`;
+  }
+  if (typeof value === "bigint") return `number:${value.toString()}`;
+  if (typeof value === "number") return `number:${value}`;
+  return `${typeof value}:${String(value)}`;
+}